@@ -23,24 +23,33 @@ import PaymentCCAvenue from "@/pages/applications/payment-ccavenue";
 import PaymentPayU from "@/pages/applications/payment-payu";
 import PublicProperties from "@/pages/public/properties";
 import PublicPropertyDetail from "@/pages/public/property-detail";
+import VerifyCertificate from "@/pages/public/verify-certificate";
 import AnalyticsPage from "@/pages/analytics";
 import WorkflowMonitoring from "@/pages/workflow-monitoring";
 import PaymentVerification from "@/pages/payment-verification";
 import AdminUsers from "@/pages/admin/users";
 import AdminConsole from "@/pages/admin/console";
 import AdminLGDImport from "@/pages/admin/lgd-import";
+import PaymentReconciliation from "@/pages/admin/payment-reconciliation";
+import RefundManagement from "@/pages/admin/refunds";
+import TreasuryRouting from "@/pages/admin/treasury-routing";
+import SettlementStatementPage from "@/pages/admin/settlement-statement";
 import SuperAdminConsole from "@/pages/admin/super-admin-console";
 import SuperAdminDashboard from "@/pages/admin/super-admin-dashboard";
+import FeeSchedules from "@/pages/admin/fee-schedules";
 import DADashboard from "@/pages/da/dashboard";
 import DAApplicationDetail from "@/pages/da/application-detail";
 import DAInspections from "@/pages/da/inspections";
 import DAInspectionReport from "@/pages/da/inspection-report";
 import DAProfile from "@/pages/da/profile";
+import DAOfflinePayments from "@/pages/da/offline-payments";
 import DTDODashboard from "@/pages/dtdo/dashboard";
 import DTDOApplicationReview from "@/pages/dtdo/application-review";
 import DTDOScheduleInspection from "@/pages/dtdo/schedule-inspection";
 import DTDOInspectionReview from "@/pages/dtdo/inspection-review";
 import DTDOProfile from "@/pages/dtdo/profile";
+import DTDOCertificates from "@/pages/dtdo/certificates";
+import DTDORefunds from "@/pages/dtdo/refunds";
 import TestAPI from "@/pages/test-api";
 import HimKoshTest from "@/pages/himkosh-test";
 import type { User } from "@shared/schema";
@@ -96,6 +105,7 @@ function Router() {
       <Route path="/himkosh-test" component={HimKoshTest} />
       <Route path="/properties" component={PublicProperties} />
       <Route path="/properties/:id" component={PublicPropertyDetail} />
+      <Route path="/verify" component={VerifyCertificate} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
       
@@ -153,6 +163,18 @@ function Router() {
       <Route path="/admin/lgd-import">
         {() => <ProtectedRoute component={AdminLGDImport} allowedRoles={['admin', 'super_admin']} />}
       </Route>
+      <Route path="/admin/payment-reconciliation">
+        {() => <ProtectedRoute component={PaymentReconciliation} allowedRoles={['admin', 'super_admin']} />}
+      </Route>
+      <Route path="/admin/settlement-statement">
+        {() => <ProtectedRoute component={SettlementStatementPage} allowedRoles={['admin', 'super_admin']} />}
+      </Route>
+      <Route path="/admin/refunds">
+        {() => <ProtectedRoute component={RefundManagement} allowedRoles={['state_officer', 'admin', 'super_admin']} />}
+      </Route>
+      <Route path="/admin/treasury-routing">
+        {() => <ProtectedRoute component={TreasuryRouting} allowedRoles={['admin', 'super_admin']} />}
+      </Route>
       
       {/* Super Admin Only Routes */}
       <Route path="/admin/super-dashboard">
@@ -161,6 +183,9 @@ function Router() {
       <Route path="/admin/super-console">
         {() => <ProtectedRoute component={SuperAdminConsole} allowedRoles={['super_admin']} />}
       </Route>
+      <Route path="/admin/fee-schedules">
+        {() => <ProtectedRoute component={FeeSchedules} allowedRoles={['super_admin']} />}
+      </Route>
 
       {/* Dealing Assistant Routes */}
       <Route path="/da/dashboard">
@@ -175,6 +200,9 @@ function Router() {
       <Route path="/da/inspections">
         {() => <ProtectedRoute component={DAInspections} allowedRoles={['dealing_assistant']} />}
       </Route>
+      <Route path="/da/offline-payments">
+        {() => <ProtectedRoute component={DAOfflinePayments} allowedRoles={['dealing_assistant']} />}
+      </Route>
       <Route path="/da/inspections/:id">
         {() => <ProtectedRoute component={DAInspectionReport} allowedRoles={['dealing_assistant']} />}
       </Route>
@@ -195,6 +223,12 @@ function Router() {
       <Route path="/dtdo/profile">
         {() => <ProtectedRoute component={DTDOProfile} allowedRoles={['district_tourism_officer', 'district_officer']} />}
       </Route>
+      <Route path="/dtdo/certificates">
+        {() => <ProtectedRoute component={DTDOCertificates} allowedRoles={['district_tourism_officer', 'district_officer']} />}
+      </Route>
+      <Route path="/dtdo/refunds">
+        {() => <ProtectedRoute component={DTDORefunds} allowedRoles={['district_tourism_officer', 'district_officer']} />}
+      </Route>
       
       <Route component={NotFound} />
     </Switch>
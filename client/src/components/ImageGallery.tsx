@@ -5,8 +5,10 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 
 interface ImageGalleryProps {
   images: Array<{
-    filePath: string;
     fileName: string;
+    filePath?: string; // Original in object storage
+    url?: string; // Web-size copy, used instead of the original when given
+    thumbnailUrl?: string;
   }>;
   open: boolean;
   onClose: () => void;
@@ -32,8 +34,8 @@ export function ImageGallery({ images, open, onClose, initialIndex = 0 }: ImageG
     setCurrentIndex((prev) => (prev === images.length - 1 ? 0 : prev + 1));
   };
 
-  const getImageUrl = (filePath: string) => {
-    return `/api/object-storage/view?path=${encodeURIComponent(filePath)}`;
+  const getImageUrl = (image: ImageGalleryProps["images"][number]) => {
+    return image.url || `/api/object-storage/view?path=${encodeURIComponent(image.filePath || "")}`;
   };
 
   if (images.length === 0) return null;
@@ -75,7 +77,7 @@ export function ImageGallery({ images, open, onClose, initialIndex = 0 }: ImageG
 
             {/* Current image */}
             <img
-              src={getImageUrl(images[currentIndex].filePath)}
+              src={getImageUrl(images[currentIndex])}
               alt={images[currentIndex].fileName}
               className="max-h-full max-w-full object-contain"
               data-testid={`image-current-${currentIndex}`}
@@ -111,7 +113,7 @@ export function ImageGallery({ images, open, onClose, initialIndex = 0 }: ImageG
                     }`}
                   >
                     <img
-                      src={getImageUrl(image.filePath)}
+                      src={image.thumbnailUrl || getImageUrl(image)}
                       alt={image.fileName}
                       className="w-full h-full object-cover"
                     />
@@ -17,6 +17,7 @@ interface ObjectUploaderProps {
   multiple?: boolean;
   maxFiles?: number;
   fileType?: string;
+  applicationId?: string; // Scope uploads to an application (required where the server records them as documents)
   onUploadComplete: (files: UploadedFileMetadata[]) => void;
   existingFiles?: UploadedFileMetadata[];
   className?: string;
@@ -28,6 +29,7 @@ export function ObjectUploader({
   multiple = false,
   maxFiles = 1,
   fileType = "document",
+  applicationId,
   onUploadComplete,
   existingFiles = [],
   className = "",
@@ -63,7 +65,11 @@ export function ObjectUploader({
 
       for (const file of files) {
         // Get signed upload URL from server
-        const urlResponse = await fetch(`/api/upload-url?fileType=${fileType}`);
+        const params = new URLSearchParams({ fileType });
+        if (applicationId) {
+          params.set("applicationId", applicationId);
+        }
+        const urlResponse = await fetch(`/api/upload-url?${params.toString()}`);
         if (!urlResponse.ok) {
           throw new Error("Failed to get upload URL");
         }
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ObjectUploader, UploadedFileMetadata } from "@/components/ObjectUploader";
+import { AlertTriangle, CheckCircle2, Clock, FileText, Loader2, MessageSquare, RotateCcw, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import type { Objection, Clarification } from "@shared/schema";
+
+interface ObjectionWithClarifications extends Objection {
+  clarifications: Clarification[];
+}
+
+interface ObjectionsPanelProps {
+  applicationId: string;
+  // owner: respond to open objections; dtdo: review submitted clarifications
+  mode: "owner" | "dtdo";
+  canRespond?: boolean;
+}
+
+const OBJECTION_STATUS_CONFIG: Record<string, { label: string; className: string }> = {
+  pending: { label: "Awaiting Response", className: "bg-orange-50 text-orange-700 dark:bg-orange-950/20" },
+  responded: { label: "Under Review", className: "bg-blue-50 text-blue-700 dark:bg-blue-950/20" },
+  resolved: { label: "Resolved", className: "bg-green-50 text-green-700 dark:bg-green-950/20" },
+  rejected: { label: "Not Accepted", className: "bg-red-50 text-red-700 dark:bg-red-950/20" },
+  escalated: { label: "Overdue", className: "bg-red-50 text-red-700 dark:bg-red-950/20" },
+};
+
+const REVIEW_STATUS_LABELS: Record<string, string> = {
+  accepted: "Accepted",
+  rejected: "Rejected",
+  needs_revision: "Revision Requested",
+};
+
+export function ObjectionsPanel({ applicationId, mode, canRespond = false }: ObjectionsPanelProps) {
+  const { toast } = useToast();
+  const [responseText, setResponseText] = useState<Record<string, string>>({});
+  const [responseFiles, setResponseFiles] = useState<Record<string, UploadedFileMetadata[]>>({});
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ objections: ObjectionWithClarifications[] }>({
+    queryKey: ["/api/applications", applicationId, "objections"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/applications", applicationId, "objections"] });
+  };
+
+  const submitClarificationMutation = useMutation({
+    mutationFn: async (objectionId: string) => {
+      const response = await apiRequest("POST", `/api/applications/${applicationId}/objections/${objectionId}/clarifications`, {
+        clarificationText: responseText[objectionId] || "",
+        documents: responseFiles[objectionId] || [],
+      });
+      return response.json();
+    },
+    onSuccess: (_, objectionId) => {
+      invalidate();
+      setResponseText(prev => ({ ...prev, [objectionId]: "" }));
+      setResponseFiles(prev => ({ ...prev, [objectionId]: [] }));
+      toast({
+        title: "Clarification Submitted",
+        description: "Your response has been sent to the District Tourism Officer.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Submission failed",
+        description: error.message || "Failed to submit clarification. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewClarificationMutation = useMutation({
+    mutationFn: async ({ clarificationId, decision }: { clarificationId: string; decision: "accepted" | "rejected" | "needs_revision" }) => {
+      const response = await apiRequest("POST", `/api/dtdo/clarifications/${clarificationId}/review`, {
+        decision,
+        notes: reviewNotes[clarificationId] || "",
+      });
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      invalidate();
+      setReviewNotes(prev => ({ ...prev, [variables.clarificationId]: "" }));
+      toast({
+        title: "Clarification Reviewed",
+        description: `Clarification marked as ${REVIEW_STATUS_LABELS[variables.decision].toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review failed",
+        description: error.message || "Failed to review clarification. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const objectionList = data?.objections || [];
+  if (objectionList.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-orange-200 dark:border-orange-800">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-orange-600" />
+          <CardTitle>Objections</CardTitle>
+        </div>
+        <CardDescription>
+          {mode === "owner"
+            ? "The District Tourism Officer has raised the following objections. Respond to each one before the deadline."
+            : "Review the applicant's clarifications. All objections must be resolved before re-inspection."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {objectionList.map((objection) => {
+          const statusConfig = OBJECTION_STATUS_CONFIG[objection.status || "pending"] || { label: objection.status, className: "" };
+          const isOpen = objection.status === "pending" || objection.status === "escalated";
+
+          return (
+            <div key={objection.id} className="border rounded-lg p-4 space-y-3" data-testid={`objection-${objection.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">{objection.objectionTitle}</p>
+                  <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{objection.objectionDescription}</p>
+                </div>
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  <Badge variant="outline" className={statusConfig.className}>{statusConfig.label}</Badge>
+                  <Badge variant="outline" className="capitalize">{objection.severity}</Badge>
+                </div>
+              </div>
+
+              {objection.responseDeadline && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  Respond by {format(new Date(objection.responseDeadline), "MMM dd, yyyy")}
+                </p>
+              )}
+
+              {objection.resolutionNotes && (
+                <p className="text-sm bg-muted/50 rounded p-2">
+                  <span className="font-medium">DTDO: </span>{objection.resolutionNotes}
+                </p>
+              )}
+
+              {/* Clarification history */}
+              {objection.clarifications.map((clarification) => (
+                <div key={clarification.id} className="bg-muted/30 rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MessageSquare className="w-3 h-3" />
+                      Clarification submitted {format(new Date(clarification.submittedDate), "MMM dd, yyyy")}
+                    </p>
+                    {clarification.reviewStatus && (
+                      <Badge variant={clarification.reviewStatus === "accepted" ? "default" : "secondary"}>
+                        {REVIEW_STATUS_LABELS[clarification.reviewStatus] || clarification.reviewStatus}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{clarification.clarificationText}</p>
+                  {clarification.supportingDocuments && clarification.supportingDocuments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {clarification.supportingDocuments.map((doc, index) => (
+                        <a
+                          key={doc.documentId || index}
+                          href={`/api/object-storage/view?path=${encodeURIComponent(doc.fileUrl)}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <FileText className="w-3 h-3" />
+                          {doc.fileName}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {clarification.reviewNotes && (
+                    <p className="text-xs text-muted-foreground">Review notes: {clarification.reviewNotes}</p>
+                  )}
+
+                  {/* DTDO review actions */}
+                  {mode === "dtdo" && !clarification.reviewStatus && (
+                    <div className="space-y-2 pt-2">
+                      <Textarea
+                        placeholder="Review notes (required when rejecting or requesting revision)"
+                        value={reviewNotes[clarification.id] || ""}
+                        onChange={(e) => setReviewNotes(prev => ({ ...prev, [clarification.id]: e.target.value }))}
+                        rows={2}
+                        data-testid={`input-review-notes-${clarification.id}`}
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewClarificationMutation.mutate({ clarificationId: clarification.id, decision: "accepted" })}
+                          disabled={reviewClarificationMutation.isPending}
+                          data-testid={`button-accept-clarification-${clarification.id}`}
+                        >
+                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reviewClarificationMutation.mutate({ clarificationId: clarification.id, decision: "needs_revision" })}
+                          disabled={reviewClarificationMutation.isPending}
+                          data-testid={`button-revise-clarification-${clarification.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Request Revision
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => reviewClarificationMutation.mutate({ clarificationId: clarification.id, decision: "rejected" })}
+                          disabled={reviewClarificationMutation.isPending}
+                          data-testid={`button-reject-clarification-${clarification.id}`}
+                        >
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {/* Owner response form */}
+              {mode === "owner" && canRespond && isOpen && (
+                <div className="space-y-3 pt-2 border-t">
+                  <div className="space-y-2">
+                    <Label htmlFor={`clarification-${objection.id}`}>Your Clarification</Label>
+                    <Textarea
+                      id={`clarification-${objection.id}`}
+                      placeholder="Explain how this objection has been addressed..."
+                      value={responseText[objection.id] || ""}
+                      onChange={(e) => setResponseText(prev => ({ ...prev, [objection.id]: e.target.value }))}
+                      rows={3}
+                      data-testid={`input-clarification-${objection.id}`}
+                    />
+                  </div>
+                  <ObjectUploader
+                    label="Supporting Documents"
+                    existingFiles={responseFiles[objection.id] || []}
+                    onUploadComplete={(files) => setResponseFiles(prev => ({ ...prev, [objection.id]: files }))}
+                    fileType="documents/clarifications"
+                    applicationId={applicationId}
+                    accept="application/pdf,image/*"
+                    multiple={true}
+                    maxFiles={5}
+                  />
+                  <Button
+                    onClick={() => submitClarificationMutation.mutate(objection.id)}
+                    disabled={submitClarificationMutation.isPending || (responseText[objection.id] || "").trim().length < 10}
+                    data-testid={`button-submit-clarification-${objection.id}`}
+                  >
+                    {submitClarificationMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Submit Clarification
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, Receipt } from "lucide-react";
+import { format } from "date-fns";
+
+interface PaymentReceipt {
+  paymentId: string;
+  receiptNumber: string | null;
+  receiptIssuedAt: string | null;
+  amount: string;
+  paymentGateway: string | null;
+  gatewayTransactionId: string | null;
+  paymentStatus: string;
+  completedAt: string | null;
+}
+
+interface PaymentReceiptsCardProps {
+  applicationId: string;
+}
+
+const REFUND_BADGES: Record<string, string> = {
+  partially_refunded: "Partially Refunded",
+  refunded: "Refunded",
+};
+
+/**
+ * E-receipts for an application's confirmed payments (hidden until there is one)
+ */
+export function PaymentReceiptsCard({ applicationId }: PaymentReceiptsCardProps) {
+  const { data } = useQuery<{ receipts: PaymentReceipt[] }>({
+    queryKey: ["/api/applications", applicationId, "receipts"],
+  });
+
+  const receipts = data?.receipts || [];
+  if (receipts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-primary" />
+          <CardTitle>Payment Receipts</CardTitle>
+        </div>
+        <CardDescription>Official e-receipts for fees paid on this application</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {receipts.map((receipt) => (
+          <div key={receipt.paymentId} className="flex items-center justify-between gap-3 p-3 bg-muted/30 rounded-lg" data-testid={`receipt-${receipt.paymentId}`}>
+            <div className="min-w-0">
+              <p className="font-mono text-sm font-medium truncate">{receipt.receiptNumber || "Receipt pending"}</p>
+              <p className="text-xs text-muted-foreground">
+                ₹{parseFloat(receipt.amount).toLocaleString("en-IN")}
+                {receipt.paymentGateway && <span className="capitalize"> · {receipt.paymentGateway}</span>}
+                {receipt.completedAt && ` · ${format(new Date(receipt.completedAt), "MMM dd, yyyy")}`}
+              </p>
+              {REFUND_BADGES[receipt.paymentStatus] && (
+                <Badge variant="outline" className="mt-1 text-xs">{REFUND_BADGES[receipt.paymentStatus]}</Badge>
+              )}
+            </div>
+            <Button size="sm" variant="outline" asChild data-testid={`button-download-receipt-${receipt.paymentId}`}>
+              <a href={`/api/payments/${receipt.paymentId}/receipt/pdf`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Receipt
+              </a>
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
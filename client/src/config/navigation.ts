@@ -1,4 +1,4 @@
-import { Home, FileText, Bell, BarChart3, BarChart, Users, ClipboardList, Settings, Database, ClipboardCheck, User, Activity, MapPin } from "lucide-react";
+import { Home, FileText, Bell, BarChart3, BarChart, Users, ClipboardList, Settings, Database, ClipboardCheck, User, Activity, MapPin, Award, IndianRupee, Receipt, Undo2, Landmark, FileSpreadsheet } from "lucide-react";
 import { LucideIcon } from "lucide-react";
 
 export interface NavItem {
@@ -57,6 +57,11 @@ export const officerNavigation: NavSection[] = [
         url: "/analytics",
         icon: BarChart3,
       },
+      {
+        title: "Refunds",
+        url: "/admin/refunds",
+        icon: Undo2,
+      },
     ],
   },
 ];
@@ -81,6 +86,26 @@ export const adminNavigation: NavSection[] = [
         url: "/admin/console",
         icon: Database,
       },
+      {
+        title: "Payment Reconciliation",
+        url: "/admin/payment-reconciliation",
+        icon: Receipt,
+      },
+      {
+        title: "Settlement Statement",
+        url: "/admin/settlement-statement",
+        icon: FileSpreadsheet,
+      },
+      {
+        title: "Refunds",
+        url: "/admin/refunds",
+        icon: Undo2,
+      },
+      {
+        title: "Treasury Routing",
+        url: "/admin/treasury-routing",
+        icon: Landmark,
+      },
     ],
   },
 ];
@@ -110,6 +135,31 @@ export const superAdminNavigation: NavSection[] = [
         url: "/admin/super-console",
         icon: Settings,
       },
+      {
+        title: "Fee Schedules",
+        url: "/admin/fee-schedules",
+        icon: IndianRupee,
+      },
+      {
+        title: "Payment Reconciliation",
+        url: "/admin/payment-reconciliation",
+        icon: Receipt,
+      },
+      {
+        title: "Settlement Statement",
+        url: "/admin/settlement-statement",
+        icon: FileSpreadsheet,
+      },
+      {
+        title: "Refunds",
+        url: "/admin/refunds",
+        icon: Undo2,
+      },
+      {
+        title: "Treasury Routing",
+        url: "/admin/treasury-routing",
+        icon: Landmark,
+      },
     ],
   },
   {
@@ -144,6 +194,11 @@ export const daNavigation: NavSection[] = [
         url: "/da/inspections",
         icon: ClipboardCheck,
       },
+      {
+        title: "Offline Payments",
+        url: "/da/offline-payments",
+        icon: Receipt,
+      },
       {
         title: "Analytics",
         url: "/analytics",
@@ -173,6 +228,16 @@ export const dtdoNavigation: NavSection[] = [
         url: "/dtdo/dashboard",
         icon: Home,
       },
+      {
+        title: "Certificates",
+        url: "/dtdo/certificates",
+        icon: Award,
+      },
+      {
+        title: "Refunds",
+        url: "/dtdo/refunds",
+        icon: Undo2,
+      },
       {
         title: "Analytics",
         url: "/analytics",
@@ -0,0 +1,90 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type PaymentGatewayId = "himkosh" | "razorpay" | "ccavenue" | "payu";
+
+export interface PaymentGatewayOption {
+  id: PaymentGatewayId;
+  label: string;
+  isMock: boolean;
+  isDefault: boolean;
+}
+
+interface GatewayRedirect {
+  url: string;
+  method: "GET" | "POST";
+  fields: Record<string, string>;
+}
+
+interface GatewayInitiation {
+  paymentId: string;
+  gatewayOrderId: string;
+  redirect: GatewayRedirect;
+  amount: number;
+  actualAmount: number;
+  isTestMode: boolean;
+  isMock: boolean;
+}
+
+// Hand the browser off to the gateway's hosted checkout
+function submitGatewayRedirect(redirect: GatewayRedirect) {
+  const form = document.createElement("form");
+  form.method = redirect.method;
+  form.action = redirect.url;
+  form.style.display = "none";
+  for (const [name, value] of Object.entries(redirect.fields)) {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+  document.body.appendChild(form);
+  form.submit();
+}
+
+export function usePaymentGateways() {
+  return useQuery<{ gateways: PaymentGatewayOption[] }>({
+    queryKey: ["/api/payments/gateways"],
+  });
+}
+
+/**
+ * Initiate a payment through a server-side gateway and redirect to its checkout
+ */
+export function useGatewayCheckout(gatewayId: PaymentGatewayId, applicationId: string | undefined) {
+  const { toast } = useToast();
+  const { data: gatewaysData, isLoading } = usePaymentGateways();
+  const gateway = gatewaysData?.gateways.find((option) => option.id === gatewayId);
+
+  const checkout = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/payments/${gatewayId}/initiate`, { applicationId });
+      return response.json() as Promise<GatewayInitiation>;
+    },
+    onSuccess: (initiation) => {
+      if (initiation.isTestMode) {
+        toast({
+          title: "Test Payment Mode",
+          description: `Sending ₹${initiation.amount} to the gateway (actual fee: ₹${initiation.actualAmount})`,
+        });
+      }
+      submitGatewayRedirect(initiation.redirect);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Payment Failed",
+        description: error.message || "Failed to initiate payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    gateway,
+    isEnabled: !!gateway,
+    isLoading,
+    checkout,
+  };
+}
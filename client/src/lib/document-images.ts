@@ -0,0 +1,20 @@
+import type { Document, ImageRenditionSize } from "@shared/schema";
+
+/**
+ * Original file as uploaded (officers only)
+ */
+export function getFileViewUrl(filePath: string): string {
+  return `/api/object-storage/view?path=${encodeURIComponent(filePath)}`;
+}
+
+/**
+ * Thumbnail or web-size copy of a photo document; photos not processed yet fall back to the original
+ */
+export function getPhotoUrl(
+  document: Pick<Document, "id" | "filePath" | "renditions">,
+  size: ImageRenditionSize
+): string {
+  return document.renditions?.[size]
+    ? `/api/documents/${document.id}/renditions/${size}`
+    : getFileViewUrl(document.filePath);
+}
@@ -0,0 +1,464 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { IndianRupee, Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { FeeSchedule } from "@shared/schema";
+import type { FeeScheduleRates, CategoryType, LocationType } from "@shared/fee-calculator";
+
+const CATEGORIES: { value: CategoryType; label: string }[] = [
+  { value: "diamond", label: "Diamond" },
+  { value: "gold", label: "Gold" },
+  { value: "silver", label: "Silver" },
+];
+
+const LOCATIONS: { value: LocationType; label: string }[] = [
+  { value: "mc", label: "Municipal Corporation" },
+  { value: "tcp", label: "TCP / SADA / NP" },
+  { value: "gp", label: "Gram Panchayat" },
+];
+
+// Rates are stored as fractions but edited as percentages
+interface ScheduleFormState {
+  effectiveFrom: string;
+  notes: string;
+  feeMatrix: FeeScheduleRates["feeMatrix"];
+  threeYearDiscountPercent: number;
+  femaleOwnerDiscountPercent: number;
+  pangiDiscountPercent: number;
+  gracePeriodDays: number;
+  monthlyPenaltyPercent: number;
+  maxPenaltyPercent: number;
+}
+
+const toPercent = (rate: number) => Math.round(rate * 10000) / 100;
+const toRate = (percent: number) => Math.round(percent * 100) / 10000;
+
+function formStateFrom(rates: FeeScheduleRates, effectiveFrom: string, notes: string): ScheduleFormState {
+  return {
+    effectiveFrom,
+    notes,
+    feeMatrix: {
+      diamond: { ...rates.feeMatrix.diamond },
+      gold: { ...rates.feeMatrix.gold },
+      silver: { ...rates.feeMatrix.silver },
+    },
+    threeYearDiscountPercent: toPercent(rates.threeYearDiscountRate),
+    femaleOwnerDiscountPercent: toPercent(rates.femaleOwnerDiscountRate),
+    pangiDiscountPercent: toPercent(rates.pangiDiscountRate),
+    gracePeriodDays: rates.lateFee.gracePeriodDays,
+    monthlyPenaltyPercent: toPercent(rates.lateFee.monthlyPenaltyRate),
+    maxPenaltyPercent: toPercent(rates.lateFee.maxPenaltyRate),
+  };
+}
+
+function ratesFrom(form: ScheduleFormState): FeeScheduleRates {
+  return {
+    feeMatrix: form.feeMatrix,
+    threeYearDiscountRate: toRate(form.threeYearDiscountPercent),
+    femaleOwnerDiscountRate: toRate(form.femaleOwnerDiscountPercent),
+    pangiDiscountRate: toRate(form.pangiDiscountPercent),
+    lateFee: {
+      gracePeriodDays: form.gracePeriodDays,
+      monthlyPenaltyRate: toRate(form.monthlyPenaltyPercent),
+      maxPenaltyRate: toRate(form.maxPenaltyPercent),
+    },
+  };
+}
+
+export default function FeeSchedules() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<FeeSchedule | null>(null);
+  const [formState, setFormState] = useState<ScheduleFormState | null>(null);
+
+  const { data, isLoading } = useQuery<{ schedules: FeeSchedule[]; currentVersion: number }>({
+    queryKey: ["/api/admin/fee-schedules"],
+  });
+
+  const schedules = data?.schedules || [];
+  const currentSchedule = schedules.find((s) => s.version === data?.currentVersion);
+
+  const getStatus = (schedule: FeeSchedule) => {
+    if (schedule.version === data?.currentVersion) {
+      return { label: "In Force", variant: "default" as const };
+    }
+    if (new Date(schedule.effectiveFrom) > new Date()) {
+      return { label: "Scheduled", variant: "secondary" as const };
+    }
+    return { label: "Superseded", variant: "outline" as const };
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: ScheduleFormState) => {
+      const payload = {
+        effectiveFrom: new Date(form.effectiveFrom).toISOString(),
+        notes: form.notes,
+        rates: ratesFrom(form),
+      };
+      const response = editingSchedule
+        ? await apiRequest("PUT", `/api/admin/fee-schedules/${editingSchedule.id}`, payload)
+        : await apiRequest("POST", "/api/admin/fee-schedules", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/fee-schedules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-schedules/current"] });
+      toast({
+        title: editingSchedule ? "Fee Schedule Updated" : "Fee Schedule Created",
+        description: "The new rates will apply to applications submitted on or after the effective date.",
+      });
+      setDialogOpen(false);
+      setEditingSchedule(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save fee schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/fee-schedules/${scheduleId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/fee-schedules"] });
+      toast({
+        title: "Fee Schedule Withdrawn",
+        description: "The scheduled rates will not take effect.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Withdraw Failed",
+        description: error.message || "Failed to withdraw fee schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    if (!currentSchedule) return;
+    setEditingSchedule(null);
+    setFormState(formStateFrom(currentSchedule.rates, "", ""));
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (schedule: FeeSchedule) => {
+    setEditingSchedule(schedule);
+    setFormState(formStateFrom(
+      schedule.rates,
+      format(new Date(schedule.effectiveFrom), "yyyy-MM-dd'T'HH:mm"),
+      schedule.notes || "",
+    ));
+    setDialogOpen(true);
+  };
+
+  const updateForm = (updates: Partial<ScheduleFormState>) => {
+    setFormState((prev) => prev ? { ...prev, ...updates } : prev);
+  };
+
+  const updateMatrix = (category: CategoryType, location: LocationType, value: number) => {
+    setFormState((prev) => prev ? {
+      ...prev,
+      feeMatrix: {
+        ...prev.feeMatrix,
+        [category]: { ...prev.feeMatrix[category], [location]: value },
+      },
+    } : prev);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading fee schedules...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+              <IndianRupee className="w-8 h-8 text-primary" />
+              Fee Schedules
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Registration fee rates by version. Each application is charged under the schedule in force when it is submitted.
+            </p>
+          </div>
+          <Button onClick={openCreateDialog} disabled={!currentSchedule} data-testid="button-create-fee-schedule">
+            <Plus className="w-4 h-4 mr-2" />
+            New Schedule
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule Versions</CardTitle>
+            <CardDescription>
+              Schedules can be edited or withdrawn until their effective date. Once in force they are locked.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Effective From</TableHead>
+                    <TableHead>Diamond (MC / TCP / GP)</TableHead>
+                    <TableHead>Gold (MC / TCP / GP)</TableHead>
+                    <TableHead>Silver (MC / TCP / GP)</TableHead>
+                    <TableHead>Discounts (3yr / Female / Pangi)</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => {
+                    const status = getStatus(schedule);
+                    const editable = status.label === "Scheduled";
+                    return (
+                      <TableRow key={schedule.id} data-testid={`row-fee-schedule-${schedule.version}`}>
+                        <TableCell className="font-medium">
+                          v{schedule.version}
+                          {schedule.notes && (
+                            <p className="text-xs text-muted-foreground font-normal">{schedule.notes}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{format(new Date(schedule.effectiveFrom), "MMM dd, yyyy HH:mm")}</TableCell>
+                        {CATEGORIES.map(({ value }) => (
+                          <TableCell key={value} className="font-mono text-sm">
+                            {LOCATIONS.map(({ value: location }) => `₹${schedule.rates.feeMatrix[value][location]}`).join(" / ")}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-sm">
+                          {toPercent(schedule.rates.threeYearDiscountRate)}% / {toPercent(schedule.rates.femaleOwnerDiscountRate)}% / {toPercent(schedule.rates.pangiDiscountRate)}%
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {editable ? (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openEditDialog(schedule)}
+                                data-testid={`button-edit-fee-schedule-${schedule.version}`}
+                              >
+                                <Edit className="w-3 h-3 mr-1" />
+                                Edit
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => withdrawMutation.mutate(schedule.id)}
+                                disabled={withdrawMutation.isPending}
+                                data-testid={`button-withdraw-fee-schedule-${schedule.version}`}
+                              >
+                                <Trash2 className="w-3 h-3 mr-1" />
+                                Withdraw
+                              </Button>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Locked</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingSchedule ? `Edit Fee Schedule v${editingSchedule.version}` : "New Fee Schedule"}
+              </DialogTitle>
+              <DialogDescription>
+                Annual registration fee (₹) by category and location, with discounts and renewal late-fee rules.
+              </DialogDescription>
+            </DialogHeader>
+
+            {formState && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="effective-from">Effective From</Label>
+                    <Input
+                      id="effective-from"
+                      type="datetime-local"
+                      value={formState.effectiveFrom}
+                      onChange={(e) => updateForm({ effectiveFrom: e.target.value })}
+                      data-testid="input-effective-from"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-notes">Notes</Label>
+                    <Textarea
+                      id="schedule-notes"
+                      rows={1}
+                      placeholder="e.g. Notification No. TSM-F(10)-1/2026"
+                      value={formState.notes}
+                      onChange={(e) => updateForm({ notes: e.target.value })}
+                      data-testid="input-schedule-notes"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Annual Fee (₹)</Label>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Category</TableHead>
+                          {LOCATIONS.map(({ value, label }) => (
+                            <TableHead key={value}>{label}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {CATEGORIES.map(({ value: category, label }) => (
+                          <TableRow key={category}>
+                            <TableCell className="font-medium">{label}</TableCell>
+                            {LOCATIONS.map(({ value: location }) => (
+                              <TableCell key={location}>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  value={formState.feeMatrix[category][location]}
+                                  onChange={(e) => updateMatrix(category, location, Number(e.target.value))}
+                                  data-testid={`input-fee-${category}-${location}`}
+                                />
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="three-year-discount">3-Year Discount (%)</Label>
+                    <Input
+                      id="three-year-discount"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formState.threeYearDiscountPercent}
+                      onChange={(e) => updateForm({ threeYearDiscountPercent: Number(e.target.value) })}
+                      data-testid="input-three-year-discount"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="female-owner-discount">Female Owner Discount (%)</Label>
+                    <Input
+                      id="female-owner-discount"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formState.femaleOwnerDiscountPercent}
+                      onChange={(e) => updateForm({ femaleOwnerDiscountPercent: Number(e.target.value) })}
+                      data-testid="input-female-owner-discount"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pangi-discount">Pangi Discount (%)</Label>
+                    <Input
+                      id="pangi-discount"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formState.pangiDiscountPercent}
+                      onChange={(e) => updateForm({ pangiDiscountPercent: Number(e.target.value) })}
+                      data-testid="input-pangi-discount"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="grace-period">Renewal Grace Period (days)</Label>
+                    <Input
+                      id="grace-period"
+                      type="number"
+                      min={0}
+                      value={formState.gracePeriodDays}
+                      onChange={(e) => updateForm({ gracePeriodDays: Number(e.target.value) })}
+                      data-testid="input-grace-period"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="monthly-penalty">Late Fee per Month (%)</Label>
+                    <Input
+                      id="monthly-penalty"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formState.monthlyPenaltyPercent}
+                      onChange={(e) => updateForm({ monthlyPenaltyPercent: Number(e.target.value) })}
+                      data-testid="input-monthly-penalty"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="max-penalty">Late Fee Cap (%)</Label>
+                    <Input
+                      id="max-penalty"
+                      type="number"
+                      min={0}
+                      value={formState.maxPenaltyPercent}
+                      onChange={(e) => updateForm({ maxPenaltyPercent: Number(e.target.value) })}
+                      data-testid="input-max-penalty"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => formState && saveMutation.mutate(formState)}
+                disabled={!formState?.effectiveFrom || saveMutation.isPending}
+                data-testid="button-save-fee-schedule"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {editingSchedule ? "Save Changes" : "Create Schedule"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Receipt, RefreshCw, AlertTriangle, Clock, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { HimkoshTransaction } from "@shared/schema";
+
+interface ReconciliationException {
+  transaction: HimkoshTransaction;
+  applicationNumber: string | null;
+  propertyName: string | null;
+  ownerName: string | null;
+  district: string | null;
+}
+
+interface ReconciliationReport {
+  exceptions: ReconciliationException[];
+  pendingVerification: number;
+}
+
+const ISSUE_LABELS: Record<string, { label: string; variant: "destructive" | "secondary" | "outline" }> = {
+  failed_but_charged: { label: "Failed but Charged", variant: "destructive" },
+  success_not_confirmed: { label: "Success Not Confirmed", variant: "destructive" },
+  grn_mismatch: { label: "GRN Mismatch", variant: "secondary" },
+  amount_mismatch: { label: "Amount Mismatch", variant: "secondary" },
+};
+
+export default function PaymentReconciliation() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<ReconciliationReport>({
+    queryKey: ["/api/admin/payments/reconciliation"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/payments/reconciliation/run");
+      return response.json() as Promise<{ verified: number; exceptions: number; errors: number }>;
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments/reconciliation"] });
+      toast({
+        title: "Reconciliation Complete",
+        description: `Verified ${summary.verified} transaction(s): ${summary.exceptions} exception(s), ${summary.errors} error(s)`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Reconciliation Failed",
+        description: error.message || "Failed to run reconciliation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading reconciliation report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const exceptions = data?.exceptions || [];
+
+  return (
+    <div className="p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+              <Receipt className="w-8 h-8 text-primary" />
+              Payment Reconciliation
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              HimKosh transactions whose callback disagrees with CTP double verification
+            </p>
+          </div>
+          <Button
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            data-testid="button-run-reconciliation"
+          >
+            {runMutation.isPending
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <RefreshCw className="w-4 h-4 mr-2" />}
+            Run Now
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Open Exceptions</CardTitle>
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="text-exception-count">{exceptions.length}</div>
+              <p className="text-xs text-muted-foreground">Need manual review with the treasury</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Awaiting Verification</CardTitle>
+              <Clock className="w-4 h-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="text-pending-verification">{data?.pendingVerification ?? 0}</div>
+              <p className="text-xs text-muted-foreground">Verified hourly once the payment window has passed</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Exceptions</CardTitle>
+            <CardDescription>
+              Failed-but-charged payments, unconfirmed successes and GRN or amount mismatches
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Application</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>GRN</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Callback Status</TableHead>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Verified</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {exceptions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                        No reconciliation exceptions
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    exceptions.map(({ transaction, applicationNumber, propertyName, ownerName, district }) => {
+                      const issue = ISSUE_LABELS[transaction.reconciliationIssue || transaction.transactionStatus || ""];
+                      return (
+                        <TableRow key={transaction.id} data-testid={`row-exception-${transaction.appRefNo}`}>
+                          <TableCell>
+                            <div className="font-medium">{applicationNumber || "-"}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {[propertyName, ownerName, district].filter(Boolean).join(" · ")}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{transaction.appRefNo}</TableCell>
+                          <TableCell className="font-mono text-sm">{transaction.echTxnId || "-"}</TableCell>
+                          <TableCell>₹{transaction.totalAmount}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="capitalize">
+                              {(transaction.transactionStatus || "initiated").replace(/_/g, " ")}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {issue && <Badge variant={issue.variant}>{issue.label}</Badge>}
+                            {transaction.reconciliationNote && (
+                              <p className="text-xs text-muted-foreground mt-1">{transaction.reconciliationNote}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {transaction.doubleVerificationDate
+                              ? format(new Date(transaction.doubleVerificationDate), "MMM dd, yyyy HH:mm")
+                              : "Not yet"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ObjectUploader, UploadedFileMetadata } from "@/components/ObjectUploader";
+import { CheckCircle2, FileText, Landmark, Loader2, Undo2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import type { PaymentRefund } from "@shared/schema";
+
+type RefundAction = "approve" | "reject" | "treasury" | "complete";
+
+interface RefundWithDetails extends PaymentRefund {
+  applicationNumber: string;
+  propertyName: string;
+  ownerName: string;
+  district: string;
+  paymentAmount: string;
+  paymentGateway: string | null;
+  gatewayTransactionId: string | null;
+  paymentStatus: string | null;
+}
+
+const REFUND_REASONS: Record<string, string> = {
+  rejected_after_payment: "Application rejected after payment",
+  duplicate_payment: "Duplicate payment",
+  category_downgrade: "Category downgraded (excess fee)",
+  other: "Other",
+};
+
+const REFUND_STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  requested: { label: "Awaiting Approval", className: "bg-yellow-50 text-yellow-700 dark:bg-yellow-950/20" },
+  approved: { label: "Awaiting Treasury Order", className: "bg-blue-50 text-blue-700 dark:bg-blue-950/20" },
+  processing: { label: "Processing", className: "bg-blue-50 text-blue-700 dark:bg-blue-950/20" },
+  completed: { label: "Refunded", className: "bg-green-50 text-green-700 dark:bg-green-950/20" },
+  rejected: { label: "Rejected", className: "bg-gray-50 text-gray-700 dark:bg-gray-950/20" },
+  failed: { label: "Failed", className: "bg-red-50 text-red-700 dark:bg-red-950/20" },
+};
+
+const ACTION_CONFIG: Record<RefundAction, { title: string; description: string; button: string }> = {
+  approve: {
+    title: "Approve Refund",
+    description: "Gateway payments are refunded through the gateway immediately. HimKosh and manual payments are refunded by a treasury refund order.",
+    button: "Approve",
+  },
+  reject: {
+    title: "Reject Refund",
+    description: "The refund request will be closed and the owner informed of your remarks.",
+    button: "Reject",
+  },
+  treasury: {
+    title: "Record Treasury Refund",
+    description: "Enter the treasury refund order and upload a copy of it. The refund will be marked as completed.",
+    button: "Record Refund",
+  },
+  complete: {
+    title: "Confirm Gateway Refund",
+    description: "Mark this refund completed once the gateway has credited it to the owner.",
+    button: "Mark Completed",
+  },
+};
+
+const formatAmount = (amount: string | number) => `₹${Number(amount).toLocaleString("en-IN")}`;
+
+export default function RefundManagement() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("requested");
+  const [selected, setSelected] = useState<RefundWithDetails | null>(null);
+  const [pendingAction, setPendingAction] = useState<RefundAction | null>(null);
+  const [notes, setNotes] = useState("");
+  const [orderNumber, setOrderNumber] = useState("");
+  const [proof, setProof] = useState<UploadedFileMetadata[]>([]);
+
+  const { data, isLoading } = useQuery<{ refunds: RefundWithDetails[] }>({
+    queryKey: ["/api/refunds"],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ refundId, action }: { refundId: string; action: RefundAction }) => {
+      const body = action === "treasury" ? { orderNumber, documents: proof } : { notes };
+      const response = await apiRequest("POST", `/api/refunds/${refundId}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (result: { refund: PaymentRefund; message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/refunds"] });
+      setSelected(null);
+      toast({
+        title: result.refund.status === "failed" ? "Gateway refund failed" : "Refund updated",
+        description: result.message,
+        variant: result.refund.status === "failed" ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update refund",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAction = (refund: RefundWithDetails, action: RefundAction) => {
+    setSelected(refund);
+    setPendingAction(action);
+    setNotes("");
+    setOrderNumber("");
+    setProof([]);
+  };
+
+  const getStatusBadge = (status: string) => {
+    const config = REFUND_STATUS_BADGES[status] || { label: status, className: "" };
+    return <Badge variant="outline" className={config.className}>{config.label}</Badge>;
+  };
+
+  const canSubmit = () => {
+    if (pendingAction === "reject") {
+      return notes.trim().length >= 10;
+    }
+    if (pendingAction === "treasury") {
+      return orderNumber.trim().length > 0 && proof.length > 0;
+    }
+    return true;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const refunds = (data?.refunds || []).filter((refund) => statusFilter === "all" || refund.status === statusFilter);
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+          <Undo2 className="w-7 h-7" />
+          Refunds
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Refunds raised by district officers, awaiting approval and execution
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Refund Requests</CardTitle>
+            <CardDescription>Every decision is recorded and the owner is notified at each step</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[220px]" data-testid="select-refund-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All refunds</SelectItem>
+              {Object.entries(REFUND_STATUS_BADGES).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">Application</th>
+                  <th className="text-left p-4 font-medium">Amount</th>
+                  <th className="text-left p-4 font-medium">Reason</th>
+                  <th className="text-left p-4 font-medium">Payment</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {refunds.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                      No refunds found
+                    </td>
+                  </tr>
+                ) : (
+                  refunds.map((refund) => (
+                    <tr key={refund.id} className="border-b hover-elevate" data-testid={`refund-${refund.id}`}>
+                      <td className="p-4">
+                        <div className="font-medium">{refund.propertyName}</div>
+                        <div className="text-sm text-muted-foreground">
+                          <span className="font-mono">{refund.applicationNumber}</span> · {refund.district}
+                        </div>
+                      </td>
+                      <td className="p-4">
+                        <div>{formatAmount(refund.amount)}</div>
+                        <div className="text-sm text-muted-foreground">of {formatAmount(refund.paymentAmount)}</div>
+                      </td>
+                      <td className="p-4 max-w-xs">
+                        <div>{REFUND_REASONS[refund.reason] || refund.reason}</div>
+                        <div className="text-sm text-muted-foreground">{refund.remarks}</div>
+                        {refund.failureReason && (
+                          <div className="text-sm text-destructive">{refund.failureReason}</div>
+                        )}
+                      </td>
+                      <td className="p-4">
+                        <div className="capitalize">{refund.paymentGateway || "Manual"}</div>
+                        {refund.gatewayTransactionId && (
+                          <div className="text-sm text-muted-foreground font-mono">{refund.gatewayTransactionId}</div>
+                        )}
+                        {refund.requestedAt && (
+                          <div className="text-xs text-muted-foreground">Raised {format(new Date(refund.requestedAt), "MMM dd, yyyy")}</div>
+                        )}
+                      </td>
+                      <td className="p-4">
+                        {getStatusBadge(refund.status)}
+                        {refund.treasuryOrderNumber && (
+                          <div className="text-xs text-muted-foreground mt-1">Order {refund.treasuryOrderNumber}</div>
+                        )}
+                        {refund.proofDocuments?.map((doc, index) => (
+                          <a
+                            key={doc.documentId || index}
+                            href={`/api/object-storage/view?path=${encodeURIComponent(doc.fileUrl)}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs flex items-center gap-1 text-primary hover:underline mt-1"
+                          >
+                            <FileText className="w-3 h-3" />
+                            {doc.fileName}
+                          </a>
+                        ))}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex justify-end gap-2">
+                          {refund.status === "requested" && (
+                            <>
+                              <Button size="sm" onClick={() => openAction(refund, "approve")} data-testid={`button-approve-refund-${refund.id}`}>
+                                <CheckCircle2 className="w-4 h-4 mr-2" />
+                                Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => openAction(refund, "reject")} data-testid={`button-reject-refund-${refund.id}`}>
+                                <XCircle className="w-4 h-4 mr-2" />
+                                Reject
+                              </Button>
+                            </>
+                          )}
+                          {refund.status === "approved" && refund.method === "treasury" && (
+                            <Button size="sm" onClick={() => openAction(refund, "treasury")} data-testid={`button-treasury-refund-${refund.id}`}>
+                              <Landmark className="w-4 h-4 mr-2" />
+                              Record Treasury Refund
+                            </Button>
+                          )}
+                          {refund.status === "processing" && (
+                            <Button size="sm" variant="outline" onClick={() => openAction(refund, "complete")} data-testid={`button-complete-refund-${refund.id}`}>
+                              Mark Completed
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected && !!pendingAction} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          {selected && pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{ACTION_CONFIG[pendingAction].title}</DialogTitle>
+                <DialogDescription>
+                  {formatAmount(selected.amount)} · {selected.propertyName} · {selected.applicationNumber}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">{ACTION_CONFIG[pendingAction].description}</p>
+
+                {(pendingAction === "approve" || pendingAction === "reject") && (
+                  <div className="space-y-2">
+                    <Label htmlFor="refund-review-notes">{pendingAction === "reject" ? "Reason *" : "Notes"}</Label>
+                    <Textarea
+                      id="refund-review-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={3}
+                      placeholder={pendingAction === "reject" ? "Explain why the refund is not approved (shared with the owner)" : "Optional notes"}
+                      data-testid="input-refund-review-notes"
+                    />
+                  </div>
+                )}
+
+                {pendingAction === "treasury" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="treasury-order-number">Treasury Refund Order No. *</Label>
+                      <Input
+                        id="treasury-order-number"
+                        value={orderNumber}
+                        onChange={(e) => setOrderNumber(e.target.value)}
+                        data-testid="input-treasury-order-number"
+                      />
+                    </div>
+                    <ObjectUploader
+                      label="Refund Order Copy *"
+                      existingFiles={proof}
+                      onUploadComplete={setProof}
+                      fileType="documents/refund-orders"
+                      applicationId={selected.applicationId}
+                      accept="application/pdf,image/*"
+                      multiple={true}
+                      maxFiles={3}
+                    />
+                  </>
+                )}
+              </div>
+
+              <DialogFooter className="gap-2">
+                <Button variant="ghost" onClick={() => setSelected(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={pendingAction === "reject" ? "destructive" : "default"}
+                  onClick={() => actionMutation.mutate({ refundId: selected.id, action: pendingAction })}
+                  disabled={actionMutation.isPending || !canSubmit()}
+                  data-testid="button-confirm-refund-action"
+                >
+                  {actionMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {ACTION_CONFIG[pendingAction].button}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
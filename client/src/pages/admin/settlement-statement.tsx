@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Download, FileSpreadsheet, FileText, IndianRupee, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { getDistricts } from "@shared/lgd-data";
+
+type StatementPeriod = "daily" | "monthly";
+
+interface StatementLine {
+  paidAt: string | null;
+  district: string;
+  ddo: string;
+  headOfAccount: string;
+  bank: string;
+  amount: number;
+  himgrn: string | null;
+  bankCin: string | null;
+  reference: string;
+  applicationNumber: string | null;
+  propertyName: string | null;
+  receiptNumber: string | null;
+  flags: string[];
+  note: string | null;
+}
+
+interface StatementGroup {
+  district: string;
+  ddo: string;
+  headOfAccount: string;
+  bank: string;
+  lines: number;
+  amount: number;
+  flagged: number;
+}
+
+interface SettlementStatement {
+  label: string;
+  lines: StatementLine[];
+  groups: StatementGroup[];
+  totals: {
+    collections: number;
+    amount: number;
+    flaggedCollections: number;
+  };
+}
+
+const FLAG_LABELS: Record<string, string> = {
+  failed_but_charged: "Failed but Charged",
+  success_not_confirmed: "Not Confirmed by CTP",
+  grn_mismatch: "GRN Mismatch",
+  amount_mismatch: "Amount Mismatch",
+  not_verified: "Not Verified",
+  payment_missing: "Payment Record Not Confirmed",
+  payment_mismatch: "Payment Record Differs",
+};
+
+const ALL_DISTRICTS = "all";
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+
+export default function SettlementStatementPage() {
+  const [period, setPeriod] = useState<StatementPeriod>("daily");
+  const [day, setDay] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const [district, setDistrict] = useState(ALL_DISTRICTS);
+
+  const date = period === "daily" ? day : month;
+  const statementUrl = (exportFormat?: "csv" | "pdf") => {
+    const params = new URLSearchParams({ period, date });
+    if (district !== ALL_DISTRICTS) {
+      params.set("district", district);
+    }
+    if (exportFormat) {
+      params.set("format", exportFormat);
+    }
+    return `/api/admin/payments/settlement-statement?${params.toString()}`;
+  };
+
+  const { data, isLoading, error } = useQuery<SettlementStatement>({
+    queryKey: [statementUrl()],
+    enabled: !!date,
+  });
+
+  const lines = data?.lines || [];
+  const groups = data?.groups || [];
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Settlement Statement</h1>
+          <p className="text-muted-foreground mt-2">
+            Fees collected by district, DDO, head of account and bank, checked against CTP verification
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild disabled={!data} data-testid="button-export-csv">
+            <a href={statementUrl("csv")} download>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild disabled={!data} data-testid="button-export-pdf">
+            <a href={statementUrl("pdf")} download>
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Statement</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as StatementPeriod)}>
+                <SelectTrigger data-testid="select-statement-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-date">{period === "daily" ? "Date" : "Month"}</Label>
+              {period === "daily" ? (
+                <Input id="statement-date" type="date" value={day} onChange={(e) => setDay(e.target.value)} data-testid="input-statement-date" />
+              ) : (
+                <Input id="statement-date" type="month" value={month} onChange={(e) => setMonth(e.target.value)} data-testid="input-statement-month" />
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>District</Label>
+              <Select value={district} onValueChange={setDistrict}>
+                <SelectTrigger data-testid="select-statement-district">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DISTRICTS}>All districts</SelectItem>
+                  {getDistricts().map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center text-destructive">
+            {(error as Error).message || "Failed to load the settlement statement"}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Collected</CardTitle>
+                <IndianRupee className="w-4 h-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatAmount(data?.totals.amount || 0)}</div>
+                <p className="text-xs text-muted-foreground">{data?.label}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Collections</CardTitle>
+                <FileText className="w-4 h-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{data?.totals.collections || 0}</div>
+                <p className="text-xs text-muted-foreground">Challans and gateway payments</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Flagged</CardTitle>
+                <AlertTriangle className="w-4 h-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${data?.totals.flaggedCollections ? "text-destructive" : ""}`}>
+                  {data?.totals.flaggedCollections || 0}
+                </div>
+                <p className="text-xs text-muted-foreground">Records disagree with CTP or each other</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Totals</CardTitle>
+              <CardDescription>By district, DDO, head of account and bank</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>District</TableHead>
+                    <TableHead>DDO</TableHead>
+                    <TableHead>Head of Account</TableHead>
+                    <TableHead>Bank</TableHead>
+                    <TableHead className="text-right">Lines</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        No collections in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    groups.map((group) => (
+                      <TableRow key={`${group.district}-${group.ddo}-${group.headOfAccount}-${group.bank}`}>
+                        <TableCell className="font-medium">{group.district}</TableCell>
+                        <TableCell className="font-mono text-sm">{group.ddo}</TableCell>
+                        <TableCell className="font-mono text-sm">{group.headOfAccount}</TableCell>
+                        <TableCell>{group.bank}</TableCell>
+                        <TableCell className="text-right">
+                          {group.lines}
+                          {group.flagged > 0 && (
+                            <Badge variant="destructive" className="ml-2">{group.flagged} flagged</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatAmount(group.amount)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Collections</CardTitle>
+              <CardDescription>One line per head of account; flagged lines need checking against the treasury</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Application</TableHead>
+                    <TableHead>HIMGRN / Bank CIN</TableHead>
+                    <TableHead>Head / Bank</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Flags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        No collections in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    lines.map((line, index) => (
+                      <TableRow key={`${line.reference}-${line.headOfAccount}-${index}`} data-testid={`statement-line-${line.reference}`}>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {line.paidAt ? format(new Date(line.paidAt), "dd MMM yyyy, HH:mm") : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-mono text-sm">{line.applicationNumber || line.reference}</div>
+                          <div className="text-xs text-muted-foreground">{line.district} · {line.ddo}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-mono text-sm">{line.himgrn || "-"}</div>
+                          <div className="font-mono text-xs text-muted-foreground">{line.bankCin || "-"}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-mono text-sm">{line.headOfAccount}</div>
+                          <div className="text-xs text-muted-foreground">{line.bank}</div>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatAmount(line.amount)}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="flex flex-wrap gap-1">
+                            {line.flags.map((flag) => (
+                              <Badge key={flag} variant={flag === "not_verified" ? "outline" : "destructive"}>
+                                {FLAG_LABELS[flag] || flag}
+                              </Badge>
+                            ))}
+                          </div>
+                          {line.note && <p className="text-xs text-muted-foreground mt-1">{line.note}</p>}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -39,6 +40,8 @@ import {
   TestTube,
   Download,
   Loader2,
+  Timer,
+  BellRing,
 } from "lucide-react";
 
 interface SystemStats {
@@ -72,6 +75,32 @@ type ResetOperation =
   | "objections"
   | "payments";
 
+interface ObjectionPolicy {
+  responseDays: number;
+  autoRejectEnabled: boolean;
+  autoRejectGraceDays: number;
+}
+
+interface RenewalReminderSettings {
+  offsetsDays: number[];
+  reminderTitle: string;
+  reminderMessage: string;
+  expiredTitle: string;
+  expiredMessage: string;
+}
+
+interface PaymentGatewaySettings {
+  enabled: string[];
+  defaultGateway: string;
+}
+
+interface PaymentGatewayStatus {
+  id: string;
+  label: string;
+  isAvailable: boolean;
+  isMock: boolean;
+}
+
 interface ResetDialogState {
   open: boolean;
   operation: ResetOperation | null;
@@ -89,6 +118,10 @@ export default function SuperAdminConsole() {
   });
   const [seedCount, setSeedCount] = useState(10);
   const [seedScenario, setSeedScenario] = useState("pending_da_review");
+  const [policyDraft, setPolicyDraft] = useState<ObjectionPolicy | null>(null);
+  const [reminderDraft, setReminderDraft] = useState<RenewalReminderSettings | null>(null);
+  const [reminderOffsetsText, setReminderOffsetsText] = useState<string | null>(null);
+  const [gatewayDraft, setGatewayDraft] = useState<PaymentGatewaySettings | null>(null);
 
   // Fetch system statistics
   const { data: stats, isLoading: statsLoading, refetch: refetchStats } = useQuery<SystemStats>({
@@ -103,6 +136,34 @@ export default function SuperAdminConsole() {
     queryKey: ["/api/admin/settings/payment/test-mode"],
   });
 
+  // Fetch payment gateway settings
+  const { data: gatewaySettingsData, refetch: refetchGatewaySettings } = useQuery<PaymentGatewaySettings & {
+    gateways: PaymentGatewayStatus[];
+    isDefault: boolean;
+  }>({
+    queryKey: ["/api/admin/settings/payment/gateways"],
+  });
+
+  const gatewaySettings = gatewayDraft ?? gatewaySettingsData;
+
+  // Fetch objection deadline policy
+  const { data: objectionPolicyData, refetch: refetchObjectionPolicy } = useQuery<ObjectionPolicy & {
+    isDefault: boolean;
+  }>({
+    queryKey: ["/api/admin/settings/objections/policy"],
+  });
+
+  const objectionPolicy = policyDraft ?? objectionPolicyData;
+
+  // Fetch renewal reminder offsets and templates
+  const { data: reminderSettingsData, refetch: refetchReminderSettings } = useQuery<RenewalReminderSettings & {
+    isDefault: boolean;
+  }>({
+    queryKey: ["/api/admin/settings/renewals/reminders"],
+  });
+
+  const reminderSettings = reminderDraft ?? reminderSettingsData;
+
   // Reset mutation
   const resetMutation = useMutation({
     mutationFn: async ({ operation, confirmationText, reason }: {
@@ -180,6 +241,119 @@ export default function SuperAdminConsole() {
     },
   });
 
+  // Save payment gateway settings mutation
+  const saveGatewaySettingsMutation = useMutation({
+    mutationFn: async (settings: PaymentGatewaySettings) => {
+      return apiRequest("PUT", "/api/admin/settings/payment/gateways", settings) as Promise<any>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Payment gateways saved",
+        description: "Applicants will see the updated payment options",
+      });
+      setGatewayDraft(null);
+      refetchGatewaySettings();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save payment gateways",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Save objection policy mutation
+  const saveObjectionPolicyMutation = useMutation({
+    mutationFn: async (policy: ObjectionPolicy) => {
+      return apiRequest("PUT", "/api/admin/settings/objections/policy", policy) as Promise<any>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Objection policy saved",
+        description: "Deadline escalation will use the new settings on its next run",
+      });
+      setPolicyDraft(null);
+      refetchObjectionPolicy();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save objection policy",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Save renewal reminder settings mutation
+  const saveReminderSettingsMutation = useMutation({
+    mutationFn: async (settings: RenewalReminderSettings) => {
+      return apiRequest("PUT", "/api/admin/settings/renewals/reminders", settings) as Promise<any>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Renewal reminders saved",
+        description: "Reminders will use the new settings on the next scheduler run",
+      });
+      setReminderDraft(null);
+      setReminderOffsetsText(null);
+      refetchReminderSettings();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save renewal reminders",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateReminderDraft = (changes: Partial<RenewalReminderSettings>) => {
+    if (!reminderSettings) return;
+    setReminderDraft({
+      offsetsDays: reminderSettings.offsetsDays,
+      reminderTitle: reminderSettings.reminderTitle,
+      reminderMessage: reminderSettings.reminderMessage,
+      expiredTitle: reminderSettings.expiredTitle,
+      expiredMessage: reminderSettings.expiredMessage,
+      ...changes,
+    });
+  };
+
+  const saveReminderSettings = () => {
+    if (!reminderSettings) return;
+    const offsetsDays = reminderOffsetsText === null
+      ? reminderSettings.offsetsDays
+      : reminderOffsetsText.split(",").map((value) => parseInt(value.trim())).filter((days) => !isNaN(days) && days > 0);
+    saveReminderSettingsMutation.mutate({
+      offsetsDays,
+      reminderTitle: reminderSettings.reminderTitle,
+      reminderMessage: reminderSettings.reminderMessage,
+      expiredTitle: reminderSettings.expiredTitle,
+      expiredMessage: reminderSettings.expiredMessage,
+    });
+  };
+
+  const toggleGateway = (gatewayId: string, enabled: boolean) => {
+    if (!gatewaySettings) return;
+    setGatewayDraft({
+      enabled: enabled
+        ? [...gatewaySettings.enabled.filter((id) => id !== gatewayId), gatewayId]
+        : gatewaySettings.enabled.filter((id) => id !== gatewayId),
+      defaultGateway: gatewaySettings.defaultGateway,
+    });
+  };
+
+  const updatePolicyDraft = (changes: Partial<ObjectionPolicy>) => {
+    if (!objectionPolicy) return;
+    setPolicyDraft({
+      responseDays: objectionPolicy.responseDays,
+      autoRejectEnabled: objectionPolicy.autoRejectEnabled,
+      autoRejectGraceDays: objectionPolicy.autoRejectGraceDays,
+      ...changes,
+    });
+  };
+
   const handleResetClick = (operation: ResetOperation) => {
     setResetDialog({ open: true, operation, confirmationText: "", reason: "" });
   };
@@ -452,7 +626,7 @@ export default function SuperAdminConsole() {
               <CardTitle>Payment Settings</CardTitle>
             </div>
             <CardDescription>
-              Configure payment gateway test mode
+              Configure payment gateways and test mode
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -496,6 +670,199 @@ export default function SuperAdminConsole() {
                 )}
               </Button>
             </div>
+
+            <div className="space-y-3 p-4 border rounded-lg">
+              <div className="space-y-1">
+                <h3 className="font-semibold">Online Payment Gateways</h3>
+                <p className="text-sm text-muted-foreground">
+                  Gateways offered to applicants. Gateways without credentials are hidden until they are configured.
+                </p>
+              </div>
+              {gatewaySettingsData?.gateways.map((gateway) => (
+                <div key={gateway.id} className="flex items-center justify-between" data-testid={`row-gateway-${gateway.id}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{gateway.label}</span>
+                    {!gateway.isAvailable && <Badge variant="secondary">Not configured</Badge>}
+                    {gateway.isMock && (
+                      <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-300">
+                        Mock
+                      </Badge>
+                    )}
+                  </div>
+                  <Switch
+                    checked={gatewaySettings?.enabled.includes(gateway.id) ?? false}
+                    onCheckedChange={(checked) => toggleGateway(gateway.id, checked)}
+                    data-testid={`switch-gateway-${gateway.id}`}
+                  />
+                </div>
+              ))}
+              <div className="flex items-end gap-4 pt-2">
+                <div className="flex-1">
+                  <Label>Default Gateway</Label>
+                  <Select
+                    value={gatewaySettings?.defaultGateway}
+                    onValueChange={(value) => gatewaySettings && setGatewayDraft({ enabled: gatewaySettings.enabled, defaultGateway: value })}
+                  >
+                    <SelectTrigger data-testid="select-default-gateway">
+                      <SelectValue placeholder="Select gateway" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {gatewaySettingsData?.gateways
+                        .filter((gateway) => gatewaySettings?.enabled.includes(gateway.id))
+                        .map((gateway) => (
+                          <SelectItem key={gateway.id} value={gateway.id}>{gateway.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={() => gatewayDraft && saveGatewaySettingsMutation.mutate(gatewayDraft)}
+                  disabled={!gatewayDraft || saveGatewaySettingsMutation.isPending}
+                  data-testid="button-save-gateways"
+                >
+                  {saveGatewaySettingsMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save Gateways
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Objection Policy */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Timer className="w-5 h-5 text-primary" />
+              <CardTitle>Objection Policy</CardTitle>
+            </div>
+            <CardDescription>
+              Response deadlines and auto-rejection for unanswered objections
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="objection-response-days">Response Window (days)</Label>
+                <Input
+                  id="objection-response-days"
+                  type="number"
+                  value={objectionPolicy?.responseDays ?? ""}
+                  onChange={(e) => updatePolicyDraft({ responseDays: parseInt(e.target.value) || 1 })}
+                  min={1}
+                  max={90}
+                  data-testid="input-objection-response-days"
+                />
+              </div>
+              <div>
+                <Label htmlFor="objection-grace-days">Auto-reject After Deadline (days)</Label>
+                <Input
+                  id="objection-grace-days"
+                  type="number"
+                  value={objectionPolicy?.autoRejectGraceDays ?? ""}
+                  onChange={(e) => updatePolicyDraft({ autoRejectGraceDays: parseInt(e.target.value) || 0 })}
+                  min={0}
+                  max={90}
+                  disabled={!objectionPolicy?.autoRejectEnabled}
+                  data-testid="input-objection-grace-days"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div className="space-y-1">
+                <h3 className="font-semibold">Auto-reject Applications</h3>
+                <p className="text-sm text-muted-foreground">
+                  {objectionPolicy?.autoRejectEnabled
+                    ? "Applications are rejected when escalated objections remain unanswered after the grace period"
+                    : "Overdue objections are escalated to the DTDO but applications are never rejected automatically"
+                  }
+                </p>
+              </div>
+              <Switch
+                checked={objectionPolicy?.autoRejectEnabled ?? false}
+                onCheckedChange={(checked) => updatePolicyDraft({ autoRejectEnabled: checked })}
+                data-testid="switch-objection-auto-reject"
+              />
+            </div>
+            <Button
+              onClick={() => policyDraft && saveObjectionPolicyMutation.mutate(policyDraft)}
+              disabled={!policyDraft || saveObjectionPolicyMutation.isPending}
+              data-testid="button-save-objection-policy"
+            >
+              {saveObjectionPolicyMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Policy
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Renewal Reminders */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <BellRing className="w-5 h-5 text-primary" />
+              <CardTitle>Renewal Reminders</CardTitle>
+            </div>
+            <CardDescription>
+              When owners are reminded before their certificate expires, and what the notifications say
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="renewal-offsets">Reminder Days Before Expiry</Label>
+              <Input
+                id="renewal-offsets"
+                value={reminderOffsetsText ?? reminderSettings?.offsetsDays.join(", ") ?? ""}
+                onChange={(e) => setReminderOffsetsText(e.target.value)}
+                placeholder="90, 30, 7"
+                data-testid="input-renewal-offsets"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Comma-separated. Templates may use {"{certificateNumber}"}, {"{propertyName}"}, {"{expiryDate}"} and {"{daysLeft}"}.
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="renewal-reminder-title">Reminder Title</Label>
+                <Input
+                  id="renewal-reminder-title"
+                  value={reminderSettings?.reminderTitle ?? ""}
+                  onChange={(e) => updateReminderDraft({ reminderTitle: e.target.value })}
+                  data-testid="input-renewal-reminder-title"
+                />
+                <Label htmlFor="renewal-reminder-message">Reminder Message</Label>
+                <Textarea
+                  id="renewal-reminder-message"
+                  value={reminderSettings?.reminderMessage ?? ""}
+                  onChange={(e) => updateReminderDraft({ reminderMessage: e.target.value })}
+                  rows={3}
+                  data-testid="input-renewal-reminder-message"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="renewal-expired-title">Expiry Title</Label>
+                <Input
+                  id="renewal-expired-title"
+                  value={reminderSettings?.expiredTitle ?? ""}
+                  onChange={(e) => updateReminderDraft({ expiredTitle: e.target.value })}
+                  data-testid="input-renewal-expired-title"
+                />
+                <Label htmlFor="renewal-expired-message">Expiry Message</Label>
+                <Textarea
+                  id="renewal-expired-message"
+                  value={reminderSettings?.expiredMessage ?? ""}
+                  onChange={(e) => updateReminderDraft({ expiredMessage: e.target.value })}
+                  rows={3}
+                  data-testid="input-renewal-expired-message"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={saveReminderSettings}
+              disabled={(!reminderDraft && reminderOffsetsText === null) || saveReminderSettingsMutation.isPending}
+              data-testid="button-save-renewal-reminders"
+            >
+              {saveReminderSettingsMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Reminders
+            </Button>
           </CardContent>
         </Card>
 
@@ -0,0 +1,413 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Landmark, Loader2, Pencil, Plus, Save } from "lucide-react";
+import { getDistricts } from "@shared/lgd-data";
+import type { DdoCode } from "@shared/schema";
+
+interface ChallanRoutingSettings {
+  districtDdo: boolean;
+  heads: {
+    registrationFee: string;
+    lateFee: string;
+    processingCharge: string;
+  };
+  processingCharge: number;
+  credentials: {
+    ddo: string;
+    registrationFeeHead: string;
+  };
+  isDefault: boolean;
+}
+
+interface DdoForm {
+  district: string;
+  ddoCode: string;
+  ddoDescription: string;
+  treasuryCode: string;
+}
+
+const EMPTY_DDO_FORM: DdoForm = { district: "", ddoCode: "", ddoDescription: "", treasuryCode: "" };
+
+const HEAD_FIELDS: { key: keyof ChallanRoutingSettings["heads"]; label: string; hint: string }[] = [
+  { key: "registrationFee", label: "Registration Fee Head", hint: "Base fee after discounts" },
+  { key: "lateFee", label: "Late Fee Head", hint: "Renewal late fee" },
+  { key: "processingCharge", label: "Processing Charge Head", hint: "Fixed processing charge carved out of the fee" },
+];
+
+export default function TreasuryRouting() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<DdoCode | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [ddoForm, setDdoForm] = useState<DdoForm>(EMPTY_DDO_FORM);
+  const [routing, setRouting] = useState<ChallanRoutingSettings | null>(null);
+
+  const { data: ddoData, isLoading: ddoLoading } = useQuery<{ ddoCodes: DdoCode[] }>({
+    queryKey: ["/api/admin/ddo-codes"],
+  });
+
+  const { data: routingData, isLoading: routingLoading } = useQuery<ChallanRoutingSettings>({
+    queryKey: ["/api/admin/settings/himkosh/routing"],
+  });
+
+  useEffect(() => {
+    if (routingData) {
+      setRouting(routingData);
+    }
+  }, [routingData]);
+
+  const saveDdoMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing
+        ? await apiRequest("PATCH", `/api/admin/ddo-codes/${editing.id}`, ddoForm)
+        : await apiRequest("POST", "/api/admin/ddo-codes", ddoForm);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ddo-codes"] });
+      toast({
+        title: editing ? "DDO updated" : "DDO added",
+        description: `Challans for ${ddoForm.district} will be booked to ${ddoForm.ddoCode}`,
+      });
+      closeDdoDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "DDO not saved",
+        description: error.message || "Failed to save DDO code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleDdoMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/admin/ddo-codes/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ddo-codes"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "DDO not updated",
+        description: error.message || "Failed to update DDO code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveRoutingMutation = useMutation({
+    mutationFn: async (settings: ChallanRoutingSettings) => {
+      const response = await apiRequest("PUT", "/api/admin/settings/himkosh/routing", {
+        districtDdo: settings.districtDdo,
+        heads: settings.heads,
+        processingCharge: settings.processingCharge,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings/himkosh/routing"] });
+      toast({
+        title: "Challan routing saved",
+        description: "New challans will use the updated DDO and head mapping",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Routing not saved",
+        description: error.message || "Failed to save challan routing",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setDdoForm(EMPTY_DDO_FORM);
+    setCreating(true);
+  };
+
+  const openEdit = (code: DdoCode) => {
+    setEditing(code);
+    setDdoForm({
+      district: code.district,
+      ddoCode: code.ddoCode,
+      ddoDescription: code.ddoDescription,
+      treasuryCode: code.treasuryCode,
+    });
+    setCreating(true);
+  };
+
+  const closeDdoDialog = () => {
+    setCreating(false);
+    setEditing(null);
+  };
+
+  const updateHead = (key: keyof ChallanRoutingSettings["heads"], value: string) => {
+    setRouting((current) => current && { ...current, heads: { ...current.heads, [key]: value } });
+  };
+
+  if (ddoLoading || routingLoading || !routing) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const codes = ddoData?.ddoCodes || [];
+  const mappedDistricts = new Set(codes.map((code) => code.district));
+  const unmappedDistricts = getDistricts().filter((district) => !mappedDistricts.has(district));
+  const availableDistricts = editing
+    ? [editing.district, ...unmappedDistricts]
+    : unmappedDistricts;
+  const ddoFormValid =
+    ddoForm.district.length >= 2 &&
+    ddoForm.ddoCode.trim().length >= 3 &&
+    ddoForm.ddoDescription.trim().length >= 3 &&
+    ddoForm.treasuryCode.trim().length >= 3;
+  const fallbackHead = routing.credentials.registrationFeeHead;
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Treasury Routing</h1>
+        <p className="text-muted-foreground mt-2">
+          Choose which DDO and heads of account HimKosh challans are booked to
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Heads of Account</CardTitle>
+          <CardDescription>
+            The assessed fee is split across these heads on the challan. Heads left blank use {fallbackHead || "the registration fee head"} from the HimKosh credentials.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+            <div>
+              <Label htmlFor="district-ddo">Book challans to the district DDO</Label>
+              <p className="text-sm text-muted-foreground">
+                When off, or when a district has no active DDO, challans use DDO {routing.credentials.ddo || "from the credentials"}
+              </p>
+            </div>
+            <Switch
+              id="district-ddo"
+              checked={routing.districtDdo}
+              onCheckedChange={(checked) => setRouting({ ...routing, districtDdo: checked })}
+              data-testid="switch-district-ddo"
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            {HEAD_FIELDS.map(({ key, label, hint }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`head-${key}`}>{label}</Label>
+                <Input
+                  id={`head-${key}`}
+                  value={routing.heads[key]}
+                  maxLength={14}
+                  placeholder={fallbackHead || "e.g. 1452-00-800-01"}
+                  onChange={(e) => updateHead(key, e.target.value)}
+                  className="font-mono"
+                  data-testid={`input-head-${key}`}
+                />
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="processing-charge">Processing Charge (₹)</Label>
+            <Input
+              id="processing-charge"
+              type="number"
+              min={0}
+              value={routing.processingCharge}
+              onChange={(e) => setRouting({ ...routing, processingCharge: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+              data-testid="input-processing-charge"
+            />
+            <p className="text-xs text-muted-foreground">
+              Booked to the processing charge head out of the assessed fee; it does not increase what the owner pays
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveRoutingMutation.mutate(routing)}
+              disabled={saveRoutingMutation.isPending}
+              data-testid="button-save-routing"
+            >
+              {saveRoutingMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Routing
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>District DDOs</CardTitle>
+            <CardDescription>
+              {unmappedDistricts.length === 0
+                ? "Every district has a DDO"
+                : `${unmappedDistricts.length} district(s) without a DDO: ${unmappedDistricts.join(", ")}`}
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} disabled={unmappedDistricts.length === 0} data-testid="button-add-ddo">
+            <Plus className="w-4 h-4 mr-2" />
+            Add DDO
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">District</th>
+                  <th className="text-left p-4 font-medium">DDO Code</th>
+                  <th className="text-left p-4 font-medium">Description</th>
+                  <th className="text-left p-4 font-medium">Treasury</th>
+                  <th className="text-left p-4 font-medium">Active</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {codes.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                      No DDO codes configured
+                    </td>
+                  </tr>
+                ) : (
+                  codes.map((code) => (
+                    <tr key={code.id} className="border-b" data-testid={`ddo-${code.id}`}>
+                      <td className="p-4 font-medium">{code.district}</td>
+                      <td className="p-4 font-mono">{code.ddoCode}</td>
+                      <td className="p-4">{code.ddoDescription}</td>
+                      <td className="p-4 font-mono">{code.treasuryCode}</td>
+                      <td className="p-4">
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            checked={!!code.isActive}
+                            disabled={toggleDdoMutation.isPending}
+                            onCheckedChange={(checked) => toggleDdoMutation.mutate({ id: code.id, isActive: checked })}
+                            data-testid={`switch-ddo-active-${code.id}`}
+                          />
+                          {!code.isActive && <Badge variant="outline">Inactive</Badge>}
+                        </div>
+                      </td>
+                      <td className="p-4 text-right">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(code)} data-testid={`button-edit-ddo-${code.id}`}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={creating} onOpenChange={(open) => !open && closeDdoDialog()}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Landmark className="w-5 h-5" />
+              {editing ? "Edit DDO" : "Add DDO"}
+            </DialogTitle>
+            <DialogDescription>
+              Challans for applications in this district are booked to this DDO
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>District *</Label>
+              <Select value={ddoForm.district} onValueChange={(district) => setDdoForm({ ...ddoForm, district })}>
+                <SelectTrigger data-testid="select-ddo-district">
+                  <SelectValue placeholder="Select a district" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableDistricts.map((district) => (
+                    <SelectItem key={district} value={district}>{district}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="ddo-code">DDO Code *</Label>
+                <Input
+                  id="ddo-code"
+                  value={ddoForm.ddoCode}
+                  maxLength={20}
+                  onChange={(e) => setDdoForm({ ...ddoForm, ddoCode: e.target.value.toUpperCase() })}
+                  className="font-mono"
+                  data-testid="input-ddo-code"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="treasury-code">Treasury Code *</Label>
+                <Input
+                  id="treasury-code"
+                  value={ddoForm.treasuryCode}
+                  maxLength={10}
+                  placeholder="e.g. SML00"
+                  onChange={(e) => setDdoForm({ ...ddoForm, treasuryCode: e.target.value.toUpperCase() })}
+                  className="font-mono"
+                  data-testid="input-treasury-code"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ddo-description">Description *</Label>
+              <Input
+                id="ddo-description"
+                value={ddoForm.ddoDescription}
+                placeholder="e.g. District Tourism Development Officer, Shimla"
+                onChange={(e) => setDdoForm({ ...ddoForm, ddoDescription: e.target.value })}
+                data-testid="input-ddo-description"
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="ghost" onClick={closeDdoDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveDdoMutation.mutate()}
+              disabled={saveDdoMutation.isPending || !ddoFormValid}
+              data-testid="button-save-ddo"
+            >
+              {saveDdoMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Save Changes" : "Add DDO"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -9,17 +9,27 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { CheckCircle2, XCircle, Building2, User, MapPin, Phone, Mail, Bed, IndianRupee, Calendar, FileText, ArrowLeftCircle, ClipboardCheck, CalendarClock, FileImage, Download, Images, Award, CreditCard, QrCode, Edit, Check } from "lucide-react";
-import type { HomestayApplication, User as UserType, Document } from "@shared/schema";
+import { CheckCircle2, XCircle, Building2, User, MapPin, Phone, Mail, Bed, IndianRupee, Calendar, FileText, ArrowLeftCircle, ClipboardCheck, CalendarClock, FileImage, Download, Images, Award, CreditCard, QrCode, Edit, Check, RefreshCw } from "lucide-react";
+import type { HomestayApplication, User as UserType, Document, Certificate } from "@shared/schema";
 import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { ImageGallery } from "@/components/ImageGallery";
+import { getPhotoUrl } from "@/lib/document-images";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { generateCertificatePDF } from "@/lib/certificateGenerator";
 import { ObjectUploader, UploadedFileMetadata } from "@/components/ObjectUploader";
+import { ObjectionsPanel } from "@/components/objections-panel";
+import { PaymentReceiptsCard } from "@/components/payment-receipts-card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { getDocumentTypeLabel, REPLACEMENT_VERIFICATION_STATUSES } from "@shared/required-documents";
+
+interface RenewalEligibility {
+  eligible: boolean;
+  reason?: string;
+  opensAt: string;
+  renewalApplicationId?: string;
+}
 
 export default function ApplicationDetail() {
   const [, params] = useRoute("/applications/:id");
@@ -83,6 +93,11 @@ export default function ApplicationDetail() {
     enabled: !!applicationId,
   });
 
+  const { data: certificateData } = useQuery<{ certificate: Certificate; renewal?: RenewalEligibility }>({
+    queryKey: ["/api/applications", applicationId, "certificate"],
+    enabled: !!applicationId && applicationData?.application?.status === 'approved',
+  });
+
   const reviewMutation = useMutation({
     mutationFn: async ({ action, comments }: { action: "approve" | "reject"; comments: string }) => {
       const response = await apiRequest("POST", `/api/applications/${applicationId}/review`, {
@@ -242,7 +257,11 @@ export default function ApplicationDetail() {
         body: JSON.stringify({ status: 'submitted', documents: allDocuments }),
         credentials: "include",
       });
-      if (!response.ok) throw new Error("Failed to update application");
+      if (!response.ok) {
+        // e.g. a required document still rejected or awaiting replacement
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update application");
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -252,8 +271,44 @@ export default function ApplicationDetail() {
       setIsEditingDocuments(false);
       setLocation("/dashboard");
     },
-    onError: () => {
-      toast({ title: "Update Failed", description: "Failed to resubmit application", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to resubmit application", variant: "destructive" });
+    },
+  });
+
+  // Upload a new version of a document the DA rejected or asked to replace (must be before early returns)
+  const replaceDocumentMutation = useMutation({
+    mutationFn: async ({ document, file }: { document: Document; file: UploadedFileMetadata }) => {
+      const response = await apiRequest("POST", `/api/documents/${document.id}/new-version`, {
+        fileName: file.fileName,
+        filePath: file.filePath,
+        documentType: document.documentType,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { document }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/applications', applicationId, 'documents'] });
+      toast({ title: "Document Replaced", description: `New version of ${getDocumentTypeLabel(document.documentType)} uploaded. Resubmit the application when all replacements are done.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Replacement Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Start a renewal from this application's certificate (must be before early returns)
+  const renewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/applications/${applicationId}/renew`);
+      return response.json() as Promise<{ application: HomestayApplication }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applications/active-check"] });
+      toast({ title: "Renewal Started", description: "Review the pre-filled details and submit your renewal." });
+      setLocation(`/applications/new?draft=${data.application.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Renewal Failed", description: error.message || "Failed to start renewal", variant: "destructive" });
     },
   });
 
@@ -331,6 +386,9 @@ export default function ApplicationDetail() {
   const isStateOfficer = user?.role === "state_officer";
   const isPropertyOwner = user?.role === "property_owner";
   const canEdit = isPropertyOwner && ['reverted_to_applicant', 'reverted_by_dtdo'].includes(app.status);
+  const documentsToReplace = (documentsData?.documents || []).filter(
+    doc => REPLACEMENT_VERIFICATION_STATUSES.includes(doc.verificationStatus || '')
+  );
   
   // District officers can review pending applications
   // State officers can review applications in state_review status
@@ -343,6 +401,7 @@ export default function ApplicationDetail() {
       pending: { label: "District Review", variant: "secondary" as const },
       state_review: { label: "State Review", variant: "secondary" as const },
       approved: { label: "Approved", variant: "default" as const },
+      superseded: { label: "Renewed", variant: "outline" as const },
       rejected: { label: "Rejected", variant: "destructive" as const },
     };
     return config[status as keyof typeof config] || config.draft;
@@ -368,6 +427,11 @@ export default function ApplicationDetail() {
             <Badge {...getCategoryBadge(app.category || 'silver')} data-testid="badge-category">
               {getCategoryBadge(app.category || 'silver').label}
             </Badge>
+            {app.applicationType === 'renewal' && (
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 dark:bg-blue-950/20" data-testid="badge-renewal">
+                Renewal
+              </Badge>
+            )}
           </div>
         </div>
 
@@ -415,6 +479,15 @@ export default function ApplicationDetail() {
               </CardContent>
             </Card>
 
+            {/* Objections raised by DTDO - owner responds with clarifications */}
+            {isPropertyOwner && (
+              <ObjectionsPanel
+                applicationId={app.id}
+                mode="owner"
+                canRespond={app.status === 'objection_raised'}
+              />
+            )}
+
             {/* Registration Certificate - Show when approved */}
             {app.status === 'approved' && app.certificateNumber && (
               <Card className="border-green-200 bg-green-50/50">
@@ -461,26 +534,71 @@ export default function ApplicationDetail() {
                             })}
                           </p>
                         </div>
-                        <Badge variant="default" className="bg-green-600">
-                          Active
-                        </Badge>
+                        {certificateData?.certificate.status && certificateData.certificate.status !== 'active' ? (
+                          <Badge variant="destructive" className="capitalize" data-testid="badge-certificate-status">
+                            {certificateData.certificate.status}
+                          </Badge>
+                        ) : (
+                          <Badge variant="default" className="bg-green-600" data-testid="badge-certificate-status">
+                            Active
+                          </Badge>
+                        )}
                       </div>
                     </div>
                   )}
+                  {certificateData?.certificate.revocationReason && (
+                    <div className="bg-white p-3 rounded-lg border border-red-200 text-sm text-red-700">
+                      <span className="font-medium">Reason: </span>
+                      {certificateData.certificate.revocationReason}
+                    </div>
+                  )}
                   <div className="flex gap-2 pt-2">
                     <Button 
                       className="flex-1 bg-green-600 hover:bg-green-700" 
-                      onClick={() => generateCertificatePDF(app)}
+                      asChild
                       data-testid="button-download-certificate"
                     >
-                      <Download className="w-4 h-4 mr-2" />
-                      Download Certificate (PDF)
+                      <a href={`/api/applications/${app.id}/certificate/pdf`} download>
+                        <Download className="w-4 h-4 mr-2" />
+                        Download Certificate (PDF)
+                      </a>
                     </Button>
                   </div>
+                  {isPropertyOwner && certificateData?.renewal && (
+                    certificateData.renewal.renewalApplicationId ? (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => setLocation(`/applications/${certificateData.renewal!.renewalApplicationId}`)}
+                        data-testid="button-view-renewal"
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        View Renewal Application
+                      </Button>
+                    ) : certificateData.renewal.eligible ? (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => renewMutation.mutate()}
+                        disabled={renewMutation.isPending}
+                        data-testid="button-renew-certificate"
+                      >
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        {renewMutation.isPending ? "Starting Renewal..." : "Renew Certificate"}
+                      </Button>
+                    ) : certificateData.certificate.status === 'active' && (
+                      <p className="text-xs text-muted-foreground text-center" data-testid="text-renewal-opens">
+                        Renewal opens on {new Date(certificateData.renewal.opensAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}
+                      </p>
+                    )
+                  )}
                 </CardContent>
               </Card>
             )}
 
+            {/* E-receipts for confirmed payments */}
+            <PaymentReceiptsCard applicationId={app.id} />
+
             {/* Payment Pending - Show when payment is pending (property owners only) */}
             {app.status === 'payment_pending' && userData?.user?.role === 'property_owner' && (
               <Card className="border-primary">
@@ -619,6 +737,53 @@ export default function ApplicationDetail() {
               </>
             )}
 
+            {/* Documents the DA rejected or asked to replace */}
+            {canEdit && documentsToReplace.length > 0 && (
+              <Card className="border-destructive/50" data-testid="card-documents-to-replace">
+                <CardHeader>
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="w-5 h-5 text-destructive" />
+                    <CardTitle>Documents to Replace ({documentsToReplace.length})</CardTitle>
+                  </div>
+                  <CardDescription>
+                    Upload a new copy of each document below, then resubmit the application
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {documentsToReplace.map((doc) => (
+                    <div key={doc.id} className="p-4 border rounded-md space-y-3" data-testid={`replace-document-${doc.id}`}>
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="font-medium text-sm">{getDocumentTypeLabel(doc.documentType)}</p>
+                          <p className="text-xs text-muted-foreground truncate">{doc.fileName} (version {doc.version})</p>
+                        </div>
+                        <Badge variant={doc.verificationStatus === 'rejected' ? 'destructive' : 'secondary'}>
+                          {doc.verificationStatus === 'rejected' ? 'Rejected' : 'Replacement Requested'}
+                        </Badge>
+                      </div>
+                      {doc.verificationNotes && (
+                        <p className="text-sm bg-muted p-3 rounded-md">
+                          <span className="font-medium">Reason: </span>{doc.verificationNotes}
+                        </p>
+                      )}
+                      <ObjectUploader
+                        label="Upload New Version"
+                        accept={doc.documentType === 'property_photo' ? ".jpg,.jpeg,.png" : ".pdf,.jpg,.jpeg,.png"}
+                        maxFiles={1}
+                        fileType={`documents/${doc.documentType.replace(/_/g, '-')}`}
+                        applicationId={app.id}
+                        onUploadComplete={(files) => {
+                          if (files[0]) {
+                            replaceDocumentMutation.mutate({ document: doc, file: files[0] });
+                          }
+                        }}
+                      />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Uploaded Documents */}
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
@@ -700,8 +865,9 @@ export default function ApplicationDetail() {
                                   data-testid={`thumbnail-property-${index}`}
                                 >
                                   <img
-                                    src={`/api/object-storage/view?path=${encodeURIComponent(photo.filePath)}`}
+                                    src={getPhotoUrl(photo, "thumbnail")}
                                     alt={photo.fileName}
+                                    loading="lazy"
                                     className="w-full h-full object-cover"
                                   />
                                 </div>
@@ -1497,7 +1663,9 @@ export default function ApplicationDetail() {
           <ImageGallery
             images={propertyPhotos.map(photo => ({
               filePath: photo.filePath,
-              fileName: photo.fileName
+              fileName: photo.fileName,
+              url: getPhotoUrl(photo, "web"),
+              thumbnailUrl: getPhotoUrl(photo, "thumbnail"),
             }))}
             open={isGalleryOpen}
             onClose={() => setIsGalleryOpen(false)}
@@ -16,12 +16,13 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, ArrowRight, Save, Send, Home, User as UserIcon, Bed, Wifi, FileText, IndianRupee, Eye, Lightbulb, AlertTriangle, Sparkles, Info, MapPin, Wind, ParkingCircle, UtensilsCrossed, Droplets, Tv, Shirt, ConciergeBell, Trees, Mountain, PawPrint } from "lucide-react";
-import type { User, HomestayApplication, UserProfile } from "@shared/schema";
+import type { User, HomestayApplication, UserProfile, Certificate, FeeSchedule } from "@shared/schema";
 import { ObjectUploader, type UploadedFileMetadata } from "@/components/ObjectUploader";
-import { calculateHomestayFee, formatFee, suggestCategory, validateCategorySelection, CATEGORY_REQUIREMENTS, type CategoryType, type LocationType } from "@shared/fee-calculator";
+import { calculateHomestayFee, DEFAULT_FEE_RATES, isInPangiSubDivision, formatFee, suggestCategory, validateCategorySelection, CATEGORY_REQUIREMENTS, type CategoryType, type LocationType } from "@shared/fee-calculator";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ApplicationStepper } from "@/components/application-stepper";
+import { evaluateDocumentChecklist, getDocumentRequirements, getOutstandingDocuments, describeOutstandingDocument } from "@shared/required-documents";
 import { 
   getDistricts, 
   getTehsilsForDistrict, 
@@ -224,6 +225,25 @@ const ROOM_RATE_THRESHOLDS = {
 };
 
 // Step configuration for progress tracking
+// ANNEXURE-II document type → uploadedDocuments key (property photos have their own state)
+const DOCUMENT_STATE_KEYS: Record<string, string> = {
+  revenue_papers: "revenuePapers",
+  affidavit_section_29: "affidavitSection29",
+  undertaking_form_c: "undertakingFormC",
+  register_for_verification: "registerForVerification",
+  bill_book: "billBook",
+  gst_certificate: "gstCertificate",
+  building_sanction_order: "buildingSanctionOrder",
+  fire_noc: "fireNoc",
+  lease_deed: "leaseDeed",
+};
+
+// Documents every application uploads; the rest depend on the application details
+const STANDARD_DOCUMENT_TYPES = ["revenue_papers", "affidavit_section_29", "undertaking_form_c", "register_for_verification", "bill_book", "property_photo"];
+
+const emptyUploadedDocuments = (): Record<string, UploadedFileMetadata[]> =>
+  Object.fromEntries(Object.values(DOCUMENT_STATE_KEYS).map(key => [key, []]));
+
 const STEP_CONFIG = [
   {
     id: 1,
@@ -275,13 +295,7 @@ export default function NewApplication() {
   const [step, setStep] = useState(1);
   const [maxStepReached, setMaxStepReached] = useState(1); // Track highest step visited
   const [selectedAmenities, setSelectedAmenities] = useState<Record<string, boolean>>({});
-  const [uploadedDocuments, setUploadedDocuments] = useState<Record<string, UploadedFileMetadata[]>>({
-    revenuePapers: [],
-    affidavitSection29: [],
-    undertakingFormC: [],
-    registerForVerification: [],
-    billBook: [],
-  });
+  const [uploadedDocuments, setUploadedDocuments] = useState<Record<string, UploadedFileMetadata[]>>(emptyUploadedDocuments);
   const [propertyPhotos, setPropertyPhotos] = useState<UploadedFileMetadata[]>([]);
   const totalSteps = 6;
 
@@ -335,6 +349,22 @@ export default function NewApplication() {
     enabled: !!draftIdFromUrl,
   });
 
+  // Renewals: the certificate being renewed determines any late fee
+  const renewedApplicationId = draftData?.application?.applicationType === 'renewal'
+    ? draftData.application.parentApplicationId
+    : null;
+  const { data: renewedCertificateData } = useQuery<{ certificate: Certificate }>({
+    queryKey: ["/api/applications", renewedApplicationId, "certificate"],
+    enabled: !!renewedApplicationId,
+  });
+
+  // Fee schedule in force now; the server records its version when the application is submitted
+  const { data: feeScheduleData } = useQuery<{ schedule: FeeSchedule }>({
+    queryKey: ["/api/fee-schedules/current"],
+  });
+  const feeRates = feeScheduleData?.schedule.rates ?? DEFAULT_FEE_RATES;
+  const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
   const form = useForm<ApplicationForm>({
     // No resolver - validation happens manually on next/submit to allow draft saves
     defaultValues: {
@@ -382,6 +412,8 @@ export default function NewApplication() {
 
   const category = form.watch("category");
   const locationType = form.watch("locationType");
+  const projectType = form.watch("projectType");
+  const propertyOwnership = form.watch("propertyOwnership");
   const district = form.watch("district");
   const tehsil = form.watch("tehsil");
   const ownerGender = form.watch("ownerGender");
@@ -485,28 +517,14 @@ export default function NewApplication() {
 
       // Load uploaded documents
       if (draft.documents && Array.isArray(draft.documents)) {
-        const docs: Record<string, UploadedFileMetadata[]> = {
-          revenuePapers: [],
-          affidavitSection29: [],
-          undertakingFormC: [],
-          registerForVerification: [],
-          billBook: [],
-        };
+        const docs = emptyUploadedDocuments();
         const photos: UploadedFileMetadata[] = [];
 
         draft.documents.forEach((doc: any) => {
           if (doc.documentType === 'property_photo') {
             photos.push(doc);
-          } else if (doc.documentType === 'revenue_papers') {
-            docs.revenuePapers.push(doc);
-          } else if (doc.documentType === 'affidavit_section_29') {
-            docs.affidavitSection29.push(doc);
-          } else if (doc.documentType === 'undertaking_form_c') {
-            docs.undertakingFormC.push(doc);
-          } else if (doc.documentType === 'register_for_verification') {
-            docs.registerForVerification.push(doc);
-          } else if (doc.documentType === 'bill_book') {
-            docs.billBook.push(doc);
+          } else if (DOCUMENT_STATE_KEYS[doc.documentType]) {
+            docs[DOCUMENT_STATE_KEYS[doc.documentType]].push(doc);
           }
         });
 
@@ -610,7 +628,7 @@ export default function NewApplication() {
 
   const calculateFee = () => {
     // Detect Pangi sub-division (Chamba district, Pangi tehsil)
-    const isPangiSubDivision = district === "Chamba" && tehsil === "Pangi";
+    const isPangiSubDivision = isInPangiSubDivision(district, tehsil);
     
     // Use new 2025 fee calculator
     const feeBreakdown = calculateHomestayFee({
@@ -619,7 +637,9 @@ export default function NewApplication() {
       validityYears: parseInt(certificateValidityYears) as 1 | 3,
       ownerGender: (ownerGender || "male") as "male" | "female" | "other",
       isPangiSubDivision,
-    });
+      applicationType: renewedApplicationId ? 'renewal' : 'new_registration',
+      previousExpiryDate: renewedCertificateData?.certificate.validUpto,
+    }, feeRates);
 
     return {
       baseFee: feeBreakdown.baseFee,
@@ -628,6 +648,8 @@ export default function NewApplication() {
       femaleOwnerDiscount: feeBreakdown.femaleOwnerDiscount,
       pangiDiscount: feeBreakdown.pangiDiscount,
       totalDiscount: feeBreakdown.totalDiscount,
+      lateFee: feeBreakdown.lateFee,
+      lateFeeMonths: feeBreakdown.lateFeeMonths,
       totalFee: feeBreakdown.finalFee,
       savingsAmount: feeBreakdown.savingsAmount,
       savingsPercentage: feeBreakdown.savingsPercentage,
@@ -637,6 +659,25 @@ export default function NewApplication() {
     };
   };
 
+  // Uploaded ANNEXURE-II documents with their document types
+  const collectDocuments = () => [
+    ...Object.entries(DOCUMENT_STATE_KEYS).flatMap(([documentType, key]) =>
+      (uploadedDocuments[key] || []).map(f => ({ ...f, documentType }))
+    ),
+    ...propertyPhotos.map(f => ({ ...f, documentType: 'property_photo' })),
+  ];
+
+  // Required/optional documents for the current category, location, project type and ownership
+  const documentRequirementInput = {
+    category: category || "",
+    locationType: locationType || "",
+    projectType: projectType || "",
+    propertyOwnership,
+  };
+  const documentRequirements = getDocumentRequirements(documentRequirementInput);
+  const conditionalDocumentRequirements = documentRequirements.filter(req => !STANDARD_DOCUMENT_TYPES.includes(req.documentType));
+  const outstandingDocuments = getOutstandingDocuments(evaluateDocumentChecklist(documentRequirementInput, collectDocuments()));
+
   const [draftId, setDraftId] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
 
@@ -667,16 +708,9 @@ export default function NewApplication() {
         gstAmount: "0",
         totalRooms,
         certificateValidityYears: parseInt(certificateValidityYears),
-        isPangiSubDivision: district === "Chamba" && tehsil === "Pangi",
+        isPangiSubDivision: isInPangiSubDivision(district, tehsil),
         currentPage: step, // Save the current page/step for resume functionality
-        documents: [
-          ...uploadedDocuments.revenuePapers.map(f => ({ ...f, documentType: 'revenue_papers' })),
-          ...uploadedDocuments.affidavitSection29.map(f => ({ ...f, documentType: 'affidavit_section_29' })),
-          ...uploadedDocuments.undertakingFormC.map(f => ({ ...f, documentType: 'undertaking_form_c' })),
-          ...uploadedDocuments.registerForVerification.map(f => ({ ...f, documentType: 'register_for_verification' })),
-          ...uploadedDocuments.billBook.map(f => ({ ...f, documentType: 'bill_book' })),
-          ...propertyPhotos.map(f => ({ ...f, documentType: 'property_photo' })),
-        ],
+        documents: collectDocuments(),
       };
 
       if (draftId) {
@@ -730,18 +764,11 @@ export default function NewApplication() {
         gstAmount: "0",
         totalRooms,
         certificateValidityYears: parseInt(certificateValidityYears),
-        isPangiSubDivision: district === "Chamba" && tehsil === "Pangi",
+        isPangiSubDivision: isInPangiSubDivision(district, tehsil),
         status: 'pending',
         submittedAt: new Date().toISOString(),
         // Include uploaded ANNEXURE-II documents with metadata
-        documents: [
-          ...uploadedDocuments.revenuePapers.map(f => ({ ...f, documentType: 'revenue_papers' })),
-          ...uploadedDocuments.affidavitSection29.map(f => ({ ...f, documentType: 'affidavit_section_29' })),
-          ...uploadedDocuments.undertakingFormC.map(f => ({ ...f, documentType: 'undertaking_form_c' })),
-          ...uploadedDocuments.registerForVerification.map(f => ({ ...f, documentType: 'register_for_verification' })),
-          ...uploadedDocuments.billBook.map(f => ({ ...f, documentType: 'bill_book' })),
-          ...propertyPhotos.map(f => ({ ...f, documentType: 'property_photo' })),
-        ],
+        documents: collectDocuments(),
       };
 
       const response = await apiRequest("POST", "/api/applications", payload);
@@ -756,6 +783,8 @@ export default function NewApplication() {
       setLocation("/dashboard");
     },
     onError: (error: any) => {
+      // The fee schedule may have changed since the form loaded; refresh it so the summary matches
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-schedules/current"] });
       toast({
         title: "Failed to create application",
         description: error.message || "Please try again",
@@ -878,18 +907,10 @@ export default function NewApplication() {
 
     // Step 5: Validate Documents (ANNEXURE-II)
     if (step === 5) {
-      const missingDocs = [];
-      if (uploadedDocuments.revenuePapers.length === 0) missingDocs.push("Revenue Papers");
-      if (uploadedDocuments.affidavitSection29.length === 0) missingDocs.push("Affidavit under Section 29");
-      if (uploadedDocuments.undertakingFormC.length === 0) missingDocs.push("Undertaking in Form-C");
-      if (uploadedDocuments.registerForVerification.length === 0) missingDocs.push("Register for Verification");
-      if (uploadedDocuments.billBook.length === 0) missingDocs.push("Bill Book");
-      if (propertyPhotos.length < 2) missingDocs.push("Property Photos (minimum 2)");
-      
-      if (missingDocs.length > 0) {
+      if (outstandingDocuments.length > 0) {
         toast({
           title: "Required ANNEXURE-II documents missing",
-          description: `Please upload: ${missingDocs.join(", ")}`,
+          description: `Please upload: ${outstandingDocuments.map(describeOutstandingDocument).join(", ")}`,
           variant: "destructive"
         });
         return;
@@ -951,6 +972,19 @@ export default function NewApplication() {
           steps={STEP_CONFIG}
         />
 
+        {draftData?.application?.applicationType === 'renewal' && (
+          <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50 dark:bg-blue-950/20 p-4 flex gap-3" data-testid="banner-renewal">
+            <Info className="w-5 h-5 text-blue-600 mt-0.5 shrink-0" />
+            <div className="text-sm">
+              <p className="font-medium text-blue-800 dark:text-blue-300">Certificate Renewal</p>
+              <p className="text-muted-foreground">
+                Details are pre-filled from your approved application. Update anything that has changed and submit.
+                Renewals are reviewed without a fresh site inspection.
+              </p>
+            </div>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             {step === 1 && (
@@ -2178,17 +2212,34 @@ export default function NewApplication() {
                     />
                   </div>
 
+                  {/* Documents that depend on category, location, project type and ownership */}
+                  {conditionalDocumentRequirements.map(req => (
+                    <div className="space-y-2" key={req.documentType}>
+                      <label className="text-sm font-medium">
+                        {req.label} {req.required ? <span className="text-destructive">*</span> : <span className="text-muted-foreground font-normal">(Optional)</span>}
+                      </label>
+                      <p className="text-xs text-muted-foreground mb-2">
+                        {req.description}{req.reason ? ` · Required: ${req.reason}` : ""}
+                      </p>
+                      <ObjectUploader
+                        label={`Upload ${req.label}`}
+                        accept=".pdf,.jpg,.jpeg,.png"
+                        maxFiles={2}
+                        fileType={req.documentType.replace(/_/g, "-")}
+                        onUploadComplete={(paths) => setUploadedDocuments(prev => ({ ...prev, [DOCUMENT_STATE_KEYS[req.documentType]]: paths }))}
+                        existingFiles={uploadedDocuments[DOCUMENT_STATE_KEYS[req.documentType]]}
+                      />
+                    </div>
+                  ))}
+
                   {/* Validation Messages */}
-                  {(uploadedDocuments.revenuePapers.length === 0 || uploadedDocuments.affidavitSection29.length === 0 || uploadedDocuments.undertakingFormC.length === 0 || uploadedDocuments.registerForVerification.length === 0 || uploadedDocuments.billBook.length === 0 || propertyPhotos.length < 2) && (
+                  {outstandingDocuments.length > 0 && (
                     <div className="bg-orange-50 dark:bg-orange-950/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4 mt-4">
                       <p className="text-sm text-orange-800 dark:text-orange-200 font-medium mb-2">Required documents missing:</p>
                       <ul className="text-sm text-orange-700 dark:text-orange-300 list-disc list-inside space-y-1">
-                        {uploadedDocuments.revenuePapers.length === 0 && <li>Revenue Papers (Jamabandi & Tatima)</li>}
-                        {uploadedDocuments.affidavitSection29.length === 0 && <li>Affidavit under Section 29</li>}
-                        {uploadedDocuments.undertakingFormC.length === 0 && <li>Undertaking in Form-C</li>}
-                        {uploadedDocuments.registerForVerification.length === 0 && <li>Register for Verification</li>}
-                        {uploadedDocuments.billBook.length === 0 && <li>Bill Book</li>}
-                        {propertyPhotos.length < 2 && <li>At least 2 property photos ({propertyPhotos.length}/2)</li>}
+                        {outstandingDocuments.map(item => (
+                          <li key={item.documentType}>{describeOutstandingDocument(item)}</li>
+                        ))}
                       </ul>
                     </div>
                   )}
@@ -2344,17 +2395,17 @@ export default function NewApplication() {
                                 <label htmlFor="validity-3" className="flex-1 cursor-pointer">
                                   <div className="font-medium mb-1 flex items-center gap-2">
                                     3 Years (Lump Sum)
-                                    <Badge variant="default" className="text-xs">10% OFF</Badge>
+                                    <Badge variant="default" className="text-xs">{formatRate(feeRates.threeYearDiscountRate)} OFF</Badge>
                                   </div>
                                   <div className="text-sm text-muted-foreground">
-                                    Save ₹{((fees.baseFee * 3 * 0.10)).toFixed(0)} with 3-year payment
+                                    Save ₹{((fees.baseFee * 3 * feeRates.threeYearDiscountRate)).toFixed(0)} with 3-year payment
                                   </div>
                                 </label>
                               </div>
                             </RadioGroup>
                           </FormControl>
                           <FormDescription>
-                            Choose certificate validity period. 3-year lump sum payment receives 10% discount
+                            Choose certificate validity period. 3-year lump sum payment receives {formatRate(feeRates.threeYearDiscountRate)} discount
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -2398,24 +2449,32 @@ export default function NewApplication() {
                           <div className="text-sm font-medium mb-2 text-green-600 dark:text-green-400">Discounts Applied:</div>
                           {fees.validityDiscount > 0 && (
                             <div className="flex justify-between text-sm">
-                              <span className="text-muted-foreground">3-year lump sum (10%)</span>
+                              <span className="text-muted-foreground">3-year lump sum ({formatRate(feeRates.threeYearDiscountRate)})</span>
                               <span className="text-green-600 dark:text-green-400">-₹{fees.validityDiscount.toFixed(0)}</span>
                             </div>
                           )}
                           {fees.femaleOwnerDiscount > 0 && (
                             <div className="flex justify-between text-sm mt-1">
-                              <span className="text-muted-foreground">Female owner (5%)</span>
+                              <span className="text-muted-foreground">Female owner ({formatRate(feeRates.femaleOwnerDiscountRate)})</span>
                               <span className="text-green-600 dark:text-green-400">-₹{fees.femaleOwnerDiscount.toFixed(0)}</span>
                             </div>
                           )}
                           {fees.pangiDiscount > 0 && (
                             <div className="flex justify-between text-sm mt-1">
-                              <span className="text-muted-foreground">Pangi sub-division (50%)</span>
+                              <span className="text-muted-foreground">Pangi sub-division ({formatRate(feeRates.pangiDiscountRate)})</span>
                               <span className="text-green-600 dark:text-green-400">-₹{fees.pangiDiscount.toFixed(0)}</span>
                             </div>
                           )}
                         </div>
                       )}
+                      {fees.lateFee > 0 && (
+                        <div className="border-t pt-3 mt-3 flex justify-between text-sm" data-testid="text-late-fee">
+                          <span className="text-muted-foreground">
+                            Late renewal fee ({fees.lateFeeMonths} {fees.lateFeeMonths === 1 ? "month" : "months"} after grace period)
+                          </span>
+                          <span className="text-destructive">+₹{fees.lateFee.toFixed(0)}</span>
+                        </div>
+                      )}
                       <div className="pt-3 border-t flex justify-between text-lg">
                         <span className="font-semibold">Total Payable</span>
                         <span className="font-bold text-primary" data-testid="text-total-fee">₹{fees.totalFee.toFixed(0)}</span>
@@ -2614,6 +2673,9 @@ export default function NewApplication() {
                     <div><span className="text-muted-foreground">Register for Verification:</span> <span className="font-medium">{uploadedDocuments.registerForVerification.length} file(s)</span></div>
                     <div><span className="text-muted-foreground">Bill Book:</span> <span className="font-medium">{uploadedDocuments.billBook.length} file(s)</span></div>
                     <div><span className="text-muted-foreground">Property Photos:</span> <span className="font-medium">{propertyPhotos.length} file(s)</span></div>
+                    {conditionalDocumentRequirements.map(req => (
+                      <div key={req.documentType}><span className="text-muted-foreground">{req.label}:</span> <span className="font-medium">{uploadedDocuments[DOCUMENT_STATE_KEYS[req.documentType]]?.length || 0} file(s)</span></div>
+                    ))}
                   </CardContent>
                 </Card>
 
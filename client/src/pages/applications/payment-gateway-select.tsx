@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeftCircle, CreditCard, QrCode, Building2, Landmark, Wallet } from "lucide-react";
 import type { HomestayApplication } from "@shared/schema";
+import { usePaymentGateways } from "@/hooks/use-gateway-checkout";
 
 export default function PaymentGatewaySelect() {
   const [, params] = useRoute("/applications/:id/payment-gateway");
@@ -16,7 +17,10 @@ export default function PaymentGatewaySelect() {
     enabled: !!id,
   });
 
-  if (isLoading) {
+  // Online gateways are enabled by the department; UPI QR is always offered
+  const { data: gatewaysData, isLoading: gatewaysLoading } = usePaymentGateways();
+
+  if (isLoading || gatewaysLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -84,7 +88,9 @@ export default function PaymentGatewaySelect() {
       features: ['All UPI Apps', 'No Registration', 'Instant Payment', 'Manual Entry Required'],
       route: `/applications/${id}/payment`,
     },
-  ];
+  ].filter((gateway) => gateway.id === 'upi_qr' || gatewaysData?.gateways.some((option) => option.id === gateway.id));
+
+  const defaultGatewayId = gatewaysData?.gateways.find((option) => option.isDefault)?.id ?? 'himkosh';
 
   return (
     <div className="bg-background">
@@ -160,10 +166,10 @@ export default function PaymentGatewaySelect() {
                     <Button
                       onClick={() => setLocation(gateway.route)}
                       className="w-full"
-                      variant={gateway.id === 'himkosh' ? 'default' : 'outline'}
+                      variant={gateway.id === defaultGatewayId ? 'default' : 'outline'}
                       data-testid={`button-select-${gateway.id}`}
                     >
-                      {gateway.id === 'himkosh' ? 'Pay with ' : 'Choose '}
+                      {gateway.id === defaultGatewayId ? 'Pay with ' : 'Choose '}
                       {gateway.name}
                     </Button>
                   </div>
@@ -115,6 +115,7 @@ export default function HimKoshPaymentPage() {
   const femaleOwnerDiscount = parseFloat(application.femaleOwnerDiscount || '0');
   const pangiDiscount = parseFloat(application.pangiDiscount || '0');
   const totalDiscount = parseFloat(application.totalDiscount || '0');
+  const lateFee = parseFloat(application.lateFee || '0');
   const totalFee = parseFloat(application.totalFee || '0');
   const certificateValidityYears = application.certificateValidityYears || 1;
   
@@ -203,6 +204,12 @@ export default function HimKoshPaymentPage() {
                     </div>
                   </>
                 )}
+                {lateFee > 0 && (
+                  <div className="flex justify-between items-center text-destructive">
+                    <span className="text-sm">Late Renewal Fee</span>
+                    <span>+₹{lateFee.toLocaleString('en-IN')}</span>
+                  </div>
+                )}
                 <Separator className="my-2" />
                 <div className="flex justify-between items-center">
                   <span className="font-bold text-lg">Total Amount</span>
@@ -6,20 +6,20 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ArrowLeftCircle, Wallet, Zap, Shield, CheckCircle, AlertCircle, TrendingUp } from "lucide-react";
 import type { HomestayApplication } from "@shared/schema";
-import { useState } from "react";
+import { useGatewayCheckout } from "@/hooks/use-gateway-checkout";
 
 export default function PaymentPayU() {
   const [, params] = useRoute("/applications/:id/payment-payu");
   const [, setLocation] = useLocation();
   const id = params?.id;
-  const [isProcessing, setIsProcessing] = useState(false);
+  const { gateway, isEnabled, isLoading: gatewaysLoading, checkout } = useGatewayCheckout("payu", id);
 
   const { data: applicationData, isLoading } = useQuery<{ application: HomestayApplication }>({
     queryKey: ["/api/applications", id],
     enabled: !!id,
   });
 
-  if (isLoading) {
+  if (isLoading || gatewaysLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -36,13 +36,8 @@ export default function PaymentPayU() {
     return <div>Application not found</div>;
   }
 
-  const handlePayUPayment = async () => {
-    setIsProcessing(true);
-    // TODO: Integrate with PayU API
-    console.log("Initiating PayU payment...");
-    
-    alert("PayU integration pending. Please provide PayU merchant credentials to enable this payment method.");
-    setIsProcessing(false);
+  const handlePayUPayment = () => {
+    checkout.mutate();
   };
 
   return (
@@ -73,14 +68,22 @@ export default function PaymentPayU() {
           </div>
         </div>
 
-        {/* Test Mode Alert */}
-        <Alert className="mb-6 border-yellow-500 bg-yellow-500/10">
-          <AlertCircle className="h-4 w-4 text-yellow-600" />
-          <AlertDescription className="text-yellow-600 dark:text-yellow-500">
-            <strong>Test Mode:</strong> PayU integration requires merchant credentials. 
-            Please contact HP Tourism Department to enable live payments.
-          </AlertDescription>
-        </Alert>
+        {/* Gateway Availability */}
+        {!isEnabled ? (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              PayU payments are not enabled. Please choose another payment method.
+            </AlertDescription>
+          </Alert>
+        ) : gateway?.isMock && (
+          <Alert className="mb-6 border-yellow-500 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-600 dark:text-yellow-500">
+              <strong>Test Mode:</strong> PayU is running against a local mock checkout. No real money is charged.
+            </AlertDescription>
+          </Alert>
+        )}
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Left Column */}
@@ -164,12 +167,12 @@ export default function PaymentPayU() {
 
                 <Button
                   onClick={handlePayUPayment}
-                  disabled={isProcessing}
+                  disabled={!isEnabled || checkout.isPending}
                   className="w-full"
                   size="lg"
                   data-testid="button-pay-payu"
                 >
-                  {isProcessing ? (
+                  {checkout.isPending ? (
                     <>
                       <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent mr-2"></div>
                       Processing...
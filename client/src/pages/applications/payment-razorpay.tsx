@@ -6,20 +6,20 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ArrowLeftCircle, CreditCard, Smartphone, Building2, Wallet, AlertCircle, Shield, CheckCircle } from "lucide-react";
 import type { HomestayApplication } from "@shared/schema";
-import { useState } from "react";
+import { useGatewayCheckout } from "@/hooks/use-gateway-checkout";
 
 export default function PaymentRazorpay() {
   const [, params] = useRoute("/applications/:id/payment-razorpay");
   const [, setLocation] = useLocation();
   const id = params?.id;
-  const [isProcessing, setIsProcessing] = useState(false);
+  const { gateway, isEnabled, isLoading: gatewaysLoading, checkout } = useGatewayCheckout("razorpay", id);
 
   const { data: applicationData, isLoading } = useQuery<{ application: HomestayApplication }>({
     queryKey: ["/api/applications", id],
     enabled: !!id,
   });
 
-  if (isLoading) {
+  if (isLoading || gatewaysLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -36,15 +36,8 @@ export default function PaymentRazorpay() {
     return <div>Application not found</div>;
   }
 
-  const handleRazorpayPayment = async () => {
-    setIsProcessing(true);
-    // TODO: Integrate with Razorpay API
-    // Will implement after getting Razorpay credentials
-    console.log("Initiating Razorpay payment...");
-    
-    // Placeholder for Razorpay integration
-    alert("Razorpay integration pending. Please provide Razorpay API credentials to enable this payment method.");
-    setIsProcessing(false);
+  const handleRazorpayPayment = () => {
+    checkout.mutate();
   };
 
   const paymentMethods = [
@@ -98,14 +91,22 @@ export default function PaymentRazorpay() {
           </div>
         </div>
 
-        {/* Test Mode Alert */}
-        <Alert className="mb-6 border-yellow-500 bg-yellow-500/10">
-          <AlertCircle className="h-4 w-4 text-yellow-600" />
-          <AlertDescription className="text-yellow-600 dark:text-yellow-500">
-            <strong>Test Mode:</strong> Razorpay integration requires API credentials. 
-            Please contact HP Tourism Department to enable live payments.
-          </AlertDescription>
-        </Alert>
+        {/* Gateway Availability */}
+        {!isEnabled ? (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Razorpay payments are not enabled. Please choose another payment method.
+            </AlertDescription>
+          </Alert>
+        ) : gateway?.isMock && (
+          <Alert className="mb-6 border-yellow-500 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-600 dark:text-yellow-500">
+              <strong>Test Mode:</strong> Razorpay is running against a local mock checkout. No real money is charged.
+            </AlertDescription>
+          </Alert>
+        )}
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Left Column - Payment Methods */}
@@ -167,12 +168,12 @@ export default function PaymentRazorpay() {
 
                 <Button
                   onClick={handleRazorpayPayment}
-                  disabled={isProcessing}
+                  disabled={!isEnabled || checkout.isPending}
                   className="w-full mt-6"
                   size="lg"
                   data-testid="button-pay-razorpay"
                 >
-                  {isProcessing ? (
+                  {checkout.isPending ? (
                     <>
                       <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent mr-2"></div>
                       Processing...
@@ -7,8 +7,11 @@ import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { CheckCircle2, AlertCircle, CreditCard, QrCode, ArrowLeft, Copy, Check } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ObjectUploader, UploadedFileMetadata } from "@/components/ObjectUploader";
+import { CheckCircle2, AlertCircle, CreditCard, QrCode, ArrowLeft, Copy, Check, Landmark } from "lucide-react";
 import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import type { HomestayApplication, Payment } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -18,7 +21,11 @@ export default function PaymentPage() {
   const { id } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [upiTransactionId, setUpiTransactionId] = useState("");
+  const [mode, setMode] = useState<"upi" | "challan">("upi");
+  const [reference, setReference] = useState("");
+  const [paidOn, setPaidOn] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [bankName, setBankName] = useState("");
+  const [proof, setProof] = useState<UploadedFileMetadata[]>([]);
   const [copied, setCopied] = useState(false);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>("");
 
@@ -59,7 +66,11 @@ export default function PaymentPage() {
   const submitPaymentMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", `/api/applications/${id}/payment`, {
-        upiTransactionId: upiTransactionId.trim(),
+        mode,
+        reference: reference.trim(),
+        paidOn,
+        bankName: mode === "challan" ? bankName.trim() || undefined : undefined,
+        documents: proof,
       });
       return response.json();
     },
@@ -70,12 +81,13 @@ export default function PaymentPage() {
         title: "Payment Submitted",
         description: "Your payment has been submitted for verification.",
       });
-      setUpiTransactionId("");
+      setReference("");
+      setProof([]);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Submission failed",
-        description: "Failed to submit payment. Please try again.",
+        description: error.message || "Failed to submit payment. Please try again.",
         variant: "destructive",
       });
     },
@@ -92,10 +104,18 @@ export default function PaymentPage() {
   };
 
   const handleSubmitPayment = () => {
-    if (!upiTransactionId.trim()) {
+    if (!reference.trim()) {
       toast({
-        title: "Transaction ID required",
-        description: "Please enter the UPI Transaction ID",
+        title: mode === "upi" ? "UTR required" : "Challan number required",
+        description: mode === "upi" ? "Please enter the UPI transaction reference (UTR)" : "Please enter the challan number",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (proof.length === 0) {
+      toast({
+        title: "Proof required",
+        description: mode === "upi" ? "Please upload a screenshot of the payment" : "Please upload a copy of the paid challan",
         variant: "destructive",
       });
       return;
@@ -163,6 +183,7 @@ export default function PaymentPage() {
   const femaleOwnerDiscount = application.femaleOwnerDiscount ? parseFloat(application.femaleOwnerDiscount) : 0;
   const pangiDiscount = application.pangiDiscount ? parseFloat(application.pangiDiscount) : 0;
   const totalDiscount = application.totalDiscount ? parseFloat(application.totalDiscount) : 0;
+  const lateFee = application.lateFee ? parseFloat(application.lateFee) : 0;
   const totalFee = application.totalFee ? parseFloat(application.totalFee) : 0;
   const certificateValidityYears = application.certificateValidityYears || 1;
   
@@ -172,6 +193,7 @@ export default function PaymentPage() {
   const hasFeeData = baseFee > 0 && totalFee > 0;
 
   const isPending = existingPayment?.paymentStatus === "pending_verification";
+  const isRejected = existingPayment?.paymentStatus === "rejected";
 
   return (
     <div className="container mx-auto p-6 max-w-4xl">
@@ -193,7 +215,16 @@ export default function PaymentPage() {
         <Alert className="mb-6 border-yellow-500 bg-yellow-50">
           <AlertCircle className="h-4 w-4 text-yellow-600" />
           <AlertDescription className="text-yellow-800">
-            Your payment is pending verification by district officer. You will be notified once verified.
+            Your payment ({existingPayment?.offlineReference}) is pending verification by the district office. You will be notified once verified.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isRejected && (
+        <Alert className="mb-6 border-red-500 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">
+            Your payment proof ({existingPayment?.offlineReference}) could not be verified: {existingPayment?.failureReason}. Please check the details and submit again.
           </AlertDescription>
         </Alert>
       )}
@@ -266,6 +297,12 @@ export default function PaymentPage() {
                   )}
                 </>
               )}
+              {lateFee > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm">Late renewal fee</span>
+                  <span className="text-destructive">+₹{lateFee.toLocaleString('en-IN')}</span>
+                </div>
+              )}
               <Separator className="my-2" />
               <div className="flex justify-between items-center">
                 <span className="font-bold text-lg">Total Amount</span>
@@ -283,75 +320,138 @@ export default function PaymentPage() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <QrCode className="h-5 w-5" />
-              Payment Instructions
+              Pay Offline
             </CardTitle>
-            <CardDescription>Complete payment via UPI</CardDescription>
+            <CardDescription>Pay by UPI or treasury challan, then submit the proof for verification</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="bg-muted p-4 rounded-lg text-center">
-              <div className="text-sm font-medium mb-2">Scan QR Code or Use UPI ID</div>
-              <div className="bg-white p-4 rounded-lg inline-block mb-3">
-                {qrCodeDataUrl ? (
-                  <img 
-                    src={qrCodeDataUrl} 
-                    alt="UPI Payment QR Code" 
-                    className="w-48 h-48"
-                    data-testid="img-upi-qr"
-                  />
-                ) : (
-                  <div className="w-48 h-48 bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center">
-                    <QrCode className="h-16 w-16 text-primary" />
+            <Tabs value={mode} onValueChange={(value) => setMode(value as "upi" | "challan")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="upi" disabled={isPending} data-testid="tab-upi">
+                  <QrCode className="h-4 w-4 mr-2" />
+                  UPI QR
+                </TabsTrigger>
+                <TabsTrigger value="challan" disabled={isPending} data-testid="tab-challan">
+                  <Landmark className="h-4 w-4 mr-2" />
+                  Challan
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="upi" className="space-y-4">
+                <div className="bg-muted p-4 rounded-lg text-center">
+                  <div className="text-sm font-medium mb-2">Scan QR Code or Use UPI ID</div>
+                  <div className="bg-white p-4 rounded-lg inline-block mb-3">
+                    {qrCodeDataUrl ? (
+                      <img 
+                        src={qrCodeDataUrl} 
+                        alt="UPI Payment QR Code" 
+                        className="w-48 h-48"
+                        data-testid="img-upi-qr"
+                      />
+                    ) : (
+                      <div className="w-48 h-48 bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center">
+                        <QrCode className="h-16 w-16 text-primary" />
+                      </div>
+                    )}
                   </div>
-                )}
+                  <div className="flex items-center justify-center gap-2 bg-white p-2 rounded border">
+                    <code className="text-sm font-mono">{UPI_ID}</code>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={handleCopyUPI}
+                      className="h-6 w-6"
+                      data-testid="button-copy-upi"
+                    >
+                      {copied ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+                    </Button>
+                  </div>
+                </div>
+
+                <Alert>
+                  <CheckCircle2 className="h-4 w-4" />
+                  <AlertDescription>
+                    <ol className="list-decimal list-inside space-y-1 text-sm">
+                      <li>Scan the QR code or copy UPI ID</li>
+                      <li>Pay ₹{totalFee.toLocaleString('en-IN')} from your UPI app</li>
+                      <li>Note the 12-digit UTR and take a screenshot</li>
+                      <li>Enter the UTR below and upload the screenshot</li>
+                    </ol>
+                  </AlertDescription>
+                </Alert>
+              </TabsContent>
+
+              <TabsContent value="challan" className="space-y-4">
+                <Alert>
+                  <Landmark className="h-4 w-4" />
+                  <AlertDescription>
+                    <ol className="list-decimal list-inside space-y-1 text-sm">
+                      <li>Deposit ₹{totalFee.toLocaleString('en-IN')} at the treasury or an authorised bank branch against application {application.applicationNumber}</li>
+                      <li>Collect the paid challan stamped by the bank</li>
+                      <li>Enter the challan number below and upload a copy of the challan</li>
+                    </ol>
+                  </AlertDescription>
+                </Alert>
+                <div className="space-y-2">
+                  <Label htmlFor="challan-bank">Bank / Treasury</Label>
+                  <Input
+                    id="challan-bank"
+                    placeholder="e.g., SBI Mall Road, Shimla"
+                    value={bankName}
+                    onChange={(e) => setBankName(e.target.value)}
+                    disabled={isPending}
+                    data-testid="input-challan-bank"
+                  />
+                </div>
+              </TabsContent>
+            </Tabs>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="payment-reference">{mode === "upi" ? "UPI Transaction Reference (UTR) *" : "Challan Number *"}</Label>
+                <Input
+                  id="payment-reference"
+                  placeholder={mode === "upi" ? "e.g., 123456789012" : "e.g., CHL/2025/001234"}
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  disabled={isPending}
+                  data-testid="input-payment-reference"
+                />
               </div>
-              <div className="flex items-center justify-center gap-2 bg-white p-2 rounded border">
-                <code className="text-sm font-mono">{UPI_ID}</code>
-                <Button
-                  size="icon"
-                  variant="ghost"
-                  onClick={handleCopyUPI}
-                  className="h-6 w-6"
-                  data-testid="button-copy-upi"
-                >
-                  {copied ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
-                </Button>
+              <div className="space-y-2">
+                <Label htmlFor="payment-date">Payment Date *</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  value={paidOn}
+                  onChange={(e) => setPaidOn(e.target.value)}
+                  disabled={isPending}
+                  data-testid="input-payment-date"
+                />
               </div>
             </div>
 
-            <Alert>
-              <CheckCircle2 className="h-4 w-4" />
-              <AlertDescription>
-                <ol className="list-decimal list-inside space-y-1 text-sm">
-                  <li>Scan the QR code or copy UPI ID</li>
-                  <li>Pay ₹{totalFee.toLocaleString('en-IN')} from your UPI app</li>
-                  <li>Copy the UPI Transaction ID</li>
-                  <li>Enter it below and submit</li>
-                </ol>
-              </AlertDescription>
-            </Alert>
-
-            <div className="space-y-2">
-              <Label htmlFor="upi-txn-id">UPI Transaction ID *</Label>
-              <Input
-                id="upi-txn-id"
-                placeholder="e.g., 123456789012"
-                value={upiTransactionId}
-                onChange={(e) => setUpiTransactionId(e.target.value)}
-                disabled={isPending}
-                data-testid="input-upi-transaction-id"
+            {!isPending && (
+              <ObjectUploader
+                label={mode === "upi" ? "Payment Screenshot *" : "Paid Challan Copy *"}
+                existingFiles={proof}
+                onUploadComplete={setProof}
+                fileType="documents/payment-proofs"
+                applicationId={id}
+                accept="application/pdf,image/*"
+                multiple={true}
+                maxFiles={3}
               />
-              <p className="text-xs text-muted-foreground">
-                Find this in your UPI app after successful payment
-              </p>
-            </div>
+            )}
 
             <Button
               onClick={handleSubmitPayment}
-              disabled={submitPaymentMutation.isPending || !upiTransactionId.trim() || isPending}
+              disabled={submitPaymentMutation.isPending || !reference.trim() || proof.length === 0 || isPending}
               className="w-full"
               data-testid="button-submit-payment"
             >
-              {submitPaymentMutation.isPending ? "Submitting..." : isPending ? "Payment Pending Verification" : "I Have Completed Payment"}
+              {submitPaymentMutation.isPending ? "Submitting..." : isPending ? "Payment Pending Verification" : "Submit for Verification"}
             </Button>
           </CardContent>
         </Card>
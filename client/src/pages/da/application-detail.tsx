@@ -42,6 +42,13 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getFileViewUrl, getPhotoUrl } from "@/lib/document-images";
+import {
+  evaluateDocumentChecklist,
+  getUnverifiedRequiredDocuments,
+  getDocumentTypeLabel,
+  type DocumentChecklistStatus,
+} from "@shared/required-documents";
 import type { HomestayApplication, Document } from "@shared/schema";
 
 interface ApplicationData {
@@ -60,6 +67,12 @@ interface DocumentVerification {
   notes: string;
 }
 
+const CHECKLIST_STATUS_STYLES: Record<DocumentChecklistStatus, { label: string; className: string }> = {
+  present: { label: 'Present', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 border-green-300 dark:border-green-700' },
+  missing: { label: 'Missing', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300 border-amber-300 dark:border-amber-700' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300 border-red-300 dark:border-red-700' },
+};
+
 export default function DAApplicationDetail() {
   const { id } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
@@ -162,18 +175,39 @@ export default function DAApplicationDetail() {
         description: "Your verification progress has been saved",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to save progress",
+        description: error.message || "Failed to save progress",
         variant: "destructive",
       });
     },
   });
 
-  // Forward to DTDO Mutation
+  // Record one document decision (verify, reject, needs replacement, clear)
+  const documentDecisionMutation = useMutation({
+    mutationFn: async ({ documentId, status, notes }: { documentId: string; status: DocumentVerification['status']; notes: string }) => {
+      const response = await apiRequest("POST", `/api/da/documents/${documentId}/verification`, { status, notes });
+      return response.json();
+    },
+    onSuccess: (_, { documentId, status, notes }) => {
+      setVerifications(prev => ({ ...prev, [documentId]: { documentId, status, notes } }));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save decision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Forward to DTDO Mutation (bulk decisions such as Verify All are saved first)
   const forwardMutation = useMutation({
     mutationFn: async () => {
+      await apiRequest("POST", `/api/da/applications/${id}/save-scrutiny`, {
+        verifications: Object.values(verifications),
+      });
       return await apiRequest("POST", `/api/da/applications/${id}/forward-to-dtdo`, { remarks });
     },
     onSuccess: () => {
@@ -186,10 +220,10 @@ export default function DAApplicationDetail() {
       });
       setLocation("/da/dashboard");
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to forward application",
+        description: error.message || "Failed to forward application",
         variant: "destructive",
       });
     },
@@ -283,6 +317,28 @@ export default function DAApplicationDetail() {
   const completedDocs = Object.values(verifications).filter(v => v.status !== 'pending').length;
   const progress = totalDocs > 0 ? Math.round((completedDocs / totalDocs) * 100) : 0;
 
+  // ANNEXURE-II checklist, reflecting the statuses being marked on this screen
+  const documentChecklist = evaluateDocumentChecklist(
+    application,
+    documents.map(doc => ({ ...doc, verificationStatus: verifications[doc.id]?.status ?? doc.verificationStatus }))
+  );
+  const outstandingRequiredCount = documentChecklist.filter(item => item.required && item.status !== 'present').length;
+  const unverifiedRequired = getUnverifiedRequiredDocuments(documentChecklist);
+
+  const decideDocument = (doc: Document, status: DocumentVerification['status']) => {
+    const notes = verifications[doc.id]?.notes?.trim() || '';
+    if ((status === 'rejected' || status === 'needs_correction') && !notes) {
+      setExpandedNotes(prev => ({ ...prev, [doc.id]: true }));
+      toast({
+        title: "Reason required",
+        description: "Tell the applicant why this document is rejected or must be replaced, then choose the action again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    documentDecisionMutation.mutate({ documentId: doc.id, status, notes });
+  };
+
   const updateVerification = (docId: string, updates: Partial<DocumentVerification>) => {
     setVerifications(prev => ({
       ...prev,
@@ -311,7 +367,7 @@ export default function DAApplicationDetail() {
       case 'needs_correction':
         return (
           <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300 border border-amber-300 dark:border-amber-700">
-            <AlertCircle className="w-3 h-3 mr-1" />Needs Correction
+            <AlertCircle className="w-3 h-3 mr-1" />Replacement Requested
           </span>
         );
       default:
@@ -367,33 +423,41 @@ export default function DAApplicationDetail() {
             </div>
           </div>
           
-          {/* Navigation Controls */}
-          {applicationQueue.length > 1 && (
-            <div className="flex gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={goToPrevious}
-                disabled={!hasPrevious}
-                data-testid="button-previous"
-                title="Previous application (←)"
-              >
-                <ChevronLeft className="w-4 h-4 mr-1" />
-                Previous
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={goToNext}
-                disabled={!hasNext}
-                data-testid="button-next"
-                title="Next application (→)"
-              >
-                Next
-                <ChevronRight className="w-4 h-4 ml-1" />
-              </Button>
-            </div>
-          )}
+          {/* Dossier and Navigation Controls */}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild data-testid="button-download-dossier" title="Download the complete application dossier (ZIP)">
+              <a href={`/api/documents/application/${application.id}/dossier`} download>
+                <Download className="w-4 h-4 mr-1" />
+                Dossier
+              </a>
+            </Button>
+            {applicationQueue.length > 1 && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={goToPrevious}
+                  disabled={!hasPrevious}
+                  data-testid="button-previous"
+                  title="Previous application (←)"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={goToNext}
+                  disabled={!hasNext}
+                  data-testid="button-next"
+                  title="Next application (→)"
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </>
+            )}
+          </div>
 
           {/* Action Buttons */}
           <div className="flex gap-2 w-full sm:w-auto">
@@ -429,6 +493,8 @@ export default function DAApplicationDetail() {
                 </Button>
                 <Button
                   onClick={() => setForwardDialogOpen(true)}
+                  disabled={unverifiedRequired.length > 0}
+                  title={unverifiedRequired.length > 0 ? `Verify first: ${unverifiedRequired.map(item => item.label).join(", ")}` : undefined}
                   data-testid="button-forward"
                 >
                   <Send className="w-4 h-4 mr-2" />
@@ -466,7 +532,60 @@ export default function DAApplicationDetail() {
         </TabsList>
 
         {/* Documents Tab - Split Screen */}
-        <TabsContent value="documents" className="space-y-0">
+        <TabsContent value="documents" className="space-y-6">
+          {/* Required Documents (ANNEXURE-II) */}
+          <Card data-testid="card-required-documents">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4 flex-wrap">
+                <div>
+                  <CardTitle>Required Documents (ANNEXURE-II)</CardTitle>
+                  <CardDescription>
+                    For {application.category?.toUpperCase()} category, {application.locationType?.toUpperCase()} area, {application.projectType === 'new_project' ? 'new project' : 'new rooms'}, {application.propertyOwnership === 'leased' ? 'leased' : 'owned'} property
+                  </CardDescription>
+                </div>
+                {outstandingRequiredCount === 0 ? (
+                  <Badge variant="outline" className="bg-green-50 text-green-700 dark:bg-green-950/20">All required documents present</Badge>
+                ) : (
+                  <Badge variant="destructive">{outstandingRequiredCount} required document(s) missing or rejected</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                {documentChecklist.map(item => {
+                  const firstDocument = documents.find(doc => doc.id === item.documentIds[0]);
+                  return (
+                    <button
+                      type="button"
+                      key={item.documentType}
+                      className="flex items-start justify-between gap-3 rounded-lg border p-3 text-left hover-elevate disabled:cursor-default"
+                      onClick={() => firstDocument && setSelectedDocument(firstDocument)}
+                      disabled={!firstDocument}
+                      data-testid={`checklist-${item.documentType}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">
+                          {item.label}
+                          {!item.required && <span className="text-xs text-muted-foreground font-normal"> (Optional)</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.count} file(s){item.minCount > 1 ? ` · minimum ${item.minCount}` : ''}
+                          {item.rejectedCount > 0 ? ` · ${item.rejectedCount} rejected` : ''}
+                        </p>
+                        {item.reason && <p className="text-xs text-muted-foreground">{item.reason}</p>}
+                      </div>
+                      {(item.required || item.status !== 'missing') && (
+                        <span className={`shrink-0 inline-flex items-center px-2 py-1 rounded-md text-xs font-medium border ${CHECKLIST_STATUS_STYLES[item.status].className}`}>
+                          {CHECKLIST_STATUS_STYLES[item.status].label}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Left Side - Document Preview */}
             <Card>
@@ -485,16 +604,35 @@ export default function DAApplicationDetail() {
                         <span className="text-sm font-medium">{selectedDocument.documentType}</span>
                         {getStatusBadge(verifications[selectedDocument.id]?.status || 'pending')}
                       </div>
-                      <div className="text-xs text-muted-foreground">
-                        Size: {(selectedDocument.fileSize / 1024).toFixed(2)} KB
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>Size: {(selectedDocument.fileSize / 1024).toFixed(2)} KB</span>
+                        {selectedDocument.mimeType.startsWith('image/') && (
+                          <a
+                            href={getFileViewUrl(selectedDocument.filePath)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline"
+                            data-testid="link-document-original"
+                          >
+                            Original
+                          </a>
+                        )}
                       </div>
+                      {selectedDocument.imageMetadata?.capturedAt && (
+                        <div className="text-xs text-muted-foreground">
+                          Taken: {new Date(selectedDocument.imageMetadata.capturedAt).toLocaleString('en-IN')}
+                          {selectedDocument.imageMetadata.latitude !== undefined && selectedDocument.imageMetadata.longitude !== undefined && (
+                            <> · GPS {selectedDocument.imageMetadata.latitude.toFixed(5)}, {selectedDocument.imageMetadata.longitude.toFixed(5)}</>
+                          )}
+                        </div>
+                      )}
                     </div>
 
                     {/* Document Viewer */}
                     <div className="border rounded-lg overflow-hidden bg-gray-50 dark:bg-gray-900 min-h-[400px] flex items-center justify-center">
                       {selectedDocument.mimeType.startsWith('image/') ? (
                         <img
-                          src={`/api/object-storage/view?path=${encodeURIComponent(selectedDocument.filePath)}`}
+                          src={getPhotoUrl(selectedDocument, 'web')}
                           alt={selectedDocument.fileName}
                           className="w-full h-auto max-h-[600px] object-contain"
                           data-testid="img-document-preview"
@@ -632,15 +770,23 @@ export default function DAApplicationDetail() {
                               {/* Checkbox */}
                               <Checkbox
                                 checked={verifications[doc.id]?.status === 'verified'}
-                                onCheckedChange={(checked) => {
-                                  updateVerification(doc.id, {
-                                    status: checked ? 'verified' : 'pending'
-                                  });
-                                }}
+                                onCheckedChange={(checked) => decideDocument(doc, checked ? 'verified' : 'pending')}
+                                disabled={application.status !== 'under_scrutiny' || documentDecisionMutation.isPending}
                                 className="mt-1"
                                 data-testid={`checkbox-verify-${doc.id}`}
                               />
 
+                              {doc.mimeType.startsWith('image/') && (
+                                <img
+                                  src={getPhotoUrl(doc, 'thumbnail')}
+                                  alt={doc.fileName}
+                                  loading="lazy"
+                                  className="w-12 h-12 rounded object-cover shrink-0 cursor-pointer"
+                                  onClick={() => setSelectedDocument(doc)}
+                                  data-testid={`img-thumbnail-${doc.id}`}
+                                />
+                              )}
+
                               {/* Document Info */}
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-start justify-between gap-2 mb-1">
@@ -649,7 +795,7 @@ export default function DAApplicationDetail() {
                                       <Badge variant="outline" className="text-xs font-normal shrink-0">
                                         {index + 1} of {documents.length}
                                       </Badge>
-                                      <h4 className="font-medium text-sm truncate">{doc.documentType}</h4>
+                                      <h4 className="font-medium text-sm truncate">{getDocumentTypeLabel(doc.documentType)}</h4>
                                     </div>
                                     <div className="flex items-center gap-2">
                                       {getStatusBadge(verifications[doc.id]?.status || 'pending')}
@@ -668,47 +814,52 @@ export default function DAApplicationDetail() {
                                   </Button>
                                 </div>
 
-                                {/* Status Selection */}
-                                <div className="flex flex-wrap gap-2 mt-3">
-                                  <Button
-                                    size="sm"
-                                    variant={verifications[doc.id]?.status === 'verified' ? 'default' : 'outline'}
-                                    className={verifications[doc.id]?.status === 'verified' ? 'bg-green-600' : ''}
-                                    onClick={() => updateVerification(doc.id, { status: 'verified' })}
-                                    data-testid={`button-verify-${doc.id}`}
-                                  >
-                                    <CheckCircle className="w-3 h-3 mr-1" />
-                                    Verify
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant={verifications[doc.id]?.status === 'needs_correction' ? 'secondary' : 'outline'}
-                                    onClick={() => updateVerification(doc.id, { status: 'needs_correction' })}
-                                    data-testid={`button-correction-${doc.id}`}
-                                  >
-                                    <AlertCircle className="w-3 h-3 mr-1" />
-                                    Correction
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant={verifications[doc.id]?.status === 'rejected' ? 'destructive' : 'outline'}
-                                    onClick={() => updateVerification(doc.id, { status: 'rejected' })}
-                                    data-testid={`button-reject-${doc.id}`}
-                                  >
-                                    <XCircle className="w-3 h-3 mr-1" />
-                                    Reject
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={() => updateVerification(doc.id, { status: 'pending' })}
-                                    disabled={verifications[doc.id]?.status === 'pending'}
-                                    data-testid={`button-clear-status-${doc.id}`}
-                                  >
-                                    <RotateCcw className="w-3 h-3 mr-1" />
-                                    Clear
-                                  </Button>
-                                </div>
+                                {/* Status Selection - each decision is saved and audit-logged */}
+                                {application.status === 'under_scrutiny' && (
+                                  <div className="flex flex-wrap gap-2 mt-3">
+                                    <Button
+                                      size="sm"
+                                      variant={verifications[doc.id]?.status === 'verified' ? 'default' : 'outline'}
+                                      className={verifications[doc.id]?.status === 'verified' ? 'bg-green-600' : ''}
+                                      onClick={() => decideDocument(doc, 'verified')}
+                                      disabled={documentDecisionMutation.isPending}
+                                      data-testid={`button-verify-${doc.id}`}
+                                    >
+                                      <CheckCircle className="w-3 h-3 mr-1" />
+                                      Verify
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant={verifications[doc.id]?.status === 'needs_correction' ? 'secondary' : 'outline'}
+                                      onClick={() => decideDocument(doc, 'needs_correction')}
+                                      disabled={documentDecisionMutation.isPending}
+                                      data-testid={`button-correction-${doc.id}`}
+                                    >
+                                      <AlertCircle className="w-3 h-3 mr-1" />
+                                      Needs Replacement
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant={verifications[doc.id]?.status === 'rejected' ? 'destructive' : 'outline'}
+                                      onClick={() => decideDocument(doc, 'rejected')}
+                                      disabled={documentDecisionMutation.isPending}
+                                      data-testid={`button-reject-${doc.id}`}
+                                    >
+                                      <XCircle className="w-3 h-3 mr-1" />
+                                      Reject
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => decideDocument(doc, 'pending')}
+                                      disabled={verifications[doc.id]?.status === 'pending' || documentDecisionMutation.isPending}
+                                      data-testid={`button-clear-status-${doc.id}`}
+                                    >
+                                      <RotateCcw className="w-3 h-3 mr-1" />
+                                      Clear
+                                    </Button>
+                                  </div>
+                                )}
                               </div>
                             </div>
 
@@ -720,7 +871,7 @@ export default function DAApplicationDetail() {
                                 className="w-full justify-between"
                                 data-testid={`button-toggle-notes-${doc.id}`}
                               >
-                                <span className="text-xs">Add Notes/Remarks</span>
+                                <span className="text-xs">Reason / Remarks</span>
                                 {expandedNotes[doc.id] ? (
                                   <ChevronUp className="w-4 h-4" />
                                 ) : (
@@ -734,7 +885,7 @@ export default function DAApplicationDetail() {
                           <CollapsibleContent>
                             <CardContent className="pt-0 px-4 pb-4">
                               <Textarea
-                                placeholder="Enter your observations, remarks, or required corrections..."
+                                placeholder="Reason shown to the applicant when rejecting or asking for a replacement..."
                                 value={verifications[doc.id]?.notes || ''}
                                 onChange={(e) => updateVerification(doc.id, { notes: e.target.value })}
                                 rows={3}
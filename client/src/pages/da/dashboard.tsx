@@ -305,6 +305,9 @@ function ApplicationRow({ application, actionLabel, applicationIds }: Applicatio
           <h3 className="font-semibold truncate">{application.propertyName}</h3>
           {getCategoryBadge(application.category || 'silver')}
           {getStatusBadge(application.status || 'submitted')}
+          {application.applicationType === 'renewal' && (
+            <Badge variant="outline" className="bg-blue-50 text-blue-700 dark:bg-blue-950/20">Renewal</Badge>
+          )}
         </div>
         <div className="grid grid-cols-2 gap-3 text-sm text-muted-foreground">
           <div>
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CheckCircle, XCircle, FileText, Landmark, QrCode, Clock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+
+type OfflinePayment = {
+  id: string;
+  amount: string;
+  paymentMethod: string | null;
+  paymentStatus: string | null;
+  offlineReference: string | null;
+  proofDocuments: Array<{ documentId?: string; fileName: string; fileUrl: string; uploadedAt: string }> | null;
+  gatewayResponse: { mode?: string; reference?: string; paidOn?: string; bankName?: string | null } | null;
+  failureReason: string | null;
+  verificationNotes: string | null;
+  initiatedAt: string | null;
+  verifiedAt: string | null;
+  applicationNumber: string;
+  propertyName: string;
+  ownerName: string;
+  ownerMobile: string;
+  applicationStatus: string | null;
+  totalFee: string | null;
+};
+
+type ReviewAction = "verify" | "reject";
+
+const MODE_LABELS: Record<string, string> = {
+  challan: "Treasury challan",
+  upi: "UPI QR",
+};
+
+const formatAmount = (amount: string | null) => `₹${Number(amount || 0).toLocaleString("en-IN")}`;
+
+export default function DAOfflinePayments() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<OfflinePayment | null>(null);
+  const [action, setAction] = useState<ReviewAction>("verify");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data, isLoading } = useQuery<{ pending: OfflinePayment[]; reviewed: OfflinePayment[] }>({
+    queryKey: ["/api/da/offline-payments"],
+  });
+
+  const openReview = (payment: OfflinePayment, nextAction: ReviewAction) => {
+    setSelected(payment);
+    setAction(nextAction);
+    setReference(payment.offlineReference || "");
+    setNotes("");
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      if (!selected) return;
+      const body = action === "verify"
+        ? { reference: reference.trim(), notes: notes.trim() || undefined }
+        : { reason: notes.trim() };
+      const response = await apiRequest("POST", `/api/da/offline-payments/${selected.id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/da/offline-payments"] });
+      toast({
+        title: action === "verify" ? "Payment verified" : "Payment proof rejected",
+        description: action === "verify"
+          ? `${selected?.applicationNumber} has been approved and the certificate issued.`
+          : `The owner of ${selected?.applicationNumber} has been asked to submit again.`,
+      });
+      setSelected(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: action === "verify" ? "Verification failed" : "Rejection failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmitReview = action === "verify" ? reference.trim().length >= 6 : notes.trim().length >= 10;
+
+  const renderProof = (payment: OfflinePayment) => (
+    <div className="flex flex-col gap-1">
+      {(payment.proofDocuments || []).map((doc) => (
+        <a
+          key={doc.fileUrl}
+          href={`/api/object-storage/view?path=${encodeURIComponent(doc.fileUrl)}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-sm text-primary hover:underline"
+        >
+          <FileText className="w-3 h-3" />
+          {doc.fileName}
+        </a>
+      ))}
+    </div>
+  );
+
+  const renderMode = (payment: OfflinePayment) => (
+    <div className="flex items-center gap-1 text-sm">
+      {payment.paymentMethod === "challan" ? <Landmark className="w-3 h-3" /> : <QrCode className="w-3 h-3" />}
+      {MODE_LABELS[payment.paymentMethod || ""] || "Offline"}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const pending = data?.pending || [];
+  const reviewed = data?.reviewed || [];
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Offline Payments</h1>
+        <p className="text-muted-foreground mt-2">
+          Check challan and UPI payments against the treasury/bank record before confirming them
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Awaiting Verification ({pending.length})
+          </CardTitle>
+          <CardDescription>Verifying a payment issues the e-receipt and approves the application</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Application</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Challan No. / UTR</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Proof</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pending.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No payments awaiting verification
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pending.map((payment) => (
+                  <TableRow key={payment.id} data-testid={`offline-payment-${payment.id}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{payment.applicationNumber}</div>
+                      <div className="text-sm">{payment.propertyName}</div>
+                      <div className="text-xs text-muted-foreground">{payment.ownerName} · {payment.ownerMobile}</div>
+                    </TableCell>
+                    <TableCell>
+                      {renderMode(payment)}
+                      <div className="text-xs text-muted-foreground">
+                        Paid {payment.gatewayResponse?.paidOn ? format(new Date(payment.gatewayResponse.paidOn), "dd MMM yyyy") : "-"}
+                      </div>
+                      {payment.gatewayResponse?.bankName && (
+                        <div className="text-xs text-muted-foreground">{payment.gatewayResponse.bankName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-sm">{payment.gatewayResponse?.reference || payment.offlineReference}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatAmount(payment.amount)}
+                      {payment.totalFee && Number(payment.totalFee) !== Number(payment.amount) && (
+                        <div className="text-xs text-destructive">Fee now {formatAmount(payment.totalFee)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{renderProof(payment)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" onClick={() => openReview(payment, "verify")} data-testid={`button-verify-${payment.id}`}>
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Verify
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openReview(payment, "reject")} data-testid={`button-reject-${payment.id}`}>
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recently Reviewed</CardTitle>
+          <CardDescription>Verified and rejected offline payments in your district</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Application</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Challan No. / UTR</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviewed.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No reviewed payments yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                reviewed.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{payment.applicationNumber}</div>
+                      <div className="text-xs text-muted-foreground">{payment.propertyName}</div>
+                    </TableCell>
+                    <TableCell>{renderMode(payment)}</TableCell>
+                    <TableCell className="font-mono text-sm">{payment.offlineReference}</TableCell>
+                    <TableCell className="text-right">{formatAmount(payment.amount)}</TableCell>
+                    <TableCell className="max-w-xs">
+                      {payment.paymentStatus === "success" ? (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 dark:bg-green-950/20">Verified</Badge>
+                      ) : (
+                        <Badge variant="destructive">Rejected</Badge>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {payment.verifiedAt ? format(new Date(payment.verifiedAt), "dd MMM yyyy, HH:mm") : ""}
+                      </div>
+                      {(payment.failureReason || payment.verificationNotes) && (
+                        <p className="text-xs text-muted-foreground mt-1">{payment.failureReason || payment.verificationNotes}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action === "verify" ? "Verify Payment" : "Reject Payment Proof"}</DialogTitle>
+            <DialogDescription>
+              {selected?.applicationNumber} · {formatAmount(selected?.amount || null)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {action === "verify" && (
+              <div className="space-y-2">
+                <Label htmlFor="verify-reference">Challan No. / UTR as per treasury/bank record *</Label>
+                <Input
+                  id="verify-reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  data-testid="input-verify-reference"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="review-notes">{action === "verify" ? "Notes" : "Reason *"}</Label>
+              <Textarea
+                id="review-notes"
+                rows={3}
+                placeholder={action === "verify" ? "Optional, e.g. matched with treasury scroll" : "Tell the owner what could not be verified (at least 10 characters)"}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-review-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button
+              variant={action === "verify" ? "default" : "destructive"}
+              onClick={() => reviewMutation.mutate()}
+              disabled={!canSubmitReview || reviewMutation.isPending}
+              data-testid="button-confirm-review"
+            >
+              {reviewMutation.isPending ? "Saving..." : action === "verify" ? "Verify & Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -28,10 +28,13 @@ import {
   Calendar,
   ClipboardCheck,
   AlertTriangle,
+  RefreshCw,
+  Download,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
+import { PaymentReceiptsCard } from "@/components/payment-receipts-card";
 import type { HomestayApplication, HomestayDocument } from "@shared/schema";
 
 interface ApplicationData {
@@ -53,7 +56,7 @@ export default function DTDOApplicationReview() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   
-  const [actionType, setActionType] = useState<'accept' | 'reject' | 'revert' | null>(null);
+  const [actionType, setActionType] = useState<'accept' | 'approve-renewal' | 'reject' | 'revert' | null>(null);
   const [remarks, setRemarks] = useState("");
 
   const { data, isLoading } = useQuery<ApplicationData>({
@@ -118,8 +121,9 @@ export default function DTDOApplicationReview() {
   }
 
   const { application, owner, documents, daInfo } = data;
+  const isRenewal = application.applicationType === 'renewal';
 
-  const handleAction = (action: 'accept' | 'reject' | 'revert') => {
+  const handleAction = (action: 'accept' | 'approve-renewal' | 'reject' | 'revert') => {
     setActionType(action);
     setRemarks("");
   };
@@ -186,7 +190,16 @@ export default function DTDOApplicationReview() {
             <p className="text-muted-foreground mt-1">{application.applicationNumber}</p>
           </div>
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild data-testid="button-download-dossier" title="Download the complete application dossier (ZIP)">
+            <a href={`/api/documents/application/${application.id}/dossier`} download>
+              <Download className="h-4 w-4 mr-1" />
+              Dossier
+            </a>
+          </Button>
+          {isRenewal && (
+            <Badge variant="outline" className="bg-blue-50 text-blue-700 dark:bg-blue-950/20">Renewal</Badge>
+          )}
           {getCategoryBadge(application.category)}
           {getStatusBadge(application.status)}
         </div>
@@ -325,9 +338,22 @@ export default function DTDOApplicationReview() {
               <CardDescription>Review and take action on this application</CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
+              {isRenewal && (
+                <Button
+                  className="w-full"
+                  variant="default"
+                  onClick={() => handleAction('approve-renewal')}
+                  disabled={actionMutation.isPending}
+                  data-testid="button-approve-renewal"
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Approve Renewal (No Inspection)
+                </Button>
+              )}
+
               <Button
                 className="w-full"
-                variant="default"
+                variant={isRenewal ? "outline" : "default"}
                 onClick={() => handleAction('accept')}
                 disabled={actionMutation.isPending}
                 data-testid="button-accept"
@@ -360,6 +386,8 @@ export default function DTDOApplicationReview() {
             </CardContent>
           </Card>
 
+          <PaymentReceiptsCard applicationId={application.id} />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -395,11 +423,13 @@ export default function DTDOApplicationReview() {
           <DialogHeader>
             <DialogTitle>
               {actionType === 'accept' && 'Accept Application'}
+              {actionType === 'approve-renewal' && 'Approve Renewal'}
               {actionType === 'reject' && 'Reject Application'}
               {actionType === 'revert' && 'Revert to Applicant'}
             </DialogTitle>
             <DialogDescription>
               {actionType === 'accept' && 'This will schedule an inspection for the property.'}
+              {actionType === 'approve-renewal' && 'The property was inspected for its original registration. The applicant will be asked to pay the renewal fee.'}
               {actionType === 'reject' && 'This will permanently reject the application. Please provide rejection reason.'}
               {actionType === 'revert' && 'This will send the application back to the applicant for corrections. Please provide details.'}
             </DialogDescription>
@@ -408,13 +438,15 @@ export default function DTDOApplicationReview() {
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <Label htmlFor="remarks">
-                {actionType === 'accept' ? 'Remarks (Optional)' : 'Remarks (Required)'}
+                {actionType === 'accept' || actionType === 'approve-renewal' ? 'Remarks (Optional)' : 'Remarks (Required)'}
               </Label>
               <Textarea
                 id="remarks"
                 placeholder={
                   actionType === 'accept'
                     ? 'Any notes for the inspection team...'
+                    : actionType === 'approve-renewal'
+                    ? 'Any notes on the renewal...'
                     : actionType === 'reject'
                     ? 'Please specify the reason for rejection...'
                     : 'Please specify what corrections are needed...'
@@ -443,7 +475,7 @@ export default function DTDOApplicationReview() {
               data-testid="button-confirm-action"
             >
               {actionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Confirm {actionType === 'accept' ? 'Accept' : actionType === 'reject' ? 'Rejection' : 'Revert'}
+              Confirm {actionType === 'accept' ? 'Accept' : actionType === 'approve-renewal' ? 'Renewal' : actionType === 'reject' ? 'Rejection' : 'Revert'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ObjectUploader, UploadedFileMetadata } from "@/components/ObjectUploader";
+import { Award, Ban, FileText, History, Loader2, PauseCircle, PlayCircle, Search } from "lucide-react";
+import { format } from "date-fns";
+import type { Certificate, CertificateAction } from "@shared/schema";
+
+type StatusAction = "suspend" | "revoke" | "lift_suspension";
+
+interface CertificateActionWithOfficer extends CertificateAction {
+  officerName: string;
+}
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-50 text-green-700 dark:bg-green-950/20" },
+  suspended: { label: "Suspended", className: "bg-orange-50 text-orange-700 dark:bg-orange-950/20" },
+  revoked: { label: "Revoked", className: "bg-red-50 text-red-700 dark:bg-red-950/20" },
+  expired: { label: "Expired", className: "bg-gray-50 text-gray-700 dark:bg-gray-950/20" },
+};
+
+const ACTION_CONFIG: Record<StatusAction, { title: string; description: string; button: string; variant: "default" | "destructive" | "outline" }> = {
+  suspend: {
+    title: "Suspend Certificate",
+    description: "The property will be removed from the public listing and the public verifier will show the certificate as suspended. A suspension can be lifted later.",
+    button: "Suspend",
+    variant: "outline",
+  },
+  revoke: {
+    title: "Revoke Certificate",
+    description: "Revocation is permanent. The owner will need to apply for a new registration.",
+    button: "Revoke",
+    variant: "destructive",
+  },
+  lift_suspension: {
+    title: "Lift Suspension",
+    description: "The certificate will become active again and the property will return to the public listing.",
+    button: "Lift Suspension",
+    variant: "default",
+  },
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  suspend: "Suspended",
+  revoke: "Revoked",
+  lift_suspension: "Suspension lifted",
+};
+
+export default function DTDOCertificates() {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selected, setSelected] = useState<Certificate | null>(null);
+  const [pendingAction, setPendingAction] = useState<StatusAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [evidence, setEvidence] = useState<UploadedFileMetadata[]>([]);
+
+  const { data, isLoading } = useQuery<{ certificates: Certificate[] }>({
+    queryKey: ["/api/dtdo/certificates"],
+  });
+
+  const { data: historyData, isLoading: historyLoading } = useQuery<{ actions: CertificateActionWithOfficer[] }>({
+    queryKey: ["/api/dtdo/certificates", selected?.id, "actions"],
+    enabled: !!selected,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ certificateId, action }: { certificateId: string; action: StatusAction }) => {
+      const response = await apiRequest("POST", `/api/dtdo/certificates/${certificateId}/status`, {
+        action,
+        reason,
+        documents: evidence,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { certificate: Certificate; message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dtdo/certificates"] });
+      setSelected(result.certificate);
+      setPendingAction(null);
+      setReason("");
+      setEvidence([]);
+      toast({
+        title: "Certificate updated",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update certificate status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const certificateList = (data?.certificates || []).filter((certificate) => {
+    const query = searchQuery.toLowerCase();
+    return query === "" ||
+      certificate.certificateNumber.toLowerCase().includes(query) ||
+      certificate.propertyName.toLowerCase().includes(query) ||
+      certificate.ownerName.toLowerCase().includes(query);
+  });
+
+  const getStatusBadge = (status: string | null) => {
+    const config = STATUS_BADGES[status || "active"] || { label: status, className: "" };
+    return <Badge variant="outline" className={config.className}>{config.label}</Badge>;
+  };
+
+  const openCertificate = (certificate: Certificate) => {
+    setSelected(certificate);
+    setPendingAction(null);
+    setReason("");
+    setEvidence([]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Certificates</h1>
+        <p className="text-muted-foreground mt-2">
+          Registration certificates issued in your district
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued Certificates</CardTitle>
+          <CardDescription>Suspend, revoke or reinstate certificates. Every change is recorded with its reason.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by number, property or owner"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+              data-testid="input-search-certificates"
+            />
+          </div>
+
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">Certificate #</th>
+                  <th className="text-left p-4 font-medium">Property</th>
+                  <th className="text-left p-4 font-medium">Owner</th>
+                  <th className="text-left p-4 font-medium">Valid Until</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificateList.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                      No certificates found
+                    </td>
+                  </tr>
+                ) : (
+                  certificateList.map((certificate) => (
+                    <tr key={certificate.id} className="border-b hover-elevate">
+                      <td className="p-4 font-mono text-sm">{certificate.certificateNumber}</td>
+                      <td className="p-4">
+                        <div className="font-medium">{certificate.propertyName}</div>
+                        <div className="text-sm text-muted-foreground capitalize">{certificate.category}</div>
+                      </td>
+                      <td className="p-4">{certificate.ownerName}</td>
+                      <td className="p-4">{format(new Date(certificate.validUpto), "MMM dd, yyyy")}</td>
+                      <td className="p-4">{getStatusBadge(certificate.status)}</td>
+                      <td className="p-4 text-right">
+                        <Button size="sm" variant="ghost" onClick={() => openCertificate(certificate)} data-testid={`button-manage-${certificate.id}`}>
+                          Manage
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Award className="w-5 h-5 text-primary" />
+                  {selected.certificateNumber}
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.propertyName} · {selected.ownerName}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Current status</span>
+                  {getStatusBadge(selected.status)}
+                </div>
+                {selected.revocationReason && (
+                  <p className="text-sm bg-muted/50 rounded p-2">
+                    <span className="font-medium">Reason: </span>{selected.revocationReason}
+                  </p>
+                )}
+
+                {!pendingAction && (
+                  <div className="flex flex-wrap gap-2">
+                    {selected.status === "active" && (
+                      <Button variant="outline" onClick={() => setPendingAction("suspend")} data-testid="button-suspend-certificate">
+                        <PauseCircle className="w-4 h-4 mr-2" />
+                        Suspend
+                      </Button>
+                    )}
+                    {selected.status === "suspended" && (
+                      <Button onClick={() => setPendingAction("lift_suspension")} data-testid="button-lift-suspension">
+                        <PlayCircle className="w-4 h-4 mr-2" />
+                        Lift Suspension
+                      </Button>
+                    )}
+                    {(selected.status === "active" || selected.status === "suspended") && (
+                      <Button variant="destructive" onClick={() => setPendingAction("revoke")} data-testid="button-revoke-certificate">
+                        <Ban className="w-4 h-4 mr-2" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {pendingAction && (
+                  <div className="border rounded-lg p-4 space-y-3">
+                    <div>
+                      <p className="font-medium">{ACTION_CONFIG[pendingAction].title}</p>
+                      <p className="text-sm text-muted-foreground">{ACTION_CONFIG[pendingAction].description}</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="certificate-action-reason">Reason *</Label>
+                      <Textarea
+                        id="certificate-action-reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        rows={3}
+                        placeholder="Explain the reason for this action (shared with the owner)"
+                        data-testid="input-certificate-action-reason"
+                      />
+                    </div>
+                    <ObjectUploader
+                      label="Evidence Documents"
+                      existingFiles={evidence}
+                      onUploadComplete={setEvidence}
+                      fileType="documents/certificate-evidence"
+                      applicationId={selected.applicationId}
+                      accept="application/pdf,image/*"
+                      multiple={true}
+                      maxFiles={5}
+                    />
+                    <DialogFooter className="gap-2">
+                      <Button variant="ghost" onClick={() => setPendingAction(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        variant={ACTION_CONFIG[pendingAction].variant}
+                        onClick={() => statusMutation.mutate({ certificateId: selected.id, action: pendingAction })}
+                        disabled={statusMutation.isPending || reason.trim().length < 10}
+                        data-testid="button-confirm-certificate-action"
+                      >
+                        {statusMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        {ACTION_CONFIG[pendingAction].button}
+                      </Button>
+                    </DialogFooter>
+                  </div>
+                )}
+
+                {/* Audit trail */}
+                <div className="space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    History
+                  </p>
+                  {historyLoading ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                  ) : (historyData?.actions || []).length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No status changes recorded</p>
+                  ) : (
+                    (historyData?.actions || []).map((action) => (
+                      <div key={action.id} className="bg-muted/30 rounded-md p-3 space-y-1" data-testid={`certificate-action-${action.id}`}>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">{ACTION_LABELS[action.action] || action.action}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {action.createdAt ? format(new Date(action.createdAt), "MMM dd, yyyy HH:mm") : ""}
+                          </span>
+                        </div>
+                        <p className="text-sm">{action.reason}</p>
+                        <p className="text-xs text-muted-foreground">By {action.officerName}</p>
+                        {action.evidenceDocuments && action.evidenceDocuments.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {action.evidenceDocuments.map((doc, index) => (
+                              <a
+                                key={doc.documentId || index}
+                                href={`/api/object-storage/view?path=${encodeURIComponent(doc.fileUrl)}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs flex items-center gap-1 text-primary hover:underline"
+                              >
+                                <FileText className="w-3 h-3" />
+                                {doc.fileName}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -13,10 +13,11 @@ import {
   Loader2,
   ClipboardCheck,
   AlertCircle,
+  AlertTriangle,
 } from "lucide-react";
 import { Link } from "wouter";
-import { format } from "date-fns";
-import type { HomestayApplication } from "@shared/schema";
+import { format, differenceInCalendarDays } from "date-fns";
+import type { HomestayApplication, Objection } from "@shared/schema";
 
 interface ApplicationWithOwner extends HomestayApplication {
   ownerName: string;
@@ -24,6 +25,13 @@ interface ApplicationWithOwner extends HomestayApplication {
   daName?: string;
 }
 
+interface OverdueObjection extends Objection {
+  applicationNumber: string;
+  propertyName: string;
+  ownerName: string;
+  applicationStatus: string;
+}
+
 export default function DTDODashboard() {
   const [activeTab, setActiveTab] = useState("forwarded");
   
@@ -31,6 +39,10 @@ export default function DTDODashboard() {
     queryKey: ["/api/dtdo/applications"],
   });
 
+  const { data: overdueData } = useQuery<{ objections: OverdueObjection[] }>({
+    queryKey: ["/api/dtdo/objections/overdue"],
+  });
+
   const { data: user } = useQuery<{ user: { id: string; fullName: string; role: string; district?: string } }>({
     queryKey: ["/api/auth/me"],
   });
@@ -40,6 +52,8 @@ export default function DTDODashboard() {
   const underReview = applications?.filter(app => app.status === 'dtdo_review') || [];
   const inspectionPending = applications?.filter(app => app.status === 'inspection_scheduled') || [];
   const inspectionCompleted = applications?.filter(app => app.status === 'inspection_under_review') || [];
+  const objectionsRaised = applications?.filter(app => app.status === 'objection_raised') || [];
+  const overdueObjections = overdueData?.objections || [];
 
   if (isLoading) {
     return (
@@ -88,6 +102,15 @@ export default function DTDODashboard() {
       bgColor: "bg-green-50 dark:bg-green-950/20",
       tabValue: "reports",
     },
+    {
+      title: "Objections Raised",
+      value: objectionsRaised.length,
+      description: "Awaiting re-inspection",
+      icon: AlertCircle,
+      color: "text-red-600 dark:text-red-400",
+      bgColor: "bg-red-50 dark:bg-red-950/20",
+      tabValue: "objections",
+    },
   ];
 
   const getStatusBadge = (status: string) => {
@@ -108,6 +131,10 @@ export default function DTDODashboard() {
         label: "Report Awaiting Review",
         className: "bg-green-50 text-green-700 dark:bg-green-950/20",
       },
+      objection_raised: {
+        label: "Objection Raised",
+        className: "bg-red-50 text-red-700 dark:bg-red-950/20",
+      },
     };
 
     const config = statusConfig[status] || { label: status, className: "" };
@@ -153,7 +180,12 @@ export default function DTDODashboard() {
               applications.map((app) => (
                 <tr key={app.id} className="border-b hover-elevate">
                   <td className="p-4">
-                    <div className="font-medium">{app.applicationNumber}</div>
+                    <div className="font-medium flex items-center gap-2">
+                      {app.applicationNumber}
+                      {app.applicationType === 'renewal' && (
+                        <Badge variant="outline" className="bg-blue-50 text-blue-700 dark:bg-blue-950/20">Renewal</Badge>
+                      )}
+                    </div>
                     {app.daName && (
                       <div className="text-xs text-muted-foreground">
                         Forwarded by: {app.daName}
@@ -177,7 +209,9 @@ export default function DTDODashboard() {
                     <Link href={
                       app.status === 'inspection_under_review' 
                         ? `/dtdo/inspection-review/${app.id}` 
-                        : `/dtdo/applications/${app.id}`
+                        : app.status === 'objection_raised'
+                          ? `/dtdo/schedule-inspection/${app.id}`
+                          : `/dtdo/applications/${app.id}`
                     }>
                       <Button size="sm" variant="ghost" data-testid={`button-review-${app.id}`}>
                         Review <ArrowRight className="ml-2 h-4 w-4" />
@@ -204,7 +238,7 @@ export default function DTDODashboard() {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         {stats.map((stat) => (
           <Card
             key={stat.title}
@@ -224,6 +258,52 @@ export default function DTDODashboard() {
         ))}
       </div>
 
+      {/* Overdue Objections */}
+      {overdueObjections.length > 0 && (
+        <Card className="border-red-200 dark:border-red-800" data-testid="card-overdue-objections">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-red-600" />
+              <CardTitle>Overdue Objections ({overdueObjections.length})</CardTitle>
+            </div>
+            <CardDescription>
+              Applicants have not responded to these objections before the deadline
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {overdueObjections.map((objection) => (
+                <div
+                  key={objection.id}
+                  className="flex items-center justify-between gap-4 border rounded-lg p-3"
+                  data-testid={`overdue-objection-${objection.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{objection.objectionTitle}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {objection.applicationNumber} · {objection.propertyName} · {objection.ownerName}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <Badge variant="outline" className="capitalize">{objection.severity}</Badge>
+                    {objection.responseDeadline && (
+                      <span className="text-sm text-red-600 dark:text-red-400">
+                        {differenceInCalendarDays(new Date(), new Date(objection.responseDeadline))} day(s) overdue
+                      </span>
+                    )}
+                    <Link href={`/dtdo/schedule-inspection/${objection.applicationId}`}>
+                      <Button size="sm" variant="ghost" data-testid={`button-view-overdue-${objection.id}`}>
+                        View <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Applications Queue */}
       <Card>
         <CardHeader>
@@ -234,7 +314,7 @@ export default function DTDODashboard() {
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="forwarded" data-testid="tab-forwarded">
                 Forwarded ({forwardedByDA.length})
               </TabsTrigger>
@@ -247,6 +327,9 @@ export default function DTDODashboard() {
               <TabsTrigger value="reports" data-testid="tab-reports">
                 Reports ({inspectionCompleted.length})
               </TabsTrigger>
+              <TabsTrigger value="objections" data-testid="tab-objections">
+                Objections ({objectionsRaised.length})
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="forwarded" className="mt-4">
@@ -264,6 +347,10 @@ export default function DTDODashboard() {
             <TabsContent value="reports" className="mt-4">
               <ApplicationTable applications={inspectionCompleted} />
             </TabsContent>
+
+            <TabsContent value="objections" className="mt-4">
+              <ApplicationTable applications={objectionsRaised} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Undo2 } from "lucide-react";
+import { format } from "date-fns";
+import type { Payment, PaymentRefund } from "@shared/schema";
+
+interface RefundablePayment extends Payment {
+  applicationNumber: string;
+  propertyName: string;
+  ownerName: string;
+  applicationStatus: string | null;
+  refundableAmount: number;
+}
+
+interface RefundWithDetails extends PaymentRefund {
+  applicationNumber: string;
+  propertyName: string;
+  ownerName: string;
+  paymentAmount: string;
+  paymentGateway: string | null;
+}
+
+const REFUND_REASONS: Record<string, string> = {
+  rejected_after_payment: "Application rejected after payment",
+  duplicate_payment: "Duplicate payment",
+  category_downgrade: "Category downgraded (excess fee)",
+  other: "Other",
+};
+
+const REFUND_STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  requested: { label: "Awaiting Approval", className: "bg-yellow-50 text-yellow-700 dark:bg-yellow-950/20" },
+  approved: { label: "Approved", className: "bg-blue-50 text-blue-700 dark:bg-blue-950/20" },
+  processing: { label: "Processing", className: "bg-blue-50 text-blue-700 dark:bg-blue-950/20" },
+  completed: { label: "Refunded", className: "bg-green-50 text-green-700 dark:bg-green-950/20" },
+  rejected: { label: "Rejected", className: "bg-gray-50 text-gray-700 dark:bg-gray-950/20" },
+  failed: { label: "Failed", className: "bg-red-50 text-red-700 dark:bg-red-950/20" },
+};
+
+const formatAmount = (amount: string | number) => `₹${Number(amount).toLocaleString("en-IN")}`;
+
+export default function DTDORefunds() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<RefundablePayment | null>(null);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [remarks, setRemarks] = useState("");
+
+  const { data, isLoading } = useQuery<{ refunds: RefundWithDetails[]; refundablePayments: RefundablePayment[] }>({
+    queryKey: ["/api/dtdo/refunds"],
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const response = await apiRequest("POST", `/api/dtdo/payments/${paymentId}/refunds`, {
+        amount: parseFloat(amount),
+        reason,
+        remarks,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dtdo/refunds"] });
+      setSelected(null);
+      toast({
+        title: "Refund raised",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Refund not raised",
+        description: error.message || "Failed to raise refund",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRefund = (payment: RefundablePayment) => {
+    setSelected(payment);
+    setAmount(String(payment.refundableAmount));
+    setReason("");
+    setRemarks("");
+  };
+
+  const getStatusBadge = (status: string) => {
+    const config = REFUND_STATUS_BADGES[status] || { label: status, className: "" };
+    return <Badge variant="outline" className={config.className}>{config.label}</Badge>;
+  };
+
+  const parsedAmount = parseFloat(amount);
+  const amountValid = !!selected && parsedAmount > 0 && parsedAmount <= selected.refundableAmount;
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const refundablePayments = data?.refundablePayments || [];
+  const refunds = data?.refunds || [];
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Refunds</h1>
+        <p className="text-muted-foreground mt-2">
+          Raise refunds for fees paid in your district. Refunds are approved by the state office.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Refundable Payments</CardTitle>
+          <CardDescription>Successful payments with an amount that has not been refunded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">Application</th>
+                  <th className="text-left p-4 font-medium">Owner</th>
+                  <th className="text-left p-4 font-medium">Paid</th>
+                  <th className="text-left p-4 font-medium">Refundable</th>
+                  <th className="text-left p-4 font-medium">Gateway</th>
+                  <th className="text-right p-4 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {refundablePayments.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                      No refundable payments
+                    </td>
+                  </tr>
+                ) : (
+                  refundablePayments.map((payment) => (
+                    <tr key={payment.id} className="border-b hover-elevate">
+                      <td className="p-4">
+                        <div className="font-medium">{payment.propertyName}</div>
+                        <div className="text-sm text-muted-foreground font-mono">{payment.applicationNumber}</div>
+                      </td>
+                      <td className="p-4">{payment.ownerName}</td>
+                      <td className="p-4">
+                        <div>{formatAmount(payment.amount)}</div>
+                        {payment.completedAt && (
+                          <div className="text-sm text-muted-foreground">{format(new Date(payment.completedAt), "MMM dd, yyyy")}</div>
+                        )}
+                      </td>
+                      <td className="p-4">{formatAmount(payment.refundableAmount)}</td>
+                      <td className="p-4 capitalize">{payment.paymentGateway || "Manual"}</td>
+                      <td className="p-4 text-right">
+                        <Button size="sm" variant="outline" onClick={() => openRefund(payment)} data-testid={`button-raise-refund-${payment.id}`}>
+                          <Undo2 className="w-4 h-4 mr-2" />
+                          Raise Refund
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Refund Requests</CardTitle>
+          <CardDescription>Refunds raised in your district and their progress</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">Application</th>
+                  <th className="text-left p-4 font-medium">Amount</th>
+                  <th className="text-left p-4 font-medium">Reason</th>
+                  <th className="text-left p-4 font-medium">Raised</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {refunds.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="text-center p-8 text-muted-foreground">
+                      No refunds raised yet
+                    </td>
+                  </tr>
+                ) : (
+                  refunds.map((refund) => (
+                    <tr key={refund.id} className="border-b" data-testid={`refund-${refund.id}`}>
+                      <td className="p-4">
+                        <div className="font-medium">{refund.propertyName}</div>
+                        <div className="text-sm text-muted-foreground font-mono">{refund.applicationNumber}</div>
+                      </td>
+                      <td className="p-4">
+                        <div>{formatAmount(refund.amount)}</div>
+                        <div className="text-sm text-muted-foreground">of {formatAmount(refund.paymentAmount)}</div>
+                      </td>
+                      <td className="p-4">
+                        <div>{REFUND_REASONS[refund.reason] || refund.reason}</div>
+                        {refund.reviewNotes && (
+                          <div className="text-sm text-muted-foreground">Review: {refund.reviewNotes}</div>
+                        )}
+                        {refund.failureReason && (
+                          <div className="text-sm text-destructive">{refund.failureReason}</div>
+                        )}
+                      </td>
+                      <td className="p-4">{refund.requestedAt ? format(new Date(refund.requestedAt), "MMM dd, yyyy") : ""}</td>
+                      <td className="p-4">{getStatusBadge(refund.status)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Raise Refund</DialogTitle>
+                <DialogDescription>
+                  {selected.propertyName} · {selected.applicationNumber} · up to {formatAmount(selected.refundableAmount)}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="refund-amount">Refund Amount (₹) *</Label>
+                  <Input
+                    id="refund-amount"
+                    type="number"
+                    min={1}
+                    max={selected.refundableAmount}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    data-testid="input-refund-amount"
+                  />
+                  {amount !== "" && !amountValid && (
+                    <p className="text-sm text-destructive">Enter an amount up to {formatAmount(selected.refundableAmount)}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Reason *</Label>
+                  <Select value={reason} onValueChange={setReason}>
+                    <SelectTrigger data-testid="select-refund-reason">
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(REFUND_REASONS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refund-remarks">Remarks *</Label>
+                  <Textarea
+                    id="refund-remarks"
+                    value={remarks}
+                    onChange={(e) => setRemarks(e.target.value)}
+                    rows={3}
+                    placeholder="Explain why this refund is due (shared with the owner)"
+                    data-testid="input-refund-remarks"
+                  />
+                </div>
+              </div>
+
+              <DialogFooter className="gap-2">
+                <Button variant="ghost" onClick={() => setSelected(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => refundMutation.mutate(selected.id)}
+                  disabled={refundMutation.isPending || !amountValid || !reason || remarks.trim().length < 10}
+                  data-testid="button-submit-refund"
+                >
+                  {refundMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Submit for Approval
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
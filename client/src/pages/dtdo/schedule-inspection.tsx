@@ -26,6 +26,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
 import type { HomestayApplication } from "@shared/schema";
+import { ObjectionsPanel } from "@/components/objections-panel";
 
 interface ApplicationData {
   application: HomestayApplication;
@@ -207,6 +208,11 @@ export default function DTDOScheduleInspection() {
         </CardContent>
       </Card>
 
+      {/* Objections - must all be resolved before re-inspection */}
+      {application.status === 'objection_raised' && (
+        <ObjectionsPanel applicationId={application.id} mode="dtdo" />
+      )}
+
       {/* Inspection Scheduling Form */}
       <Card>
         <CardHeader>
@@ -1,11 +1,13 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Loader2, ExternalLink, CheckCircle2, XCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, ExternalLink, CheckCircle2, XCircle, FlaskConical } from 'lucide-react';
 
 export default function HimKoshTest() {
   const { toast } = useToast();
@@ -14,6 +16,18 @@ export default function HimKoshTest() {
   const [callbackUrl, setCallbackUrl] = useState('https://eservices.himachaltourism.gov.in/api/himkosh/callback');
   const [applicationId, setApplicationId] = useState('');
 
+  // With the local CTP simulator, payments and callbacks stay on this server
+  const { data: configStatus } = useQuery<{ simulator?: boolean }>({
+    queryKey: ['/api/himkosh/config/status'],
+  });
+  const isSimulator = !!configStatus?.simulator;
+
+  useEffect(() => {
+    if (isSimulator) {
+      setCallbackUrl(`${window.location.origin}/api/himkosh/callback`);
+    }
+  }, [isSimulator]);
+
   // Common production URL patterns to test
   const suggestedUrls = [
     'https://eservices.himachaltourism.gov.in/api/himkosh/callback',
@@ -80,6 +94,16 @@ export default function HimKoshTest() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          {isSimulator && (
+            <Alert data-testid="alert-simulator">
+              <FlaskConical className="h-4 w-4" />
+              <AlertDescription>
+                CTP simulator is active. "Try Payment" opens the local simulator, which lets you choose
+                success, failure or timeout and posts the response back to the callback URL.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Application ID Input */}
           <div className="space-y-2">
             <Label htmlFor="applicationId">Application ID (from database)</Label>
@@ -174,7 +198,7 @@ export default function HimKoshTest() {
                 <div className="bg-yellow-50 dark:bg-yellow-950 p-4 rounded border border-yellow-200 dark:border-yellow-800">
                   <h4 className="font-semibold mb-2 flex items-center gap-2">
                     <CheckCircle2 className="h-4 w-4 text-green-600" />
-                    Next Step: Test on HimKosh
+                    Next Step: Test on {isSimulator ? 'the Simulator' : 'HimKosh'}
                   </h4>
                   <p className="text-sm mb-3">
                     Click the button below to open HimKosh portal. If the checksum passes, you'll see payment options.
@@ -186,7 +210,7 @@ export default function HimKoshTest() {
                     className="w-full"
                   >
                     <ExternalLink className="mr-2 h-4 w-4" />
-                    Try Payment on HimKosh (₹1)
+                    {isSimulator ? 'Try Payment on Simulator' : 'Try Payment on HimKosh (₹1)'}
                   </Button>
                 </div>
 
@@ -1,15 +1,24 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation, Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { NavigationHeader } from "@/components/navigation-header";
+import { ImageGallery } from "@/components/ImageGallery";
 import { 
   Mountain, MapPin, Bed, Star, Phone, Mail, 
-  CheckCircle2, ArrowLeft, Home
+  CheckCircle2, ArrowLeft, Home, Images
 } from "lucide-react";
 import type { HomestayApplication } from "@shared/schema";
 
+interface PropertyPhoto {
+  id: string;
+  fileName: string;
+  thumbnailUrl: string;
+  webUrl: string;
+}
+
 export default function PublicPropertyDetail() {
   const { id } = useParams();
   const [, setLocation] = useLocation();
@@ -18,7 +27,16 @@ export default function PublicPropertyDetail() {
     queryKey: ["/api/public/properties"],
   });
 
+  // Thumbnails and web-size copies only; originals are never public
+  const { data: photosData } = useQuery<{ photos: PropertyPhoto[] }>({
+    queryKey: ["/api/public/properties", id, "photos"],
+    enabled: !!id,
+  });
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [galleryInitialIndex, setGalleryInitialIndex] = useState(0);
+
   const property = data?.properties?.find((p: HomestayApplication) => p.id === id);
+  const photos = photosData?.photos || [];
 
   if (isLoading) {
     return (
@@ -115,6 +133,36 @@ export default function PublicPropertyDetail() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
+                {photos.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-lg mb-3 flex items-center gap-2">
+                      <Images className="w-5 h-5 text-primary" />
+                      Photos
+                    </h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      {photos.map((photo, index) => (
+                        <button
+                          key={photo.id}
+                          type="button"
+                          className="aspect-square border rounded-md overflow-hidden hover-elevate active-elevate-2"
+                          onClick={() => {
+                            setGalleryInitialIndex(index);
+                            setIsGalleryOpen(true);
+                          }}
+                          data-testid={`thumbnail-property-photo-${index}`}
+                        >
+                          <img
+                            src={photo.thumbnailUrl}
+                            alt={`${property.propertyName} photo ${index + 1}`}
+                            loading="lazy"
+                            className="w-full h-full object-cover"
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <h3 className="font-semibold text-lg mb-3">About This Property</h3>
                   <p className="text-muted-foreground">
@@ -211,6 +259,17 @@ export default function PublicPropertyDetail() {
           </div>
         </div>
       </div>
+
+      <ImageGallery
+        images={photos.map(photo => ({
+          fileName: photo.fileName,
+          url: photo.webUrl,
+          thumbnailUrl: photo.thumbnailUrl,
+        }))}
+        open={isGalleryOpen}
+        onClose={() => setIsGalleryOpen(false)}
+        initialIndex={galleryInitialIndex}
+      />
     </div>
   );
 }
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NavigationHeader } from "@/components/navigation-header";
+import {
+  ShieldCheck, ShieldAlert, ShieldX, Search, Loader2, MapPin, Calendar, Award
+} from "lucide-react";
+import { format } from "date-fns";
+
+interface VerifiedCertificate {
+  certificateNumber: string;
+  propertyName: string;
+  category: string;
+  district: string;
+  validFrom: string;
+  validUpto: string;
+  status: string;
+}
+
+interface VerificationResult {
+  certificate?: VerifiedCertificate;
+  signature?: "valid" | "invalid" | "not_provided";
+  message?: string;
+}
+
+const STATUS_CONFIG: Record<string, { label: string; description: string; className: string; icon: typeof ShieldCheck }> = {
+  active: {
+    label: "Valid",
+    description: "This homestay is registered with the Department of Tourism and its certificate is in force.",
+    className: "border-green-300 bg-green-50 dark:bg-green-950/20 text-green-700",
+    icon: ShieldCheck,
+  },
+  expired: {
+    label: "Expired",
+    description: "This certificate has expired and has not been renewed.",
+    className: "border-orange-300 bg-orange-50 dark:bg-orange-950/20 text-orange-700",
+    icon: ShieldAlert,
+  },
+  suspended: {
+    label: "Suspended",
+    description: "This certificate has been suspended by the District Tourism Officer.",
+    className: "border-orange-300 bg-orange-50 dark:bg-orange-950/20 text-orange-700",
+    icon: ShieldAlert,
+  },
+  revoked: {
+    label: "Revoked",
+    description: "This certificate has been revoked. The homestay is not authorized to operate.",
+    className: "border-red-300 bg-red-50 dark:bg-red-950/20 text-red-700",
+    icon: ShieldX,
+  },
+};
+
+export default function VerifyCertificate() {
+  const params = new URLSearchParams(window.location.search);
+  const [numberInput, setNumberInput] = useState(params.get("number") || "");
+  const [query, setQuery] = useState<{ number: string; sig: string | null } | null>(
+    params.get("number") ? { number: params.get("number")!, sig: params.get("sig") } : null
+  );
+
+  const { data, isLoading, error } = useQuery<VerificationResult>({
+    queryKey: ["/api/public/certificates", query?.number, "verify", query?.sig],
+    enabled: !!query,
+    queryFn: async () => {
+      const url = `/api/public/certificates/${encodeURIComponent(query!.number)}/verify${query!.sig ? `?sig=${encodeURIComponent(query!.sig)}` : ""}`;
+      const response = await fetch(url);
+      // 404 is a normal outcome (unknown number); anything else is an error
+      if (!response.ok && response.status !== 404) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || "Verification failed");
+      }
+      return response.json();
+    },
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const number = numberInput.trim();
+    if (number) {
+      setQuery({ number, sig: null });
+    }
+  };
+
+  const certificate = data?.certificate;
+  const statusConfig = certificate ? STATUS_CONFIG[certificate.status] || STATUS_CONFIG.revoked : null;
+
+  return (
+    <div className="bg-background min-h-screen">
+      <NavigationHeader title="Verify Homestay Certificate" backTo="/" />
+
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Certificate Verification</CardTitle>
+            <CardDescription>
+              Scan the QR code on the registration certificate, or enter the certificate number (e.g. HP/HST/2025/KLU/001).
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                placeholder="Certificate number"
+                value={numberInput}
+                onChange={(e) => setNumberInput(e.target.value)}
+                data-testid="input-certificate-number"
+              />
+              <Button type="submit" disabled={!numberInput.trim() || isLoading} data-testid="button-verify-certificate">
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                <span className="ml-2">Verify</span>
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Card className="border-destructive">
+            <CardContent className="p-6 text-center text-destructive">
+              {(error as Error).message}
+            </CardContent>
+          </Card>
+        )}
+
+        {data && !certificate && (
+          <Card className="border-red-300">
+            <CardContent className="p-8 text-center">
+              <ShieldX className="w-12 h-12 mx-auto text-red-600 mb-3" />
+              <h2 className="text-xl font-semibold mb-1">Certificate Not Found</h2>
+              <p className="text-muted-foreground">
+                {data.message || "No registered homestay matches this certificate number."}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {certificate && statusConfig && (
+          <Card className={statusConfig.className} data-testid="card-verification-result">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <statusConfig.icon className="w-10 h-10" />
+                <div>
+                  <CardTitle className="text-2xl">{statusConfig.label}</CardTitle>
+                  <CardDescription>{statusConfig.description}</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4 text-foreground">
+              {data?.signature === "invalid" && (
+                <div className="rounded-md border border-red-300 bg-red-50 dark:bg-red-950/20 p-3 text-sm text-red-700" data-testid="text-signature-invalid">
+                  The QR code you scanned does not match our records. The certificate details below are from the
+                  official register — compare them with the certificate on display.
+                </div>
+              )}
+
+              <div className="bg-background rounded-lg border p-4 space-y-3">
+                <div>
+                  <p className="text-xs text-muted-foreground">Certificate Number</p>
+                  <p className="font-mono font-semibold" data-testid="text-certificate-number">{certificate.certificateNumber}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Property</p>
+                  <p className="font-semibold" data-testid="text-property-name">{certificate.propertyName}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">District</p>
+                      <p className="font-medium">{certificate.district}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Award className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">Category</p>
+                      <Badge variant="outline" className="capitalize">{certificate.category}</Badge>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-primary" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Validity</p>
+                    <p className="font-medium">
+                      {format(new Date(certificate.validFrom), "MMM dd, yyyy")} – {format(new Date(certificate.validUpto), "MMM dd, yyyy")}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
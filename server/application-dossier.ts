@@ -0,0 +1,755 @@
+/**
+ * Application Dossier
+ *
+ * Everything held about one application, bundled as a ZIP for appeals, RTI
+ * replies and court matters:
+ * - summary.pdf: the application, workflow history, documents, inspection,
+ *   objections, payments and certificate on a few pages
+ * - data/*.json: the underlying records (form data, every document version,
+ *   document audit log, workflow actions, inspection, objections and
+ *   clarifications, payments, refunds, challans, certificates)
+ * - documents/ and attachments/: every stored file, fetched through the
+ *   storage provider (all versions, including deleted and replaced ones)
+ * - manifest.json: SHA-256 and size of every file in the bundle, plus files
+ *   that could not be read from storage
+ *
+ * The ZIP is streamed one entry at a time, so only the file being added is
+ * held in memory. Each generated dossier is recorded in audit_logs with the
+ * manifest hash, and every included document gets a 'download' audit entry.
+ */
+
+import archiver from 'archiver';
+import { createHash } from 'crypto';
+import type { Writable } from 'stream';
+import { jsPDF } from 'jspdf';
+import { db } from './db';
+import { storage } from './storage';
+import { documentService } from './document-service';
+import { storageProvider, toStorageKey } from './storage-provider';
+import { getDocumentTypeLabel } from '@shared/required-documents';
+import {
+  applicationActions,
+  auditLogs,
+  certificateActions,
+  certificates,
+  clarifications,
+  documentAuditLogs,
+  documents,
+  himkoshTransactions,
+  inspectionOrders,
+  inspectionReports,
+  objections,
+  paymentRefunds,
+  payments,
+  users,
+  type Document,
+  type HomestayApplication,
+  type User,
+} from '@shared/schema';
+import { eq, asc, inArray } from 'drizzle-orm';
+
+export const DOSSIER_AUDIT_ACTION = 'application_dossier_generated';
+
+export interface ApplicationDossier {
+  application: HomestayApplication;
+  owner: Pick<User, 'id' | 'fullName' | 'mobile' | 'email'> | null;
+  documents: Document[]; // Every version, oldest first
+  documentAuditLog: Array<typeof documentAuditLogs.$inferSelect>; // Oldest first
+  workflowHistory: Array<typeof applicationActions.$inferSelect>;
+  inspectionOrders: Array<typeof inspectionOrders.$inferSelect>;
+  inspectionReports: Array<typeof inspectionReports.$inferSelect>;
+  objections: Array<typeof objections.$inferSelect>;
+  clarifications: Array<typeof clarifications.$inferSelect>;
+  payments: Array<typeof payments.$inferSelect>;
+  refunds: Array<typeof paymentRefunds.$inferSelect>;
+  challans: Array<typeof himkoshTransactions.$inferSelect>;
+  certificates: Array<typeof certificates.$inferSelect>;
+  certificateActions: Array<typeof certificateActions.$inferSelect>;
+  userNames: Record<string, string>; // Officers and owner referenced by the records
+}
+
+export interface DossierManifestFile {
+  path: string;
+  sha256: string;
+  size: number;
+  source: 'generated' | 'document' | 'attachment';
+  documentId?: string;
+  documentType?: string;
+  version?: number;
+  isLatestVersion?: boolean;
+  isDeleted?: boolean;
+  storagePath?: string;
+}
+
+export interface DossierMissingFile {
+  path: string;
+  source: 'document' | 'attachment';
+  documentId?: string;
+  storagePath: string;
+  error: string;
+}
+
+export interface DossierManifest {
+  applicationId: string;
+  applicationNumber: string;
+  generatedAt: string;
+  generatedBy: { id: string; name: string; role: string };
+  algorithm: 'SHA-256';
+  files: DossierManifestFile[];
+  missingFiles: DossierMissingFile[];
+}
+
+export interface DossierRequester {
+  user: User;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface DossierResult {
+  manifest: DossierManifest;
+  manifestSha256: string;
+}
+
+// A file uploaded outside the documents table (inspection, clarification, payment and certificate records)
+interface DossierAttachment {
+  folder: string;
+  fileName: string;
+  fileUrl: string;
+}
+
+function safeFileName(fileName: string): string {
+  return fileName.replace(/[^\w.\-]+/g, '_').replace(/^_+|_+$/g, '') || 'file';
+}
+
+function sha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function formatIstDateTime(date: Date | string | null | undefined): string {
+  if (!date) {
+    return '';
+  }
+  return new Date(date).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone: 'Asia/Kolkata',
+  }).replace(',', '');
+}
+
+function formatRupees(amount: string | number | null | undefined): string {
+  return amount === null || amount === undefined ? '' : `Rs. ${Number(amount).toLocaleString('en-IN')}`;
+}
+
+function humanize(value: string | null | undefined): string {
+  return (value || '').replace(/_/g, ' ');
+}
+
+/**
+ * Add one entry and wait until archiver has written it out, so the next file
+ * is only fetched once this one has left memory
+ */
+function appendEntry(archive: archiver.Archiver, name: string, content: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEntry = (entry: archiver.EntryData) => {
+      if (entry.name === name) {
+        cleanup();
+        resolve();
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('error', onError);
+    };
+    archive.on('entry', onEntry);
+    archive.on('error', onError);
+    archive.append(content, { name });
+  });
+}
+
+export class ApplicationDossierService {
+  /**
+   * Load every record held for an application
+   */
+  async collect(applicationId: string): Promise<ApplicationDossier | null> {
+    const application = await storage.getApplication(applicationId);
+    if (!application) {
+      return null;
+    }
+
+    const [
+      owner,
+      applicationDocuments,
+      documentAuditLog,
+      workflowHistory,
+      orders,
+      reports,
+      applicationObjections,
+      applicationClarifications,
+      applicationPayments,
+      refunds,
+      challans,
+      applicationCertificates,
+      applicationCertificateActions,
+    ] = await Promise.all([
+      storage.getUser(application.userId),
+      db.select().from(documents)
+        .where(eq(documents.applicationId, applicationId))
+        .orderBy(asc(documents.documentType), asc(documents.version), asc(documents.uploadDate)),
+      documentService.getApplicationAuditLogs(applicationId),
+      db.select().from(applicationActions)
+        .where(eq(applicationActions.applicationId, applicationId))
+        .orderBy(asc(applicationActions.createdAt)),
+      db.select().from(inspectionOrders)
+        .where(eq(inspectionOrders.applicationId, applicationId))
+        .orderBy(asc(inspectionOrders.createdAt)),
+      db.select().from(inspectionReports)
+        .where(eq(inspectionReports.applicationId, applicationId))
+        .orderBy(asc(inspectionReports.submittedDate)),
+      db.select().from(objections)
+        .where(eq(objections.applicationId, applicationId))
+        .orderBy(asc(objections.raisedDate)),
+      db.select().from(clarifications)
+        .where(eq(clarifications.applicationId, applicationId))
+        .orderBy(asc(clarifications.submittedDate)),
+      db.select().from(payments)
+        .where(eq(payments.applicationId, applicationId))
+        .orderBy(asc(payments.initiatedAt)),
+      db.select().from(paymentRefunds)
+        .where(eq(paymentRefunds.applicationId, applicationId))
+        .orderBy(asc(paymentRefunds.requestedAt)),
+      db.select().from(himkoshTransactions)
+        .where(eq(himkoshTransactions.applicationId, applicationId))
+        .orderBy(asc(himkoshTransactions.createdAt)),
+      db.select().from(certificates)
+        .where(eq(certificates.applicationId, applicationId))
+        .orderBy(asc(certificates.issuedDate)),
+      db.select().from(certificateActions)
+        .where(eq(certificateActions.applicationId, applicationId))
+        .orderBy(asc(certificateActions.createdAt)),
+    ]);
+
+    const userIds = new Set<string>([
+      application.userId,
+      ...workflowHistory.map(action => action.officerId),
+      ...applicationDocuments.flatMap(doc => [doc.uploadedBy, doc.verifiedBy]),
+      ...documentAuditLog.map(log => log.actionBy),
+      ...orders.flatMap(order => [order.scheduledBy, order.assignedTo]),
+      ...reports.map(report => report.submittedBy),
+      ...applicationObjections.flatMap(objection => [objection.raisedBy, objection.resolvedBy]),
+      ...applicationPayments.map(payment => payment.verifiedBy),
+      ...applicationCertificateActions.map(action => action.performedBy),
+    ].filter((id): id is string => !!id));
+
+    const referencedUsers = await db.select({ id: users.id, fullName: users.fullName, role: users.role })
+      .from(users)
+      .where(inArray(users.id, Array.from(userIds)));
+
+    return {
+      application,
+      owner: owner ? { id: owner.id, fullName: owner.fullName, mobile: owner.mobile, email: owner.email } : null,
+      documents: applicationDocuments,
+      documentAuditLog: [...documentAuditLog].reverse(),
+      workflowHistory,
+      inspectionOrders: orders,
+      inspectionReports: reports,
+      objections: applicationObjections,
+      clarifications: applicationClarifications,
+      payments: applicationPayments,
+      refunds,
+      challans,
+      certificates: applicationCertificates,
+      certificateActions: applicationCertificateActions,
+      userNames: Object.fromEntries(referencedUsers.map(user => [user.id, `${user.fullName} (${humanize(user.role)})`])),
+    };
+  }
+
+  /**
+   * One-document overview of the dossier (A4 portrait)
+   */
+  renderSummaryPdf(dossier: ApplicationDossier, generatedBy: User, generatedAt: Date): Buffer {
+    const { application } = dossier;
+    const doc = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: 'a4',
+    });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const primaryGreen = [14, 116, 144];
+    const leftMargin = 12;
+    const bottomLimit = pageHeight - 15;
+    const userName = (id: string | null | undefined) => (id ? dossier.userNames[id] || id : '');
+    let yPosition = 18;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+    doc.text('Department of Tourism & Civil Aviation, Himachal Pradesh', pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 7;
+    doc.setFontSize(15);
+    doc.setTextColor(40, 40, 40);
+    doc.text(`Application Dossier - ${application.applicationNumber}`, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 6;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(90, 90, 90);
+    doc.text(
+      `Generated: ${formatIstDateTime(generatedAt)}  |  By: ${generatedBy.fullName} (${humanize(generatedBy.role)})`,
+      pageWidth / 2,
+      yPosition,
+      { align: 'center' }
+    );
+    yPosition += 4;
+
+    const newPageIfNeeded = (space: number) => {
+      if (yPosition + space > bottomLimit) {
+        doc.addPage();
+        yPosition = 18;
+        return true;
+      }
+      return false;
+    };
+
+    const sectionTitle = (title: string) => {
+      yPosition += 8;
+      newPageIfNeeded(12);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+      doc.text(title, leftMargin, yPosition);
+      yPosition += 6;
+    };
+
+    const table = (title: string, columns: Array<{ label: string; width: number; align?: 'right' }>, rows: string[][], emptyText: string) => {
+      const drawHeader = () => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        doc.setTextColor(255, 255, 255);
+        doc.setFillColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+        doc.rect(leftMargin, yPosition - 4, pageWidth - leftMargin * 2, 6, 'F');
+        let x = leftMargin + 1;
+        for (const column of columns) {
+          doc.text(column.label, column.align === 'right' ? x + column.width - 2 : x, yPosition, { align: column.align || 'left' });
+          x += column.width;
+        }
+        yPosition += 5;
+      };
+
+      sectionTitle(title);
+      drawHeader();
+
+      if (rows.length === 0) {
+        doc.setFont('helvetica', 'italic');
+        doc.setFontSize(8);
+        doc.setTextColor(120, 120, 120);
+        doc.text(emptyText, leftMargin + 1, yPosition);
+        yPosition += 5;
+        return;
+      }
+
+      for (const row of rows) {
+        if (newPageIfNeeded(0)) {
+          drawHeader();
+        }
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7.5);
+        doc.setTextColor(30, 30, 30);
+        let x = leftMargin + 1;
+        row.forEach((value, column) => {
+          const { width, align } = columns[column];
+          const text = doc.splitTextToSize(value, width - 2)[0] || '';
+          doc.text(text, align === 'right' ? x + width - 2 : x, yPosition, { align: align || 'left' });
+          x += width;
+        });
+        yPosition += 4.5;
+      }
+    };
+
+    const details = (title: string, fields: Array<[string, string | number | null | undefined]>) => {
+      sectionTitle(title);
+      for (const [label, value] of fields) {
+        const lines: string[] = doc.splitTextToSize(value === null || value === undefined || value === '' ? '-' : String(value), pageWidth - leftMargin * 2 - 50);
+        newPageIfNeeded(lines.length * 4.5);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        doc.setTextColor(90, 90, 90);
+        doc.text(label, leftMargin + 1, yPosition);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(30, 30, 30);
+        doc.text(lines, leftMargin + 50, yPosition);
+        yPosition += lines.length * 4.5;
+      }
+    };
+
+    details('Application', [
+      ['Application No.', application.applicationNumber],
+      ['Application type', humanize(application.applicationType)],
+      ['Status', humanize(application.status)],
+      ['Property', application.propertyName],
+      ['Category', humanize(application.category)],
+      ['Location type', (application.locationType || '').toUpperCase()],
+      ['Project type', humanize(application.projectType)],
+      ['Ownership', humanize(application.propertyOwnership)],
+      ['Rooms', application.totalRooms],
+      ['District', application.district],
+      ['Address', `${application.address}${application.pincode ? ` - ${application.pincode}` : ''}`],
+      ['Owner', `${application.ownerName} | ${application.ownerMobile}${application.ownerEmail ? ` | ${application.ownerEmail}` : ''}`],
+      ['Total fee', formatRupees(application.totalFee)],
+      ['Submitted', formatIstDateTime(application.submittedAt)],
+      ['Approved', formatIstDateTime(application.approvedAt)],
+    ]);
+
+    table(
+      'Workflow History',
+      [
+        { label: 'Date', width: 28 },
+        { label: 'Officer', width: 45 },
+        { label: 'Action', width: 30 },
+        { label: 'Status', width: 38 },
+        { label: 'Remarks', width: 45 },
+      ],
+      dossier.workflowHistory.map(action => [
+        formatIstDateTime(action.createdAt),
+        userName(action.officerId),
+        humanize(action.action),
+        `${humanize(action.previousStatus)} > ${humanize(action.newStatus)}`,
+        action.feedback || '',
+      ]),
+      'No workflow actions recorded'
+    );
+
+    table(
+      'Documents (all versions)',
+      [
+        { label: 'Document', width: 44 },
+        { label: 'Ver.', width: 10, align: 'right' },
+        { label: 'File', width: 52 },
+        { label: 'Uploaded', width: 28 },
+        { label: 'Verification', width: 28 },
+        { label: 'State', width: 24 },
+      ],
+      dossier.documents.map(document => [
+        getDocumentTypeLabel(document.documentType),
+        String(document.version),
+        document.fileName,
+        formatIstDateTime(document.uploadDate),
+        humanize(document.verificationStatus),
+        document.isDeleted ? 'deleted' : document.isLatestVersion ? 'current' : 'superseded',
+      ]),
+      'No documents uploaded'
+    );
+
+    table(
+      'Inspection',
+      [
+        { label: 'Scheduled', width: 28 },
+        { label: 'Inspected', width: 28 },
+        { label: 'Officer', width: 45 },
+        { label: 'Status / Recommendation', width: 40 },
+        { label: 'Findings', width: 45 },
+      ],
+      dossier.inspectionOrders.map(order => {
+        const report = dossier.inspectionReports.find(item => item.inspectionOrderId === order.id);
+        return [
+          formatIstDateTime(order.scheduledDate),
+          formatIstDateTime(report?.actualInspectionDate || order.inspectionDate),
+          userName(report?.submittedBy || order.assignedTo),
+          report ? humanize(report.recommendation) : humanize(order.status),
+          report?.detailedFindings || order.specialInstructions || '',
+        ];
+      }),
+      'No inspection ordered'
+    );
+
+    table(
+      'Objections and Clarifications',
+      [
+        { label: 'Date', width: 28 },
+        { label: 'Raised by', width: 40 },
+        { label: 'Objection', width: 58 },
+        { label: 'Status', width: 22 },
+        { label: 'Clarifications', width: 38 },
+      ],
+      dossier.objections.map(objection => {
+        const replies = dossier.clarifications.filter(item => item.objectionId === objection.id);
+        return [
+          formatIstDateTime(objection.raisedDate),
+          userName(objection.raisedBy),
+          objection.objectionTitle,
+          humanize(objection.status),
+          replies.length === 0 ? 'None' : replies.map(reply => humanize(reply.reviewStatus) || 'submitted').join(', '),
+        ];
+      }),
+      'No objections raised'
+    );
+
+    table(
+      'Payments and Refunds',
+      [
+        { label: 'Date', width: 28 },
+        { label: 'Type', width: 26 },
+        { label: 'Gateway / Method', width: 36 },
+        { label: 'Reference', width: 44 },
+        { label: 'Status', width: 24 },
+        { label: 'Amount', width: 28, align: 'right' },
+      ],
+      [
+        ...dossier.payments.map(payment => [
+          formatIstDateTime(payment.completedAt || payment.initiatedAt),
+          humanize(payment.paymentType),
+          [payment.paymentGateway, payment.paymentMethod].filter(Boolean).join(' / '),
+          payment.receiptNumber || payment.gatewayTransactionId || payment.offlineReference || payment.gatewayOrderId || '',
+          humanize(payment.paymentStatus),
+          formatRupees(payment.amount),
+        ]),
+        ...dossier.refunds.map(refund => [
+          formatIstDateTime(refund.processedAt || refund.requestedAt),
+          'refund',
+          humanize(refund.method),
+          refund.gatewayRefundId || refund.treasuryOrderNumber || '',
+          humanize(refund.status),
+          formatRupees(refund.amount),
+        ]),
+      ],
+      'No payments recorded'
+    );
+
+    table(
+      'Certificates',
+      [
+        { label: 'Certificate No.', width: 40 },
+        { label: 'Issued', width: 28 },
+        { label: 'Valid Upto', width: 28 },
+        { label: 'Status', width: 24 },
+        { label: 'Actions', width: 66 },
+      ],
+      dossier.certificates.map(certificate => [
+        certificate.certificateNumber,
+        formatIstDateTime(certificate.issuedDate),
+        formatIstDateTime(certificate.validUpto),
+        humanize(certificate.status),
+        dossier.certificateActions
+          .filter(action => action.certificateId === certificate.id)
+          .map(action => `${humanize(action.action)} ${formatIstDateTime(action.createdAt)}`)
+          .join('; '),
+      ]),
+      'No certificate issued'
+    );
+
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(7);
+      doc.setTextColor(120, 120, 120);
+      doc.text(
+        `HP Tourism eServices - Application Dossier, ${application.applicationNumber}  |  SHA-256 of every file in manifest.json  |  Page ${page} of ${pageCount}`,
+        pageWidth / 2,
+        pageHeight - 7,
+        { align: 'center' }
+      );
+    }
+
+    return Buffer.from(doc.output('arraybuffer'));
+  }
+
+  /**
+   * Files attached to inspection, objection, payment and certificate records
+   * that are not already in the documents table
+   */
+  private getAttachments(dossier: ApplicationDossier): DossierAttachment[] {
+    const storedPaths = new Set(dossier.documents.map(doc => doc.filePath));
+    const attachments: DossierAttachment[] = [];
+    const add = (folder: string, file: { fileName: string; fileUrl: string; documentId?: string }) => {
+      if (file.documentId || storedPaths.has(file.fileUrl)) {
+        return;
+      }
+      storedPaths.add(file.fileUrl);
+      attachments.push({ folder, fileName: file.fileName, fileUrl: file.fileUrl });
+    };
+
+    for (const report of dossier.inspectionReports) {
+      (report.inspectionPhotos || []).forEach(photo => add('inspection', photo));
+      if (report.reportDocumentUrl) {
+        add('inspection', { fileName: `inspection-report-${report.id.slice(0, 8)}.pdf`, fileUrl: report.reportDocumentUrl });
+      }
+    }
+    for (const clarification of dossier.clarifications) {
+      (clarification.supportingDocuments || []).forEach(file => add('clarifications', file));
+    }
+    for (const payment of dossier.payments) {
+      (payment.proofDocuments || []).forEach(file => add('payments', file));
+    }
+    for (const refund of dossier.refunds) {
+      (refund.proofDocuments || []).forEach(file => add('refunds', file));
+    }
+    for (const action of dossier.certificateActions) {
+      (action.evidenceDocuments || []).forEach(file => add('certificates', file));
+    }
+    return attachments;
+  }
+
+  /**
+   * Stream the dossier ZIP into output, then record it in the audit log
+   */
+  async writeBundle(dossier: ApplicationDossier, output: Writable, requester: DossierRequester): Promise<DossierResult> {
+    const { application } = dossier;
+    const generatedAt = new Date();
+    const manifest: DossierManifest = {
+      applicationId: application.id,
+      applicationNumber: application.applicationNumber,
+      generatedAt: generatedAt.toISOString(),
+      generatedBy: { id: requester.user.id, name: requester.user.fullName, role: requester.user.role },
+      algorithm: 'SHA-256',
+      files: [],
+      missingFiles: [],
+    };
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    archive.on('warning', (warning) => console.warn('[dossier] Archive warning:', warning));
+    archive.pipe(output);
+
+    const usedPaths = new Set<string>();
+    const uniquePath = (path: string) => {
+      let candidate = path;
+      for (let suffix = 2; usedPaths.has(candidate); suffix++) {
+        candidate = path.replace(/(\.[^./]+)?$/, `-${suffix}$1`);
+      }
+      usedPaths.add(candidate);
+      return candidate;
+    };
+
+    const addFile = async (entry: Omit<DossierManifestFile, 'sha256' | 'size'>, content: Buffer) => {
+      await appendEntry(archive, entry.path, content);
+      manifest.files.push({ ...entry, sha256: sha256(content), size: content.length });
+    };
+
+    const addJson = (name: string, data: unknown) =>
+      addFile({ path: uniquePath(`data/${name}.json`), source: 'generated' }, Buffer.from(JSON.stringify(data, null, 2)));
+
+    try {
+      await addFile({ path: uniquePath('summary.pdf'), source: 'generated' }, this.renderSummaryPdf(dossier, requester.user, generatedAt));
+      await addJson('application', { application, owner: dossier.owner });
+      await addJson('documents', dossier.documents);
+      await addJson('document-audit-log', dossier.documentAuditLog);
+      await addJson('workflow-history', dossier.workflowHistory);
+      await addJson('inspection', { orders: dossier.inspectionOrders, reports: dossier.inspectionReports });
+      await addJson('objections', { objections: dossier.objections, clarifications: dossier.clarifications });
+      await addJson('payments', { payments: dossier.payments, refunds: dossier.refunds, himkoshTransactions: dossier.challans });
+      await addJson('certificates', { certificates: dossier.certificates, actions: dossier.certificateActions });
+      await addJson('users', dossier.userNames);
+
+      for (const document of dossier.documents) {
+        const path = uniquePath(
+          `documents/${safeFileName(document.documentType)}/v${document.version}-${document.id.slice(0, 8)}-${safeFileName(document.fileName)}`
+        );
+        try {
+          const content = await storageProvider.getFile(toStorageKey(document.filePath));
+          await addFile({
+            path,
+            source: 'document',
+            documentId: document.id,
+            documentType: document.documentType,
+            version: document.version,
+            isLatestVersion: !!document.isLatestVersion,
+            isDeleted: !!document.isDeleted,
+            storagePath: document.filePath,
+          }, content);
+        } catch (error) {
+          console.error(`[dossier] Failed to read ${document.documentType} ${document.id}:`, error);
+          manifest.missingFiles.push({
+            path,
+            source: 'document',
+            documentId: document.id,
+            storagePath: document.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      for (const attachment of this.getAttachments(dossier)) {
+        const path = uniquePath(`attachments/${attachment.folder}/${safeFileName(attachment.fileName)}`);
+        try {
+          const content = await storageProvider.getFile(toStorageKey(attachment.fileUrl));
+          await addFile({ path, source: 'attachment', storagePath: attachment.fileUrl }, content);
+        } catch (error) {
+          console.error(`[dossier] Failed to read attachment ${attachment.fileUrl}:`, error);
+          manifest.missingFiles.push({
+            path,
+            source: 'attachment',
+            storagePath: attachment.fileUrl,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      const manifestContent = Buffer.from(JSON.stringify(manifest, null, 2));
+      await appendEntry(archive, 'manifest.json', manifestContent);
+      await archive.finalize();
+      await finished;
+
+      const manifestSha256 = sha256(manifestContent);
+      await this.recordGeneration(dossier, manifest, manifestSha256, requester);
+      return { manifest, manifestSha256 };
+    } catch (error) {
+      archive.abort();
+      throw error;
+    }
+  }
+
+  /**
+   * Audit trail: one audit_logs row for the dossier, and a 'download' entry
+   * for each document whose file went into it
+   */
+  private async recordGeneration(
+    dossier: ApplicationDossier,
+    manifest: DossierManifest,
+    manifestSha256: string,
+    requester: DossierRequester
+  ): Promise<void> {
+    await db.insert(auditLogs).values({
+      userId: requester.user.id,
+      action: DOSSIER_AUDIT_ACTION,
+      details: {
+        applicationId: dossier.application.id,
+        applicationNumber: dossier.application.applicationNumber,
+        manifestSha256,
+        files: manifest.files.length,
+        missingFiles: manifest.missingFiles.length,
+        generatedAt: manifest.generatedAt,
+      },
+      ipAddress: requester.ipAddress,
+      userAgent: requester.userAgent,
+    });
+
+    for (const file of manifest.files.filter(item => item.source === 'document' && item.documentId)) {
+      await documentService.logAction({
+        documentId: file.documentId!,
+        applicationId: dossier.application.id,
+        action: 'download',
+        actionBy: requester.user.id,
+        userRole: requester.user.role,
+        ipAddress: requester.ipAddress,
+        userAgent: requester.userAgent,
+        notes: `Included in application dossier (manifest SHA-256 ${manifestSha256})`,
+      });
+    }
+  }
+}
+
+export const applicationDossierService = new ApplicationDossierService();
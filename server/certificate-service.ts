@@ -0,0 +1,580 @@
+/**
+ * Certificate Service
+ *
+ * Issues homestay registration certificates on the server so that owners,
+ * officers and the public all see the same authoritative document.
+ *
+ * Features:
+ * - Sequential, district-coded numbers (e.g. HP/HST/2025/KLU/001)
+ * - PDF rendered with jsPDF and stored via the storage provider
+ * - QR code carrying a signed verification URL (stored in qr_code_data)
+ * - Suspension, revocation and reinstatement with an audit trail
+ * - Renewal certificates linked to the certificate they renew
+ */
+
+import crypto from 'crypto';
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { db } from './db';
+import { storageProvider } from './storage-provider';
+import { transitionApplication } from './workflow';
+import {
+  certificates,
+  certificateActions,
+  homestayApplications,
+  type Certificate,
+  type CertificateAction,
+  type HomestayApplication,
+} from '@shared/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+
+// Department district codes used in certificate numbers
+const DISTRICT_CODES: Record<string, string> = {
+  'Bilaspur': 'BLP',
+  'Chamba': 'CHM',
+  'Hamirpur': 'HMR',
+  'Kangra': 'KNG',
+  'Kinnaur': 'KNR',
+  'Kullu': 'KLU',
+  'Lahaul and Spiti': 'LHS',
+  'Mandi': 'MDI',
+  'Shimla': 'SML',
+  'Sirmaur': 'SMR',
+  'Solan': 'SOL',
+  'Una': 'UNA',
+};
+
+// Attempts at allocating a number before giving up (concurrent issuance in the same district)
+const MAX_NUMBER_ATTEMPTS = 5;
+
+export type CertificateStatusAction = 'suspend' | 'revoke' | 'lift_suspension';
+
+// Status changes a DTDO may make to an issued certificate
+export const CERTIFICATE_STATUS_ACTIONS: Record<CertificateStatusAction, { from: string[]; to: string; label: string }> = {
+  suspend: { from: ['active'], to: 'suspended', label: 'Suspended' },
+  revoke: { from: ['active', 'suspended'], to: 'revoked', label: 'Revoked' },
+  lift_suspension: { from: ['suspended'], to: 'active', label: 'Suspension lifted' },
+};
+
+export interface CertificateStatusChangeOptions {
+  performedBy: string;
+  reason: string;
+  evidenceDocuments?: CertificateAction['evidenceDocuments'];
+}
+
+const PUBLIC_PORTAL_URL = process.env.VITE_FRONTEND_URL || 'https://eservices.himachaltourism.gov.in';
+
+// QR signatures need their own key: the development fallback is public, and the
+// session secret must not double as a signing key
+if (process.env.NODE_ENV === 'production' && !process.env.CERTIFICATE_SIGNING_SECRET) {
+  throw new Error('CERTIFICATE_SIGNING_SECRET must be set in production');
+}
+
+function getSigningSecret(): string {
+  return process.env.CERTIFICATE_SIGNING_SECRET || 'hp-tourism-certificate-dev-only';
+}
+
+export function getDistrictCode(district: string): string {
+  const match = Object.keys(DISTRICT_CODES).find(name => district.toLowerCase().startsWith(name.toLowerCase()));
+  if (match) {
+    return DISTRICT_CODES[match];
+  }
+  return district.replace(/[^a-zA-Z]/g, '').slice(0, 3).toUpperCase().padEnd(3, 'X');
+}
+
+function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * HMAC signature over the certificate number and expiry date
+ */
+export function signCertificate(certificateNumber: string, validUpto: Date | string): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(`${certificateNumber}|${toDateKey(validUpto)}`)
+    .digest('base64url');
+}
+
+/**
+ * Constant-time check of a signature taken from a QR payload
+ */
+export function verifyCertificateSignature(certificateNumber: string, validUpto: Date | string, signature: string): boolean {
+  const expected = Buffer.from(signCertificate(certificateNumber, validUpto));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Public verification URL encoded in the certificate QR code
+ */
+export function buildVerificationUrl(certificateNumber: string, signature: string): string {
+  const params = new URLSearchParams({ number: certificateNumber, sig: signature });
+  return `${PUBLIC_PORTAL_URL}/verify?${params.toString()}`;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * Draw the registration certificate (A4 portrait)
+ */
+async function renderCertificatePdf(certificate: Certificate, application: HomestayApplication): Promise<Buffer> {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // Colors
+  const primaryGreen = [14, 116, 144]; // HP Tourism teal-green
+  const darkGreen = [10, 80, 100];
+  const goldColor = [184, 134, 11];
+
+  // Border - Ornamental double border
+  doc.setDrawColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.setLineWidth(1.5);
+  doc.rect(10, 10, pageWidth - 20, pageHeight - 20);
+
+  doc.setLineWidth(0.5);
+  doc.rect(12, 12, pageWidth - 24, pageHeight - 24);
+
+  // Inner decorative border
+  doc.setDrawColor(goldColor[0], goldColor[1], goldColor[2]);
+  doc.setLineWidth(0.3);
+  doc.rect(15, 15, pageWidth - 30, pageHeight - 30);
+
+  // Header Section
+  let yPosition = 25;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.text('GOVERNMENT OF HIMACHAL PRADESH', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 8;
+  doc.setFontSize(14);
+  doc.text('Department of Tourism & Civil Aviation', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 12;
+
+  // Certificate Title with decorative underline
+  doc.setFontSize(22);
+  doc.setTextColor(darkGreen[0], darkGreen[1], darkGreen[2]);
+  doc.text('HOMESTAY REGISTRATION CERTIFICATE', pageWidth / 2, yPosition, { align: 'center' });
+
+  doc.setDrawColor(goldColor[0], goldColor[1], goldColor[2]);
+  doc.setLineWidth(0.8);
+  doc.line(40, yPosition + 2, pageWidth - 40, yPosition + 2);
+
+  yPosition += 15;
+
+  // Certificate Number - prominent display
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(80, 80, 80);
+  doc.text('Certificate Number:', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 6;
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.text(certificate.certificateNumber, pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 15;
+
+  // Main certification text
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(50, 50, 50);
+  doc.text('This is to certify that the homestay mentioned below has been registered under the', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 6;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Himachal Pradesh Homestay Rules 2025', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.text('and is authorized to operate as a registered homestay establishment.', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 18;
+
+  // Property Details Box
+  doc.setFillColor(245, 250, 252);
+  doc.setDrawColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.setLineWidth(0.5);
+  doc.roundedRect(25, yPosition, pageWidth - 50, 65, 2, 2, 'FD');
+
+  yPosition += 8;
+
+  const leftMargin = 30;
+  const valueMargin = 80;
+
+  const categoryText = certificate.category.charAt(0).toUpperCase() + certificate.category.slice(1);
+  const details: Array<[string, string]> = [
+    ['Property Name:', certificate.propertyName],
+    ['Owner Name:', certificate.ownerName],
+    ['Address:', `${certificate.address}, ${certificate.district}, PIN: ${application.pincode}`],
+    ['Category:', categoryText],
+    ['Total Rooms:', application.totalRooms.toString()],
+    ['Application No:', application.applicationNumber],
+  ];
+
+  doc.setFontSize(10);
+  for (const [label, value] of details) {
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+    doc.text(label, leftMargin, yPosition);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(50, 50, 50);
+    doc.text(doc.splitTextToSize(value, pageWidth - valueMargin - 30)[0], valueMargin, yPosition);
+    yPosition += 7;
+  }
+
+  yPosition += 8;
+
+  // Validity Period
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(darkGreen[0], darkGreen[1], darkGreen[2]);
+  doc.text('Issue Date:', leftMargin, yPosition);
+  doc.setFont('helvetica', 'normal');
+  doc.text(formatDate(certificate.issuedDate), valueMargin, yPosition);
+
+  yPosition += 7;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Valid Until:', leftMargin, yPosition);
+  doc.setFont('helvetica', 'normal');
+  doc.text(formatDate(certificate.validUpto), valueMargin, yPosition);
+
+  yPosition += 18;
+
+  // Important Notice
+  doc.setFillColor(255, 250, 240);
+  doc.setDrawColor(goldColor[0], goldColor[1], goldColor[2]);
+  doc.roundedRect(25, yPosition, pageWidth - 50, 20, 2, 2, 'FD');
+
+  yPosition += 7;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(100, 80, 0);
+  doc.text('IMPORTANT:', leftMargin, yPosition);
+
+  yPosition += 5;
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(80, 80, 80);
+  doc.text('This certificate must be displayed prominently at the homestay premises.', leftMargin, yPosition);
+  yPosition += 4;
+  doc.text('Certificate is subject to compliance with Himachal Pradesh Homestay Rules 2025.', leftMargin, yPosition);
+
+  yPosition += 15;
+
+  // Signature section
+  const sigLeftX = 35;
+  const sigRightX = pageWidth - 75;
+
+  doc.setLineWidth(0.3);
+  doc.setDrawColor(100, 100, 100);
+  doc.line(sigLeftX, yPosition, sigLeftX + 40, yPosition);
+  doc.line(sigRightX, yPosition, sigRightX + 40, yPosition);
+
+  yPosition += 5;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(80, 80, 80);
+  doc.text('Authorized Signatory', sigLeftX + 8, yPosition);
+  doc.text('Seal & Signature', sigRightX + 10, yPosition);
+
+  yPosition += 4;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text('District Tourism Officer', sigLeftX + 6, yPosition);
+  doc.text('Department of Tourism', sigRightX + 6, yPosition);
+
+  // Verification QR code
+  if (certificate.qrCodeData) {
+    const qrSize = 26;
+    const qrImage = await QRCode.toDataURL(certificate.qrCodeData, { margin: 1, width: 300 });
+    doc.addImage(qrImage, 'PNG', (pageWidth - qrSize) / 2, yPosition + 4, qrSize, qrSize);
+    doc.setFontSize(7);
+    doc.text('Scan to verify', pageWidth / 2, yPosition + qrSize + 7, { align: 'center' });
+  }
+
+  // Footer
+  doc.setFontSize(8);
+  doc.setTextColor(120, 120, 120);
+  doc.setFont('helvetica', 'italic');
+  doc.text('This is a computer-generated certificate issued by HP Tourism eServices Portal', pageWidth / 2, pageHeight - 15, { align: 'center' });
+
+  doc.setFontSize(7);
+  doc.text(`Verify online at: ${PUBLIC_PORTAL_URL}/verify`, pageWidth / 2, pageHeight - 11, { align: 'center' });
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export class CertificateService {
+  /**
+   * Get the certificate issued for an application
+   */
+  async getCertificateByApplication(applicationId: string): Promise<Certificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.applicationId, applicationId))
+      .limit(1);
+
+    return certificate;
+  }
+
+  /**
+   * Get a certificate by its number
+   */
+  async getCertificateByNumber(certificateNumber: string): Promise<Certificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.certificateNumber, certificateNumber))
+      .limit(1);
+
+    return certificate;
+  }
+
+  /**
+   * Issue the registration certificate for an approved application.
+   * Idempotent: returns the existing certificate if one was already issued.
+   */
+  async issueCertificate(application: HomestayApplication, issuedBy?: string): Promise<Certificate> {
+    const existing = await this.getCertificateByApplication(application.id);
+    if (existing) {
+      return existing;
+    }
+
+    const issuedDate = new Date();
+
+    // A renewal continues from the end of the previous certificate if it has not yet expired
+    const previous = application.applicationType === 'renewal' && application.parentApplicationId
+      ? await this.getCertificateByApplication(application.parentApplicationId)
+      : undefined;
+    const validFrom = previous && new Date(previous.validUpto) > issuedDate ? new Date(previous.validUpto) : issuedDate;
+    const validUpto = new Date(validFrom);
+    validUpto.setFullYear(validUpto.getFullYear() + (application.certificateValidityYears || 1));
+
+    let certificate: Certificate | undefined;
+    for (let attempt = 1; !certificate; attempt++) {
+      const certificateNumber = await this.nextCertificateNumber(application.district, issuedDate.getFullYear());
+      const signature = signCertificate(certificateNumber, validUpto);
+
+      try {
+        [certificate] = await db
+          .insert(certificates)
+          .values({
+            applicationId: application.id,
+            certificateNumber,
+            certificateType: previous ? 'renewal' : 'homestay_registration',
+            issuedDate,
+            validFrom,
+            validUpto,
+            propertyName: application.propertyName,
+            category: application.category,
+            address: application.address,
+            district: application.district,
+            ownerName: application.ownerName,
+            ownerMobile: application.ownerMobile,
+            qrCodeData: buildVerificationUrl(certificateNumber, signature),
+            digitalSignature: signature,
+            issuedBy: issuedBy || null,
+            status: 'active',
+            renewedFromCertificateId: previous?.id || null,
+          })
+          .returning();
+      } catch (error: any) {
+        // Unique violation: either the number was taken concurrently or the
+        // application was issued a certificate by a parallel request
+        if (error?.code !== '23505') {
+          throw error;
+        }
+        const issued = await this.getCertificateByApplication(application.id);
+        if (issued) {
+          return issued;
+        }
+        if (attempt >= MAX_NUMBER_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+
+    await db
+      .update(homestayApplications)
+      .set({
+        certificateNumber: certificate.certificateNumber,
+        certificateIssuedDate: certificate.issuedDate,
+        certificateExpiryDate: certificate.validUpto,
+        updatedAt: new Date(),
+      })
+      .where(eq(homestayApplications.id, application.id));
+
+    console.log(`[certificate] Issued ${certificate.certificateNumber} for ${application.applicationNumber}`);
+
+    if (previous) {
+      await this.supersedeRenewedApplication(previous, application, issuedBy);
+    }
+
+    try {
+      certificate = await this.generatePdf(certificate, application);
+    } catch (error) {
+      // The certificate is valid without the stored PDF; it is regenerated on first download
+      console.error(`[certificate] Failed to generate PDF for ${certificate.certificateNumber}:`, error);
+    }
+
+    return certificate;
+  }
+
+  /**
+   * Retire the renewed application so the owner's active application is the renewal
+   */
+  private async supersedeRenewedApplication(previous: Certificate, renewal: HomestayApplication, issuedBy?: string): Promise<void> {
+    const [parent] = await db
+      .select()
+      .from(homestayApplications)
+      .where(eq(homestayApplications.id, previous.applicationId))
+      .limit(1);
+    if (!parent || parent.status !== 'approved') {
+      return;
+    }
+
+    try {
+      await transitionApplication(parent, {
+        action: 'supersede_by_renewal',
+        actor: { id: issuedBy || renewal.userId, role: 'system' },
+        feedback: `Renewed by ${renewal.applicationNumber}`,
+      });
+    } catch (error) {
+      // The renewal certificate stands even if the old application could not be retired
+      console.error(`[certificate] Failed to supersede ${parent.applicationNumber}:`, error);
+    }
+  }
+
+  /**
+   * Render the certificate PDF and store it via the storage provider
+   */
+  async generatePdf(certificate: Certificate, application: HomestayApplication): Promise<Certificate> {
+    const pdf = await renderCertificatePdf(certificate, application);
+    const year = new Date(certificate.issuedDate).getFullYear();
+    const filePath = await storageProvider.uploadFile(
+      `certificates/${year}/${certificate.certificateNumber.replace(/\//g, '-')}.pdf`,
+      pdf,
+      'application/pdf'
+    );
+
+    const [updated] = await db
+      .update(certificates)
+      .set({ certificatePdfUrl: filePath, updatedAt: new Date() })
+      .where(eq(certificates.id, certificate.id))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Get the stored certificate PDF, generating it if it is missing
+   */
+  async getCertificatePdf(certificate: Certificate): Promise<Buffer> {
+    if (certificate.certificatePdfUrl) {
+      return await storageProvider.getFile(certificate.certificatePdfUrl);
+    }
+
+    const [application] = await db
+      .select()
+      .from(homestayApplications)
+      .where(eq(homestayApplications.id, certificate.applicationId))
+      .limit(1);
+
+    const updated = await this.generatePdf(certificate, application);
+    return await storageProvider.getFile(updated.certificatePdfUrl!);
+  }
+
+  /**
+   * Suspend, revoke or reinstate a certificate and record the action.
+   * Returns undefined if the certificate's status changed concurrently.
+   */
+  async changeStatus(
+    certificate: Certificate,
+    action: CertificateStatusAction,
+    options: CertificateStatusChangeOptions
+  ): Promise<Certificate | undefined> {
+    const rule = CERTIFICATE_STATUS_ACTIONS[action];
+    const now = new Date();
+
+    // Lifting a suspension after the validity window has passed leaves the certificate expired
+    const newStatus = action === 'lift_suspension' && new Date(certificate.validUpto) < now ? 'expired' : rule.to;
+
+    const changes: Partial<Certificate> = action === 'lift_suspension'
+      ? { revocationReason: null, revokedBy: null, revokedDate: null }
+      : { revocationReason: options.reason, revokedBy: options.performedBy, revokedDate: now };
+
+    const [updated] = await db
+      .update(certificates)
+      .set({ ...changes, status: newStatus, updatedAt: now })
+      .where(
+        and(
+          eq(certificates.id, certificate.id),
+          eq(certificates.status, certificate.status!)
+        )
+      )
+      .returning();
+
+    if (!updated) {
+      return undefined;
+    }
+
+    await db.insert(certificateActions).values({
+      certificateId: certificate.id,
+      applicationId: certificate.applicationId,
+      performedBy: options.performedBy,
+      action,
+      previousStatus: certificate.status,
+      newStatus,
+      reason: options.reason,
+      evidenceDocuments: options.evidenceDocuments || [],
+    });
+
+    console.log(`[certificate] ${certificate.certificateNumber}: ${certificate.status} → ${newStatus} (${action})`);
+
+    return updated;
+  }
+
+  /**
+   * Audit trail of status changes for a certificate (newest first)
+   */
+  async getCertificateActions(certificateId: string): Promise<CertificateAction[]> {
+    return await db
+      .select()
+      .from(certificateActions)
+      .where(eq(certificateActions.certificateId, certificateId))
+      .orderBy(desc(certificateActions.createdAt));
+  }
+
+  /**
+   * Next sequential number for the district and year, e.g. HP/HST/2025/KLU/001
+   */
+  private async nextCertificateNumber(district: string, year: number): Promise<string> {
+    const prefix = `HP/HST/${year}/${getDistrictCode(district)}/`;
+
+    const [row] = await db
+      .select({
+        lastSequence: sql<number>`coalesce(max(cast(substring(${certificates.certificateNumber} from ${prefix.length + 1}::int) as integer)), 0)`,
+      })
+      .from(certificates)
+      .where(sql`${certificates.certificateNumber} like ${prefix + '%'}`);
+
+    const sequence = Number(row?.lastSequence || 0) + 1;
+    return `${prefix}${String(sequence).padStart(3, '0')}`;
+  }
+}
+
+// Export singleton instance
+export const certificateService = new CertificateService();
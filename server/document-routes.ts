@@ -7,9 +7,14 @@
 
 import type { Express, Request } from 'express';
 import { documentService } from './document-service';
+import { uploadVerificationService, UploadRejectedError } from './upload-verification';
+import { imageProcessingService } from './image-processing';
+import { applicationDossierService } from './application-dossier';
 import { db } from './db';
 import { homestayApplications } from '@shared/schema';
 import type { User } from '@shared/schema';
+import { canTransition } from '@shared/application-workflow';
+import { REPLACEMENT_VERIFICATION_STATUSES } from '@shared/required-documents';
 import { eq } from 'drizzle-orm';
 
 // Extend Express Request with session user info
@@ -104,6 +109,51 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
     }
   });
   
+  /**
+   * GET /api/documents/:id/renditions/:size
+   * Thumbnail or web-size copy of a photo (EXIF stripped)
+   */
+  app.get('/api/documents/:id/renditions/:size', requireAuth, async (req: Request, res) => {
+    try {
+      const { id, size } = req.params;
+      const userId = req.session.userId!;
+      
+      if (size !== 'thumbnail' && size !== 'web') {
+        return res.status(400).json({ message: 'Unknown rendition' });
+      }
+      
+      const document = await documentService.getDocument(id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      
+      // Get user details for authorization
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      // Check authorization
+      const hasAccess = await canAccessApplication(userId, user.role, document.applicationId, user.district || undefined);
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      
+      const rendition = await imageProcessingService.getRendition(document, size);
+      if (!rendition) {
+        return res.status(404).json({ message: 'Rendition not available' });
+      }
+      
+      // Renditions are immutable: a new photo is a new document or version
+      res.setHeader('Content-Type', rendition.mimeType);
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.send(rendition.content);
+    } catch (error) {
+      console.error('Error fetching document rendition:', error);
+      res.status(500).json({ message: 'Failed to fetch rendition' });
+    }
+  });
+  
   /**
    * GET /api/documents/application/:applicationId
    * Get all documents for an application
@@ -167,7 +217,8 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
   
   /**
    * POST /api/documents/upload
-   * Upload a new document
+   * Record an object uploaded via /api/upload-url?applicationId= as a document.
+   * The stored object is verified first; size and type come from the object, not the request.
    */
   app.post('/api/documents/upload', requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
@@ -176,14 +227,12 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
         applicationId,
         fileName,
         filePath,
-        fileSize,
-        mimeType,
         documentType,
         fileCategory
       } = req.body;
       
       // Validate required fields
-      if (!applicationId || !fileName || !filePath || !fileSize || !mimeType || !documentType) {
+      if (!applicationId || !fileName || !filePath || !documentType) {
         return res.status(400).json({ message: 'Missing required fields' });
       }
       
@@ -199,21 +248,24 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
         return res.status(403).json({ message: 'Access denied - you can only upload documents to your own applications' });
       }
       
+      const metadata = await uploadVerificationService.finalizeUpload({
+        applicationId,
+        documentType,
+        file: { fileName, filePath },
+      });
+      
       const document = await documentService.uploadDocument({
         applicationId,
         uploadedBy: userId,
-        metadata: {
-          fileName,
-          filePath,
-          fileSize,
-          mimeType,
-          documentType,
-          fileCategory,
-        },
+        metadata: { ...metadata, fileCategory },
       });
+      imageProcessingService.processInBackground([document]);
       
       res.json({ document });
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error uploading document:', error);
       res.status(500).json({ message: 'Failed to upload document' });
     }
@@ -221,7 +273,8 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
   
   /**
    * POST /api/documents/:id/new-version
-   * Create a new version of an existing document
+   * Replace a document the DA rejected or asked to replace, while the
+   * application is sent back for corrections
    */
   app.post('/api/documents/:id/new-version', requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
@@ -230,14 +283,11 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
       const {
         fileName,
         filePath,
-        fileSize,
-        mimeType,
-        documentType,
         fileCategory
       } = req.body;
       
       // Validate required fields
-      if (!fileName || !filePath || !fileSize || !mimeType || !documentType) {
+      if (!fileName || !filePath) {
         return res.status(400).json({ message: 'Missing required fields' });
       }
       
@@ -259,21 +309,35 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
         return res.status(403).json({ message: 'Access denied - you can only create new versions for your own documents' });
       }
       
+      // Verified and pending documents are never swapped after the DA has seen them
+      if (!existingDoc.isLatestVersion || existingDoc.isDeleted
+        || !REPLACEMENT_VERIFICATION_STATUSES.includes(existingDoc.verificationStatus || '')) {
+        return res.status(409).json({ message: 'Only documents the dealing assistant rejected or asked to replace can be replaced' });
+      }
+      const application = await storage.getApplication(existingDoc.applicationId);
+      if (!application || !canTransition('resubmit', application.status, 'property_owner')) {
+        return res.status(409).json({ message: 'Documents can only be replaced while the application is sent back for corrections' });
+      }
+      
+      // A replacement keeps the document type of the document it replaces
+      const metadata = await uploadVerificationService.finalizeUpload({
+        applicationId: existingDoc.applicationId,
+        documentType: existingDoc.documentType,
+        file: { fileName, filePath },
+      });
+      
       const newVersion = await documentService.createNewVersion(
         id,
-        {
-          fileName,
-          filePath,
-          fileSize,
-          mimeType,
-          documentType,
-          fileCategory,
-        },
+        { ...metadata, fileCategory },
         userId
       );
+      imageProcessingService.processInBackground([newVersion]);
       
       res.json({ document: newVersion });
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error creating new document version:', error);
       res.status(500).json({ message: 'Failed to create new version' });
     }
@@ -381,5 +445,57 @@ export function registerDocumentRoutes(app: Express, requireAuth: any, storage:
     }
   });
   
+  /**
+   * GET /api/documents/application/:applicationId/dossier
+   * Download everything held for an application as a ZIP (officers only)
+   */
+  app.get('/api/documents/application/:applicationId/dossier', requireAuth, async (req: Request, res) => {
+    try {
+      const { applicationId } = req.params;
+      const userId = req.session.userId!;
+      
+      // Get user details for authorization
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      // Owners see their documents through the application; dossiers are for officers
+      if (user.role === 'property_owner') {
+        return res.status(403).json({ message: 'Application dossiers are available to officers only' });
+      }
+      
+      const hasAccess = await canAccessApplication(userId, user.role, applicationId, user.district || undefined);
+      if (!hasAccess) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      
+      const dossier = await applicationDossierService.collect(applicationId);
+      if (!dossier) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      
+      const fileName = `dossier-${dossier.application.applicationNumber.replace(/[^\w.-]+/g, '_')}.zip`;
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      
+      const { manifest, manifestSha256 } = await applicationDossierService.writeBundle(dossier, res, {
+        user,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      
+      console.log(`[dossier] ${manifest.applicationNumber} generated by ${user.id}: ${manifest.files.length} files, ${manifest.missingFiles.length} missing, manifest ${manifestSha256}`);
+    } catch (error) {
+      console.error('Error generating application dossier:', error);
+      if (res.headersSent) {
+        // Part of the ZIP is already out; cut the download rather than hand over a truncated archive
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      res.status(500).json({ message: 'Failed to generate application dossier' });
+    }
+  });
+  
   console.log('[document-routes] Document management API routes registered');
 }
@@ -6,7 +6,7 @@
  * 
  * Features:
  * - Document versioning (never delete, only supersede)
- * - Audit logging (track all uploads, views, downloads)
+ * - Audit logging (track all uploads, views, downloads, verification decisions)
  * - Soft delete (mark as deleted instead of removing)
  * - File organization (separate photos from documents)
  * - Multi-provider support (Replit/MinIO/Local)
@@ -33,10 +33,21 @@ export interface UploadDocumentOptions {
   previousVersionId?: string;
 }
 
+export type DocumentVerificationStatus = 'pending' | 'verified' | 'rejected' | 'needs_correction';
+
+export interface SetVerificationOptions {
+  status: DocumentVerificationStatus;
+  notes?: string | null; // Reason; required for rejected and needs_correction
+  verifiedBy: string;
+  userRole?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 export interface AuditLogOptions {
   documentId: string;
   applicationId: string;
-  action: 'upload' | 'view' | 'download' | 'verify' | 'delete';
+  action: 'upload' | 'view' | 'download' | 'verify' | 'reject' | 'request_replacement' | 'reset_verification' | 'delete';
   actionBy: string;
   userRole?: string;
   ipAddress?: string;
@@ -44,6 +55,23 @@ export interface AuditLogOptions {
   notes?: string;
 }
 
+const VERIFICATION_AUDIT_ACTIONS: Record<DocumentVerificationStatus, AuditLogOptions['action']> = {
+  verified: 'verify',
+  rejected: 'reject',
+  needs_correction: 'request_replacement',
+  pending: 'reset_verification',
+};
+
+export class DocumentVerificationError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'DocumentVerificationError';
+    this.statusCode = statusCode;
+  }
+}
+
 export class DocumentService {
   /**
    * Upload a new document or create a new version
@@ -191,6 +219,46 @@ export class DocumentService {
     });
   }
   
+  /**
+   * Record the DA's decision on a document (verify, reject, needs replacement, or reset to pending)
+   */
+  async setVerificationStatus(document: Document, options: SetVerificationOptions): Promise<Document> {
+    const { status, verifiedBy } = options;
+    const notes = options.notes?.trim() || null;
+    
+    if ((status === 'rejected' || status === 'needs_correction') && !notes) {
+      throw new DocumentVerificationError('A reason is required when rejecting a document or asking for a replacement');
+    }
+    if (!document.isLatestVersion || document.isDeleted) {
+      throw new DocumentVerificationError('Only the current version of a document can be verified', 409);
+    }
+    
+    const decided = status !== 'pending';
+    const [updated] = await db.update(documents)
+      .set({
+        verificationStatus: status,
+        verificationNotes: notes,
+        isVerified: status === 'verified',
+        verifiedBy: decided ? verifiedBy : null,
+        verificationDate: decided ? new Date() : null,
+      })
+      .where(eq(documents.id, document.id))
+      .returning();
+    
+    await this.logAction({
+      documentId: document.id,
+      applicationId: document.applicationId,
+      action: VERIFICATION_AUDIT_ACTIONS[status],
+      actionBy: verifiedBy,
+      userRole: options.userRole,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+      notes: notes ? `${document.fileName}: ${notes}` : document.fileName,
+    });
+    
+    return updated;
+  }
+  
   /**
    * Log document access/action for audit trail
    */
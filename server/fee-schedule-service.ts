@@ -0,0 +1,220 @@
+/**
+ * Fee Schedule Service
+ *
+ * Versioned, effective-dated fee rates. The schedule in force at submission
+ * is recorded on the application (fee_schedule_version) so its fee can always
+ * be recomputed with the rates it was charged, whatever the current policy.
+ *
+ * Features:
+ * - Version 1 seeded from the 2025 Rules defaults on first use
+ * - Future-dated schedules can be edited or withdrawn until they take effect
+ * - Schedules already in force are immutable
+ */
+
+import { db } from './db';
+import {
+  feeSchedules,
+  type FeeSchedule,
+  type InsertFeeSchedule,
+  type HomestayApplication,
+} from '@shared/schema';
+import {
+  calculateHomestayFee,
+  DEFAULT_FEE_RATES,
+  type FeeBreakdown,
+  type FeeCalculationInput,
+  type CategoryType,
+  type LocationType,
+} from '@shared/fee-calculator';
+import { eq, desc, lte, sql } from 'drizzle-orm';
+
+// Effective date of the seeded 2025 Rules schedule
+const BASE_SCHEDULE_EFFECTIVE_FROM = new Date('2025-01-01T00:00:00+05:30');
+
+// Application details that determine the fee
+export interface ApplicationFeeDetails {
+  category: string;
+  locationType: string;
+  certificateValidityYears?: number | null;
+  ownerGender?: string | null;
+  isPangiSubDivision?: boolean | null;
+  applicationType?: string | null;
+  previousExpiryDate?: Date | null;
+}
+
+// Fee columns persisted on homestay_applications
+export type ApplicationFeeFields = Pick<HomestayApplication,
+  'baseFee' | 'totalBeforeDiscounts' | 'validityDiscount' | 'femaleOwnerDiscount' | 'pangiDiscount' | 'totalDiscount' | 'lateFee' | 'totalFee' | 'feeScheduleVersion'>;
+
+/**
+ * One-line summary of an assessed fee for the application's audit trail
+ */
+export function describeFeeAssessment(fees: ApplicationFeeFields): string {
+  const parts = [`base ₹${fees.baseFee}`];
+  if (Number(fees.totalDiscount) > 0) {
+    parts.push(`discounts ₹${fees.totalDiscount}`);
+  }
+  if (Number(fees.lateFee) > 0) {
+    parts.push(`late fee ₹${fees.lateFee}`);
+  }
+  return `Fee assessed under schedule v${fees.feeScheduleVersion}: ${parts.join(', ')}, total ₹${fees.totalFee}`;
+}
+
+export class FeeScheduleService {
+  /**
+   * Seed version 1 with the 2025 Rules defaults if no schedule has been stored
+   */
+  private async ensureBaseSchedule(): Promise<void> {
+    const [existing] = await db.select({ id: feeSchedules.id }).from(feeSchedules).limit(1);
+    if (existing) {
+      return;
+    }
+
+    await db
+      .insert(feeSchedules)
+      .values({
+        version: 1,
+        effectiveFrom: BASE_SCHEDULE_EFFECTIVE_FROM,
+        rates: DEFAULT_FEE_RATES,
+        notes: 'HP Homestay Rules 2025',
+      })
+      .onConflictDoNothing();
+  }
+
+  async listSchedules(): Promise<FeeSchedule[]> {
+    await this.ensureBaseSchedule();
+    return await db.select().from(feeSchedules).orderBy(desc(feeSchedules.version));
+  }
+
+  async getSchedule(id: string): Promise<FeeSchedule | undefined> {
+    const [schedule] = await db.select().from(feeSchedules).where(eq(feeSchedules.id, id)).limit(1);
+    return schedule;
+  }
+
+  async getScheduleByVersion(version: number): Promise<FeeSchedule | undefined> {
+    await this.ensureBaseSchedule();
+    const [schedule] = await db.select().from(feeSchedules).where(eq(feeSchedules.version, version)).limit(1);
+    return schedule;
+  }
+
+  /**
+   * The schedule in force at a point in time (latest effectiveFrom not after it)
+   */
+  async getScheduleInForce(at: Date = new Date()): Promise<FeeSchedule> {
+    await this.ensureBaseSchedule();
+    const [schedule] = await db
+      .select()
+      .from(feeSchedules)
+      .where(lte(feeSchedules.effectiveFrom, at))
+      .orderBy(desc(feeSchedules.effectiveFrom), desc(feeSchedules.version))
+      .limit(1);
+
+    if (schedule) {
+      return schedule;
+    }
+
+    // Only future-dated schedules exist before the base schedule's date; fall back to the earliest
+    const [earliest] = await db.select().from(feeSchedules).orderBy(feeSchedules.effectiveFrom).limit(1);
+    return earliest;
+  }
+
+  /**
+   * Calculate a fee under a specific schedule version, or the schedule in force now
+   */
+  async calculateFee(input: FeeCalculationInput, version?: number | null): Promise<FeeBreakdown & { feeScheduleVersion: number }> {
+    const schedule = (version ? await this.getScheduleByVersion(version) : undefined) || await this.getScheduleInForce();
+    return {
+      ...calculateHomestayFee(input, schedule.rates),
+      feeScheduleVersion: schedule.version,
+    };
+  }
+
+  /**
+   * Authoritative fee for an application under the schedule in force now,
+   * in the form stored on homestay_applications
+   */
+  async assessApplicationFee(details: ApplicationFeeDetails): Promise<ApplicationFeeFields> {
+    const fee = await this.calculateFee({
+      category: details.category as CategoryType,
+      locationType: details.locationType as LocationType,
+      validityYears: details.certificateValidityYears === 3 ? 3 : 1,
+      ownerGender: (details.ownerGender || 'male') as 'male' | 'female' | 'other',
+      isPangiSubDivision: !!details.isPangiSubDivision,
+      applicationType: details.applicationType === 'renewal' ? 'renewal' : 'new_registration',
+      previousExpiryDate: details.previousExpiryDate,
+    });
+
+    return {
+      baseFee: String(fee.baseFee),
+      totalBeforeDiscounts: String(fee.totalBeforeDiscounts),
+      validityDiscount: String(fee.validityDiscount),
+      femaleOwnerDiscount: String(fee.femaleOwnerDiscount),
+      pangiDiscount: String(fee.pangiDiscount),
+      totalDiscount: String(fee.totalDiscount),
+      lateFee: String(fee.lateFee),
+      totalFee: String(fee.finalFee),
+      feeScheduleVersion: fee.feeScheduleVersion,
+    };
+  }
+
+  async createSchedule(data: InsertFeeSchedule, createdBy: string): Promise<FeeSchedule> {
+    await this.ensureBaseSchedule();
+    const [{ maxVersion }] = await db
+      .select({ maxVersion: sql<number>`coalesce(max(${feeSchedules.version}), 0)` })
+      .from(feeSchedules);
+
+    const [schedule] = await db
+      .insert(feeSchedules)
+      .values({
+        version: Number(maxVersion) + 1,
+        effectiveFrom: data.effectiveFrom,
+        rates: data.rates,
+        notes: data.notes || null,
+        createdBy,
+      })
+      .returning();
+
+    console.log(`[fees] Fee schedule v${schedule.version} created, effective ${schedule.effectiveFrom.toISOString()}`);
+    return schedule;
+  }
+
+  /**
+   * Update a schedule that has not yet taken effect
+   * @returns undefined if the schedule is already in force
+   */
+  async updateSchedule(schedule: FeeSchedule, data: InsertFeeSchedule): Promise<FeeSchedule | undefined> {
+    if (schedule.effectiveFrom <= new Date()) {
+      return undefined;
+    }
+
+    const [updated] = await db
+      .update(feeSchedules)
+      .set({
+        effectiveFrom: data.effectiveFrom,
+        rates: data.rates,
+        notes: data.notes || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(feeSchedules.id, schedule.id))
+      .returning();
+
+    console.log(`[fees] Fee schedule v${updated.version} updated`);
+    return updated;
+  }
+
+  /**
+   * Withdraw a schedule that has not yet taken effect
+   * @returns false if the schedule is already in force
+   */
+  async deleteSchedule(schedule: FeeSchedule): Promise<boolean> {
+    if (schedule.effectiveFrom <= new Date()) {
+      return false;
+    }
+
+    await db.delete(feeSchedules).where(eq(feeSchedules.id, schedule.id));
+    console.log(`[fees] Fee schedule v${schedule.version} withdrawn`);
+    return true;
+  }
+}
+
+export const feeScheduleService = new FeeScheduleService();
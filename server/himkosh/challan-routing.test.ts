@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  splitChallanHeads,
+  toChallanHeadFields,
+  DEFAULT_HIMKOSH_ROUTING_SETTINGS,
+  type HimkoshRoutingSettings,
+} from './challan-routing';
+
+const DEFAULT_HEAD = '1452-00-800-01';
+
+const settings: HimkoshRoutingSettings = {
+  districtDdo: true,
+  heads: {
+    registrationFee: '1452-00-104-01',
+    lateFee: '1452-00-104-02',
+    processingCharge: '1452-00-104-03',
+  },
+  processingCharge: 100,
+};
+
+describe('splitChallanHeads', () => {
+  it('splits the assessed fee by component', () => {
+    expect(splitChallanHeads({ totalFee: '5000.00', lateFee: '500.00' }, 5000, settings, DEFAULT_HEAD)).toEqual([
+      { head: '1452-00-104-01', amount: 4400 },
+      { head: '1452-00-104-02', amount: 500 },
+      { head: '1452-00-104-03', amount: 100 },
+    ]);
+  });
+
+  it('drops components that are zero', () => {
+    expect(splitChallanHeads({ totalFee: '5000.00', lateFee: null }, 5000, settings, DEFAULT_HEAD)).toEqual([
+      { head: '1452-00-104-01', amount: 4900 },
+      { head: '1452-00-104-03', amount: 100 },
+    ]);
+  });
+
+  it('books components without their own head to the registration fee head', () => {
+    const heads = splitChallanHeads(
+      { totalFee: '5000.00', lateFee: '500.00' },
+      5000,
+      { ...settings, heads: { ...settings.heads, lateFee: '', processingCharge: '' } },
+      DEFAULT_HEAD
+    );
+    expect(heads).toEqual([{ head: '1452-00-104-01', amount: 5000 }]);
+  });
+
+  it('falls back to the credentials head when no registration fee head is set', () => {
+    expect(splitChallanHeads({ totalFee: '3000', lateFee: '0' }, 3000, DEFAULT_HIMKOSH_ROUTING_SETTINGS, DEFAULT_HEAD))
+      .toEqual([{ head: DEFAULT_HEAD, amount: 3000 }]);
+  });
+
+  it('does not split an amount other than the assessed fee', () => {
+    expect(splitChallanHeads({ totalFee: '5000.00', lateFee: '500.00' }, 1, settings, DEFAULT_HEAD))
+      .toEqual([{ head: '1452-00-104-01', amount: 1 }]);
+  });
+
+  it('never books more than the amount', () => {
+    const heads = splitChallanHeads(
+      { totalFee: '300', lateFee: '250' },
+      300,
+      { ...settings, processingCharge: 100 },
+      DEFAULT_HEAD
+    );
+    expect(heads).toEqual([
+      { head: '1452-00-104-02', amount: 250 },
+      { head: '1452-00-104-03', amount: 50 },
+    ]);
+    expect(heads.reduce((sum, line) => sum + line.amount, 0)).toBe(300);
+  });
+});
+
+describe('toChallanHeadFields', () => {
+  it('numbers heads in order', () => {
+    expect(toChallanHeadFields([
+      { head: 'A', amount: 10 },
+      { head: 'B', amount: 20 },
+    ])).toEqual({ head1: 'A', amount1: 10, head2: 'B', amount2: 20 });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * HimKosh Challan Routing
+ *
+ * Decides where a challan is booked:
+ * - DDO: the application district's active ddo_codes entry, so the receipt
+ *   lands in that district's treasury. Falls back to the DDO registered with
+ *   the merchant credentials when routing is off or the district has no entry.
+ * - Heads of account: the assessed fee is split across Head1..Head4 by
+ *   component (registration fee, renewal late fee, processing charge). A
+ *   component without its own head is booked to the registration fee head.
+ */
+
+import { db } from '../db';
+import { ddoCodes, systemSettings, type HomestayApplication } from '../../shared/schema';
+import { getHimKoshConfig } from './config';
+import { eq, and } from 'drizzle-orm';
+
+export const HIMKOSH_ROUTING_SETTING_KEY = 'himkosh_challan_routing';
+
+// CTP accepts at most four government heads per challan
+export const MAX_CHALLAN_HEADS = 4;
+
+export interface HimkoshRoutingSettings {
+  // Book challans to the application district's DDO (ddo_codes)
+  districtDdo: boolean;
+  // Head of account per fee component; blank uses the registration fee head from the credentials
+  heads: {
+    registrationFee: string;
+    lateFee: string;
+    processingCharge: string;
+  };
+  // Part of the assessed fee (₹) booked to the processing charge head; it does not add to the fee
+  processingCharge: number;
+}
+
+export const DEFAULT_HIMKOSH_ROUTING_SETTINGS: HimkoshRoutingSettings = {
+  districtDdo: true,
+  heads: {
+    registrationFee: '',
+    lateFee: '',
+    processingCharge: '',
+  },
+  processingCharge: 0,
+};
+
+export async function getHimkoshRoutingSettings(): Promise<HimkoshRoutingSettings> {
+  const [setting] = await db
+    .select()
+    .from(systemSettings)
+    .where(eq(systemSettings.settingKey, HIMKOSH_ROUTING_SETTING_KEY))
+    .limit(1);
+
+  if (!setting) {
+    return DEFAULT_HIMKOSH_ROUTING_SETTINGS;
+  }
+
+  const stored = setting.settingValue as Partial<HimkoshRoutingSettings>;
+  return {
+    ...DEFAULT_HIMKOSH_ROUTING_SETTINGS,
+    ...stored,
+    heads: { ...DEFAULT_HIMKOSH_ROUTING_SETTINGS.heads, ...stored.heads },
+  };
+}
+
+export interface ChallanHead {
+  head: string;
+  amount: number;
+}
+
+export interface ChallanRouting {
+  ddo: string;
+  // Where the DDO came from, for the challan log
+  ddoSource: 'district' | 'credentials';
+  treasuryCode?: string;
+  heads: ChallanHead[];
+}
+
+/**
+ * Split a challan amount across heads of account.
+ * The split applies only when the amount is the assessed fee; any other
+ * amount (₹1 in test payment mode) is booked to the registration fee head.
+ */
+export function splitChallanHeads(
+  application: Pick<HomestayApplication, 'totalFee' | 'lateFee'>,
+  amount: number,
+  settings: HimkoshRoutingSettings,
+  defaultHead: string
+): ChallanHead[] {
+  const registrationHead = settings.heads.registrationFee || defaultHead;
+  if (!application.totalFee || Math.round(parseFloat(application.totalFee)) !== amount) {
+    return [{ head: registrationHead, amount }];
+  }
+
+  const lateFee = Math.min(Math.round(parseFloat(application.lateFee || '0')), amount);
+  const processingCharge = Math.min(Math.round(settings.processingCharge || 0), amount - lateFee);
+  const components: ChallanHead[] = [
+    { head: registrationHead, amount: amount - lateFee - processingCharge },
+    { head: settings.heads.lateFee || registrationHead, amount: lateFee },
+    { head: settings.heads.processingCharge || registrationHead, amount: processingCharge },
+  ];
+
+  // Components booked to the same head are one line on the challan
+  const heads: ChallanHead[] = [];
+  for (const component of components) {
+    if (component.amount <= 0) {
+      continue;
+    }
+    const existing = heads.find(line => line.head === component.head);
+    if (existing) {
+      existing.amount += component.amount;
+    } else {
+      heads.push({ ...component });
+    }
+  }
+  return heads.slice(0, MAX_CHALLAN_HEADS);
+}
+
+// Head1..Head4 / Amount1..Amount4, as both the CTP request and the challan ledger take them
+export interface ChallanHeadFields {
+  head1: string;
+  amount1: number;
+  head2?: string;
+  amount2?: number;
+  head3?: string;
+  amount3?: number;
+  head4?: string;
+  amount4?: number;
+}
+
+export function toChallanHeadFields(heads: ChallanHead[]): ChallanHeadFields {
+  const [first, second, third, fourth] = heads;
+  return {
+    head1: first.head,
+    amount1: first.amount,
+    ...(second ? { head2: second.head, amount2: second.amount } : {}),
+    ...(third ? { head3: third.head, amount3: third.amount } : {}),
+    ...(fourth ? { head4: fourth.head, amount4: fourth.amount } : {}),
+  };
+}
+
+/**
+ * DDO and head split for an application's challan
+ */
+export async function resolveChallanRouting(application: HomestayApplication, amount: number): Promise<ChallanRouting> {
+  const config = getHimKoshConfig();
+  const settings = await getHimkoshRoutingSettings();
+  const heads = splitChallanHeads(application, amount, settings, config.heads.registrationFee);
+
+  if (settings.districtDdo && application.district) {
+    const [mapping] = await db
+      .select()
+      .from(ddoCodes)
+      .where(and(
+        eq(ddoCodes.district, application.district),
+        eq(ddoCodes.isActive, true)
+      ))
+      .limit(1);
+
+    if (mapping) {
+      return { ddo: mapping.ddoCode, ddoSource: 'district', treasuryCode: mapping.treasuryCode, heads };
+    }
+    console.warn(`[himkosh] No active DDO for ${application.district}; using the DDO from credentials`);
+  }
+
+  return { ddo: config.ddo, ddoSource: 'credentials', heads };
+}
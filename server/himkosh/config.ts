@@ -40,8 +40,34 @@ export const himkoshConfig = {
   // Key file path (will be provided by CTP team)
   // Use absolute path to ensure it's found regardless of working directory
   keyFilePath: process.env.HIMKOSH_KEY_FILE_PATH || path.join(__dirname, 'echallan.key'),
+
+  // Local CTP simulator (see simulator.ts) - development/testing only, never in production
+  simulator: process.env.HIMKOSH_SIMULATOR === 'true' && process.env.NODE_ENV !== 'production',
 };
 
+// Mount path of the simulator routes
+export const SIMULATOR_PATH = '/api/himkosh/simulator';
+
+/**
+ * Point CTP endpoints at the local simulator when it is enabled
+ */
+function withSimulator<T extends typeof himkoshConfig>(config: T) {
+  if (!himkoshConfig.simulator) {
+    return { ...config, isSimulator: false };
+  }
+
+  // Verification is server-to-server, so it needs an absolute URL
+  const baseUrl = process.env.HIMKOSH_SIMULATOR_BASE_URL || `http://localhost:${process.env.PORT || '5000'}`;
+  return {
+    ...config,
+    paymentUrl: `${SIMULATOR_PATH}/pay`,
+    verificationUrl: `${baseUrl}${SIMULATOR_PATH}/verify`,
+    challanPrintUrl: `${SIMULATOR_PATH}/challan`,
+    returnUrl: process.env.HIMKOSH_RETURN_URL || '/api/himkosh/callback',
+    isSimulator: true,
+  };
+}
+
 /**
  * Validate HimKosh configuration
  * @returns true if all required config is present
@@ -94,7 +120,7 @@ export function getHimKoshConfig() {
     console.warn('⚠️  HimKosh configuration incomplete. Missing:', config.missingFields.join(', '));
     console.warn('⚠️  Using placeholder values for development/testing.');
     
-    return {
+    return withSimulator({
       ...himkoshConfig,
       merchantCode: himkoshConfig.merchantCode || 'HIMKOSH228',
       deptId: himkoshConfig.deptId || '228',
@@ -104,12 +130,12 @@ export function getHimKoshConfig() {
         registrationFee: himkoshConfig.heads.registrationFee || '0230-00-104-01',
       },
       isConfigured: false,
-    };
+    });
   }
 
   console.log('[himkosh-config] ✅ All credentials configured - production mode enabled');
-  return {
+  return withSimulator({
     ...himkoshConfig,
     isConfigured: true,
-  };
+  });
 }
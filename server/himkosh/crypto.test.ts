@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import {
+  HimKoshCrypto,
+  buildPipeString,
+  buildResponseString,
+  buildVerificationString,
+  parseResponseString,
+} from './crypto';
+
+function md5(value: string): string {
+  return createHash('md5').update(value, 'utf8').digest('hex');
+}
+
+describe('HimKosh checksums', () => {
+  it('appends the MD5 of the request fields, in CTP order', () => {
+    const pipe = buildPipeString({
+      deptId: 'CTO00-068',
+      deptRefNo: 'HP-HS-2026-000001',
+      totalAmount: 5000.4,
+      tenderBy: 'Asha',
+      appRefNo: 'HPT-1',
+      head1: '1452-00-104-01',
+      amount1: 4900,
+      head2: '1452-00-104-03',
+      amount2: 100,
+      ddo: 'SML00-532',
+      periodFrom: '01-04-2026',
+      periodTo: '31-03-2027',
+      serviceCode: 'TSM',
+      returnUrl: 'https://example.gov.in/api/himkosh/callback',
+    });
+
+    const fields = 'DeptID=CTO00-068|DeptRefNo=HP-HS-2026-000001|TotalAmount=5000|TenderBy=Asha|AppRefNo=HPT-1'
+      + '|Head1=1452-00-104-01|Amount1=4900|PeriodFrom=01-04-2026|PeriodTo=31-03-2027|Service_code=TSM'
+      + '|Ddo=SML00-532|return_url=https://example.gov.in/api/himkosh/callback|Head2=1452-00-104-03|Amount2=100';
+    expect(pipe).toBe(`${fields}|checkSum=${md5(fields)}`);
+  });
+
+  it('signs the double verification request', () => {
+    const fields = 'AppRefNo=HPT-1|Service_code=TSM|merchant_code=HIMKOSH228';
+    expect(buildVerificationString({ appRefNo: 'HPT-1', serviceCode: 'TSM', merchantCode: 'HIMKOSH228' }))
+      .toBe(`${fields}|checkSum=${md5(fields)}`);
+  });
+
+  it('round-trips a CTP response and verifies its checksum', () => {
+    const response = buildResponseString({
+      echTxnId: 'ECH1',
+      bankCIN: 'CIN1',
+      bank: 'SBI',
+      status: 'Completed successfully.',
+      statusCd: '1',
+      appRefNo: 'HPT-1',
+      amount: 5000,
+      paymentDate: '15-01-2026',
+      deptRefNo: 'HP-HS-2026-000001',
+      bankName: 'State Bank of India',
+    });
+    const parsed = parseResponseString(response);
+    expect(parsed).toMatchObject({ echTxnId: 'ECH1', statusCd: '1', amount: '5000', appRefNo: 'HPT-1' });
+
+    const signed = response.slice(0, response.lastIndexOf('|checksum='));
+    expect(HimKoshCrypto.verifyChecksum(signed, parsed.checksum)).toBe(true);
+    expect(HimKoshCrypto.verifyChecksum(signed.replace('Amount=5000', 'Amount=1'), parsed.checksum)).toBe(false);
+  });
+});
@@ -207,6 +207,10 @@ export function buildPipeString(params: {
   periodTo: string;
   head2?: string;
   amount2?: number;
+  head3?: string;
+  amount3?: number;
+  head4?: string;
+  amount4?: number;
   serviceCode?: string;
   returnUrl?: string;
 }): string {
@@ -238,12 +242,18 @@ export function buildPipeString(params: {
     pieces.push(`return_url=${params.returnUrl}`);
   }
 
-  // Add Head2/Amount2 if provided
-  if (params.head2 && params.amount2 !== undefined) {
-    const intAmount2 = Math.round(Number(params.amount2));
-    pieces.push(`Head2=${params.head2}`);
-    pieces.push(`Amount2=${intAmount2}`);
-  }
+  // Add Head2..Head4/Amount2..Amount4 if provided (split challans)
+  const extraHeads: Array<[string | undefined, number | undefined]> = [
+    [params.head2, params.amount2],
+    [params.head3, params.amount3],
+    [params.head4, params.amount4],
+  ];
+  extraHeads.forEach(([head, amount], index) => {
+    if (head && amount !== undefined) {
+      pieces.push(`Head${index + 2}=${head}`);
+      pieces.push(`Amount${index + 2}=${Math.round(Number(amount))}`);
+    }
+  });
 
   // Join into pipe string
   const pipe = pieces.join('|');
@@ -299,6 +309,39 @@ export function parseResponseString(responseString: string): {
   };
 }
 
+/**
+ * Build pipe-delimited payment response string (CTP → department) WITH checksum
+ * Used by the CTP simulator; the inverse of parseResponseString
+ */
+export function buildResponseString(params: {
+  echTxnId: string;
+  bankCIN: string;
+  bank: string;
+  status: string;
+  statusCd: string;
+  appRefNo: string;
+  amount: number;
+  paymentDate: string;
+  deptRefNo: string;
+  bankName: string;
+}): string {
+  const pipe = [
+    `EchTxnId=${params.echTxnId}`,
+    `BankCIN=${params.bankCIN}`,
+    `Bank=${params.bank}`,
+    `Status=${params.status}`,
+    `StatusCd=${params.statusCd}`,
+    `AppRefNo=${params.appRefNo}`,
+    `Amount=${Math.round(params.amount)}`,
+    `Payment_date=${params.paymentDate}`,
+    `DeptRefNo=${params.deptRefNo}`,
+    `BankName=${params.bankName}`,
+  ].join('|');
+
+  // Callback verification strips everything from the last '|checksum='
+  return `${pipe}|checksum=${HimKoshCrypto.generateChecksum(pipe)}`;
+}
+
 /**
  * Build double verification request string
  * @param params - Verification parameters
@@ -0,0 +1,257 @@
+/**
+ * HimKosh Reconciliation
+ *
+ * Double-verifies transactions with CTP's verification service. Transactions
+ * still 'initiated' or 'redirected' after the payment window are settled from
+ * the verification result; transactions a callback already settled are checked
+ * against it, and any disagreement is flagged for the admin exceptions report.
+ * CTP can lag behind the bank, so a success it does not yet confirm stays
+ * unverified and is checked again on later runs until the results agree or
+ * the retry window closes.
+ */
+
+import { db } from '../db';
+import { himkoshTransactions, type HimkoshTransaction } from '../../shared/schema';
+import { HimKoshCrypto, buildVerificationString } from './crypto';
+import { getHimKoshConfig } from './config';
+import {
+  settleHimkoshTransaction,
+  SETTLED_TRANSACTION_STATUSES,
+  type SettlementOutcome,
+} from './settlement';
+import { eq, and, lt, gt, sql } from 'drizzle-orm';
+
+const crypto = new HimKoshCrypto();
+
+// Applicants get this long to finish paying before a transaction is verified
+export const RECONCILE_AFTER_MINUTES = 30;
+
+// Unpaid transactions without a callback are failed only after this long
+export const ABANDON_AFTER_HOURS = 24;
+
+// Transactions older than this are no longer retried
+const RECONCILE_LOOKBACK_DAYS = 30;
+
+// Transactions verified per run
+const RECONCILE_BATCH_SIZE = 100;
+
+// A success CTP does not confirm is checked again for this long before the issue is final
+export const CONFIRMATION_RETRY_HOURS = 72;
+
+export type ReconciliationIssue =
+  | 'failed_but_charged' // Callback failed (or never arrived) but CTP reports the challan paid
+  | 'success_not_confirmed' // Callback succeeded but CTP does not report the challan paid
+  | 'grn_mismatch' // CTP reports a different GRN, or the GRN already settled another transaction
+  | 'amount_mismatch'; // Amount paid differs from the transaction amount
+
+export interface CtpVerification {
+  paid: boolean;
+  echTxnId: string;
+  amount: string;
+  data: Record<string, string>;
+}
+
+export interface ReconciliationResult {
+  appRefNo: string;
+  verification: CtpVerification;
+  settledAs?: SettlementOutcome;
+  issue: ReconciliationIssue | null;
+  // Unpaid but still within the abandonment window; verified again on a later run
+  deferred?: boolean;
+  // Success not yet confirmed by CTP; flagged, and verified again on a later run
+  awaitingConfirmation?: boolean;
+}
+
+/**
+ * Query CTP's verification service for a transaction (server-to-server)
+ */
+export async function fetchCtpVerification(appRefNo: string): Promise<CtpVerification> {
+  const config = getHimKoshConfig();
+
+  const verificationString = buildVerificationString({
+    appRefNo,
+    serviceCode: config.serviceCode,
+    merchantCode: config.merchantCode,
+  });
+  const encryptedData = await crypto.encrypt(verificationString);
+
+  const response = await fetch(config.verificationUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: `encdata=${encodeURIComponent(encryptedData)}`,
+  });
+
+  if (!response.ok) {
+    throw new Error(`CTP verification returned HTTP ${response.status}`);
+  }
+
+  // Response is a pipe-delimited key=value string
+  const data: Record<string, string> = {};
+  for (const part of (await response.text()).split('|')) {
+    const [key, value] = part.split('=');
+    if (key && value !== undefined) {
+      data[key.trim()] = value.trim();
+    }
+  }
+
+  return {
+    paid: data.TXN_STAT === '1' || data.StatusCd === '1',
+    echTxnId: data.EchTxnId || data.GRN || '',
+    amount: data.Amount || data.TXN_AMT || '',
+    data,
+  };
+}
+
+/**
+ * Compare a settled transaction with CTP's verification result
+ */
+function findIssue(
+  transaction: HimkoshTransaction,
+  verification: CtpVerification,
+  settledAs?: SettlementOutcome
+): { issue: ReconciliationIssue; note: string } | null {
+  const verifiedAmount = verification.amount ? Math.round(parseFloat(verification.amount)) : null;
+
+  if (settledAs === 'duplicate_grn') {
+    return { issue: 'grn_mismatch', note: `GRN ${verification.echTxnId} already settled another transaction` };
+  }
+
+  switch (transaction.transactionStatus) {
+    case 'failed':
+      return verification.paid
+        ? { issue: 'failed_but_charged', note: `CTP reports GRN ${verification.echTxnId || 'unknown'} paid but the payment was recorded as failed` }
+        : null;
+    case 'amount_mismatch':
+      return {
+        issue: 'amount_mismatch',
+        note: `Expected ₹${transaction.totalAmount}, CTP reports ₹${verification.amount || 'unknown'}`,
+      };
+    case 'success':
+    case 'verified':
+      if (!verification.paid) {
+        return { issue: 'success_not_confirmed', note: `Callback reported GRN ${transaction.echTxnId} paid but CTP does not confirm it` };
+      }
+      if (verification.echTxnId && transaction.echTxnId && verification.echTxnId !== transaction.echTxnId) {
+        return { issue: 'grn_mismatch', note: `Callback GRN ${transaction.echTxnId}, CTP GRN ${verification.echTxnId}` };
+      }
+      if (verifiedAmount !== null && verifiedAmount !== transaction.totalAmount) {
+        return { issue: 'amount_mismatch', note: `Expected ₹${transaction.totalAmount}, CTP reports ₹${verification.amount}` };
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Double-verify one transaction, settling it if no callback arrived, and record the result
+ */
+export async function reconcileTransaction(transaction: HimkoshTransaction): Promise<ReconciliationResult> {
+  const verification = await fetchCtpVerification(transaction.appRefNo);
+
+  let current = transaction;
+  let settledAs: SettlementOutcome | undefined;
+
+  if (!SETTLED_TRANSACTION_STATUSES.includes(current.transactionStatus || '')) {
+    const abandonAt = new Date(current.initiatedAt || current.createdAt || Date.now());
+    abandonAt.setHours(abandonAt.getHours() + ABANDON_AFTER_HOURS);
+    if (!verification.paid && new Date() < abandonAt) {
+      return { appRefNo: transaction.appRefNo, verification, issue: null, deferred: true };
+    }
+
+    // No callback arrived: settle from the verification result. Responses without
+    // an amount are taken at the transaction amount and checked on GRN only.
+    const result = await settleHimkoshTransaction(current, {
+      echTxnId: verification.echTxnId,
+      bankCIN: verification.data.BankCIN || '',
+      bank: verification.data.Bank || '',
+      status: verification.data.Status || (verification.paid ? 'Confirmed by CTP verification' : 'Not paid (CTP verification)'),
+      statusCd: verification.paid ? '1' : '0',
+      appRefNo: current.appRefNo,
+      amount: verification.amount || String(current.totalAmount),
+      paymentDate: verification.data.Payment_date || '',
+      deptRefNo: current.deptRefNo,
+      bankName: verification.data.BankName || '',
+      checksum: '',
+    });
+    current = result.transaction;
+    settledAs = result.outcome;
+  }
+
+  const found = findIssue(current, verification, settledAs);
+  const now = new Date();
+  const initiatedAt = new Date(current.initiatedAt || current.createdAt || now);
+  const awaitingConfirmation = found?.issue === 'success_not_confirmed'
+    && now.getTime() - initiatedAt.getTime() < CONFIRMATION_RETRY_HOURS * 60 * 60 * 1000;
+
+  await db
+    .update(himkoshTransactions)
+    .set({
+      isDoubleVerified: !awaitingConfirmation,
+      doubleVerificationDate: now,
+      doubleVerificationData: verification.data,
+      verifiedAt: now,
+      reconciliationIssue: found?.issue ?? null,
+      reconciliationNote: found?.note ?? null,
+      updatedAt: now,
+    })
+    .where(eq(himkoshTransactions.id, transaction.id));
+
+  if (found) {
+    console.warn(`[reconciliation] ${transaction.appRefNo}: ${found.issue} - ${found.note}`);
+  }
+
+  return { appRefNo: transaction.appRefNo, verification, settledAs, issue: found?.issue ?? null, awaitingConfirmation };
+}
+
+/**
+ * Verify every unverified transaction past the payment window; transactions
+ * never checked come first, then those checked longest ago
+ */
+export async function reconcileHimkoshTransactions(): Promise<{ verified: number; exceptions: number; errors: number }> {
+  const summary = { verified: 0, exceptions: 0, errors: 0 };
+
+  const config = getHimKoshConfig();
+  if (!config.isConfigured && !config.isSimulator) {
+    console.log('[reconciliation] HimKosh is not configured - skipping verification');
+    return summary;
+  }
+
+  const now = Date.now();
+  const pending = await db
+    .select()
+    .from(himkoshTransactions)
+    .where(
+      and(
+        eq(himkoshTransactions.isDoubleVerified, false),
+        lt(himkoshTransactions.initiatedAt, new Date(now - RECONCILE_AFTER_MINUTES * 60 * 1000)),
+        gt(himkoshTransactions.initiatedAt, new Date(now - RECONCILE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000))
+      )
+    )
+    .orderBy(sql`${himkoshTransactions.doubleVerificationDate} asc nulls first`, himkoshTransactions.initiatedAt)
+    .limit(RECONCILE_BATCH_SIZE);
+
+  for (const transaction of pending) {
+    try {
+      const result = await reconcileTransaction(transaction);
+      if (result.deferred) {
+        continue;
+      }
+      summary.verified++;
+      if (result.issue) {
+        summary.exceptions++;
+      }
+    } catch (error) {
+      summary.errors++;
+      console.error(`[reconciliation] Failed to verify ${transaction.appRefNo}:`, error);
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`[reconciliation] Verified ${summary.verified} transaction(s): ${summary.exceptions} exception(s), ${summary.errors} error(s)`);
+  }
+
+  return summary;
+}
@@ -1,14 +1,27 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { himkoshTransactions, homestayApplications, ddoCodes, systemSettings } from '../../shared/schema';
-import { HimKoshCrypto, buildPipeString, parseResponseString, buildVerificationString } from './crypto';
-import { getHimKoshConfig } from './config';
+import { himkoshTransactions, homestayApplications } from '../../shared/schema';
+import { HimKoshCrypto, buildPipeString } from './crypto';
+import { getHimKoshConfig, himkoshConfig } from './config';
+import { settleHimkoshTransaction } from './settlement';
+import { reconcileTransaction } from './reconciliation';
+import { resolveChallanRouting, toChallanHeadFields } from './challan-routing';
+import simulatorRoutes from './simulator';
+import { himkoshGateway } from '../payments/himkosh';
+import { paymentService } from '../payments/service';
+import { PaymentGatewayError, GatewaySignatureError } from '../payments/gateway';
 import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
 const router = Router();
 const crypto = new HimKoshCrypto();
 
+// Local CTP simulator (HIMKOSH_SIMULATOR=true, never in production)
+if (himkoshConfig.simulator) {
+  router.use('/simulator', simulatorRoutes);
+  console.warn('[himkosh] ⚠️  CTP simulator enabled - payments are simulated locally');
+}
+
 /**
  * POST /api/himkosh/initiate
  * Initiate HimKosh payment for an application
@@ -32,127 +45,32 @@ router.post('/initiate', async (req, res) => {
       return res.status(404).json({ error: 'Application not found' });
     }
 
-    // Verify application is ready for payment
-    if (application.status !== 'payment_pending' && application.status !== 'verified_for_payment') {
-      return res.status(400).json({ 
-        error: 'Application is not ready for payment',
-        currentStatus: application.status 
-      });
-    }
-
+    // Records the attempt in payments and the challan in himkosh_transactions
+    const result = await paymentService.initiatePayment(application, 'himkosh', `${req.protocol}://${req.get('host')}`);
     const config = getHimKoshConfig();
 
-    // CRITICAL: Always use DDO from config (tied to merchant credentials)
-    // District-specific DDO mapping is not used because HimKosh validates
-    // that the DDO matches the merchant/department registration
-    const ddoCode = config.ddo;
-    console.log(`[himkosh] Using DDO from credentials: ${ddoCode}`);
-
-    // Generate unique transaction reference
-    const appRefNo = `HPT${Date.now()}${nanoid(6)}`.substring(0, 20);
-
-    // CRITICAL FIX #2: Amounts must be integers only (no decimals like 100.00)
-    // DLL expects whole rupees, decimals trigger ASP.NET FormatException
-    if (!application.totalFee) {
-      return res.status(400).json({ error: 'Total fee not calculated for this application' });
-    }
-    const actualAmount = Math.round(parseFloat(application.totalFee.toString())); // Ensure integer
-
-    // Check if test payment mode is enabled
-    const [testModeSetting] = await db
-      .select()
-      .from(systemSettings)
-      .where(eq(systemSettings.settingKey, 'payment_test_mode'))
-      .limit(1);
-    
-    const isTestMode = testModeSetting 
-      ? (testModeSetting.settingValue as { enabled: boolean }).enabled 
-      : false;
-    
-    // Use ₹1 for gateway if test mode is enabled, otherwise use actual amount
-    const gatewayAmount = isTestMode ? 1 : actualAmount;
-    
-    if (isTestMode) {
-      console.log(`[himkosh] 🧪 TEST PAYMENT MODE ACTIVE - Sending ₹1 to gateway instead of ₹${actualAmount}`);
-    }
-
-    // Get period dates (first and last day of current month)
-    const now = new Date();
-    const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    const formatDate = (date: Date) => 
-      `${String(date.getDate()).padStart(2, '0')}-${String(date.getMonth() + 1).padStart(2, '0')}-${date.getFullYear()}`;
-
-    // Build pipe string parameters (matches working Node.js sample)
-    const pipeParams = {
-      deptId: config.deptId,
-      deptRefNo: application.applicationNumber,
-      totalAmount: gatewayAmount, // Use gateway amount (₹1 in test mode)
-      tenderBy: application.ownerName,
-      appRefNo,
-      head1: config.heads.registrationFee,
-      amount1: gatewayAmount, // Use gateway amount (₹1 in test mode)
-      periodFrom: formatDate(firstDay),
-      periodTo: formatDate(lastDay),
-      serviceCode: config.serviceCode,
-      ddo: ddoCode,
-      returnUrl: config.returnUrl,
-    };
-
-    // Build pipe string WITH checksum appended (ready to encrypt)
-    // This matches the working sample exactly
-    const pipeStringWithChecksum = buildPipeString(pipeParams);
-    
-    // Encrypt the ENTIRE pipe string (including checksum)
-    const encryptedData = await crypto.encrypt(pipeStringWithChecksum);
-
-    // Debug logging
-    console.log('[himkosh] Pipe string with checksum (before encryption):', pipeStringWithChecksum);
-    console.log('[himkosh] Encrypted data:', encryptedData);
-    console.log('[himkosh] POST fields: encdata + merchant_code ONLY (no separate checksum)');
-
-    // Save transaction to database (store gateway amount that was actually sent)
-    await db.insert(himkoshTransactions).values({
-      applicationId,
-      deptRefNo: application.applicationNumber,
-      appRefNo,
-      totalAmount: gatewayAmount, // Store what was sent to gateway
-      tenderBy: application.ownerName,
-      merchantCode: config.merchantCode,
-      deptId: config.deptId,
-      serviceCode: config.serviceCode,
-      ddo: ddoCode,
-      head1: config.heads.registrationFee,
-      amount1: gatewayAmount, // Store what was sent to gateway
-      periodFrom: formatDate(firstDay),
-      periodTo: formatDate(lastDay),
-      encryptedRequest: encryptedData,
-      requestChecksum: '', // Checksum is inside encrypted data (not separate)
-      transactionStatus: 'initiated',
-    });
-
     // Return payment initiation data (ONLY 2 fields: encdata + merchant_code)
-    const response = {
+    res.json({
       success: true,
-      paymentUrl: config.paymentUrl,
-      merchantCode: config.merchantCode,
-      encdata: encryptedData,
+      paymentUrl: result.redirect.url,
+      merchantCode: result.redirect.fields.merchant_code,
+      encdata: result.redirect.fields.encdata,
       // NO separate checksum field! Checksum is inside encrypted data
-      appRefNo,
-      totalAmount: gatewayAmount, // Gateway amount (₹1 in test mode)
-      actualAmount, // Actual calculated fee (for display purposes)
-      isTestMode, // Flag to indicate test mode
+      appRefNo: result.payment.gatewayOrderId,
+      totalAmount: result.amount, // Gateway amount (₹1 in test mode)
+      actualAmount: result.actualAmount, // Actual calculated fee (for display purposes)
+      isTestMode: result.isTestMode, // Flag to indicate test mode
       isConfigured: config.isConfigured,
-      message: isTestMode 
-        ? `🧪 TEST MODE: Sending ₹1 to gateway (actual fee: ₹${actualAmount})`
+      message: result.isTestMode
+        ? `🧪 TEST MODE: Sending ₹1 to gateway (actual fee: ₹${result.actualAmount})`
         : (config.isConfigured 
           ? 'Payment initiated successfully' 
           : 'Using test configuration - waiting for CTP credentials'),
-    };
-    
-    console.log('[himkosh] ✅ Using working sample format - checksum INSIDE encrypted data');
-    res.json(response);
+    });
   } catch (error) {
+    if (error instanceof PaymentGatewayError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('HimKosh initiation error:', error);
     res.status(500).json({ 
       error: 'Failed to initiate payment',
@@ -167,23 +85,16 @@ router.post('/initiate', async (req, res) => {
  */
 router.post('/callback', async (req, res) => {
   try {
-    const { encdata } = req.body;
-
-    if (!encdata) {
-      return res.status(400).send('Missing payment response data');
-    }
-
-    // Decrypt response
-    const decryptedData = await crypto.decrypt(encdata);
-    const parsedResponse = parseResponseString(decryptedData);
-
-    // Verify checksum
-    const dataWithoutChecksum = decryptedData.substring(0, decryptedData.lastIndexOf('|checksum='));
-    const isValid = HimKoshCrypto.verifyChecksum(dataWithoutChecksum, parsedResponse.checksum);
-
-    if (!isValid) {
-      console.error('HimKosh callback: Checksum verification failed');
-      return res.status(400).send('Invalid checksum');
+    // Decrypt response and verify checksum
+    let parsedResponse;
+    try {
+      parsedResponse = await himkoshGateway.parseCallback(req.body);
+    } catch (error) {
+      if (error instanceof GatewaySignatureError) {
+        console.error(`HimKosh callback: ${error.message}`);
+        return res.status(400).send('Invalid payment response');
+      }
+      throw error;
     }
 
     // Find transaction
@@ -198,50 +109,15 @@ router.post('/callback', async (req, res) => {
       return res.status(404).send('Transaction not found');
     }
 
-    // Update transaction with response
-    await db
-      .update(himkoshTransactions)
-      .set({
-        echTxnId: parsedResponse.echTxnId,
-        bankCIN: parsedResponse.bankCIN,
-        bankName: parsedResponse.bankName,
-        paymentDate: parsedResponse.paymentDate,
-        status: parsedResponse.status,
-        statusCd: parsedResponse.statusCd,
-        responseChecksum: parsedResponse.checksum,
-        transactionStatus: parsedResponse.statusCd === '1' ? 'success' : 'failed',
-        respondedAt: new Date(),
-        challanPrintUrl: parsedResponse.statusCd === '1' 
-          ? `${getHimKoshConfig().challanPrintUrl}?reportName=PaidChallan&TransId=${parsedResponse.echTxnId}`
-          : undefined,
-      })
-      .where(eq(himkoshTransactions.id, transaction.id));
-
-    // If payment successful, update application
-    if (parsedResponse.statusCd === '1') {
-      // Generate certificate number
-      const year = new Date().getFullYear();
-      const randomSuffix = Math.floor(10000 + Math.random() * 90000);
-      const certificateNumber = `HP-HST-${year}-${randomSuffix}`;
-
-      const issueDate = new Date();
-      const expiryDate = new Date();
-      expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-
-      await db
-        .update(homestayApplications)
-        .set({
-          status: 'approved',
-          certificateNumber,
-          certificateIssuedDate: issueDate,
-          certificateExpiryDate: expiryDate,
-          approvedAt: issueDate,
-        })
-        .where(eq(homestayApplications.id, transaction.applicationId));
+    // Settle once; replays and out-of-order responses leave the transaction unchanged
+    const { outcome, transaction: settled } = await settleHimkoshTransaction(transaction, parsedResponse);
+    if (outcome === 'duplicate_grn') {
+      return res.status(409).send('Payment reference already used');
     }
+    const paymentSucceeded = settled.transactionStatus === 'success' || settled.transactionStatus === 'verified';
 
     // Redirect user to application page
-    res.redirect(`${process.env.VITE_FRONTEND_URL || ''}/application/${transaction.applicationId}?payment=${parsedResponse.statusCd === '1' ? 'success' : 'failed'}&himgrn=${parsedResponse.echTxnId}`);
+    res.redirect(`${process.env.VITE_FRONTEND_URL || ''}/application/${transaction.applicationId}?payment=${paymentSucceeded ? 'success' : 'failed'}&himgrn=${settled.echTxnId || ''}`);
   } catch (error) {
     console.error('HimKosh callback error:', error);
     res.status(500).send('Payment processing failed');
@@ -255,62 +131,25 @@ router.post('/callback', async (req, res) => {
 router.post('/verify/:appRefNo', async (req, res) => {
   try {
     const { appRefNo } = req.params;
-    const config = getHimKoshConfig();
-
-    // Build verification request
-    const verificationString = buildVerificationString({
-      appRefNo,
-      serviceCode: config.serviceCode,
-      merchantCode: config.merchantCode,
-    });
-
-    const encryptedData = await crypto.encrypt(verificationString);
-
-    // Make request to CTP verification endpoint
-    const response = await fetch(config.verificationUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `encdata=${encodeURIComponent(encryptedData)}`,
-    });
-
-    const responseData = await response.text();
-    
-    // Parse response (will be pipe-delimited string)
-    const parts = responseData.split('|');
-    const verificationData: Record<string, string> = {};
-    
-    for (const part of parts) {
-      const [key, value] = part.split('=');
-      if (key && value !== undefined) {
-        verificationData[key] = value;
-      }
-    }
 
-    // Update transaction
     const [transaction] = await db
       .select()
       .from(himkoshTransactions)
       .where(eq(himkoshTransactions.appRefNo, appRefNo))
       .limit(1);
 
-    if (transaction) {
-      await db
-        .update(himkoshTransactions)
-        .set({
-          isDoubleVerified: true,
-          doubleVerificationDate: new Date(),
-          doubleVerificationData: verificationData,
-          verifiedAt: new Date(),
-        })
-        .where(eq(himkoshTransactions.id, transaction.id));
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
     }
 
+    // Same check the reconciliation job runs; settles the transaction if no callback arrived
+    const result = await reconcileTransaction(transaction);
+
     res.json({
       success: true,
-      verified: verificationData.TXN_STAT === '1',
-      data: verificationData,
+      verified: result.verification.paid,
+      data: result.verification.data,
+      issue: result.issue,
     });
   } catch (error) {
     console.error('HimKosh verification error:', error);
@@ -376,6 +215,7 @@ router.get('/config/status', (req, res) => {
     deptId: config.deptId,
     serviceCode: config.serviceCode,
     returnUrl: config.returnUrl,
+    simulator: config.isSimulator,
   });
 });
 
@@ -404,20 +244,6 @@ router.post('/test-callback-url', async (req, res) => {
 
     const config = getHimKoshConfig();
 
-    // Look up DDO code
-    let ddoCode = config.ddo;
-    if (application.district) {
-      const [ddoMapping] = await db
-        .select()
-        .from(ddoCodes)
-        .where(eq(ddoCodes.district, application.district))
-        .limit(1);
-      
-      if (ddoMapping) {
-        ddoCode = ddoMapping.ddoCode;
-      }
-    }
-
     const appRefNo = `HPT${Date.now()}${nanoid(6)}`.substring(0, 20);
     
     if (!application.totalFee) {
@@ -425,6 +251,9 @@ router.post('/test-callback-url', async (req, res) => {
     }
     const totalAmount = Math.round(parseFloat(application.totalFee.toString()));
 
+    // Same DDO and head split as a real challan for this application
+    const routing = await resolveChallanRouting(application, totalAmount);
+
     const now = new Date();
     const periodDate = `${String(now.getDate()).padStart(2, '0')}-${String(now.getMonth() + 1).padStart(2, '0')}-${now.getFullYear()}`;
 
@@ -434,9 +263,8 @@ router.post('/test-callback-url', async (req, res) => {
       totalAmount: totalAmount,
       tenderBy: application.ownerName,
       appRefNo: appRefNo,
-      head1: config.heads.registrationFee,
-      amount1: totalAmount,
-      ddo: ddoCode,
+      ...toChallanHeadFields(routing.heads),
+      ddo: routing.ddo,
       periodFrom: periodDate,
       periodTo: periodDate,
       serviceCode: config.serviceCode,
@@ -0,0 +1,164 @@
+/**
+ * HimKosh Settlement
+ *
+ * Applies a CTP payment response to its transaction exactly once. The first
+ * response for an appRefNo settles the transaction; replayed, late or
+ * out-of-order responses are logged and never change it.
+ *
+ * A response for the expected amount:
+ * - Settles the attempt's payments row (GRN as the gateway transaction id)
+ * - On success, issues the e-receipt, hands the application to the workflow
+ *   (payment_received) and issues the certificate
+ */
+
+import { db } from '../db';
+import {
+  himkoshTransactions,
+  homestayApplications,
+  payments,
+  type HimkoshTransaction,
+} from '../../shared/schema';
+import { parseResponseString } from './crypto';
+import { getHimKoshConfig } from './config';
+import { settlePaymentAttempt, issuePaymentReceipt, applyPaymentToApplication } from '../payments/completion';
+import { eq, and, ne, notInArray } from 'drizzle-orm';
+
+export type HimKoshResponse = ReturnType<typeof parseResponseString>;
+
+// Transactions in these states have received their response and are final
+export const SETTLED_TRANSACTION_STATUSES = ['success', 'failed', 'amount_mismatch', 'verified'];
+
+export type SettlementOutcome =
+  | 'success'
+  | 'failed'
+  | 'amount_mismatch' // Bank reported success for a different amount; needs reconciliation
+  | 'already_settled' // Replay or out-of-order response; transaction left unchanged
+  | 'duplicate_grn'; // GRN already settled another transaction
+
+export interface SettlementResult {
+  outcome: SettlementOutcome;
+  transaction: HimkoshTransaction;
+}
+
+/**
+ * Settle a transaction from a checksum-verified CTP response
+ */
+export async function settleHimkoshTransaction(
+  transaction: HimkoshTransaction,
+  response: HimKoshResponse
+): Promise<SettlementResult> {
+  if (SETTLED_TRANSACTION_STATUSES.includes(transaction.transactionStatus || '')) {
+    console.warn(`[himkosh] Ignoring response for settled transaction ${transaction.appRefNo} (${transaction.transactionStatus}, GRN ${response.echTxnId || 'none'})`);
+    return { outcome: 'already_settled', transaction };
+  }
+
+  if (response.echTxnId) {
+    const [other] = await db
+      .select({ appRefNo: himkoshTransactions.appRefNo })
+      .from(himkoshTransactions)
+      .where(and(
+        eq(himkoshTransactions.echTxnId, response.echTxnId),
+        ne(himkoshTransactions.id, transaction.id)
+      ))
+      .limit(1);
+
+    if (other) {
+      console.error(`[himkosh] GRN ${response.echTxnId} for ${transaction.appRefNo} already settled ${other.appRefNo}`);
+      return { outcome: 'duplicate_grn', transaction };
+    }
+  }
+
+  const paid = response.statusCd === '1';
+  const amountMatches = Math.round(parseFloat(response.amount)) === transaction.totalAmount;
+  const outcome: SettlementOutcome = !paid ? 'failed' : amountMatches ? 'success' : 'amount_mismatch';
+
+  // Only the first response to reach an unsettled transaction wins
+  const [settled] = await db
+    .update(himkoshTransactions)
+    .set({
+      echTxnId: response.echTxnId || null,
+      bankCIN: response.bankCIN,
+      bankName: response.bankName,
+      paymentDate: response.paymentDate,
+      status: response.status,
+      statusCd: response.statusCd,
+      responseChecksum: response.checksum,
+      transactionStatus: outcome,
+      respondedAt: new Date(),
+      challanPrintUrl: paid
+        ? `${getHimKoshConfig().challanPrintUrl}?reportName=PaidChallan&TransId=${response.echTxnId}`
+        : undefined,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(himkoshTransactions.id, transaction.id),
+      notInArray(himkoshTransactions.transactionStatus, SETTLED_TRANSACTION_STATUSES)
+    ))
+    .returning();
+
+  if (!settled) {
+    console.warn(`[himkosh] Transaction ${transaction.appRefNo} was settled concurrently; response ignored`);
+    return { outcome: 'already_settled', transaction };
+  }
+
+  if (outcome === 'amount_mismatch') {
+    console.error(`[himkosh] Amount mismatch for ${transaction.appRefNo}: expected ₹${transaction.totalAmount}, bank reported ₹${response.amount}`);
+    return { outcome, transaction: settled };
+  }
+
+  const settlement = {
+    status: paid ? 'success' as const : 'failed' as const,
+    gatewayTransactionId: response.echTxnId || null,
+    gatewayResponse: response,
+    failureReason: paid ? undefined : response.status,
+  };
+
+  const [attempt] = await db
+    .select()
+    .from(payments)
+    .where(and(
+      eq(payments.paymentGateway, 'himkosh'),
+      eq(payments.gatewayOrderId, transaction.appRefNo)
+    ))
+    .limit(1);
+
+  let settledPaymentId: string | undefined;
+  if (attempt) {
+    settledPaymentId = (await settlePaymentAttempt(attempt.id, settlement))?.id;
+  } else {
+    // Transactions initiated before attempts were recorded at initiation
+    const [application] = await db
+      .select()
+      .from(homestayApplications)
+      .where(eq(homestayApplications.id, transaction.applicationId))
+      .limit(1);
+
+    const [inserted] = await db
+      .insert(payments)
+      .values({
+        applicationId: transaction.applicationId,
+        paymentType: application?.applicationType === 'renewal' ? 'renewal' : 'registration',
+        amount: String(transaction.totalAmount),
+        paymentGateway: 'himkosh',
+        gatewayOrderId: transaction.appRefNo,
+        gatewayTransactionId: settlement.gatewayTransactionId,
+        paymentStatus: settlement.status,
+        gatewayResponse: settlement.gatewayResponse,
+        failureReason: settlement.failureReason,
+        completedAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning({ id: payments.id });
+    settledPaymentId = inserted?.id;
+  }
+
+  if (paid) {
+    if (settledPaymentId) {
+      await issuePaymentReceipt(settledPaymentId);
+    }
+    await applyPaymentToApplication(transaction.applicationId, `HimKosh payment received (GRN ${response.echTxnId})`);
+  }
+
+  console.log(`[himkosh] Transaction ${transaction.appRefNo} settled: ${outcome}${response.echTxnId ? ` (GRN ${response.echTxnId})` : ''}`);
+  return { outcome, transaction: settled };
+}
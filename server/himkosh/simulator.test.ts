@@ -0,0 +1,225 @@
+/**
+ * HimKosh round trip against the local CTP simulator:
+ * initiate → simulator /pay → /api/himkosh/callback → /verify, with the
+ * database in an in-memory PGlite instance, so no network or Postgres is needed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createRequire } from 'module';
+import { rmSync } from 'fs';
+import express from 'express';
+
+const storageDir = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || '/tmp'}/himkosh-simulator-test-${process.pid}`;
+  process.env.HIMKOSH_SIMULATOR = 'true';
+  process.env.HIMKOSH_ENCRYPTION_KEY = '000102030405060708090a0b0c0d0e0f';
+  process.env.HIMKOSH_ENCRYPTION_IV = '000102030405060708090a0b0c0d0e0f';
+  process.env.LOCAL_STORAGE_DIR = dir;
+  return dir;
+});
+
+vi.mock('../db', async () => {
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+  const schema = await import('@shared/schema');
+  const client = new PGlite();
+  return { pool: client, db: drizzle(client, { schema }) };
+});
+
+import { db, pool } from '../db';
+import * as schema from '@shared/schema';
+import { homestayApplications, himkoshTransactions, payments, certificates, users } from '@shared/schema';
+import himkoshRoutes from './routes';
+import { reconcileHimkoshTransactions } from './reconciliation';
+import { eq } from 'drizzle-orm';
+import type { PGlite } from '@electric-sql/pglite';
+
+// drizzle-kit's ESM build cannot load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api');
+
+let server: Server;
+let baseUrl: string;
+let ownerId: string;
+let sequence = 0;
+
+async function createSchema(): Promise<void> {
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await (pool as unknown as PGlite).exec(statement);
+  }
+}
+
+async function createApplication() {
+  sequence++;
+  const [application] = await db.insert(homestayApplications).values({
+    userId: ownerId,
+    applicationNumber: `HP-HS-2026-SIM-${sequence}`,
+    propertyName: 'Simulator Homestay',
+    category: 'silver',
+    locationType: 'gp',
+    totalRooms: 2,
+    district: 'Shimla',
+    tehsil: 'Shimla',
+    address: 'Test Road',
+    pincode: '171001',
+    ownerName: 'Test Owner',
+    ownerGender: 'female',
+    ownerMobile: '9800000000',
+    ownerAadhaar: '123412341234',
+    projectType: 'new_rooms',
+    propertyArea: '100',
+    attachedWashrooms: 2,
+    status: 'payment_pending',
+    totalFee: '3000.00',
+  }).returning();
+  return application;
+}
+
+function post(pathname: string, body: Record<string, string>, json = false) {
+  return fetch(`${baseUrl}${pathname}`, {
+    method: 'POST',
+    headers: { 'Content-Type': json ? 'application/json' : 'application/x-www-form-urlencoded' },
+    body: json ? JSON.stringify(body) : new URLSearchParams(body).toString(),
+    redirect: 'manual',
+  });
+}
+
+function formOf(html: string): { action: string; encdata?: string } {
+  const action = html.match(/<form[^>]*action="([^"]+)"/)?.[1];
+  if (!action) {
+    throw new Error(`No form in simulator page: ${html}`);
+  }
+  return { action, encdata: html.match(/name="encdata" value="([^"]+)"/)?.[1] };
+}
+
+/**
+ * Initiate a payment and open the simulator's bank page
+ * @returns the transaction reference and the simulator's completion URL
+ */
+async function startPayment(applicationId: string): Promise<{ appRefNo: string; completeUrl: string }> {
+  const initiated = await post('/api/himkosh/initiate', { applicationId }, true);
+  expect(initiated.status).toBe(200);
+  const initiation = await initiated.json();
+  expect(initiation.paymentUrl).toBe('/api/himkosh/simulator/pay');
+
+  const bankPage = await post(initiation.paymentUrl, { encdata: initiation.encdata, merchant_code: initiation.merchantCode });
+  expect(bankPage.status).toBe(200);
+  return { appRefNo: initiation.appRefNo, completeUrl: formOf(await bankPage.text()).action };
+}
+
+/**
+ * Choose an outcome on the bank page and post the response to the department, as the browser would
+ */
+async function completePayment(completeUrl: string, outcome: 'success' | 'failure'): Promise<Response> {
+  const page = await post(completeUrl, { outcome });
+  expect(page.status).toBe(200);
+  const form = formOf(await page.text());
+  expect(form.action).toBe('/api/himkosh/callback');
+  return post(form.action, { encdata: form.encdata! });
+}
+
+async function loadState(applicationId: string, appRefNo: string) {
+  const [application] = await db.select().from(homestayApplications).where(eq(homestayApplications.id, applicationId));
+  const [transaction] = await db.select().from(himkoshTransactions).where(eq(himkoshTransactions.appRefNo, appRefNo));
+  const [payment] = await db.select().from(payments).where(eq(payments.gatewayOrderId, appRefNo));
+  const [certificate] = await db.select().from(certificates).where(eq(certificates.applicationId, applicationId));
+  return { application, transaction, payment, certificate };
+}
+
+beforeAll(async () => {
+  await createSchema();
+  const [owner] = await db.insert(users).values({ mobile: '9800000000', fullName: 'Test Owner' }).returning();
+  ownerId = owner.id;
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use('/api/himkosh', himkoshRoutes);
+  await new Promise<void>(resolve => {
+    server = app.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // Double verification is server-to-server, so it calls this server's simulator
+  process.env.HIMKOSH_SIMULATOR_BASE_URL = baseUrl;
+}, 60_000);
+
+afterAll(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  await (pool as unknown as PGlite).close();
+  rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('HimKosh payment through the CTP simulator', () => {
+  it('approves the application on a successful payment and verifies it with CTP', async () => {
+    const application = await createApplication();
+    const { appRefNo, completeUrl } = await startPayment(application.id);
+
+    const callback = await completePayment(completeUrl, 'success');
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get('location')).toContain(`/application/${application.id}?payment=success`);
+
+    const verified = await post(`/api/himkosh/verify/${appRefNo}`, {});
+    expect(await verified.json()).toMatchObject({ success: true, verified: true, issue: null });
+
+    const state = await loadState(application.id, appRefNo);
+    expect(state.transaction).toMatchObject({ transactionStatus: 'success', totalAmount: 3000, isDoubleVerified: true });
+    expect(state.transaction.echTxnId).toBeTruthy();
+    expect(state.payment).toMatchObject({ paymentStatus: 'success', gatewayTransactionId: state.transaction.echTxnId });
+    expect(state.application.status).toBe('approved');
+    expect(state.certificate).toBeDefined();
+  });
+
+  it('records a declined payment and leaves the application awaiting payment', async () => {
+    const application = await createApplication();
+    const { appRefNo, completeUrl } = await startPayment(application.id);
+
+    const callback = await completePayment(completeUrl, 'failure');
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get('location')).toContain('payment=failed');
+
+    const verified = await post(`/api/himkosh/verify/${appRefNo}`, {});
+    expect(await verified.json()).toMatchObject({ success: true, verified: false, issue: null });
+
+    const state = await loadState(application.id, appRefNo);
+    expect(state.transaction.transactionStatus).toBe('failed');
+    expect(state.payment.paymentStatus).toBe('failed');
+    expect(state.application.status).toBe('payment_pending');
+    expect(state.certificate).toBeUndefined();
+  });
+
+  it('settles a timed-out payment from CTP verification in the reconciliation job', async () => {
+    const application = await createApplication();
+    const { appRefNo, completeUrl } = await startPayment(application.id);
+
+    // The bank charges the payment but the department never hears back
+    const page = await post(completeUrl, { outcome: 'timeout' });
+    expect(await page.text()).toContain('Session timed out');
+    expect((await loadState(application.id, appRefNo)).transaction.transactionStatus).toBe('initiated');
+
+    // Past the payment window the job picks the transaction up
+    await db.update(himkoshTransactions)
+      .set({ initiatedAt: new Date(Date.now() - 60 * 60 * 1000) })
+      .where(eq(himkoshTransactions.appRefNo, appRefNo));
+    expect(await reconcileHimkoshTransactions()).toEqual({ verified: 1, exceptions: 0, errors: 0 });
+
+    const state = await loadState(application.id, appRefNo);
+    expect(state.transaction).toMatchObject({ transactionStatus: 'success', isDoubleVerified: true });
+    expect(state.payment.paymentStatus).toBe('success');
+    expect(state.application.status).toBe('approved');
+  });
+
+  it('rejects a tampered response', async () => {
+    const application = await createApplication();
+    const { completeUrl } = await startPayment(application.id);
+
+    const page = await post(completeUrl, { outcome: 'success' });
+    const { encdata } = formOf(await page.text());
+    const tampered = Buffer.from(encdata!, 'base64');
+    tampered[tampered.length - 20] ^= 0xff;
+
+    const callback = await post('/api/himkosh/callback', { encdata: tampered.toString('base64') });
+    expect(callback.status).toBe(400);
+  });
+});
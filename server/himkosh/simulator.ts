@@ -0,0 +1,276 @@
+/**
+ * HimKosh CTP Simulator
+ *
+ * Stands in for himkosh.hp.nic.in when HIMKOSH_SIMULATOR=true (never in
+ * production), so the payment flow can be exercised end-to-end offline:
+ * - /pay decrypts the department request, checks its checksum and shows a fake bank page
+ * - Success and failure post an encrypted, checksummed response to the request's return_url
+ * - Timeout charges the payment but never posts a response (exercises reconciliation)
+ * - /verify answers double-verification requests from the simulator's ledger
+ *
+ * The ledger is in memory and is cleared on restart.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { randomInt } from 'crypto';
+import { HimKoshCrypto, buildResponseString } from './crypto';
+
+const router = Router();
+const crypto = new HimKoshCrypto();
+
+type SimulatedOutcome = 'pending' | 'success' | 'failure' | 'timeout';
+
+interface SimulatedChallan {
+  appRefNo: string;
+  deptRefNo: string;
+  tenderBy: string;
+  amount: number;
+  returnUrl: string;
+  outcome: SimulatedOutcome;
+  echTxnId?: string;
+  bankCIN?: string;
+  paymentDate?: string;
+}
+
+const ledger = new Map<string, SimulatedChallan>();
+
+const BANK_CODE = 'SIM';
+const BANK_NAME = 'SIMBANK';
+
+/**
+ * Decrypt an encdata payload and check the checksum inside it
+ * @returns key/value pairs, or null if the payload is invalid
+ */
+async function decryptRequest(encdata: string): Promise<Record<string, string> | null> {
+  let decrypted: string;
+  try {
+    decrypted = await crypto.decrypt(encdata);
+  } catch {
+    return null;
+  }
+
+  const checksumAt = decrypted.lastIndexOf('|checkSum=');
+  if (checksumAt === -1) {
+    return null;
+  }
+  const data = decrypted.substring(0, checksumAt);
+  if (!HimKoshCrypto.verifyChecksum(data, decrypted.substring(checksumAt + '|checkSum='.length))) {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const part of data.split('|')) {
+    const [key, ...rest] = part.split('=');
+    if (key) {
+      fields[key] = rest.join('=');
+    }
+  }
+  return fields;
+}
+
+// DDMMYYYYHHMMSS, as CTP reports payment dates
+function formatPaymentDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}${pad(date.getMonth() + 1)}${date.getFullYear()}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f4f4f5; margin: 0; padding: 40px 16px; }
+    .card { max-width: 520px; margin: 0 auto; background: #fff; border-radius: 8px; padding: 24px; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+    .banner { background: #fef3c7; color: #92400e; padding: 8px 12px; border-radius: 6px; font-size: 13px; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+    td { padding: 6px 0; border-bottom: 1px solid #e4e4e7; font-size: 14px; }
+    td:first-child { color: #71717a; }
+    .actions { display: flex; gap: 8px; }
+    .actions form { flex: 1; }
+    button { width: 100%; padding: 10px; border: 0; border-radius: 6px; font-size: 14px; cursor: pointer; color: #fff; }
+    .success { background: #16a34a; } .failure { background: #dc2626; } .timeout { background: #71717a; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <div class="banner">HimKosh CTP Simulator - no real money is moved</div>
+    ${body}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * GET|POST /api/himkosh/simulator/pay
+ * Department request (encdata + merchant_code) → fake bank page
+ */
+router.all('/pay', async (req: Request, res: Response) => {
+  const encdata = (req.body?.encdata || req.query.encdata) as string | undefined;
+  if (!encdata) {
+    return res.status(400).send(renderPage('Invalid Request', '<h2>Invalid Request</h2><p>Missing encdata.</p>'));
+  }
+
+  const fields = await decryptRequest(encdata);
+  if (!fields || !fields.AppRefNo) {
+    return res.status(400).send(renderPage('Invalid Request', '<h2>Invalid Request</h2><p>Checksum mismatch or undecryptable request.</p>'));
+  }
+
+  const existing = ledger.get(fields.AppRefNo);
+  if (existing && existing.outcome !== 'pending') {
+    return res.status(409).send(renderPage('Duplicate Request', `<h2>Duplicate Request</h2><p>Transaction ${escapeHtml(fields.AppRefNo)} has already been processed (${existing.outcome}).</p>`));
+  }
+
+  const challan: SimulatedChallan = {
+    appRefNo: fields.AppRefNo,
+    deptRefNo: fields.DeptRefNo || '',
+    tenderBy: fields.TenderBy || '',
+    amount: Number(fields.TotalAmount) || 0,
+    returnUrl: fields.return_url || '',
+    outcome: 'pending',
+  };
+  ledger.set(challan.appRefNo, challan);
+  console.log(`[himkosh-simulator] Payment page for ${challan.appRefNo} (₹${challan.amount})`);
+
+  const action = `${req.baseUrl}/pay/${encodeURIComponent(challan.appRefNo)}/complete`;
+  const button = (outcome: SimulatedOutcome, label: string) => `
+      <form method="POST" action="${escapeHtml(action)}">
+        <input type="hidden" name="outcome" value="${outcome}">
+        <button type="submit" class="${outcome}" data-testid="button-simulate-${outcome}">${label}</button>
+      </form>`;
+
+  res.send(renderPage('HimKosh Payment', `
+    <h2>Cyber Treasury Portal</h2>
+    <table>
+      <tr><td>Department Ref.</td><td>${escapeHtml(challan.deptRefNo)}</td></tr>
+      <tr><td>Transaction</td><td>${escapeHtml(challan.appRefNo)}</td></tr>
+      <tr><td>Tendered by</td><td>${escapeHtml(challan.tenderBy)}</td></tr>
+      ${[1, 2, 3, 4].filter(n => fields[`Head${n}`]).map(n => `
+      <tr><td>Head of Account ${n}</td><td>${escapeHtml(fields[`Head${n}`])} (₹${escapeHtml(fields[`Amount${n}`] || '0')})</td></tr>`).join('')}
+      <tr><td>DDO</td><td>${escapeHtml(fields.Ddo || '')}</td></tr>
+      <tr><td>Amount</td><td><strong>₹${escapeHtml(challan.amount)}</strong></td></tr>
+    </table>
+    <div class="actions">
+      ${button('success', 'Pay (Success)')}
+      ${button('failure', 'Decline (Failure)')}
+      ${button('timeout', 'Timeout (no response)')}
+    </div>
+  `));
+});
+
+/**
+ * POST /api/himkosh/simulator/pay/:appRefNo/complete
+ * Apply the chosen outcome and post the response back to the department
+ */
+router.post('/pay/:appRefNo/complete', async (req: Request, res: Response) => {
+  const challan = ledger.get(req.params.appRefNo);
+  if (!challan || challan.outcome !== 'pending') {
+    return res.status(404).send(renderPage('Not Found', '<h2>Transaction not found</h2><p>Start the payment again from the application.</p>'));
+  }
+
+  const outcome = req.body?.outcome as SimulatedOutcome;
+  if (!['success', 'failure', 'timeout'].includes(outcome)) {
+    return res.status(400).send(renderPage('Invalid Request', '<h2>Invalid outcome</h2>'));
+  }
+
+  challan.outcome = outcome;
+  challan.paymentDate = formatPaymentDate(new Date());
+  // Timeouts are charged at the bank even though the department never hears back
+  if (outcome !== 'failure') {
+    challan.echTxnId = String(randomInt(1_000_000_000, 10_000_000_000));
+    challan.bankCIN = `SIM${randomInt(100_000_000, 1_000_000_000)}`;
+  }
+  console.log(`[himkosh-simulator] ${challan.appRefNo}: ${outcome}${challan.echTxnId ? ` (GRN ${challan.echTxnId})` : ''}`);
+
+  if (outcome === 'timeout') {
+    return res.send(renderPage('Session Timed Out', `
+      <h2>Session timed out</h2>
+      <p>The bank debited ₹${escapeHtml(challan.amount)} (GRN ${escapeHtml(challan.echTxnId!)}) but no response was sent to the department.
+      Reconciliation will pick it up through the verification API.</p>
+    `));
+  }
+
+  const response = buildResponseString({
+    echTxnId: challan.echTxnId || '',
+    bankCIN: challan.bankCIN || '',
+    bank: BANK_CODE,
+    status: outcome === 'success' ? 'Completed successfully.' : 'Transaction declined by bank.',
+    statusCd: outcome === 'success' ? '1' : '0',
+    appRefNo: challan.appRefNo,
+    amount: challan.amount,
+    paymentDate: challan.paymentDate,
+    deptRefNo: challan.deptRefNo,
+    bankName: BANK_NAME,
+  });
+  const encdata = await crypto.encrypt(response);
+
+  // Auto-submit to the department's return URL, as CTP does
+  res.send(renderPage('Returning to Department', `
+    <p>Returning to the department...</p>
+    <form id="response" method="POST" action="${escapeHtml(challan.returnUrl)}">
+      <input type="hidden" name="encdata" value="${escapeHtml(encdata)}">
+      <noscript><button type="submit" class="success">Continue</button></noscript>
+    </form>
+    <script>document.getElementById('response').submit();</script>
+  `));
+});
+
+/**
+ * POST /api/himkosh/simulator/verify
+ * Double verification (server-to-server), answered from the ledger
+ */
+router.post('/verify', async (req: Request, res: Response) => {
+  const fields = req.body?.encdata ? await decryptRequest(req.body.encdata) : null;
+  if (!fields || !fields.AppRefNo) {
+    return res.status(400).type('text/plain').send('TXN_STAT=0|Status=Invalid request');
+  }
+
+  const challan = ledger.get(fields.AppRefNo);
+  const paid = !!challan && (challan.outcome === 'success' || challan.outcome === 'timeout');
+
+  res.type('text/plain').send(paid
+    ? [
+        'TXN_STAT=1',
+        `AppRefNo=${challan!.appRefNo}`,
+        `EchTxnId=${challan!.echTxnId}`,
+        `BankCIN=${challan!.bankCIN}`,
+        `Amount=${challan!.amount}`,
+        `Payment_date=${challan!.paymentDate}`,
+        `BankName=${BANK_NAME}`,
+      ].join('|')
+    : `TXN_STAT=0|AppRefNo=${fields.AppRefNo}|Status=${challan ? challan.outcome : 'not found'}`);
+});
+
+/**
+ * GET /api/himkosh/simulator/challan
+ * Printable challan for a paid transaction
+ */
+router.get('/challan', (req: Request, res: Response) => {
+  const challan = Array.from(ledger.values()).find(c => c.echTxnId === req.query.TransId);
+  if (!challan) {
+    return res.status(404).send(renderPage('Not Found', '<h2>Challan not found</h2>'));
+  }
+
+  res.send(renderPage('Paid Challan', `
+    <h2>Paid Challan</h2>
+    <table>
+      <tr><td>GRN</td><td>${escapeHtml(challan.echTxnId!)}</td></tr>
+      <tr><td>Bank CIN</td><td>${escapeHtml(challan.bankCIN!)}</td></tr>
+      <tr><td>Department Ref.</td><td>${escapeHtml(challan.deptRefNo)}</td></tr>
+      <tr><td>Tendered by</td><td>${escapeHtml(challan.tenderBy)}</td></tr>
+      <tr><td>Amount</td><td>₹${escapeHtml(challan.amount)}</td></tr>
+      <tr><td>Payment date</td><td>${escapeHtml(challan.paymentDate!)}</td></tr>
+    </table>
+  `));
+});
+
+export default router;
@@ -0,0 +1,206 @@
+/**
+ * Image Processing
+ *
+ * Photos are uploaded straight from phones: several megabytes each, often
+ * rotated via EXIF, with the camera's GPS position embedded. For every photo
+ * document (property_photo, inspection_photo) this pipeline:
+ * - reads the EXIF (capture time, GPS, camera) into documents.imageMetadata
+ * - writes thumbnail and web-size WebP renditions next to the original, with
+ *   orientation applied and all metadata stripped (documents.renditions)
+ *
+ * The original is kept untouched as the evidence copy. Galleries and previews
+ * load renditions; the original is only served to officers on request.
+ */
+
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import { db } from './db';
+import { storageProvider, toStorageKey } from './storage-provider';
+import {
+  documents,
+  type Document,
+  type ImageMetadata,
+  type ImageRendition,
+  type ImageRenditionSize,
+} from '@shared/schema';
+import { eq, and, asc, inArray, isNull, lt, sql } from 'drizzle-orm';
+
+export const PHOTO_DOCUMENT_TYPES = ['property_photo', 'inspection_photo'];
+
+const RENDITION_SPECS: Record<ImageRenditionSize, { maxWidth: number; maxHeight: number; quality: number }> = {
+  thumbnail: { maxWidth: 400, maxHeight: 400, quality: 70 },
+  web: { maxWidth: 1600, maxHeight: 1600, quality: 80 },
+};
+
+const RENDITION_MIME_TYPE = 'image/webp';
+
+// A photo that fails this often (corrupt file, unsupported format) is left for
+// an officer to look at instead of being retried by every backfill run
+const MAX_PROCESSING_ATTEMPTS = 3;
+
+/**
+ * Degrees/minutes/seconds to signed decimal degrees
+ */
+function toDecimalDegrees(dms: number[] | undefined, ref: string | undefined): number | undefined {
+  if (!dms || dms.length < 3 || dms.some(part => !Number.isFinite(part))) {
+    return undefined;
+  }
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return Math.round((ref === 'S' || ref === 'W' ? -degrees : degrees) * 1e6) / 1e6;
+}
+
+/**
+ * Capture time, position and camera from an image's EXIF block
+ */
+function readExif(exif: Buffer | undefined): Omit<ImageMetadata, 'width' | 'height'> {
+  if (!exif) {
+    return {};
+  }
+
+  try {
+    const tags = exifReader(exif);
+    const capturedAt = tags.Photo?.DateTimeOriginal || tags.Image?.DateTime;
+    return {
+      capturedAt: capturedAt instanceof Date && !isNaN(capturedAt.getTime()) ? capturedAt.toISOString() : undefined,
+      latitude: toDecimalDegrees(tags.GPSInfo?.GPSLatitude, tags.GPSInfo?.GPSLatitudeRef),
+      longitude: toDecimalDegrees(tags.GPSInfo?.GPSLongitude, tags.GPSInfo?.GPSLongitudeRef),
+      cameraMake: tags.Image?.Make?.trim() || undefined,
+      cameraModel: tags.Image?.Model?.trim() || undefined,
+    };
+  } catch (error) {
+    console.warn('[images] Unreadable EXIF block:', error);
+    return {};
+  }
+}
+
+export class ImageProcessingService {
+  // Photos are processed one at a time so a large submission does not exhaust memory
+  private queue: Promise<void> = Promise.resolve();
+
+  isPhotoDocument(document: Pick<Document, 'documentType' | 'mimeType'>): boolean {
+    return PHOTO_DOCUMENT_TYPES.includes(document.documentType) && document.mimeType.startsWith('image/');
+  }
+
+  /**
+   * Extract EXIF and create the renditions for one photo document
+   */
+  async processDocument(document: Document): Promise<Document> {
+    const originalKey = toStorageKey(document.filePath);
+    const original = await storageProvider.getFile(originalKey);
+
+    const metadata = await sharp(original).metadata();
+    // Orientations 5-8 are stored rotated by 90°
+    const rotated = (metadata.orientation || 1) >= 5;
+    const imageMetadata: ImageMetadata = {
+      width: (rotated ? metadata.height : metadata.width) || 0,
+      height: (rotated ? metadata.width : metadata.height) || 0,
+      ...readExif(metadata.exif),
+    };
+
+    const renditions: Partial<Record<ImageRenditionSize, ImageRendition>> = {};
+    for (const [size, spec] of Object.entries(RENDITION_SPECS) as Array<[ImageRenditionSize, typeof RENDITION_SPECS.web]>) {
+      // rotate() applies the EXIF orientation; sharp writes no metadata unless asked to
+      const { data, info } = await sharp(original)
+        .rotate()
+        .resize({ width: spec.maxWidth, height: spec.maxHeight, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: spec.quality })
+        .toBuffer({ resolveWithObject: true });
+
+      const filePath = await storageProvider.uploadFile(`${originalKey}.${size}.webp`, data, RENDITION_MIME_TYPE);
+      renditions[size] = {
+        filePath,
+        width: info.width,
+        height: info.height,
+        fileSize: info.size,
+        mimeType: RENDITION_MIME_TYPE,
+      };
+    }
+
+    const [updated] = await db.update(documents)
+      .set({ renditions, imageMetadata, imageProcessedAt: new Date() })
+      .where(eq(documents.id, document.id))
+      .returning();
+
+    console.log(`[images] ${document.documentType} ${document.id}: ${imageMetadata.width}x${imageMetadata.height} → thumbnail ${renditions.thumbnail?.fileSize}B, web ${renditions.web?.fileSize}B`);
+    return updated;
+  }
+
+  /**
+   * Queue newly recorded documents; non-photos are ignored. Failures are
+   * recorded and the document is picked up again by processPending().
+   */
+  processInBackground(newDocuments: Document[]): void {
+    for (const document of newDocuments.filter(doc => this.isPhotoDocument(doc))) {
+      this.queue = this.queue
+        .then(() => this.processDocument(document))
+        .then(
+          () => undefined,
+          (error) => this.recordFailure(document, error)
+        );
+    }
+  }
+
+  /**
+   * Process photo documents that have no renditions yet (backfill and retries).
+   * Untried photos come first, and photos that have failed
+   * MAX_PROCESSING_ATTEMPTS times are skipped, so a few broken files cannot
+   * fill every batch and starve newer ones.
+   * @returns Number of photos processed
+   */
+  async processPending(limit = 100): Promise<number> {
+    const pending = await db.select()
+      .from(documents)
+      .where(and(
+        inArray(documents.documentType, PHOTO_DOCUMENT_TYPES),
+        isNull(documents.imageProcessedAt),
+        lt(documents.imageProcessingAttempts, MAX_PROCESSING_ATTEMPTS),
+        eq(documents.isDeleted, false)
+      ))
+      .orderBy(asc(documents.imageProcessingAttempts), asc(documents.uploadDate))
+      .limit(limit);
+
+    let processed = 0;
+    for (const document of pending.filter(doc => this.isPhotoDocument(doc))) {
+      try {
+        await this.processDocument(document);
+        processed++;
+      } catch (error) {
+        await this.recordFailure(document, error);
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Count a failed attempt so processPending() moves on to other photos
+   */
+  private async recordFailure(document: Document, error: unknown): Promise<void> {
+    console.error(`[images] Failed to process ${document.documentType} ${document.id}:`, error);
+    try {
+      await db.update(documents)
+        .set({
+          imageProcessingAttempts: sql`${documents.imageProcessingAttempts} + 1`,
+          imageProcessingFailedAt: new Date(),
+        })
+        .where(eq(documents.id, document.id));
+    } catch (updateError) {
+      console.error(`[images] Failed to record processing failure for ${document.id}:`, updateError);
+    }
+  }
+
+  /**
+   * Stored rendition of a photo, if it has been processed
+   */
+  async getRendition(document: Document, size: ImageRenditionSize): Promise<{ content: Buffer; mimeType: string } | null> {
+    const rendition = document.renditions?.[size];
+    if (!rendition) {
+      return null;
+    }
+    return {
+      content: await storageProvider.getFile(rendition.filePath),
+      mimeType: rendition.mimeType,
+    };
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService();
@@ -4,6 +4,12 @@ import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 
+// Behind a load balancer or reverse proxy req.ip would be the proxy's address;
+// TRUST_PROXY_HOPS trusts X-Forwarded-For from that many hops. Unset, the header
+// is ignored, since a client reaching the app directly could forge it.
+const trustProxyHops = parseInt(process.env.TRUST_PROXY_HOPS ?? '0', 10);
+app.set('trust proxy', Number.isNaN(trustProxyHops) ? 0 : trustProxyHops);
+
 declare module 'http' {
   interface IncomingMessage {
     rawBody: unknown
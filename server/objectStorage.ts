@@ -31,10 +31,15 @@ export class ObjectStorageService {
     return dir;
   }
 
-  async getUploadURL(fileType: string = "document"): Promise<string> {
+  /**
+   * Presigned PUT URL for a new object
+   * @param scope - Object prefix (applications/<applicationId>/ or owners/<userId>/)
+   *   so the upload can be matched to its application or owner on finalisation
+   */
+  async getUploadURL(fileType: string = "document", scope: string = ""): Promise<string> {
     const privateObjectDir = this.getPrivateObjectDir();
     const objectId = randomUUID();
-    const fullPath = `${privateObjectDir}/${fileType}s/${objectId}`;
+    const fullPath = `${privateObjectDir}/${scope}${fileType}s/${objectId}`;
     const { bucketName, objectName } = this.parseObjectPath(fullPath);
     
     return this.signObjectURL({
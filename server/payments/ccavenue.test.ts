@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { createCipheriv, createHash } from 'crypto';
+import { encryptCcavenue, decryptCcavenue } from './ccavenue';
+
+// vitest.config.ts runs with PAYMENT_GATEWAY_MOCK=true, so the mock working key encrypts
+const WORKING_KEY = 'mock_working_key';
+const IV = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+
+describe('CCAvenue encryption', () => {
+  const plainText = 'merchant_id=MOCK&order_id=HPT-1&amount=5000.00&currency=INR';
+
+  it('encrypts with AES-128-CBC keyed by the MD5 of the working key, as hex', () => {
+    const cipher = createCipheriv('aes-128-cbc', createHash('md5').update(WORKING_KEY).digest(), IV);
+    expect(encryptCcavenue(plainText)).toBe(cipher.update(plainText, 'utf8', 'hex') + cipher.final('hex'));
+  });
+
+  it('decrypts what it encrypts', () => {
+    expect(decryptCcavenue(encryptCcavenue(plainText))).toBe(plainText);
+  });
+
+  it('fails on tampered data', () => {
+    const encrypted = encryptCcavenue(plainText);
+    const tampered = encrypted.slice(0, -2) + (encrypted.endsWith('00') ? '11' : '00');
+    expect(() => decryptCcavenue(tampered)).toThrow();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * CCAvenue Adapter
+ *
+ * Requests and responses are AES-128-CBC encrypted with the MD5 of the
+ * working key (fixed IV 0x00..0x0f). The browser posts encRequest +
+ * access_code to the hosted checkout; CCAvenue posts encResp to the
+ * redirect/cancel URL (and to the notification URL, handled as a webhook). Status and refunds use the
+ * DoWebTrans API with encrypted JSON payloads; successful responses are
+ * confirmed through it before they settle.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { Payment } from '../../shared/schema';
+import {
+  gatewayMockEnabled,
+  formEncode,
+  GatewaySignatureError,
+  PaymentGatewayError,
+  type GatewayInitiation,
+  type GatewayPaymentResult,
+  type GatewayRefundResult,
+  type GatewayWebhookRequest,
+  type MockOrder,
+  type PaymentGateway,
+  type PaymentRequest,
+} from './gateway';
+import { registerMockOrder, getMockOrder, mockPaymentResult } from './mock';
+
+const testMode = process.env.CCAVENUE_TEST_MODE === 'true';
+
+export const ccavenueConfig = {
+  transactionUrl: testMode
+    ? 'https://test.ccavenue.com/transaction/transaction.do?command=initiateTransaction'
+    : 'https://secure.ccavenue.com/transaction/transaction.do?command=initiateTransaction',
+  apiUrl: testMode
+    ? 'https://apitest.ccavenue.com/apis/servlet/DoWebTrans'
+    : 'https://api.ccavenue.com/apis/servlet/DoWebTrans',
+  merchantId: process.env.CCAVENUE_MERCHANT_ID || '',
+  accessCode: process.env.CCAVENUE_ACCESS_CODE || '',
+  workingKey: process.env.CCAVENUE_WORKING_KEY || '',
+};
+
+// The mock checkout encrypts with these, so no real credentials are needed
+const MOCK_KEYS = {
+  merchantId: 'MOCK',
+  accessCode: 'MOCKACCESSCODE',
+  workingKey: 'mock_working_key',
+};
+
+const IV = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+
+function keys() {
+  return gatewayMockEnabled ? MOCK_KEYS : ccavenueConfig;
+}
+
+function cipherKey(): Buffer {
+  return createHash('md5').update(keys().workingKey).digest();
+}
+
+export function encryptCcavenue(plainText: string): string {
+  const cipher = createCipheriv('aes-128-cbc', cipherKey(), IV);
+  return cipher.update(plainText, 'utf8', 'hex') + cipher.final('hex');
+}
+
+export function decryptCcavenue(encrypted: string): string {
+  const decipher = createDecipheriv('aes-128-cbc', cipherKey(), IV);
+  return decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+}
+
+// Checkout order_status: Success, Failure, Aborted, Invalid, Timeout
+function checkoutStatus(status: string | undefined): GatewayPaymentResult['status'] {
+  if (status === 'Success') {
+    return 'success';
+  }
+  return status === 'Failure' || status === 'Aborted' || status === 'Invalid' || status === 'Timeout' ? 'failed' : 'pending';
+}
+
+// Status API order_status: Successful, Shipped, Unsuccessful, Aborted, Cancelled, Initiated, Awaited, ...
+function trackerStatus(status: string | undefined): GatewayPaymentResult['status'] {
+  if (status === 'Successful' || status === 'Shipped' || status === 'Refunded' || status === 'Partially Refunded') {
+    return 'success';
+  }
+  return status === 'Unsuccessful' || status === 'Aborted' || status === 'Cancelled' || status === 'Invalid' || status === 'Auto-Cancelled'
+    ? 'failed'
+    : 'pending';
+}
+
+class CcavenueGateway implements PaymentGateway {
+  readonly id = 'ccavenue' as const;
+  readonly label = 'CCAvenue';
+
+  isMock(): boolean {
+    return gatewayMockEnabled;
+  }
+
+  isAvailable(): boolean {
+    return this.isMock() || !!(ccavenueConfig.merchantId && ccavenueConfig.accessCode && ccavenueConfig.workingKey);
+  }
+
+  private async api<T>(command: string, payload: Record<string, unknown>): Promise<T> {
+    const response = await fetch(ccavenueConfig.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formEncode({
+        enc_request: encryptCcavenue(JSON.stringify(payload)),
+        access_code: ccavenueConfig.accessCode,
+        command,
+        request_type: 'JSON',
+        response_type: 'JSON',
+        version: '1.2',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new PaymentGatewayError(`CCAvenue ${command} returned HTTP ${response.status}`, 502);
+    }
+
+    // status=0&enc_response=... on success; status=1 carries a plain-text error
+    const result = new URLSearchParams(await response.text());
+    const encResponse = result.get('enc_response') || '';
+    if (result.get('status') !== '0') {
+      throw new PaymentGatewayError(`CCAvenue ${command} failed: ${encResponse || 'unknown error'}`, 502);
+    }
+    return JSON.parse(decryptCcavenue(encResponse.trim())) as T;
+  }
+
+  async initiate(request: PaymentRequest): Promise<GatewayInitiation> {
+    const { application } = request;
+    const gatewayOrderId = request.orderRef;
+
+    if (this.isMock()) {
+      const redirect = registerMockOrder({
+        gateway: this.id,
+        gatewayOrderId,
+        amount: request.amount,
+        description: `Homestay registration fee - ${application.applicationNumber}`,
+        payer: request.payer,
+        callbackUrl: request.callbackUrl,
+        extra: {},
+      });
+      return { gatewayOrderId, redirect };
+    }
+
+    const orderData = formEncode({
+      merchant_id: ccavenueConfig.merchantId,
+      order_id: gatewayOrderId,
+      currency: 'INR',
+      amount: request.amount.toFixed(2),
+      redirect_url: request.callbackUrl,
+      cancel_url: request.callbackUrl,
+      language: 'EN',
+      billing_name: request.payer.name,
+      billing_email: request.payer.email,
+      billing_tel: request.payer.mobile,
+      merchant_param1: application.applicationNumber,
+    });
+
+    return {
+      gatewayOrderId,
+      redirect: {
+        url: ccavenueConfig.transactionUrl,
+        method: 'POST',
+        fields: {
+          encRequest: encryptCcavenue(orderData),
+          access_code: ccavenueConfig.accessCode,
+        },
+      },
+    };
+  }
+
+  async verifyCallback(payload: Record<string, any>): Promise<GatewayPaymentResult> {
+    if (!payload.encResp) {
+      throw new GatewaySignatureError(this.id, 'response is missing encResp');
+    }
+
+    let fields: URLSearchParams;
+    try {
+      fields = new URLSearchParams(decryptCcavenue(String(payload.encResp)));
+    } catch {
+      throw new GatewaySignatureError(this.id, 'response could not be decrypted');
+    }
+
+    const orderId = fields.get('order_id');
+    if (!orderId) {
+      throw new GatewaySignatureError(this.id, 'response has no order_id');
+    }
+
+    const result: GatewayPaymentResult = {
+      gatewayOrderId: orderId,
+      gatewayTransactionId: fields.get('tracking_id') || null,
+      status: checkoutStatus(fields.get('order_status') || undefined),
+      amount: fields.get('amount') ? parseFloat(fields.get('amount')!) : null,
+      paymentMethod: fields.get('payment_mode')?.toLowerCase() || undefined,
+      message: fields.get('failure_message') || fields.get('status_message') || undefined,
+      raw: Object.fromEntries(fields),
+    };
+
+    // CBC without a MAC is malleable, so successes are confirmed with the status API
+    if (result.status === 'success' && !this.isMock()) {
+      const confirmed = await this.fetchOrderStatus(orderId, result.gatewayTransactionId);
+      return {
+        ...result,
+        status: confirmed.status,
+        amount: confirmed.amount ?? result.amount,
+        raw: { ...result.raw, confirmation: confirmed.raw },
+      };
+    }
+    return result;
+  }
+
+  async verifyWebhook({ body }: GatewayWebhookRequest): Promise<GatewayPaymentResult | null> {
+    return this.verifyCallback(body);
+  }
+
+  private async fetchOrderStatus(orderId: string, trackingId: string | null): Promise<GatewayPaymentResult> {
+    const response = await this.api<{
+      order_status?: string;
+      reference_no?: string;
+      order_amt?: number | string;
+      order_option_type?: string;
+      order_status_date_time?: string;
+      error_desc?: string;
+    }>('orderStatusTracker', {
+      order_no: orderId,
+      ...(trackingId ? { reference_no: trackingId } : {}),
+    });
+
+    return {
+      gatewayOrderId: orderId,
+      gatewayTransactionId: response.reference_no || null,
+      status: trackerStatus(response.order_status),
+      amount: response.order_amt !== undefined ? parseFloat(String(response.order_amt)) : null,
+      paymentMethod: response.order_option_type?.replace(/^OPT/, '').toLowerCase(),
+      message: response.error_desc,
+      raw: response,
+    };
+  }
+
+  async queryStatus(payment: Payment): Promise<GatewayPaymentResult> {
+    if (!payment.gatewayOrderId) {
+      throw new PaymentGatewayError('Payment has no CCAvenue order');
+    }
+    if (this.isMock()) {
+      return mockPaymentResult(this.id, payment.gatewayOrderId);
+    }
+    return this.fetchOrderStatus(payment.gatewayOrderId, payment.gatewayTransactionId);
+  }
+
+  async refund(payment: Payment, amount: number, reason: string): Promise<GatewayRefundResult> {
+    if (!payment.gatewayTransactionId) {
+      throw new PaymentGatewayError('Payment has no CCAvenue tracking id to refund');
+    }
+
+    if (this.isMock()) {
+      const order = payment.gatewayOrderId ? getMockOrder(this.id, payment.gatewayOrderId) : undefined;
+      if (order) {
+        order.refundedAmount += amount;
+      }
+      return { refundId: `mock_${randomBytes(6).toString('hex')}`, status: 'processed', raw: { mock: true } };
+    }
+
+    const refundRef = `RF${Date.now()}${randomBytes(3).toString('hex')}`;
+    const response = await this.api<{
+      Refund_Order_Result?: { refund_status: number; reason?: string };
+      refund_status?: number;
+      reason?: string;
+    }>('refundOrder', {
+      reference_no: payment.gatewayTransactionId,
+      refund_amount: amount.toFixed(2),
+      refund_ref_no: refundRef,
+    });
+
+    const result = response.Refund_Order_Result || response;
+    return {
+      refundId: refundRef,
+      status: result.refund_status === 0 ? 'processed' : 'failed',
+      message: result.reason || reason,
+      raw: response,
+    };
+  }
+
+  buildMockResponse(order: MockOrder): Record<string, string> {
+    const success = order.outcome === 'success';
+    return {
+      encResp: encryptCcavenue(formEncode({
+        order_id: order.gatewayOrderId,
+        tracking_id: order.transactionId!,
+        bank_ref_no: success ? `MOCK${Date.now()}` : 'null',
+        order_status: success ? 'Success' : 'Failure',
+        failure_message: success ? '' : 'Transaction declined by bank',
+        payment_mode: 'Net Banking',
+        status_message: success ? 'Transaction successful' : 'Transaction declined by bank',
+        amount: order.amount.toFixed(2),
+        billing_name: order.payer.name,
+      })),
+      orderNo: order.gatewayOrderId,
+    };
+  }
+}
+
+export const ccavenueGateway = new CcavenueGateway();
@@ -0,0 +1,101 @@
+/**
+ * Payment Completion
+ *
+ * Shared by every gateway once a response has been verified:
+ * - settlePaymentAttempt records the outcome on the attempt's payments row, once
+ * - issuePaymentReceipt numbers the e-receipt for a successful payment
+ * - applyPaymentToApplication hands the application to the workflow
+ *   (payment_received) and issues the certificate
+ */
+
+import { db } from '../db';
+import { payments, homestayApplications, type Payment } from '../../shared/schema';
+import { transitionApplication } from '../workflow';
+import { certificateService } from '../certificate-service';
+import { receiptService } from './receipts';
+import { WorkflowTransitionError } from '../../shared/application-workflow';
+import { eq, and } from 'drizzle-orm';
+
+export interface PaymentAttemptSettlement {
+  status: 'success' | 'failed';
+  gatewayTransactionId: string | null;
+  paymentMethod?: string;
+  gatewayResponse: Record<string, unknown>;
+  failureReason?: string;
+}
+
+/**
+ * Record the outcome of a pending payment attempt
+ * @param fromStatus - Status the attempt must still have ('failed' when a
+ *   retry on the same gateway order succeeded after a failed attempt)
+ * @returns the settled row, or null if the attempt was already settled
+ */
+export async function settlePaymentAttempt(
+  paymentId: string,
+  settlement: PaymentAttemptSettlement,
+  fromStatus: 'pending' | 'failed' = 'pending'
+): Promise<Payment | null> {
+  const [settled] = await db
+    .update(payments)
+    .set({
+      paymentStatus: settlement.status,
+      gatewayTransactionId: settlement.gatewayTransactionId,
+      paymentMethod: settlement.paymentMethod,
+      gatewayResponse: settlement.gatewayResponse,
+      failureReason: settlement.status === 'failed' ? settlement.failureReason || 'Payment failed at the gateway' : null,
+      completedAt: new Date(),
+    })
+    .where(and(
+      eq(payments.id, paymentId),
+      eq(payments.paymentStatus, fromStatus)
+    ))
+    .returning();
+
+  return settled ?? null;
+}
+
+/**
+ * Issue the e-receipt for a successful payment
+ */
+export async function issuePaymentReceipt(paymentId: string): Promise<void> {
+  // The payment stands either way; a missing receipt is issued on first download
+  await receiptService.issueReceipt(paymentId).catch(error => {
+    console.error(`[payments] Receipt issuance failed for payment ${paymentId}:`, error);
+  });
+}
+
+/**
+ * Approve an application whose fee has been paid and issue its certificate
+ * @param feedback - Audit trail entry, e.g. "Razorpay payment received (pay_123)"
+ */
+export async function applyPaymentToApplication(applicationId: string, feedback: string): Promise<void> {
+  const [application] = await db
+    .select()
+    .from(homestayApplications)
+    .where(eq(homestayApplications.id, applicationId))
+    .limit(1);
+
+  if (!application) {
+    console.error(`[payments] Paid application ${applicationId} not found`);
+    return;
+  }
+
+  try {
+    // Gateway callbacks are system actions, attributed to the paying owner
+    const approved = await transitionApplication(application, {
+      action: 'payment_received',
+      actor: { id: application.userId, role: 'system' },
+      feedback,
+    });
+    // The application is approved either way; a missing certificate is issued on first download
+    await certificateService.issueCertificate(approved).catch(error => {
+      console.error(`[payments] Certificate issuance failed for application ${approved.id}:`, error);
+    });
+  } catch (error) {
+    if (!(error instanceof WorkflowTransitionError)) {
+      throw error;
+    }
+    // Payment is recorded; the application is not awaiting payment
+    console.warn(`[payments] Payment not applied to application ${application.id}: ${error.message}`);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Payment Gateway Interface
+ *
+ * Every online gateway (HimKosh, Razorpay, CCAvenue, PayU) is driven through
+ * the same four operations:
+ * - initiate: create the order at the gateway and describe the browser hand-off
+ * - verifyCallback: authenticate the gateway's response (signature, hash or encryption)
+ * - queryStatus: ask the gateway for the current state of an order (server-to-server)
+ * - refund: return money for a settled payment
+ *
+ * Adapters are stateless; the payments table is the record of every attempt.
+ */
+
+import type { HomestayApplication, Payment } from '../../shared/schema';
+
+export const PAYMENT_GATEWAY_IDS = ['himkosh', 'razorpay', 'ccavenue', 'payu'] as const;
+export type PaymentGatewayId = typeof PAYMENT_GATEWAY_IDS[number];
+
+// Mock mode (PAYMENT_GATEWAY_MOCK=true) routes Razorpay, CCAvenue and PayU to the
+// local mock checkout - development/testing only, never in production
+export const gatewayMockEnabled =
+  process.env.PAYMENT_GATEWAY_MOCK === 'true' && process.env.NODE_ENV !== 'production';
+
+// Mount path of the mock checkout routes
+export const MOCK_CHECKOUT_PATH = '/api/payments/mock';
+
+export interface PaymentRequest {
+  application: HomestayApplication;
+  // Our reference for this attempt (unique per attempt)
+  orderRef: string;
+  // Whole rupees sent to the gateway (₹1 in test payment mode)
+  amount: number;
+  // Absolute URL the gateway posts the payment response to
+  callbackUrl: string;
+  payer: {
+    name: string;
+    email: string;
+    mobile: string;
+  };
+}
+
+/**
+ * Browser hand-off to the gateway: the client submits `fields` to `url`
+ */
+export interface GatewayRedirect {
+  url: string;
+  method: 'GET' | 'POST';
+  fields: Record<string, string>;
+}
+
+export interface GatewayInitiation {
+  // Order reference the gateway will echo back (stored as payments.gatewayOrderId)
+  gatewayOrderId: string;
+  redirect: GatewayRedirect;
+}
+
+export interface GatewayPaymentResult {
+  gatewayOrderId: string;
+  // Gateway's payment id; null when the gateway never created one
+  gatewayTransactionId: string | null;
+  status: 'success' | 'failed' | 'pending';
+  // Rupees the gateway reports; null if it did not report one
+  amount: number | null;
+  paymentMethod?: string;
+  message?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface GatewayRefundResult {
+  refundId: string | null;
+  // 'manual' - the gateway has no refund API; the refund is processed offline
+  status: 'processed' | 'pending' | 'manual' | 'failed';
+  message?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface GatewayWebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: Buffer | undefined;
+  body: Record<string, any>;
+}
+
+export interface PaymentGateway {
+  readonly id: PaymentGatewayId;
+  readonly label: string;
+
+  // Credentials are present, or the gateway is running against a local mock
+  isAvailable(): boolean;
+  isMock(): boolean;
+
+  initiate(request: PaymentRequest): Promise<GatewayInitiation>;
+
+  /**
+   * Authenticate and parse the response the gateway posted to the callback URL
+   * @throws GatewaySignatureError if the response was not produced by the gateway
+   */
+  verifyCallback(payload: Record<string, any>): Promise<GatewayPaymentResult>;
+
+  /**
+   * Authenticate and parse a server-to-server notification; null for events that
+   * do not settle a payment. Gateways without webhooks leave this undefined.
+   * @throws GatewaySignatureError if the notification was not produced by the gateway
+   */
+  verifyWebhook?(request: GatewayWebhookRequest): Promise<GatewayPaymentResult | null>;
+
+  queryStatus(payment: Payment): Promise<GatewayPaymentResult>;
+
+  // Amount in rupees
+  refund(payment: Payment, amount: number, reason: string): Promise<GatewayRefundResult>;
+
+  /**
+   * Response the gateway would post back for a mock checkout, signed with the
+   * adapter's own keys so verifyCallback is exercised unchanged
+   */
+  buildMockResponse?(order: MockOrder): Record<string, string>;
+}
+
+/**
+ * Order held by the mock checkout (see mock.ts)
+ */
+export interface MockOrder {
+  gateway: PaymentGatewayId;
+  gatewayOrderId: string;
+  amount: number;
+  description: string;
+  payer: PaymentRequest['payer'];
+  callbackUrl: string;
+  outcome: 'pending' | 'success' | 'failure';
+  transactionId?: string;
+  refundedAmount: number;
+  // Gateway-specific request fields echoed back in the response (e.g. PayU udf/productinfo)
+  extra: Record<string, string>;
+}
+
+export class PaymentGatewayError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+    this.statusCode = statusCode;
+  }
+}
+
+export class GatewaySignatureError extends PaymentGatewayError {
+  constructor(gateway: PaymentGatewayId, detail = 'signature verification failed') {
+    super(`${gateway}: ${detail}`, 400);
+    this.name = 'GatewaySignatureError';
+  }
+}
+
+/**
+ * Form-encode a flat object (gateway request bodies)
+ */
+export function formEncode(fields: Record<string, string | number>): string {
+  return new URLSearchParams(
+    Object.entries(fields).map(([key, value]) => [key, String(value)])
+  ).toString();
+}
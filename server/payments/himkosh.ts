@@ -0,0 +1,184 @@
+/**
+ * HimKosh Adapter
+ *
+ * Wraps the Cyber Treasury Portal integration (server/himkosh) in the
+ * PaymentGateway interface. HimKosh keeps its own challan ledger
+ * (himkosh_transactions): responses are settled there once by settlement.ts,
+ * and CTP double verification doubles as the status query.
+ */
+
+import { db } from '../db';
+import { himkoshTransactions, type Payment } from '../../shared/schema';
+import { HimKoshCrypto, buildPipeString, parseResponseString } from '../himkosh/crypto';
+import { getHimKoshConfig } from '../himkosh/config';
+import { fetchCtpVerification } from '../himkosh/reconciliation';
+import { resolveChallanRouting, toChallanHeadFields } from '../himkosh/challan-routing';
+import type { HimKoshResponse } from '../himkosh/settlement';
+import {
+  GatewaySignatureError,
+  type GatewayInitiation,
+  type GatewayPaymentResult,
+  type GatewayRefundResult,
+  type PaymentGateway,
+  type PaymentRequest,
+} from './gateway';
+import { nanoid } from 'nanoid';
+
+const crypto = new HimKoshCrypto();
+
+// DD-MM-YYYY, as CTP expects challan periods
+function formatPeriodDate(date: Date): string {
+  return `${String(date.getDate()).padStart(2, '0')}-${String(date.getMonth() + 1).padStart(2, '0')}-${date.getFullYear()}`;
+}
+
+class HimKoshGateway implements PaymentGateway {
+  readonly id = 'himkosh' as const;
+  readonly label = 'HimKosh';
+
+  isMock(): boolean {
+    return getHimKoshConfig().isSimulator;
+  }
+
+  isAvailable(): boolean {
+    const config = getHimKoshConfig();
+    return config.isConfigured || config.isSimulator;
+  }
+
+  async initiate(request: PaymentRequest): Promise<GatewayInitiation> {
+    const { application, amount } = request;
+    const config = getHimKoshConfig();
+
+    // DDO of the application's district and the fee split across heads of account
+    const routing = await resolveChallanRouting(application, amount);
+    console.log(`[himkosh] Using DDO ${routing.ddo} (${routing.ddoSource}) for ${application.district}`);
+
+    const headFields = toChallanHeadFields(routing.heads);
+
+    // Generate unique transaction reference (CTP allows 20 characters)
+    const appRefNo = `HPT${Date.now()}${nanoid(6)}`.substring(0, 20);
+
+    // Get period dates (first and last day of current month)
+    const now = new Date();
+    const periodFrom = formatPeriodDate(new Date(now.getFullYear(), now.getMonth(), 1));
+    const periodTo = formatPeriodDate(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+
+    // Build pipe string parameters (matches working Node.js sample)
+    // CRITICAL FIX #2: Amounts must be integers only (no decimals like 100.00)
+    // DLL expects whole rupees, decimals trigger ASP.NET FormatException
+    // The return URL is the one registered with CTP, not request.callbackUrl
+    const pipeParams = {
+      deptId: config.deptId,
+      deptRefNo: application.applicationNumber,
+      totalAmount: amount,
+      tenderBy: application.ownerName,
+      appRefNo,
+      ...headFields,
+      periodFrom,
+      periodTo,
+      serviceCode: config.serviceCode,
+      ddo: routing.ddo,
+      returnUrl: config.returnUrl,
+    };
+
+    // Build pipe string WITH checksum appended, then encrypt the ENTIRE string
+    const pipeStringWithChecksum = buildPipeString(pipeParams);
+    const encryptedData = await crypto.encrypt(pipeStringWithChecksum);
+
+    // Debug logging
+    console.log('[himkosh] Pipe string with checksum (before encryption):', pipeStringWithChecksum);
+    console.log('[himkosh] Encrypted data:', encryptedData);
+
+    // Save transaction to the challan ledger (store gateway amount that was actually sent)
+    await db.insert(himkoshTransactions).values({
+      applicationId: application.id,
+      deptRefNo: application.applicationNumber,
+      appRefNo,
+      totalAmount: amount,
+      tenderBy: application.ownerName,
+      merchantCode: config.merchantCode,
+      deptId: config.deptId,
+      serviceCode: config.serviceCode,
+      ddo: routing.ddo,
+      ...headFields,
+      periodFrom,
+      periodTo,
+      encryptedRequest: encryptedData,
+      requestChecksum: '', // Checksum is inside encrypted data (not separate)
+      transactionStatus: 'initiated',
+    });
+
+    // CTP takes ONLY 2 fields: encdata (checksum inside) + merchant_code
+    return {
+      gatewayOrderId: appRefNo,
+      redirect: {
+        url: config.paymentUrl,
+        method: 'POST',
+        fields: {
+          encdata: encryptedData,
+          merchant_code: config.merchantCode,
+        },
+      },
+    };
+  }
+
+  /**
+   * Decrypt a CTP response and verify the checksum inside it
+   * @throws GatewaySignatureError if the checksum does not match
+   */
+  async parseCallback(payload: Record<string, any>): Promise<HimKoshResponse> {
+    if (!payload.encdata) {
+      throw new GatewaySignatureError(this.id, 'missing payment response data');
+    }
+
+    let decryptedData: string;
+    try {
+      decryptedData = await crypto.decrypt(String(payload.encdata));
+    } catch {
+      throw new GatewaySignatureError(this.id, 'response could not be decrypted');
+    }
+
+    const response = parseResponseString(decryptedData);
+    const dataWithoutChecksum = decryptedData.substring(0, decryptedData.lastIndexOf('|checksum='));
+    if (!HimKoshCrypto.verifyChecksum(dataWithoutChecksum, response.checksum)) {
+      throw new GatewaySignatureError(this.id, 'checksum verification failed');
+    }
+    return response;
+  }
+
+  async verifyCallback(payload: Record<string, any>): Promise<GatewayPaymentResult> {
+    const response = await this.parseCallback(payload);
+    return {
+      gatewayOrderId: response.appRefNo,
+      gatewayTransactionId: response.echTxnId || null,
+      status: response.statusCd === '1' ? 'success' : 'failed',
+      amount: response.amount ? parseFloat(response.amount) : null,
+      message: response.status,
+      raw: response,
+    };
+  }
+
+  async queryStatus(payment: Payment): Promise<GatewayPaymentResult> {
+    const verification = await fetchCtpVerification(payment.gatewayOrderId || '');
+    return {
+      gatewayOrderId: payment.gatewayOrderId || '',
+      gatewayTransactionId: verification.echTxnId || null,
+      // CTP verification only distinguishes paid from not (yet) paid
+      status: verification.paid ? 'success' : 'pending',
+      amount: verification.amount ? parseFloat(verification.amount) : null,
+      message: verification.data.Status,
+      raw: verification.data,
+    };
+  }
+
+  async refund(): Promise<GatewayRefundResult> {
+    // CTP has no refund API; money deposited into the treasury is refunded by the DDO
+    return {
+      refundId: null,
+      status: 'manual',
+      message: 'HimKosh payments are refunded by the treasury outside the portal',
+      raw: {},
+    };
+  }
+}
+
+export const himkoshGateway = new HimKoshGateway();
@@ -0,0 +1,175 @@
+/**
+ * Mock Checkout
+ *
+ * Stands in for the Razorpay, CCAvenue and PayU hosted checkouts when
+ * PAYMENT_GATEWAY_MOCK=true (never in production). Adapters register their
+ * orders here instead of calling the gateway; the checkout page posts a
+ * response signed with the adapter's mock keys back to the callback URL, so
+ * signature verification and settlement run exactly as they would live.
+ *
+ * Status queries and refunds are answered from the same in-memory ledger,
+ * which is cleared on restart.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { randomBytes } from 'crypto';
+import {
+  MOCK_CHECKOUT_PATH,
+  type GatewayPaymentResult,
+  type GatewayRedirect,
+  type MockOrder,
+  type PaymentGateway,
+  type PaymentGatewayId,
+} from './gateway';
+
+const ledger = new Map<string, MockOrder>();
+
+const ledgerKey = (gateway: PaymentGatewayId, gatewayOrderId: string) => `${gateway}:${gatewayOrderId}`;
+
+/**
+ * Hold an order for the mock checkout and return the hand-off to it
+ */
+export function registerMockOrder(order: Omit<MockOrder, 'outcome' | 'refundedAmount'>): GatewayRedirect {
+  ledger.set(ledgerKey(order.gateway, order.gatewayOrderId), { ...order, outcome: 'pending', refundedAmount: 0 });
+  return {
+    url: `${MOCK_CHECKOUT_PATH}/${order.gateway}/${encodeURIComponent(order.gatewayOrderId)}`,
+    method: 'GET',
+    fields: {},
+  };
+}
+
+export function getMockOrder(gateway: PaymentGatewayId, gatewayOrderId: string): MockOrder | undefined {
+  return ledger.get(ledgerKey(gateway, gatewayOrderId));
+}
+
+/**
+ * Status of a mock order, as the gateway's status API would report it
+ */
+export function mockPaymentResult(gateway: PaymentGatewayId, gatewayOrderId: string): GatewayPaymentResult {
+  const order = getMockOrder(gateway, gatewayOrderId);
+  return {
+    gatewayOrderId,
+    gatewayTransactionId: order?.transactionId ?? null,
+    status: order?.outcome === 'success' ? 'success' : order?.outcome === 'failure' ? 'failed' : 'pending',
+    amount: order ? order.amount : null,
+    paymentMethod: order?.outcome === 'success' ? 'mock' : undefined,
+    raw: { mock: true, outcome: order?.outcome ?? 'not_found' },
+  };
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f4f4f5; margin: 0; padding: 40px 16px; }
+    .card { max-width: 520px; margin: 0 auto; background: #fff; border-radius: 8px; padding: 24px; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+    .banner { background: #fef3c7; color: #92400e; padding: 8px 12px; border-radius: 6px; font-size: 13px; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+    td { padding: 6px 0; border-bottom: 1px solid #e4e4e7; font-size: 14px; }
+    td:first-child { color: #71717a; }
+    .actions { display: flex; gap: 8px; }
+    .actions form { flex: 1; }
+    button { width: 100%; padding: 10px; border: 0; border-radius: 6px; font-size: 14px; cursor: pointer; color: #fff; }
+    .success { background: #16a34a; } .failure { background: #dc2626; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <div class="banner">Mock payment gateway - no real money is moved</div>
+    ${body}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Routes for the mock checkout, mounted at MOCK_CHECKOUT_PATH
+ */
+export function createMockCheckoutRouter(getGateway: (id: string) => PaymentGateway | undefined): Router {
+  const router = Router();
+
+  /**
+   * GET /api/payments/mock/:gateway/:orderId
+   * Fake hosted checkout page
+   */
+  router.get('/:gateway/:orderId', (req: Request, res: Response) => {
+    const order = getMockOrder(req.params.gateway as PaymentGatewayId, req.params.orderId);
+    if (!order) {
+      return res.status(404).send(renderPage('Not Found', '<h2>Order not found</h2><p>Start the payment again from the application.</p>'));
+    }
+    if (order.outcome !== 'pending') {
+      return res.status(409).send(renderPage('Duplicate Request', `<h2>Duplicate Request</h2><p>Order ${escapeHtml(order.gatewayOrderId)} has already been processed (${order.outcome}).</p>`));
+    }
+
+    const gateway = getGateway(order.gateway);
+    const action = `${req.baseUrl}/${order.gateway}/${encodeURIComponent(order.gatewayOrderId)}/complete`;
+    const button = (outcome: 'success' | 'failure', label: string) => `
+      <form method="POST" action="${escapeHtml(action)}">
+        <input type="hidden" name="outcome" value="${outcome}">
+        <button type="submit" class="${outcome}" data-testid="button-mock-${outcome}">${label}</button>
+      </form>`;
+
+    res.send(renderPage(`${gateway?.label || order.gateway} Checkout`, `
+      <h2>${escapeHtml(gateway?.label || order.gateway)} Checkout</h2>
+      <table>
+        <tr><td>Order</td><td>${escapeHtml(order.gatewayOrderId)}</td></tr>
+        <tr><td>Description</td><td>${escapeHtml(order.description)}</td></tr>
+        <tr><td>Paid by</td><td>${escapeHtml(order.payer.name)}</td></tr>
+        <tr><td>Amount</td><td><strong>₹${escapeHtml(order.amount)}</strong></td></tr>
+      </table>
+      <div class="actions">
+        ${button('success', 'Pay (Success)')}
+        ${button('failure', 'Decline (Failure)')}
+      </div>
+    `));
+  });
+
+  /**
+   * POST /api/payments/mock/:gateway/:orderId/complete
+   * Apply the chosen outcome and post the signed response to the callback URL
+   */
+  router.post('/:gateway/:orderId/complete', (req: Request, res: Response) => {
+    const order = getMockOrder(req.params.gateway as PaymentGatewayId, req.params.orderId);
+    const gateway = getGateway(req.params.gateway);
+    if (!order || order.outcome !== 'pending' || !gateway?.buildMockResponse) {
+      return res.status(404).send(renderPage('Not Found', '<h2>Order not found</h2><p>Start the payment again from the application.</p>'));
+    }
+
+    const outcome = req.body?.outcome;
+    if (outcome !== 'success' && outcome !== 'failure') {
+      return res.status(400).send(renderPage('Invalid Request', '<h2>Invalid outcome</h2>'));
+    }
+
+    order.outcome = outcome;
+    order.transactionId = `mock_${randomBytes(7).toString('hex')}`;
+    console.log(`[payments-mock] ${order.gateway} ${order.gatewayOrderId}: ${outcome} (${order.transactionId})`);
+
+    const fields = gateway.buildMockResponse(order);
+    const inputs = Object.entries(fields)
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+      .join('\n      ');
+
+    // Auto-submit to the callback URL, as the hosted checkouts do
+    res.send(renderPage('Returning to Merchant', `
+      <p>Returning to the merchant...</p>
+      <form id="response" method="POST" action="${escapeHtml(order.callbackUrl)}">
+      ${inputs}
+        <noscript><button type="submit" class="success">Continue</button></noscript>
+      </form>
+      <script>document.getElementById('response').submit();</script>
+    `));
+  });
+
+  return router;
+}
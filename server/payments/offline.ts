@@ -0,0 +1,350 @@
+/**
+ * Offline Payments
+ *
+ * Owners who cannot pay online pay by physical treasury challan or through
+ * the departmental UPI QR, then submit the challan number or UTR with a copy
+ * of the challan or payment screenshot. The district's dealing assistant
+ * checks the proof against the treasury/bank record and either:
+ * - verifies it: the payment is confirmed under the verified reference, the
+ *   e-receipt is issued and the application is approved (the workflow action
+ *   is the audit entry), or
+ * - rejects it with a reason, after which the owner may submit again.
+ *
+ * A challan number or UTR can back only one payment: a reference already
+ * awaiting verification or confirmed (on any application) is refused.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { payments, homestayApplications, type HomestayApplication, type Payment, type User } from '../../shared/schema';
+import { assertTransition } from '../../shared/application-workflow';
+import { transitionApplication } from '../workflow';
+import { certificateService } from '../certificate-service';
+import { issuePaymentReceipt } from './completion';
+import { RECEIPTED_PAYMENT_STATUSES } from './receipts';
+import { eq, and, or, ne, desc, inArray, type SQL } from 'drizzle-orm';
+
+export const OFFLINE_PAYMENT_GATEWAY = 'offline';
+
+export const OFFLINE_PAYMENT_MODES = {
+  challan: 'Treasury challan',
+  upi: 'Departmental UPI QR',
+} as const;
+
+export type OfflinePaymentMode = keyof typeof OFFLINE_PAYMENT_MODES;
+
+// Applications that can take a payment
+const PAYABLE_APPLICATION_STATUSES = ['verified_for_payment', 'payment_pending'];
+
+export type OfflineProofDocuments = NonNullable<Payment['proofDocuments']>;
+
+export class OfflinePaymentError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'OfflinePaymentError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface OfflinePaymentSubmission {
+  application: HomestayApplication;
+  mode: OfflinePaymentMode;
+  reference: string;
+  paidOn: string;
+  bankName?: string;
+  proofDocuments: OfflineProofDocuments;
+}
+
+/**
+ * Compare references the way banks print them: case, spaces and separators vary
+ */
+export function normalizeOfflineReference(reference: string): string {
+  return reference.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Label for an offline payment's mode, e.g. on receipts and statements
+ */
+export function getOfflineModeLabel(paymentMethod: string | null): string {
+  return OFFLINE_PAYMENT_MODES[paymentMethod as OfflinePaymentMode] || 'Offline payment';
+}
+
+function formatRupees(amount: string | number): string {
+  return `₹${Number(amount).toLocaleString('en-IN')}`;
+}
+
+export class OfflinePaymentService {
+  /**
+   * Payment (on any application) already holding this reference
+   */
+  async findDuplicate(reference: string, excludePaymentId?: string) {
+    const normalized = normalizeOfflineReference(reference);
+    const conditions: SQL[] = [
+      // A reference is taken while awaiting verification and once confirmed
+      inArray(payments.paymentStatus, ['pending_verification', ...RECEIPTED_PAYMENT_STATUSES]),
+      or(
+        eq(payments.offlineReference, normalized),
+        eq(payments.gatewayTransactionId, normalized)
+      )!,
+    ];
+    if (excludePaymentId) {
+      conditions.push(ne(payments.id, excludePaymentId));
+    }
+
+    const [duplicate] = await db
+      .select({
+        paymentId: payments.id,
+        applicationId: payments.applicationId,
+        applicationNumber: homestayApplications.applicationNumber,
+      })
+      .from(payments)
+      .innerJoin(homestayApplications, eq(payments.applicationId, homestayApplications.id))
+      .where(and(...conditions))
+      .limit(1);
+    return duplicate;
+  }
+
+  /**
+   * Latest offline payment for an application (owner's payment page)
+   */
+  async getLatestForApplication(applicationId: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.applicationId, applicationId),
+        eq(payments.paymentGateway, OFFLINE_PAYMENT_GATEWAY)
+      ))
+      .orderBy(desc(payments.initiatedAt))
+      .limit(1);
+    return payment;
+  }
+
+  /**
+   * Offline payments in a district, awaiting verification first
+   */
+  async listForDistrict(district: string, statuses: string[]) {
+    const rows = await db
+      .select({
+        payment: payments,
+        applicationNumber: homestayApplications.applicationNumber,
+        propertyName: homestayApplications.propertyName,
+        ownerName: homestayApplications.ownerName,
+        ownerMobile: homestayApplications.ownerMobile,
+        applicationStatus: homestayApplications.status,
+        totalFee: homestayApplications.totalFee,
+      })
+      .from(payments)
+      .innerJoin(homestayApplications, eq(payments.applicationId, homestayApplications.id))
+      .where(and(
+        eq(homestayApplications.district, district),
+        eq(payments.paymentGateway, OFFLINE_PAYMENT_GATEWAY),
+        inArray(payments.paymentStatus, statuses)
+      ))
+      .orderBy(desc(payments.initiatedAt));
+
+    return rows.map(({ payment, ...details }) => ({ ...payment, ...details }));
+  }
+
+  /**
+   * Check that an application can take an offline payment under this reference
+   * (before the proof is stored)
+   */
+  async assertCanSubmit(application: HomestayApplication, reference: string): Promise<void> {
+    if (!PAYABLE_APPLICATION_STATUSES.includes(application.status || '')) {
+      throw new OfflinePaymentError(`Application is not awaiting payment (current: ${application.status})`);
+    }
+    if (!application.totalFee || parseFloat(application.totalFee) <= 0) {
+      throw new OfflinePaymentError('Fee has not been assessed for this application. Please contact the tourism department.');
+    }
+
+    const pending = await this.getLatestForApplication(application.id);
+    if (pending?.paymentStatus === 'pending_verification') {
+      throw new OfflinePaymentError('A payment proof for this application is already awaiting verification', 409);
+    }
+
+    const duplicate = await this.findDuplicate(reference);
+    if (duplicate) {
+      throw new OfflinePaymentError(
+        duplicate.applicationId === application.id
+          ? 'This challan number / UTR has already been submitted for this application'
+          : 'This challan number / UTR has already been used for another application',
+        409
+      );
+    }
+  }
+
+  /**
+   * Record the owner's challan/UTR proof for verification
+   */
+  async submitProof(submission: OfflinePaymentSubmission): Promise<Payment> {
+    const { application } = submission;
+    await this.assertCanSubmit(application, submission.reference);
+
+    const reference = normalizeOfflineReference(submission.reference);
+    const [payment] = await db
+      .insert(payments)
+      .values({
+        applicationId: application.id,
+        paymentType: application.applicationType === 'renewal' ? 'renewal' : 'registration',
+        amount: String(application.totalFee),
+        paymentGateway: OFFLINE_PAYMENT_GATEWAY,
+        paymentMethod: submission.mode,
+        paymentStatus: 'pending_verification',
+        offlineReference: reference,
+        proofDocuments: submission.proofDocuments,
+        gatewayResponse: {
+          mode: submission.mode,
+          reference: submission.reference.trim(),
+          paidOn: submission.paidOn,
+          bankName: submission.bankName || null,
+        },
+      })
+      .returning();
+
+    await this.notifyOwner(payment, 'offline_payment_submitted', 'Payment proof submitted',
+      `Your ${OFFLINE_PAYMENT_MODES[submission.mode].toLowerCase()} payment (${submission.reference.trim()}) has been submitted and will be verified by the district office.`);
+
+    console.log(`[offline-payments] ${application.applicationNumber}: ${submission.mode} ${reference} submitted for verification`);
+    return payment;
+  }
+
+  /**
+   * Confirm an offline payment against the treasury/bank record (DA)
+   * @param reference - Challan number or UTR as found in the treasury/bank record
+   */
+  async verifyPayment(paymentId: string, verifier: User, reference: string, notes?: string): Promise<Payment> {
+    const payment = await this.requirePendingPayment(paymentId);
+    const application = await storage.getApplication(payment.applicationId);
+    if (!application) {
+      throw new OfflinePaymentError('Application not found', 404);
+    }
+
+    // Fail before touching the payment if the application cannot be approved
+    assertTransition('verify_offline_payment', application.status, verifier.role);
+
+    const verifiedReference = normalizeOfflineReference(reference);
+    const duplicate = await this.findDuplicate(verifiedReference, payment.id);
+    if (duplicate) {
+      throw new OfflinePaymentError(`Reference ${verifiedReference} is already recorded against application ${duplicate.applicationNumber}`, 409);
+    }
+
+    // The payment is confirmed only together with the approval, so a concurrent
+    // status change leaves it pending_verification for another attempt
+    const now = new Date();
+    let verified: Payment;
+    let approved: HomestayApplication;
+    try {
+      ({ verified, approved } = await db.transaction(async (tx) => {
+        const [confirmed] = await tx
+          .update(payments)
+          .set({
+            paymentStatus: 'success',
+            gatewayTransactionId: verifiedReference,
+            offlineReference: verifiedReference,
+            verifiedBy: verifier.id,
+            verifiedAt: now,
+            verificationNotes: notes || null,
+            failureReason: null,
+            completedAt: now,
+          })
+          .where(and(
+            eq(payments.id, payment.id),
+            eq(payments.paymentStatus, 'pending_verification')
+          ))
+          .returning();
+
+        if (!confirmed) {
+          throw new OfflinePaymentError('Payment was reviewed by someone else. Please refresh.', 409);
+        }
+
+        const approvedApplication = await transitionApplication(application, {
+          action: 'verify_offline_payment',
+          actor: verifier,
+          feedback: `${getOfflineModeLabel(confirmed.paymentMethod)} ${verifiedReference} for ${formatRupees(confirmed.amount)} verified${notes ? `: ${notes}` : ''}`,
+        }, tx);
+        return { verified: confirmed, approved: approvedApplication };
+      }));
+    } catch (error: any) {
+      // Unique violation: the reference was confirmed on another payment concurrently
+      if (error?.code !== '23505') {
+        throw error;
+      }
+      throw new OfflinePaymentError(`Reference ${verifiedReference} is already recorded against another payment`, 409);
+    }
+
+    await issuePaymentReceipt(verified.id);
+
+    // The application is approved either way; a missing certificate is issued on first download
+    await certificateService.issueCertificate(approved, verifier.id).catch(error => {
+      console.error(`[offline-payments] Certificate issuance failed for application ${approved.id}:`, error);
+    });
+
+    await this.notifyOwner(verified, 'offline_payment_verified', 'Payment verified',
+      `Your payment of ${formatRupees(verified.amount)} (${verifiedReference}) has been verified and your registration certificate has been issued.`);
+
+    console.log(`[offline-payments] ${application.applicationNumber}: ${verifiedReference} verified by ${verifier.id}`);
+    return verified;
+  }
+
+  /**
+   * Refuse an offline payment proof; the owner can submit again (DA)
+   */
+  async rejectPayment(paymentId: string, verifier: User, reason: string): Promise<Payment> {
+    const payment = await this.requirePendingPayment(paymentId);
+
+    const [rejected] = await db
+      .update(payments)
+      .set({
+        paymentStatus: 'rejected',
+        failureReason: reason,
+        verifiedBy: verifier.id,
+        verifiedAt: new Date(),
+      })
+      .where(and(
+        eq(payments.id, payment.id),
+        eq(payments.paymentStatus, 'pending_verification')
+      ))
+      .returning();
+
+    if (!rejected) {
+      throw new OfflinePaymentError('Payment was reviewed by someone else. Please refresh.', 409);
+    }
+
+    await this.notifyOwner(rejected, 'offline_payment_rejected', 'Payment proof not accepted',
+      `Your payment proof (${rejected.offlineReference}) could not be verified: ${reason}. Please check the details and submit again.`);
+
+    console.log(`[offline-payments] Payment ${rejected.id} (${rejected.offlineReference}) rejected by ${verifier.id}`);
+    return rejected;
+  }
+
+  private async requirePendingPayment(paymentId: string): Promise<Payment> {
+    const payment = await storage.getPaymentById(paymentId);
+    if (!payment || payment.paymentGateway !== OFFLINE_PAYMENT_GATEWAY) {
+      throw new OfflinePaymentError('Offline payment not found', 404);
+    }
+    if (payment.paymentStatus !== 'pending_verification') {
+      throw new OfflinePaymentError(`Payment is ${payment.paymentStatus}, not awaiting verification`, 409);
+    }
+    return payment;
+  }
+
+  private async notifyOwner(payment: Payment, type: string, title: string, message: string): Promise<void> {
+    const application = await storage.getApplication(payment.applicationId);
+    if (!application) {
+      return;
+    }
+    await storage.createNotification({
+      userId: application.userId,
+      applicationId: application.id,
+      type,
+      title,
+      message: `${application.applicationNumber}: ${message}`,
+      channels: { inapp: true },
+    });
+  }
+}
+
+export const offlinePaymentService = new OfflinePaymentService();
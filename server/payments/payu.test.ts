@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { requestHash, responseHash } from './payu';
+
+// vitest.config.ts runs with PAYMENT_GATEWAY_MOCK=true, so the mock key and salt sign
+const KEY = 'mockKey';
+const SALT = 'mockSalt';
+
+const fields = {
+  txnid: 'HPT-1',
+  amount: '5000.00',
+  productinfo: 'Homestay Registration Fee',
+  firstname: 'Asha',
+  email: 'asha@example.com',
+  udf1: 'HP-HS-2026-000001',
+};
+
+function sha512(value: string): string {
+  return createHash('sha512').update(value).digest('hex');
+}
+
+describe('PayU hashes', () => {
+  it('signs the request as key|txnid|amount|productinfo|firstname|email|udf1..udf5||||||salt', () => {
+    expect(requestHash(fields)).toBe(sha512(
+      `${KEY}|HPT-1|5000.00|Homestay Registration Fee|Asha|asha@example.com|HP-HS-2026-000001||||||||||${SALT}`
+    ));
+  });
+
+  it('signs the response in reverse order, starting with the salt and status', () => {
+    expect(responseHash({ ...fields, status: 'success' })).toBe(sha512(
+      `${SALT}|success||||||||||HP-HS-2026-000001|asha@example.com|Asha|Homestay Registration Fee|5000.00|HPT-1|${KEY}`
+    ));
+  });
+
+  it('prefixes additional charges to the response hash', () => {
+    expect(responseHash({ ...fields, status: 'success', additionalCharges: '50.00' })).toBe(sha512(
+      `50.00|${SALT}|success||||||||||HP-HS-2026-000001|asha@example.com|Asha|Homestay Registration Fee|5000.00|HPT-1|${KEY}`
+    ));
+  });
+
+  it('changes when any signed field changes', () => {
+    expect(responseHash({ ...fields, status: 'success' })).not.toBe(responseHash({ ...fields, amount: '1.00', status: 'success' }));
+  });
+});
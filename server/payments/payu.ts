@@ -0,0 +1,280 @@
+/**
+ * PayU Adapter
+ *
+ * The browser posts the order to PayU's hosted checkout with a SHA-512 request
+ * hash; PayU posts the result to surl/furl with a reverse hash over the same
+ * fields. Status queries and refunds use the postservice API, hashed as
+ * key|command|var1|salt. PayU webhooks carry the callback fields and hash.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Payment } from '../../shared/schema';
+import {
+  gatewayMockEnabled,
+  formEncode,
+  GatewaySignatureError,
+  PaymentGatewayError,
+  type GatewayInitiation,
+  type GatewayPaymentResult,
+  type GatewayRefundResult,
+  type GatewayWebhookRequest,
+  type MockOrder,
+  type PaymentGateway,
+  type PaymentRequest,
+} from './gateway';
+import { registerMockOrder, getMockOrder, mockPaymentResult } from './mock';
+
+const testMode = process.env.PAYU_TEST_MODE === 'true';
+
+export const payuConfig = {
+  paymentUrl: testMode ? 'https://test.payu.in/_payment' : 'https://secure.payu.in/_payment',
+  apiUrl: testMode
+    ? 'https://test.payu.in/merchant/postservice.php?form=2'
+    : 'https://info.payu.in/merchant/postservice.php?form=2',
+  merchantKey: process.env.PAYU_MERCHANT_KEY || '',
+  merchantSalt: process.env.PAYU_MERCHANT_SALT || '',
+};
+
+// The mock checkout signs with these, so no real credentials are needed
+const MOCK_KEYS = {
+  merchantKey: 'mockKey',
+  merchantSalt: 'mockSalt',
+};
+
+const PRODUCT_INFO = 'Homestay Registration Fee';
+
+// Request/response fields covered by the hash (udf2-udf5 are unused)
+interface PayUHashFields {
+  txnid: string;
+  amount: string;
+  productinfo: string;
+  firstname: string;
+  email: string;
+  udf1: string;
+}
+
+function keys() {
+  return gatewayMockEnabled ? MOCK_KEYS : payuConfig;
+}
+
+function sha512(value: string): string {
+  return createHash('sha512').update(value).digest('hex');
+}
+
+// key|txnid|amount|productinfo|firstname|email|udf1|udf2|udf3|udf4|udf5||||||salt
+export function requestHash(fields: PayUHashFields): string {
+  const { merchantKey, merchantSalt } = keys();
+  return sha512([
+    merchantKey, fields.txnid, fields.amount, fields.productinfo, fields.firstname, fields.email,
+    fields.udf1, '', '', '', '', '', '', '', '', '', merchantSalt,
+  ].join('|'));
+}
+
+// [additionalCharges|]salt|status||||||udf5|udf4|udf3|udf2|udf1|email|firstname|productinfo|amount|txnid|key
+export function responseHash(fields: PayUHashFields & { status: string; additionalCharges?: string }): string {
+  const { merchantKey, merchantSalt } = keys();
+  const parts = [
+    merchantSalt, fields.status, '', '', '', '', '', '', '', '', '', fields.udf1,
+    fields.email, fields.firstname, fields.productinfo, fields.amount, fields.txnid, merchantKey,
+  ];
+  if (fields.additionalCharges) {
+    parts.unshift(fields.additionalCharges);
+  }
+  return sha512(parts.join('|'));
+}
+
+function toStatus(status: string | undefined): GatewayPaymentResult['status'] {
+  const normalized = (status || '').toLowerCase();
+  if (normalized === 'success') {
+    return 'success';
+  }
+  return normalized === 'failure' || normalized === 'failed' || normalized === 'usercancelled' ? 'failed' : 'pending';
+}
+
+class PayUGateway implements PaymentGateway {
+  readonly id = 'payu' as const;
+  readonly label = 'PayU';
+
+  isMock(): boolean {
+    return gatewayMockEnabled;
+  }
+
+  isAvailable(): boolean {
+    return this.isMock() || !!(payuConfig.merchantKey && payuConfig.merchantSalt);
+  }
+
+  private async api<T>(command: string, vars: string[]): Promise<T> {
+    const { merchantKey, merchantSalt } = keys();
+    const body: Record<string, string> = {
+      key: merchantKey,
+      command,
+      hash: sha512([merchantKey, command, vars[0], merchantSalt].join('|')),
+    };
+    vars.forEach((value, index) => {
+      body[`var${index + 1}`] = value;
+    });
+
+    const response = await fetch(payuConfig.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formEncode(body),
+    });
+
+    if (!response.ok) {
+      throw new PaymentGatewayError(`PayU ${command} returned HTTP ${response.status}`, 502);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async initiate(request: PaymentRequest): Promise<GatewayInitiation> {
+    const { application } = request;
+    const fields: PayUHashFields = {
+      txnid: request.orderRef,
+      amount: request.amount.toFixed(2),
+      productinfo: PRODUCT_INFO,
+      firstname: request.payer.name,
+      email: request.payer.email,
+      udf1: application.applicationNumber,
+    };
+
+    if (this.isMock()) {
+      const redirect = registerMockOrder({
+        gateway: this.id,
+        gatewayOrderId: fields.txnid,
+        amount: request.amount,
+        description: `${PRODUCT_INFO} - ${application.applicationNumber}`,
+        payer: request.payer,
+        callbackUrl: request.callbackUrl,
+        extra: { ...fields },
+      });
+      return { gatewayOrderId: fields.txnid, redirect };
+    }
+
+    return {
+      gatewayOrderId: fields.txnid,
+      redirect: {
+        url: payuConfig.paymentUrl,
+        method: 'POST',
+        fields: {
+          key: payuConfig.merchantKey,
+          ...fields,
+          phone: request.payer.mobile,
+          surl: request.callbackUrl,
+          furl: request.callbackUrl,
+          hash: requestHash(fields),
+        },
+      },
+    };
+  }
+
+  async verifyCallback(payload: Record<string, any>): Promise<GatewayPaymentResult> {
+    const fields = {
+      txnid: String(payload.txnid || ''),
+      amount: String(payload.amount || ''),
+      productinfo: String(payload.productinfo || ''),
+      firstname: String(payload.firstname || ''),
+      email: String(payload.email || ''),
+      udf1: String(payload.udf1 || ''),
+      status: String(payload.status || ''),
+      additionalCharges: payload.additionalCharges ? String(payload.additionalCharges) : undefined,
+    };
+
+    if (!fields.txnid || payload.key !== keys().merchantKey || payload.hash !== responseHash(fields)) {
+      throw new GatewaySignatureError(this.id, 'response hash verification failed');
+    }
+
+    return {
+      gatewayOrderId: fields.txnid,
+      gatewayTransactionId: payload.mihpayid ? String(payload.mihpayid) : null,
+      status: toStatus(fields.status),
+      amount: parseFloat(fields.amount),
+      paymentMethod: payload.mode ? String(payload.mode).toLowerCase() : undefined,
+      message: payload.error_Message || payload.field9 || undefined,
+      raw: payload,
+    };
+  }
+
+  async verifyWebhook({ body }: GatewayWebhookRequest): Promise<GatewayPaymentResult | null> {
+    return this.verifyCallback(body);
+  }
+
+  async queryStatus(payment: Payment): Promise<GatewayPaymentResult> {
+    if (!payment.gatewayOrderId) {
+      throw new PaymentGatewayError('Payment has no PayU transaction');
+    }
+    if (this.isMock()) {
+      return mockPaymentResult(this.id, payment.gatewayOrderId);
+    }
+
+    const response = await this.api<{
+      status: number;
+      msg?: string;
+      transaction_details?: Record<string, { mihpayid?: string; status?: string; amt?: string; mode?: string; error_Message?: string }>;
+    }>('verify_payment', [payment.gatewayOrderId]);
+
+    const details = response.transaction_details?.[payment.gatewayOrderId];
+    const mihpayid = details?.mihpayid && details.mihpayid !== 'Not Found' ? details.mihpayid : null;
+    return {
+      gatewayOrderId: payment.gatewayOrderId,
+      gatewayTransactionId: mihpayid,
+      status: toStatus(details?.status),
+      amount: details?.amt ? parseFloat(details.amt) : null,
+      paymentMethod: details?.mode ? details.mode.toLowerCase() : undefined,
+      message: details?.error_Message || response.msg,
+      raw: response,
+    };
+  }
+
+  async refund(payment: Payment, amount: number, reason: string): Promise<GatewayRefundResult> {
+    if (!payment.gatewayTransactionId) {
+      throw new PaymentGatewayError('Payment has no PayU payment id to refund');
+    }
+
+    if (this.isMock()) {
+      const order = payment.gatewayOrderId ? getMockOrder(this.id, payment.gatewayOrderId) : undefined;
+      if (order) {
+        order.refundedAmount += amount;
+      }
+      return { refundId: `mock_${randomBytes(6).toString('hex')}`, status: 'processed', raw: { mock: true } };
+    }
+
+    // var2 is our token for the refund, unique per request
+    const token = `RF${Date.now()}${randomBytes(3).toString('hex')}`;
+    const response = await this.api<{ status: number; msg?: string; request_id?: string }>(
+      'cancel_refund_transaction',
+      [payment.gatewayTransactionId, token, amount.toFixed(2)]
+    );
+
+    // PayU queues refunds; accepted requests settle with the bank later
+    return {
+      refundId: response.request_id || token,
+      status: response.status === 1 ? 'pending' : 'failed',
+      message: response.msg || reason,
+      raw: response,
+    };
+  }
+
+  buildMockResponse(order: MockOrder): Record<string, string> {
+    const fields = {
+      txnid: order.extra.txnid,
+      amount: order.extra.amount,
+      productinfo: order.extra.productinfo,
+      firstname: order.extra.firstname,
+      email: order.extra.email,
+      udf1: order.extra.udf1,
+      status: order.outcome === 'success' ? 'success' : 'failure',
+    };
+    return {
+      ...fields,
+      key: MOCK_KEYS.merchantKey,
+      mihpayid: order.transactionId!,
+      mode: 'UPI',
+      error_Message: order.outcome === 'success' ? 'No Error' : 'Transaction declined by bank',
+      hash: responseHash(fields),
+    };
+  }
+}
+
+export const payuGateway = new PayUGateway();
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { razorpayGateway } from './razorpay';
+import { GatewaySignatureError } from './gateway';
+
+// vitest.config.ts runs with PAYMENT_GATEWAY_MOCK=true, so the mock key secret signs
+const KEY_SECRET = 'mock_key_secret';
+
+function checkoutSignature(orderId: string, paymentId: string): string {
+  return createHmac('sha256', KEY_SECRET).update(`${orderId}|${paymentId}`).digest('hex');
+}
+
+describe('Razorpay checkout signature', () => {
+  it('accepts HMAC-SHA256 of order_id|payment_id', async () => {
+    const result = await razorpayGateway.verifyCallback({
+      razorpay_order_id: 'order_1',
+      razorpay_payment_id: 'pay_1',
+      razorpay_signature: checkoutSignature('order_1', 'pay_1'),
+    });
+    expect(result).toMatchObject({ gatewayOrderId: 'order_1', gatewayTransactionId: 'pay_1', status: 'success' });
+  });
+
+  it('rejects a signature for another payment', async () => {
+    await expect(razorpayGateway.verifyCallback({
+      razorpay_order_id: 'order_1',
+      razorpay_payment_id: 'pay_2',
+      razorpay_signature: checkoutSignature('order_1', 'pay_1'),
+    })).rejects.toBeInstanceOf(GatewaySignatureError);
+  });
+
+  it('rejects a truncated signature', async () => {
+    await expect(razorpayGateway.verifyCallback({
+      razorpay_order_id: 'order_1',
+      razorpay_payment_id: 'pay_1',
+      razorpay_signature: checkoutSignature('order_1', 'pay_1').slice(0, 32),
+    })).rejects.toBeInstanceOf(GatewaySignatureError);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Razorpay Adapter
+ *
+ * Orders are created through the Orders API and paid on Razorpay's hosted
+ * (embedded) checkout, which posts razorpay_payment_id, razorpay_order_id and
+ * razorpay_signature back to the callback URL. The signature is
+ * HMAC-SHA256(order_id|payment_id) under the key secret; webhooks are signed
+ * over the raw body with the webhook secret, and only prompt a status query
+ * for the order they name.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Payment } from '../../shared/schema';
+import {
+  gatewayMockEnabled,
+  GatewaySignatureError,
+  PaymentGatewayError,
+  type GatewayInitiation,
+  type GatewayPaymentResult,
+  type GatewayRefundResult,
+  type GatewayWebhookRequest,
+  type MockOrder,
+  type PaymentGateway,
+  type PaymentRequest,
+} from './gateway';
+import { registerMockOrder, getMockOrder, mockPaymentResult } from './mock';
+
+export const razorpayConfig = {
+  apiUrl: 'https://api.razorpay.com/v1',
+  checkoutUrl: 'https://api.razorpay.com/v1/checkout/embedded',
+  keyId: process.env.RAZORPAY_KEY_ID || '',
+  keySecret: process.env.RAZORPAY_KEY_SECRET || '',
+  webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || '',
+};
+
+// The mock checkout signs with these, so no real credentials are needed
+const MOCK_KEYS = {
+  keyId: 'rzp_test_mock',
+  keySecret: 'mock_key_secret',
+  webhookSecret: 'mock_webhook_secret',
+};
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number; // paise
+  status: 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+  method?: string;
+  error_description?: string | null;
+}
+
+function keys() {
+  return gatewayMockEnabled ? MOCK_KEYS : razorpayConfig;
+}
+
+function sign(payload: string | Buffer, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function signatureMatches(expected: string, received: string | undefined): boolean {
+  if (!received || received.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+}
+
+function toResult(orderId: string, payment: RazorpayPaymentEntity | undefined, raw: Record<string, unknown>): GatewayPaymentResult {
+  return {
+    gatewayOrderId: orderId,
+    gatewayTransactionId: payment?.id ?? null,
+    status: payment?.status === 'captured' || payment?.status === 'refunded'
+      ? 'success'
+      : payment?.status === 'failed' ? 'failed' : 'pending',
+    amount: payment ? payment.amount / 100 : null,
+    paymentMethod: payment?.method,
+    message: payment?.error_description || undefined,
+    raw,
+  };
+}
+
+class RazorpayGateway implements PaymentGateway {
+  readonly id = 'razorpay' as const;
+  readonly label = 'Razorpay';
+
+  isMock(): boolean {
+    return gatewayMockEnabled;
+  }
+
+  isAvailable(): boolean {
+    return this.isMock() || !!(razorpayConfig.keyId && razorpayConfig.keySecret);
+  }
+
+  private async api<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const { keyId, keySecret } = keys();
+    const response = await fetch(`${razorpayConfig.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString('base64')}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new PaymentGatewayError(`Razorpay ${method} ${path} failed: ${data?.error?.description || `HTTP ${response.status}`}`, 502);
+    }
+    return data as T;
+  }
+
+  async initiate(request: PaymentRequest): Promise<GatewayInitiation> {
+    const { application, amount } = request;
+    const description = `Homestay registration fee - ${application.applicationNumber}`;
+
+    if (this.isMock()) {
+      const gatewayOrderId = `order_${randomBytes(7).toString('hex')}`;
+      const redirect = registerMockOrder({
+        gateway: this.id,
+        gatewayOrderId,
+        amount,
+        description,
+        payer: request.payer,
+        callbackUrl: request.callbackUrl,
+        extra: {},
+      });
+      return { gatewayOrderId, redirect };
+    }
+
+    const order = await this.api<{ id: string }>('POST', '/orders', {
+      amount: amount * 100,
+      currency: 'INR',
+      receipt: request.orderRef,
+      notes: {
+        applicationId: application.id,
+        applicationNumber: application.applicationNumber,
+      },
+    });
+
+    return {
+      gatewayOrderId: order.id,
+      redirect: {
+        url: razorpayConfig.checkoutUrl,
+        method: 'POST',
+        fields: {
+          key_id: razorpayConfig.keyId,
+          order_id: order.id,
+          amount: String(amount * 100),
+          currency: 'INR',
+          name: 'HP Tourism',
+          description,
+          'prefill[name]': request.payer.name,
+          'prefill[email]': request.payer.email,
+          'prefill[contact]': request.payer.mobile,
+          callback_url: request.callbackUrl,
+        },
+      },
+    };
+  }
+
+  async verifyCallback(payload: Record<string, any>): Promise<GatewayPaymentResult> {
+    const { razorpay_order_id: orderId, razorpay_payment_id: paymentId, razorpay_signature: signature } = payload;
+
+    if (signature) {
+      if (!orderId || !paymentId || !signatureMatches(sign(`${orderId}|${paymentId}`, keys().keySecret), signature)) {
+        throw new GatewaySignatureError(this.id);
+      }
+      // The signature proves payment for our order, whose amount we set
+      return {
+        gatewayOrderId: orderId,
+        gatewayTransactionId: paymentId,
+        status: 'success',
+        amount: null,
+        raw: payload,
+      };
+    }
+
+    // Failed checkouts post unsigned error fields; trust only what the API confirms
+    let metadata: { order_id?: string } = {};
+    try {
+      metadata = JSON.parse(payload['error[metadata]'] || '{}');
+    } catch {
+      // Handled below
+    }
+    if (!metadata.order_id) {
+      throw new GatewaySignatureError(this.id, 'callback has neither a signature nor an order reference');
+    }
+
+    const confirmed = await this.fetchOrderStatus(metadata.order_id);
+    return { ...confirmed, message: payload['error[description]'] || confirmed.message };
+  }
+
+  async verifyWebhook({ headers, rawBody, body }: GatewayWebhookRequest): Promise<GatewayPaymentResult | null> {
+    const { webhookSecret } = keys();
+    // An empty secret would let anyone sign a webhook
+    if (!webhookSecret) {
+      throw new PaymentGatewayError('Razorpay webhook secret is not configured', 503);
+    }
+
+    const signature = headers['x-razorpay-signature'];
+    if (!rawBody || typeof signature !== 'string' || !signatureMatches(sign(rawBody, webhookSecret), signature)) {
+      throw new GatewaySignatureError(this.id, 'webhook signature verification failed');
+    }
+
+    // payment.failed is not final: the owner can retry on the same order until it is paid
+    if (body.event !== 'payment.captured' && body.event !== 'order.paid') {
+      return null;
+    }
+    const orderId = body.payload?.payment?.entity?.order_id || body.payload?.order?.entity?.id;
+    if (typeof orderId !== 'string' || !orderId) {
+      return null;
+    }
+
+    // Settle on what the API reports for the order, not on the webhook entity
+    const confirmed = await this.fetchOrderStatus(orderId);
+    return confirmed.status === 'success' ? confirmed : null;
+  }
+
+  private async fetchOrderStatus(orderId: string): Promise<GatewayPaymentResult> {
+    if (this.isMock()) {
+      return mockPaymentResult(this.id, orderId);
+    }
+
+    const { items } = await this.api<{ items: RazorpayPaymentEntity[] }>('GET', `/orders/${orderId}/payments`);
+    // An order can have several attempts; a captured one settles it
+    const payment = items.find(item => item.status === 'captured')
+      || items.find(item => item.status === 'authorized' || item.status === 'created')
+      || items[0];
+    return toResult(orderId, payment, { items });
+  }
+
+  async queryStatus(payment: Payment): Promise<GatewayPaymentResult> {
+    if (!payment.gatewayOrderId) {
+      throw new PaymentGatewayError('Payment has no Razorpay order');
+    }
+    return this.fetchOrderStatus(payment.gatewayOrderId);
+  }
+
+  async refund(payment: Payment, amount: number, reason: string): Promise<GatewayRefundResult> {
+    if (!payment.gatewayTransactionId) {
+      throw new PaymentGatewayError('Payment has no Razorpay payment id to refund');
+    }
+
+    if (this.isMock()) {
+      const order = payment.gatewayOrderId ? getMockOrder(this.id, payment.gatewayOrderId) : undefined;
+      if (order) {
+        order.refundedAmount += amount;
+      }
+      return { refundId: `rfnd_${randomBytes(7).toString('hex')}`, status: 'processed', raw: { mock: true } };
+    }
+
+    const refund = await this.api<{ id: string; status: 'pending' | 'processed' | 'failed' }>(
+      'POST',
+      `/payments/${payment.gatewayTransactionId}/refund`,
+      { amount: Math.round(amount * 100), notes: { reason } }
+    );
+    return { refundId: refund.id, status: refund.status, raw: refund };
+  }
+
+  buildMockResponse(order: MockOrder): Record<string, string> {
+    if (order.outcome === 'success') {
+      return {
+        razorpay_payment_id: order.transactionId!,
+        razorpay_order_id: order.gatewayOrderId,
+        razorpay_signature: sign(`${order.gatewayOrderId}|${order.transactionId}`, MOCK_KEYS.keySecret),
+      };
+    }
+    return {
+      'error[code]': 'BAD_REQUEST_ERROR',
+      'error[description]': 'Payment failed',
+      'error[source]': 'customer',
+      'error[step]': 'payment_authorization',
+      'error[reason]': 'payment_failed',
+      'error[metadata]': JSON.stringify({ payment_id: order.transactionId, order_id: order.gatewayOrderId }),
+    };
+  }
+}
+
+export const razorpayGateway = new RazorpayGateway();
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { getFinancialYear } from './receipts';
+
+describe('getFinancialYear', () => {
+  it('starts the financial year on 1 April', () => {
+    expect(getFinancialYear(new Date('2026-01-15T06:00:00Z'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2026-04-01T06:00:00Z'))).toBe('2026-27');
+    expect(getFinancialYear(new Date('2026-03-31T06:00:00Z'))).toBe('2025-26');
+  });
+
+  it('uses the date in IST', () => {
+    // 31 March 19:00 UTC is 1 April 00:30 IST
+    expect(getFinancialYear(new Date('2026-03-31T19:00:00Z'))).toBe('2026-27');
+    // 31 March 18:29 UTC is still 31 March 23:59 IST
+    expect(getFinancialYear(new Date('2026-03-31T18:29:00Z'))).toBe('2025-26');
+  });
+
+  it('pads the closing year across a century', () => {
+    expect(getFinancialYear(new Date('2099-06-01T00:00:00Z'))).toBe('2099-00');
+    expect(getFinancialYear(new Date('2108-06-01T00:00:00Z'))).toBe('2108-09');
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Payment Receipts
+ *
+ * Issues the department's e-receipt for a confirmed payment:
+ * - Numbers run gap-free within each financial year (April-March), e.g.
+ *   HPT/RCPT/2025-26/000042. The counter row for the year is locked while a
+ *   number is allocated and the allocation rolls back unless the payment
+ *   takes the number, so no number is skipped or issued twice.
+ * - The PDF shows the treasury references (HIMGRN, bank CIN), the
+ *   head-of-account split and the fee breakdown, and is stored via the
+ *   storage provider. A missing PDF is regenerated on first download.
+ */
+
+import { jsPDF } from 'jspdf';
+import { db } from '../db';
+import { storageProvider } from '../storage-provider';
+import {
+  payments,
+  receiptSequences,
+  homestayApplications,
+  himkoshTransactions,
+  type HomestayApplication,
+  type HimkoshTransaction,
+  type Payment,
+} from '../../shared/schema';
+import { getHimKoshConfig } from '../himkosh/config';
+import { getPaymentGateway } from './service';
+import { OFFLINE_PAYMENT_GATEWAY, getOfflineModeLabel } from './offline';
+import { eq, and, isNull, sql, TransactionRollbackError } from 'drizzle-orm';
+
+// Payments that carry a receipt (a refunded payment keeps the receipt it was issued)
+export const RECEIPTED_PAYMENT_STATUSES = ['success', 'partially_refunded', 'refunded'];
+
+const RECEIPT_PREFIX = 'HPT/RCPT';
+
+// Receipts are numbered by the Indian financial year, in IST
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+/**
+ * Financial year a date falls in, e.g. 2025-26 for 15 Jan 2026
+ */
+export function getFinancialYear(date: Date): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+function formatReceiptNumber(financialYear: string, sequence: number): string {
+  return `${RECEIPT_PREFIX}/${financialYear}/${String(sequence).padStart(6, '0')}`;
+}
+
+function formatRupees(amount: string | number | null | undefined): string {
+  return `Rs. ${Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Asia/Kolkata',
+  });
+}
+
+// CTP payment dates are DDMMYYYYHHMMSS
+function formatCtpDate(value: string | null): string | undefined {
+  if (!value || value.length < 8) {
+    return undefined;
+  }
+  const time = value.length >= 12 ? ` ${value.slice(8, 10)}:${value.slice(10, 12)}` : '';
+  return `${value.slice(0, 2)}/${value.slice(2, 4)}/${value.slice(4, 8)}${time}`;
+}
+
+interface ReceiptDetails {
+  payment: Payment;
+  application: HomestayApplication;
+  transaction?: HimkoshTransaction;
+}
+
+/**
+ * Head-of-account split: the CTP heads for HimKosh challans, otherwise the
+ * registration fee head the collection is booked to
+ */
+function headOfAccountSplit({ payment, transaction }: ReceiptDetails): Array<[string, number]> {
+  if (transaction) {
+    const heads: Array<[string | null, number | null]> = [
+      [transaction.head1, transaction.amount1],
+      [transaction.head2, transaction.amount2],
+      [transaction.head3, transaction.amount3],
+      [transaction.head4, transaction.amount4],
+      [transaction.head10 ? `Non-govt. (${transaction.head10})` : null, transaction.amount10],
+    ];
+    return heads.filter((head): head is [string, number] => !!head[0] && !!head[1]);
+  }
+  const registrationHead = getHimKoshConfig().heads.registrationFee;
+  return [[registrationHead || 'Registration fee', parseFloat(payment.amount)]];
+}
+
+/**
+ * Draw the e-receipt (A4 portrait)
+ */
+function renderReceiptPdf(details: ReceiptDetails): Buffer {
+  const { payment, application, transaction } = details;
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const primaryGreen = [14, 116, 144];
+  const leftMargin = 20;
+  const valueMargin = 75;
+  const amountX = pageWidth - 20;
+
+  doc.setDrawColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.setLineWidth(0.8);
+  doc.rect(10, 10, pageWidth - 20, pageHeight - 20);
+
+  // Header
+  let yPosition = 22;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.text('GOVERNMENT OF HIMACHAL PRADESH', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 7;
+  doc.setFontSize(12);
+  doc.text('Department of Tourism & Civil Aviation', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 10;
+  doc.setFontSize(16);
+  doc.setTextColor(40, 40, 40);
+  doc.text('E-RECEIPT', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 4;
+  doc.setLineWidth(0.4);
+  doc.line(leftMargin, yPosition, pageWidth - 20, yPosition);
+
+  const section = (title: string) => {
+    yPosition += 9;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+    doc.text(title, leftMargin, yPosition);
+    yPosition += 2;
+  };
+
+  const row = (label: string, value: string | null | undefined) => {
+    if (!value) {
+      return;
+    }
+    yPosition += 6;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9.5);
+    doc.setTextColor(80, 80, 80);
+    doc.text(label, leftMargin, yPosition);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(30, 30, 30);
+    doc.text(doc.splitTextToSize(value, pageWidth - valueMargin - 20)[0], valueMargin, yPosition);
+  };
+
+  const amountRow = (label: string, amount: string | number | null | undefined, options: { bold?: boolean; deduction?: boolean } = {}) => {
+    yPosition += 6;
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(9.5);
+    doc.setTextColor(30, 30, 30);
+    doc.text(label, leftMargin, yPosition);
+    doc.text(`${options.deduction ? '- ' : ''}${formatRupees(amount)}`, amountX, yPosition, { align: 'right' });
+  };
+
+  // Receipt
+  yPosition += 4;
+  row('Receipt No.:', payment.receiptNumber);
+  row('Receipt Date:', formatDateTime(payment.receiptIssuedAt || new Date()));
+
+  section('Applicant');
+  row('Application No.:', application.applicationNumber);
+  row('Property:', application.propertyName);
+  row('Owner:', application.ownerName);
+  row('Address:', `${application.address}, ${application.district}${application.pincode ? ` - ${application.pincode}` : ''}`);
+  row('Payment For:', payment.paymentType === 'renewal' ? 'Renewal of homestay registration' : 'Homestay registration');
+
+  section('Payment');
+  const gatewayLabel = payment.paymentGateway === OFFLINE_PAYMENT_GATEWAY
+    ? getOfflineModeLabel(payment.paymentMethod)
+    : payment.paymentGateway
+      ? getPaymentGateway(payment.paymentGateway)?.label || payment.paymentGateway.toUpperCase()
+      : 'Offline';
+  row('Paid Through:', gatewayLabel);
+  if (transaction) {
+    row('HIMGRN:', transaction.echTxnId);
+    row('Bank CIN:', transaction.bankCIN);
+    row('Bank:', transaction.bankName);
+    row('Department Ref. No.:', transaction.appRefNo);
+    row('Payment Date:', formatCtpDate(transaction.paymentDate) || (payment.completedAt ? formatDateTime(payment.completedAt) : undefined));
+  } else {
+    row(payment.paymentGateway === OFFLINE_PAYMENT_GATEWAY ? 'Challan No. / UTR:' : 'Transaction ID:', payment.gatewayTransactionId);
+    row('Order Ref. No.:', payment.gatewayOrderId);
+    row('Payment Mode:', payment.paymentMethod);
+    row('Payment Date:', payment.completedAt ? formatDateTime(payment.completedAt) : undefined);
+  }
+
+  section('Head of Account');
+  for (const [head, amount] of headOfAccountSplit(details)) {
+    amountRow(head, amount);
+  }
+
+  section('Fee Details');
+  const validityYears = application.certificateValidityYears || 1;
+  amountRow('Annual registration fee', application.baseFee);
+  if (validityYears > 1) {
+    amountRow(`Fee for ${validityYears} years`, application.totalBeforeDiscounts);
+  }
+  if (Number(application.validityDiscount) > 0) {
+    amountRow(`Discount - ${validityYears}-year lump sum`, application.validityDiscount, { deduction: true });
+  }
+  if (Number(application.femaleOwnerDiscount) > 0) {
+    amountRow('Discount - female owner', application.femaleOwnerDiscount, { deduction: true });
+  }
+  if (Number(application.pangiDiscount) > 0) {
+    amountRow('Discount - Pangi sub-division', application.pangiDiscount, { deduction: true });
+  }
+  if (Number(application.lateFee) > 0) {
+    amountRow('Late fee', application.lateFee);
+  }
+  amountRow('Total fee', application.totalFee, { bold: true });
+
+  yPosition += 3;
+  doc.setLineWidth(0.3);
+  doc.line(leftMargin, yPosition, pageWidth - 20, yPosition);
+  amountRow('Amount Paid', payment.amount, { bold: true });
+
+  // Footer
+  doc.setFontSize(8);
+  doc.setTextColor(120, 120, 120);
+  doc.setFont('helvetica', 'italic');
+  doc.text('This is a computer-generated receipt issued by HP Tourism eServices Portal and does not require a signature.', pageWidth / 2, pageHeight - 18, { align: 'center' });
+  if (transaction?.echTxnId) {
+    doc.text('The treasury challan for this payment can be verified on the HimKosh portal using the HIMGRN.', pageWidth / 2, pageHeight - 14, { align: 'center' });
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export class ReceiptService {
+  /**
+   * Issue the receipt for a confirmed payment.
+   * Idempotent: a payment that already has a number keeps it.
+   */
+  async issueReceipt(paymentId: string): Promise<Payment> {
+    const payment = await this.getPayment(paymentId);
+    if (!RECEIPTED_PAYMENT_STATUSES.includes(payment.paymentStatus || '')) {
+      throw new Error(`Payment ${payment.id} is not confirmed (${payment.paymentStatus})`);
+    }
+
+    let receipted = payment.receiptNumber ? payment : await this.allocateReceiptNumber(payment);
+
+    if (!receipted.receiptUrl) {
+      try {
+        receipted = await this.generatePdf(receipted);
+      } catch (error) {
+        // The receipt number stands; the PDF is regenerated on first download
+        console.error(`[receipts] Failed to generate PDF for ${receipted.receiptNumber}:`, error);
+      }
+    }
+
+    return receipted;
+  }
+
+  /**
+   * Get the stored receipt PDF, issuing the receipt or regenerating the PDF if needed
+   */
+  async getReceiptPdf(payment: Payment): Promise<{ receiptNumber: string; pdf: Buffer }> {
+    let receipted = payment.receiptNumber ? payment : await this.issueReceipt(payment.id);
+    if (!receipted.receiptUrl) {
+      receipted = await this.generatePdf(receipted);
+    }
+    return {
+      receiptNumber: receipted.receiptNumber!,
+      pdf: await storageProvider.getFile(receipted.receiptUrl!),
+    };
+  }
+
+  /**
+   * Render the receipt PDF and store it via the storage provider
+   */
+  async generatePdf(payment: Payment): Promise<Payment> {
+    const [application] = await db
+      .select()
+      .from(homestayApplications)
+      .where(eq(homestayApplications.id, payment.applicationId))
+      .limit(1);
+
+    const [transaction] = payment.paymentGateway === 'himkosh' && payment.gatewayOrderId
+      ? await db
+        .select()
+        .from(himkoshTransactions)
+        .where(eq(himkoshTransactions.appRefNo, payment.gatewayOrderId))
+        .limit(1)
+      : [];
+
+    const pdf = renderReceiptPdf({ payment, application, transaction });
+    const financialYear = payment.receiptNumber!.split('/')[2];
+    const filePath = await storageProvider.uploadFile(
+      `receipts/${financialYear}/${payment.receiptNumber!.replace(/\//g, '-')}.pdf`,
+      pdf,
+      'application/pdf'
+    );
+
+    const [updated] = await db
+      .update(payments)
+      .set({ receiptUrl: filePath })
+      .where(eq(payments.id, payment.id))
+      .returning();
+
+    return updated;
+  }
+
+  private async getPayment(paymentId: string): Promise<Payment> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId)).limit(1);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+    return payment;
+  }
+
+  /**
+   * Take the next number in the payment's financial year
+   */
+  private async allocateReceiptNumber(payment: Payment): Promise<Payment> {
+    const financialYear = getFinancialYear(payment.completedAt ? new Date(payment.completedAt) : new Date());
+
+    let receipted: Payment;
+    try {
+      receipted = await db.transaction(async (tx) => {
+        // Locks the year's counter until the transaction ends
+        const [sequence] = await tx
+          .insert(receiptSequences)
+          .values({ financialYear, lastNumber: 1 })
+          .onConflictDoUpdate({
+            target: receiptSequences.financialYear,
+            set: { lastNumber: sql`${receiptSequences.lastNumber} + 1`, updatedAt: new Date() },
+          })
+          .returning();
+
+        const [updated] = await tx
+          .update(payments)
+          .set({
+            receiptNumber: formatReceiptNumber(financialYear, sequence.lastNumber),
+            receiptIssuedAt: new Date(),
+          })
+          .where(and(
+            eq(payments.id, payment.id),
+            isNull(payments.receiptNumber)
+          ))
+          .returning();
+
+        if (!updated) {
+          // Issued concurrently; roll back the counter so the number is not skipped
+          tx.rollback();
+        }
+        return updated;
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) {
+        throw error;
+      }
+      return this.getPayment(payment.id);
+    }
+
+    console.log(`[receipts] Issued ${receipted.receiptNumber} for payment ${payment.id}`);
+    return receipted;
+  }
+}
+
+// Export singleton instance
+export const receiptService = new ReceiptService();
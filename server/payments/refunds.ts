@@ -0,0 +1,429 @@
+/**
+ * Refund Service
+ *
+ * Refunds are raised by the DTDO against a settled payment and approved by a
+ * state officer or admin. A payment may be refunded in parts; the refundable
+ * balance is the paid amount less every refund that has not been rejected or
+ * failed.
+ *
+ * Approved refunds are executed through the gateway's refund API where it has
+ * one. HimKosh (and payments recorded outside a gateway) are refunded by a
+ * treasury refund order, which the approving office records together with a
+ * copy of the order. The owner is notified at every step.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  paymentRefunds,
+  payments,
+  homestayApplications,
+  type Payment,
+  type PaymentRefund,
+} from '../../shared/schema';
+import { PaymentGatewayError } from './gateway';
+import { getPaymentGateway } from './service';
+import { eq, ne, and, desc, inArray, notInArray, sql, type SQL } from 'drizzle-orm';
+
+export const REFUND_REASONS = {
+  rejected_after_payment: 'Application rejected after payment',
+  duplicate_payment: 'Duplicate payment',
+  category_downgrade: 'Category downgraded (excess fee)',
+  other: 'Other',
+} as const;
+
+export type RefundReason = keyof typeof REFUND_REASONS;
+
+// Payments that can still be refunded (in full or in part)
+const REFUNDABLE_PAYMENT_STATUSES = ['success', 'partially_refunded'];
+
+// Refunds that do not hold any of the payment's refundable balance
+const RELEASED_REFUND_STATUSES = ['rejected', 'failed'];
+
+export type RefundProofDocuments = NonNullable<PaymentRefund['proofDocuments']>;
+
+export class RefundError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'RefundError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface RefundRequestOptions {
+  paymentId: string;
+  amount: number;
+  reason: RefundReason;
+  remarks: string;
+  requestedBy: string;
+}
+
+export interface RefundListFilters {
+  district?: string;
+  status?: string;
+}
+
+function toRupees(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatRupees(amount: string | number): string {
+  return `₹${toRupees(Number(amount)).toLocaleString('en-IN')}`;
+}
+
+export class RefundService {
+  /**
+   * Paid amount not yet refunded or held by an open refund
+   * @param excludeRefundId - Leave this refund out of the total (when re-checking it at approval)
+   */
+  async getRefundableBalance(
+    payment: Payment,
+    excludeRefundId?: string,
+    executor: Pick<typeof db, 'select'> = db
+  ): Promise<number> {
+    const conditions: SQL[] = [
+      eq(paymentRefunds.paymentId, payment.id),
+      notInArray(paymentRefunds.status, RELEASED_REFUND_STATUSES),
+    ];
+    if (excludeRefundId) {
+      conditions.push(ne(paymentRefunds.id, excludeRefundId));
+    }
+
+    const [{ total }] = await executor
+      .select({ total: sql<string>`coalesce(sum(${paymentRefunds.amount}), 0)` })
+      .from(paymentRefunds)
+      .where(and(...conditions));
+
+    return toRupees(parseFloat(payment.amount) - parseFloat(total));
+  }
+
+  async getRefund(refundId: string): Promise<PaymentRefund | undefined> {
+    const [refund] = await db
+      .select()
+      .from(paymentRefunds)
+      .where(eq(paymentRefunds.id, refundId))
+      .limit(1);
+    return refund;
+  }
+
+  /**
+   * Refunds with their application and payment, newest first
+   */
+  async listRefunds(filters: RefundListFilters = {}) {
+    const conditions: SQL[] = [];
+    if (filters.district) {
+      conditions.push(eq(homestayApplications.district, filters.district));
+    }
+    if (filters.status) {
+      conditions.push(eq(paymentRefunds.status, filters.status));
+    }
+
+    const rows = await db
+      .select({
+        refund: paymentRefunds,
+        applicationNumber: homestayApplications.applicationNumber,
+        propertyName: homestayApplications.propertyName,
+        ownerName: homestayApplications.ownerName,
+        district: homestayApplications.district,
+        paymentAmount: payments.amount,
+        paymentGateway: payments.paymentGateway,
+        gatewayTransactionId: payments.gatewayTransactionId,
+        paymentStatus: payments.paymentStatus,
+      })
+      .from(paymentRefunds)
+      .innerJoin(payments, eq(paymentRefunds.paymentId, payments.id))
+      .innerJoin(homestayApplications, eq(paymentRefunds.applicationId, homestayApplications.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(paymentRefunds.requestedAt));
+
+    return rows.map(({ refund, ...details }) => ({ ...refund, ...details }));
+  }
+
+  /**
+   * Settled payments in a district with a refundable balance
+   */
+  async listRefundablePayments(district: string) {
+    const rows = await db
+      .select({
+        payment: payments,
+        applicationNumber: homestayApplications.applicationNumber,
+        propertyName: homestayApplications.propertyName,
+        ownerName: homestayApplications.ownerName,
+        applicationStatus: homestayApplications.status,
+      })
+      .from(payments)
+      .innerJoin(homestayApplications, eq(payments.applicationId, homestayApplications.id))
+      .where(and(
+        eq(homestayApplications.district, district),
+        inArray(payments.paymentStatus, REFUNDABLE_PAYMENT_STATUSES)
+      ))
+      .orderBy(desc(payments.completedAt));
+
+    const refundable = await Promise.all(
+      rows.map(async ({ payment, ...details }) => ({
+        ...payment,
+        ...details,
+        refundableAmount: await this.getRefundableBalance(payment),
+      }))
+    );
+    return refundable.filter(payment => payment.refundableAmount > 0);
+  }
+
+  /**
+   * Raise a refund request against a settled payment (DTDO)
+   */
+  async requestRefund(options: RefundRequestOptions): Promise<PaymentRefund> {
+    const payment = await storage.getPaymentById(options.paymentId);
+    if (!payment) {
+      throw new RefundError('Payment not found', 404);
+    }
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.paymentStatus || '')) {
+      throw new RefundError(`Only successful payments can be refunded (payment is ${payment.paymentStatus})`);
+    }
+
+    const amount = toRupees(options.amount);
+    if (amount <= 0) {
+      throw new RefundError('Refund amount must be greater than zero');
+    }
+
+    // The payment row is locked while the balance is checked and the refund
+    // recorded, so concurrent requests cannot together exceed the amount paid
+    const refund = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(payments)
+        .where(eq(payments.id, payment.id))
+        .for('update');
+
+      const balance = await this.getRefundableBalance(locked, undefined, tx);
+      if (amount > balance) {
+        throw new RefundError(`Refund amount exceeds the refundable balance of ${formatRupees(balance)}`);
+      }
+
+      const [inserted] = await tx
+        .insert(paymentRefunds)
+        .values({
+          paymentId: payment.id,
+          applicationId: payment.applicationId,
+          amount: amount.toFixed(2),
+          reason: options.reason,
+          remarks: options.remarks,
+          status: 'requested',
+          requestedBy: options.requestedBy,
+        })
+        .returning();
+      return inserted;
+    });
+
+    await this.notifyOwner(refund, 'refund_requested', 'Refund initiated',
+      `A refund of ${formatRupees(amount)} (${REFUND_REASONS[options.reason]}) has been initiated and is awaiting approval.`);
+
+    return refund;
+  }
+
+  /**
+   * Approve a refund and execute it through the gateway where possible
+   * @returns the refund - completed, processing (gateway refund pending), failed,
+   * or approved with method 'treasury' awaiting the treasury refund order
+   */
+  async approveRefund(refundId: string, reviewedBy: string, notes?: string): Promise<PaymentRefund> {
+    const refund = await this.requireRefund(refundId);
+    const payment = await storage.getPaymentById(refund.paymentId);
+    if (!payment) {
+      throw new RefundError('Payment not found', 404);
+    }
+
+    // Another refund may have been approved since this one was raised
+    const balance = await this.getRefundableBalance(payment, refund.id);
+    if (parseFloat(refund.amount) > balance) {
+      throw new RefundError(`Refund amount exceeds the refundable balance of ${formatRupees(balance)}`);
+    }
+
+    const gateway = payment.paymentGateway ? getPaymentGateway(payment.paymentGateway) : undefined;
+    // HimKosh refunds go through the treasury; so do payments confirmed outside a gateway
+    const useGateway = !!gateway && gateway.id !== 'himkosh' && !!payment.gatewayTransactionId;
+
+    const approved = await this.transition(refund, 'requested', {
+      status: useGateway ? 'processing' : 'approved',
+      method: useGateway ? 'gateway' : 'treasury',
+      reviewedBy,
+      reviewedAt: new Date(),
+      reviewNotes: notes || null,
+    });
+
+    if (!useGateway) {
+      await this.notifyOwner(approved, 'refund_approved', 'Refund approved',
+        `Your refund of ${formatRupees(approved.amount)} has been approved and will be credited through a treasury refund order.`);
+      return approved;
+    }
+
+    try {
+      const result = await gateway.refund(payment, parseFloat(approved.amount), REFUND_REASONS[approved.reason as RefundReason] || approved.reason);
+      const gatewayFields = { gatewayRefundId: result.refundId, gatewayResponse: result.raw };
+
+      if (result.status === 'processed') {
+        return this.completeRefund(approved, 'processing', reviewedBy, gatewayFields);
+      }
+      if (result.status === 'failed') {
+        return this.failRefund(approved, result.message || `${gateway.label} declined the refund`, gatewayFields);
+      }
+      if (result.status === 'manual') {
+        const manual = await this.transition(approved, 'processing', { ...gatewayFields, status: 'approved', method: 'treasury' });
+        await this.notifyOwner(manual, 'refund_approved', 'Refund approved',
+          `Your refund of ${formatRupees(manual.amount)} has been approved and will be credited through a treasury refund order.`);
+        return manual;
+      }
+
+      const processing = await this.transition(approved, 'processing', gatewayFields);
+      await this.notifyOwner(processing, 'refund_processing', 'Refund in process',
+        `Your refund of ${formatRupees(processing.amount)} has been approved and sent to ${gateway.label}. It will be credited to the original payment method.`);
+      return processing;
+    } catch (error) {
+      if (!(error instanceof PaymentGatewayError)) {
+        console.error(`[refunds] ${gateway.label} refund ${approved.id} failed:`, error);
+      }
+      const message = error instanceof Error ? error.message : 'Gateway refund failed';
+      return this.failRefund(approved, message, {});
+    }
+  }
+
+  async rejectRefund(refundId: string, reviewedBy: string, notes: string): Promise<PaymentRefund> {
+    const refund = await this.requireRefund(refundId);
+    const rejected = await this.transition(refund, 'requested', {
+      status: 'rejected',
+      reviewedBy,
+      reviewedAt: new Date(),
+      reviewNotes: notes,
+    });
+
+    await this.notifyOwner(rejected, 'refund_rejected', 'Refund request declined',
+      `The refund of ${formatRupees(rejected.amount)} initiated for your application was not approved. Remarks: ${notes}`);
+    return rejected;
+  }
+
+  /**
+   * Complete an approved treasury refund with the refund order and its copy
+   */
+  async recordTreasuryRefund(
+    refundId: string,
+    processedBy: string,
+    treasuryOrderNumber: string,
+    proofDocuments: RefundProofDocuments
+  ): Promise<PaymentRefund> {
+    const refund = await this.requireRefund(refundId);
+    if (refund.method !== 'treasury') {
+      throw new RefundError('This refund is processed through the payment gateway');
+    }
+    if (proofDocuments.length === 0) {
+      throw new RefundError('Upload a copy of the treasury refund order');
+    }
+
+    return this.completeRefund(refund, 'approved', processedBy, { treasuryOrderNumber, proofDocuments });
+  }
+
+  /**
+   * Mark a gateway refund completed once the gateway has credited it
+   */
+  async confirmGatewayRefund(refundId: string, processedBy: string): Promise<PaymentRefund> {
+    const refund = await this.requireRefund(refundId);
+    if (refund.method !== 'gateway') {
+      throw new RefundError('Treasury refunds are completed by recording the refund order');
+    }
+    return this.completeRefund(refund, 'processing', processedBy, {});
+  }
+
+  private async requireRefund(refundId: string): Promise<PaymentRefund> {
+    const refund = await this.getRefund(refundId);
+    if (!refund) {
+      throw new RefundError('Refund not found', 404);
+    }
+    return refund;
+  }
+
+  /**
+   * Move a refund out of an expected status, once
+   */
+  private async transition(refund: PaymentRefund, from: string, update: Partial<PaymentRefund>): Promise<PaymentRefund> {
+    const [updated] = await db
+      .update(paymentRefunds)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(
+        eq(paymentRefunds.id, refund.id),
+        eq(paymentRefunds.status, from)
+      ))
+      .returning();
+
+    if (!updated) {
+      const current = await this.getRefund(refund.id);
+      throw new RefundError(`Refund is ${current?.status ?? 'unavailable'}, not ${from}`, 409);
+    }
+    return updated;
+  }
+
+  private async completeRefund(
+    refund: PaymentRefund,
+    from: string,
+    processedBy: string,
+    update: Partial<PaymentRefund>
+  ): Promise<PaymentRefund> {
+    const completed = await this.transition(refund, from, {
+      ...update,
+      status: 'completed',
+      processedBy,
+      processedAt: new Date(),
+      failureReason: null,
+    });
+
+    // The payment is fully refunded once completed refunds cover the amount paid
+    const [{ refunded }] = await db
+      .select({ refunded: sql<string>`coalesce(sum(${paymentRefunds.amount}), 0)` })
+      .from(paymentRefunds)
+      .where(and(
+        eq(paymentRefunds.paymentId, completed.paymentId),
+        eq(paymentRefunds.status, 'completed')
+      ));
+    const payment = await storage.getPaymentById(completed.paymentId);
+    if (payment) {
+      await storage.updatePayment(payment.id, {
+        paymentStatus: parseFloat(refunded) >= parseFloat(payment.amount) ? 'refunded' : 'partially_refunded',
+      });
+    }
+
+    const reference = completed.treasuryOrderNumber
+      ? `treasury refund order ${completed.treasuryOrderNumber}`
+      : `refund reference ${completed.gatewayRefundId}`;
+    await this.notifyOwner(completed, 'refund_completed', 'Refund completed',
+      `Your refund of ${formatRupees(completed.amount)} has been processed (${reference}).`);
+
+    console.log(`[refunds] Refund ${completed.id} of ${formatRupees(completed.amount)} completed for payment ${completed.paymentId}`);
+    return completed;
+  }
+
+  private async failRefund(refund: PaymentRefund, failureReason: string, update: Partial<PaymentRefund>): Promise<PaymentRefund> {
+    const failed = await this.transition(refund, 'processing', { ...update, status: 'failed', failureReason });
+    console.warn(`[refunds] Refund ${failed.id} failed: ${failureReason}`);
+
+    await this.notifyOwner(failed, 'refund_failed', 'Refund could not be processed',
+      `Your refund of ${formatRupees(failed.amount)} could not be processed by the payment gateway. The department will contact you.`);
+    return failed;
+  }
+
+  private async notifyOwner(refund: PaymentRefund, type: string, title: string, message: string): Promise<void> {
+    const application = await storage.getApplication(refund.applicationId);
+    if (!application) {
+      return;
+    }
+    await storage.createNotification({
+      userId: application.userId,
+      applicationId: application.id,
+      type,
+      title,
+      message: `${application.applicationNumber}: ${message}`,
+      channels: { inapp: true },
+    });
+  }
+}
+
+export const refundService = new RefundService();
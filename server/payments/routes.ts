@@ -0,0 +1,184 @@
+/**
+ * Payment Gateway API Routes
+ *
+ * Initiation and status refresh require authentication; callbacks and
+ * webhooks come from the gateways and are authenticated by their signatures.
+ * HimKosh callbacks keep their own route (/api/himkosh/callback) because they
+ * settle against the CTP challan ledger.
+ */
+
+import type { Express, Request, Response } from 'express';
+import { db } from '../db';
+import { homestayApplications, payments, users } from '../../shared/schema';
+import {
+  gatewayMockEnabled,
+  MOCK_CHECKOUT_PATH,
+  PaymentGatewayError,
+  type PaymentGateway,
+} from './gateway';
+import { paymentService, getPaymentGateway } from './service';
+import { createMockCheckoutRouter } from './mock';
+import { eq } from 'drizzle-orm';
+
+// Origin gateways post their responses back to
+function callbackBaseUrl(req: Request): string {
+  return process.env.PAYMENT_CALLBACK_BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+// Gateways that settle through the generic callback and webhook routes
+function getCallbackGateway(id: string): PaymentGateway | undefined {
+  return id === 'himkosh' ? undefined : getPaymentGateway(id);
+}
+
+function sendGatewayError(res: Response, error: unknown, tag: string, message: string) {
+  if (error instanceof PaymentGatewayError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`[payments] ${tag}:`, error);
+  res.status(500).json({ message });
+}
+
+export function registerPaymentGatewayRoutes(app: Express, requireAuth: any) {
+  // Local mock checkout (PAYMENT_GATEWAY_MOCK=true, never in production)
+  if (gatewayMockEnabled) {
+    app.use(MOCK_CHECKOUT_PATH, createMockCheckoutRouter(getCallbackGateway));
+    console.warn('[payments] ⚠️  Mock checkout enabled - Razorpay, CCAvenue and PayU payments are simulated locally');
+  }
+
+  /**
+   * GET /api/payments/gateways
+   * Gateways applicants can pay through
+   */
+  app.get('/api/payments/gateways', requireAuth, async (req, res) => {
+    try {
+      res.json({ gateways: await paymentService.listAvailableGateways() });
+    } catch (error) {
+      console.error('[payments] Failed to list payment gateways:', error);
+      res.status(500).json({ message: 'Failed to fetch payment gateways' });
+    }
+  });
+
+  /**
+   * POST /api/payments/:gateway/initiate
+   * Create an order for an application's fee and return the checkout hand-off
+   */
+  app.post('/api/payments/:gateway/initiate', requireAuth, async (req, res) => {
+    try {
+      const { applicationId } = req.body;
+      if (!applicationId) {
+        return res.status(400).json({ message: 'Application ID is required' });
+      }
+
+      const [application] = await db
+        .select()
+        .from(homestayApplications)
+        .where(eq(homestayApplications.id, applicationId))
+        .limit(1);
+
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      if (application.userId !== req.session.userId) {
+        return res.status(403).json({ message: 'You can only pay for your own applications' });
+      }
+
+      const result = await paymentService.initiatePayment(application, req.params.gateway, callbackBaseUrl(req));
+
+      res.json({
+        paymentId: result.payment.id,
+        gatewayOrderId: result.payment.gatewayOrderId,
+        redirect: result.redirect,
+        amount: result.amount,
+        actualAmount: result.actualAmount,
+        isTestMode: result.isTestMode,
+        isMock: result.isMock,
+      });
+    } catch (error) {
+      sendGatewayError(res, error, 'Failed to initiate payment', 'Failed to initiate payment');
+    }
+  });
+
+  /**
+   * POST /api/payments/:gateway/callback
+   * Browser returns from the hosted checkout with the gateway's signed response
+   */
+  app.post('/api/payments/:gateway/callback', async (req, res) => {
+    const gateway = getCallbackGateway(req.params.gateway);
+    if (!gateway) {
+      return res.status(404).send('Unknown payment gateway');
+    }
+
+    try {
+      const { outcome, payment } = await paymentService.handleCallback(gateway, req.body);
+      if (outcome === 'duplicate_transaction') {
+        return res.status(409).send('Payment reference already used');
+      }
+
+      const status = payment.paymentStatus === 'success' ? 'success' : payment.paymentStatus === 'failed' ? 'failed' : 'pending';
+      res.redirect(`${process.env.VITE_FRONTEND_URL || ''}/applications/${payment.applicationId}?payment=${status}`);
+    } catch (error) {
+      if (error instanceof PaymentGatewayError) {
+        console.error(`[payments] ${gateway.label} callback rejected: ${error.message}`);
+        return res.status(error.statusCode).send(error.message);
+      }
+      console.error(`[payments] ${gateway.label} callback failed:`, error);
+      res.status(500).send('Payment processing failed');
+    }
+  });
+
+  /**
+   * POST /api/payments/:gateway/webhook
+   * Server-to-server payment notification
+   */
+  app.post('/api/payments/:gateway/webhook', async (req, res) => {
+    const gateway = getCallbackGateway(req.params.gateway);
+    if (!gateway) {
+      return res.status(404).json({ message: 'Unknown payment gateway' });
+    }
+
+    try {
+      const result = await paymentService.handleWebhook(gateway, {
+        headers: req.headers,
+        rawBody: req.rawBody as Buffer | undefined,
+        body: req.body,
+      });
+      res.json({ received: true, outcome: result?.outcome ?? 'ignored' });
+    } catch (error) {
+      sendGatewayError(res, error, `${gateway.label} webhook failed`, 'Webhook processing failed');
+    }
+  });
+
+  /**
+   * POST /api/payments/:id/refresh
+   * Query the gateway for an attempt's status and settle it if final
+   */
+  app.post('/api/payments/:id/refresh', requireAuth, async (req, res) => {
+    try {
+      const [payment] = await db
+        .select()
+        .from(payments)
+        .where(eq(payments.id, req.params.id))
+        .limit(1);
+
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      const [user] = await db.select().from(users).where(eq(users.id, req.session.userId!)).limit(1);
+      if (user?.role === 'property_owner') {
+        const [application] = await db
+          .select({ userId: homestayApplications.userId })
+          .from(homestayApplications)
+          .where(eq(homestayApplications.id, payment.applicationId))
+          .limit(1);
+        if (application?.userId !== user.id) {
+          return res.status(403).json({ message: 'You do not have access to this payment' });
+        }
+      }
+
+      res.json(await paymentService.refreshStatus(payment));
+    } catch (error) {
+      sendGatewayError(res, error, 'Failed to refresh payment status', 'Failed to refresh payment status');
+    }
+  });
+}
@@ -0,0 +1,317 @@
+/**
+ * Payment Service
+ *
+ * Runs payments through the configured gateways:
+ * - Which gateways applicants may use (and the default) comes from systemSettings
+ * - Every attempt is recorded in payments when it is initiated, keyed by the
+ *   gateway's order reference, and settled once from the verified response
+ * - Gateway status queries settle attempts whose response never arrived
+ */
+
+import { db } from '../db';
+import {
+  payments,
+  systemSettings,
+  himkoshTransactions,
+  type HomestayApplication,
+  type Payment,
+} from '../../shared/schema';
+import {
+  PAYMENT_GATEWAY_IDS,
+  PaymentGatewayError,
+  type GatewayPaymentResult,
+  type GatewayRedirect,
+  type GatewayWebhookRequest,
+  type PaymentGateway,
+  type PaymentGatewayId,
+} from './gateway';
+import { himkoshGateway } from './himkosh';
+import { razorpayGateway } from './razorpay';
+import { ccavenueGateway } from './ccavenue';
+import { payuGateway } from './payu';
+import { settlePaymentAttempt, issuePaymentReceipt, applyPaymentToApplication } from './completion';
+import { reconcileTransaction } from '../himkosh/reconciliation';
+import { eq, and, ne } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+const gateways: Record<PaymentGatewayId, PaymentGateway> = {
+  himkosh: himkoshGateway,
+  razorpay: razorpayGateway,
+  ccavenue: ccavenueGateway,
+  payu: payuGateway,
+};
+
+export function getPaymentGateway(id: string): PaymentGateway | undefined {
+  return (PAYMENT_GATEWAY_IDS as readonly string[]).includes(id) ? gateways[id as PaymentGatewayId] : undefined;
+}
+
+export const PAYMENT_GATEWAY_SETTING_KEY = 'payment_gateways';
+
+export interface PaymentGatewaySettings {
+  // Gateways offered to applicants, in display order
+  enabled: PaymentGatewayId[];
+  defaultGateway: PaymentGatewayId;
+}
+
+export const DEFAULT_PAYMENT_GATEWAY_SETTINGS: PaymentGatewaySettings = {
+  enabled: ['himkosh'],
+  defaultGateway: 'himkosh',
+};
+
+export async function getPaymentGatewaySettings(): Promise<PaymentGatewaySettings> {
+  const [setting] = await db
+    .select()
+    .from(systemSettings)
+    .where(eq(systemSettings.settingKey, PAYMENT_GATEWAY_SETTING_KEY))
+    .limit(1);
+
+  if (!setting) {
+    return DEFAULT_PAYMENT_GATEWAY_SETTINGS;
+  }
+
+  return { ...DEFAULT_PAYMENT_GATEWAY_SETTINGS, ...(setting.settingValue as Partial<PaymentGatewaySettings>) };
+}
+
+export type PaymentSettlementOutcome =
+  | 'success'
+  | 'failed'
+  | 'pending' // Gateway has no final result yet
+  | 'amount_mismatch' // Gateway reported success for a different amount; attempt left pending for review
+  | 'already_settled' // Replay or late response; attempt left unchanged
+  | 'duplicate_transaction'; // Gateway transaction id already settled another attempt
+
+export interface PaymentInitiationResult {
+  payment: Payment;
+  redirect: GatewayRedirect;
+  // Amount sent to the gateway (₹1 in test payment mode) and the assessed fee
+  amount: number;
+  actualAmount: number;
+  isTestMode: boolean;
+  isMock: boolean;
+}
+
+export class PaymentService {
+  /**
+   * Enabled gateways with credentials (or a mock) that applicants can pay through
+   */
+  async listAvailableGateways(): Promise<Array<{ id: PaymentGatewayId; label: string; isMock: boolean; isDefault: boolean }>> {
+    const settings = await getPaymentGatewaySettings();
+    return settings.enabled
+      .map(id => gateways[id])
+      .filter(gateway => gateway?.isAvailable())
+      .map(gateway => ({
+        id: gateway.id,
+        label: gateway.label,
+        isMock: gateway.isMock(),
+        isDefault: gateway.id === settings.defaultGateway,
+      }));
+  }
+
+  async isTestPaymentMode(): Promise<boolean> {
+    const [setting] = await db
+      .select()
+      .from(systemSettings)
+      .where(eq(systemSettings.settingKey, 'payment_test_mode'))
+      .limit(1);
+
+    return setting ? (setting.settingValue as { enabled: boolean }).enabled : false;
+  }
+
+  /**
+   * Create an order at the gateway and record the attempt
+   * @param callbackBaseUrl - Origin the gateway posts its response back to
+   */
+  async initiatePayment(application: HomestayApplication, gatewayId: string, callbackBaseUrl: string): Promise<PaymentInitiationResult> {
+    const gateway = getPaymentGateway(gatewayId);
+    const settings = await getPaymentGatewaySettings();
+    if (!gateway || !settings.enabled.includes(gateway.id)) {
+      throw new PaymentGatewayError(`Payment gateway ${gatewayId} is not enabled`, 400);
+    }
+    if (!gateway.isAvailable()) {
+      throw new PaymentGatewayError(`${gateway.label} is not configured`, 503);
+    }
+
+    if (application.status !== 'payment_pending' && application.status !== 'verified_for_payment') {
+      throw new PaymentGatewayError('Application is not ready for payment', 400);
+    }
+
+    // totalFee is the fee the server assessed at submission - never a client-supplied amount
+    if (!application.totalFee) {
+      throw new PaymentGatewayError('Total fee not calculated for this application', 400);
+    }
+    const actualAmount = Math.round(parseFloat(application.totalFee.toString()));
+
+    // Use ₹1 for gateway if test mode is enabled, otherwise use actual amount
+    const isTestMode = await this.isTestPaymentMode();
+    const amount = isTestMode ? 1 : actualAmount;
+    if (isTestMode) {
+      console.log(`[payments] 🧪 TEST PAYMENT MODE ACTIVE - Sending ₹1 to ${gateway.label} instead of ₹${actualAmount}`);
+    }
+
+    const initiation = await gateway.initiate({
+      application,
+      orderRef: `HPP${Date.now()}${nanoid(6)}`,
+      amount,
+      callbackUrl: `${callbackBaseUrl}/api/payments/${gateway.id}/callback`,
+      payer: {
+        name: application.ownerName,
+        email: application.ownerEmail || '',
+        mobile: application.ownerMobile,
+      },
+    });
+
+    const [payment] = await db
+      .insert(payments)
+      .values({
+        applicationId: application.id,
+        paymentType: application.applicationType === 'renewal' ? 'renewal' : 'registration',
+        amount: String(amount),
+        paymentGateway: gateway.id,
+        gatewayOrderId: initiation.gatewayOrderId,
+        paymentStatus: 'pending',
+        paymentLink: initiation.redirect.url,
+      })
+      .returning();
+
+    console.log(`[payments] ${gateway.label} order ${initiation.gatewayOrderId} initiated for ${application.applicationNumber} (₹${amount})`);
+
+    return {
+      payment,
+      redirect: initiation.redirect,
+      amount,
+      actualAmount,
+      isTestMode,
+      isMock: gateway.isMock(),
+    };
+  }
+
+  /**
+   * Settle the attempt a verified gateway result belongs to, once
+   */
+  async settle(gateway: PaymentGateway, result: GatewayPaymentResult): Promise<{ outcome: PaymentSettlementOutcome; payment: Payment }> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.paymentGateway, gateway.id),
+        eq(payments.gatewayOrderId, result.gatewayOrderId)
+      ))
+      .limit(1);
+
+    if (!payment) {
+      throw new PaymentGatewayError(`${gateway.label} order ${result.gatewayOrderId} not found`, 404);
+    }
+
+    // Gateways let the owner retry on the same order, so a verified success
+    // still settles an attempt an earlier try marked failed
+    const retriedAfterFailure = payment.paymentStatus === 'failed' && result.status === 'success';
+    if (payment.paymentStatus !== 'pending' && !retriedAfterFailure) {
+      console.warn(`[payments] Ignoring ${gateway.label} response for settled order ${result.gatewayOrderId} (${payment.paymentStatus})`);
+      return { outcome: 'already_settled', payment };
+    }
+
+    if (result.status === 'pending') {
+      return { outcome: 'pending', payment };
+    }
+
+    if (result.gatewayTransactionId) {
+      const [other] = await db
+        .select({ gatewayOrderId: payments.gatewayOrderId })
+        .from(payments)
+        .where(and(
+          eq(payments.gatewayTransactionId, result.gatewayTransactionId),
+          ne(payments.id, payment.id)
+        ))
+        .limit(1);
+
+      if (other) {
+        console.error(`[payments] ${gateway.label} transaction ${result.gatewayTransactionId} for ${result.gatewayOrderId} already settled ${other.gatewayOrderId}`);
+        return { outcome: 'duplicate_transaction', payment };
+      }
+    }
+
+    if (result.status === 'success' && result.amount !== null && Math.round(result.amount) !== Math.round(parseFloat(payment.amount))) {
+      const failureReason = `Amount mismatch: expected ₹${payment.amount}, ${gateway.label} reported ₹${result.amount}`;
+      const [flagged] = await db
+        .update(payments)
+        .set({ failureReason, gatewayResponse: result.raw })
+        .where(eq(payments.id, payment.id))
+        .returning();
+      console.error(`[payments] ${failureReason} (order ${result.gatewayOrderId})`);
+      return { outcome: 'amount_mismatch', payment: flagged };
+    }
+
+    const settled = await settlePaymentAttempt(payment.id, {
+      status: result.status,
+      gatewayTransactionId: result.gatewayTransactionId,
+      paymentMethod: result.paymentMethod,
+      gatewayResponse: result.raw,
+      failureReason: result.message,
+    }, retriedAfterFailure ? 'failed' : 'pending');
+
+    if (!settled) {
+      console.warn(`[payments] ${gateway.label} order ${result.gatewayOrderId} was settled concurrently; response ignored`);
+      return { outcome: 'already_settled', payment };
+    }
+
+    if (result.status === 'success') {
+      await issuePaymentReceipt(settled.id);
+      await applyPaymentToApplication(payment.applicationId, `${gateway.label} payment received (${result.gatewayTransactionId || result.gatewayOrderId})`);
+    }
+
+    console.log(`[payments] ${gateway.label} order ${result.gatewayOrderId} settled: ${result.status}`);
+    return { outcome: result.status, payment: settled };
+  }
+
+  /**
+   * Verify and settle a response the gateway posted to the callback URL
+   */
+  async handleCallback(gateway: PaymentGateway, payload: Record<string, any>) {
+    return this.settle(gateway, await gateway.verifyCallback(payload));
+  }
+
+  /**
+   * Verify and settle a server-to-server notification
+   * @returns null for notifications that do not settle a payment
+   */
+  async handleWebhook(gateway: PaymentGateway, request: GatewayWebhookRequest) {
+    if (!gateway.verifyWebhook) {
+      throw new PaymentGatewayError(`${gateway.label} does not send webhooks`, 404);
+    }
+    const result = await gateway.verifyWebhook(request);
+    return result ? this.settle(gateway, result) : null;
+  }
+
+  /**
+   * Ask the gateway for the state of an attempt and settle it if it has a final result
+   */
+  async refreshStatus(payment: Payment): Promise<{ outcome: PaymentSettlementOutcome; payment: Payment }> {
+    const gateway = payment.paymentGateway ? getPaymentGateway(payment.paymentGateway) : undefined;
+    if (!gateway || !payment.gatewayOrderId) {
+      throw new PaymentGatewayError('Payment was not made through an online gateway', 400);
+    }
+
+    // HimKosh attempts are settled against the challan ledger by CTP double verification
+    if (gateway.id === 'himkosh') {
+      const [transaction] = await db
+        .select()
+        .from(himkoshTransactions)
+        .where(eq(himkoshTransactions.appRefNo, payment.gatewayOrderId))
+        .limit(1);
+      if (!transaction) {
+        throw new PaymentGatewayError(`HimKosh transaction ${payment.gatewayOrderId} not found`, 404);
+      }
+
+      const result = await reconcileTransaction(transaction);
+      const [current] = await db.select().from(payments).where(eq(payments.id, payment.id)).limit(1);
+      const outcome: PaymentSettlementOutcome = result.deferred
+        ? 'pending'
+        : result.settledAs === 'duplicate_grn' ? 'duplicate_transaction' : result.settledAs ?? 'already_settled';
+      return { outcome, payment: current ?? payment };
+    }
+
+    return this.settle(gateway, await gateway.queryStatus(payment));
+  }
+}
+
+export const paymentService = new PaymentService();
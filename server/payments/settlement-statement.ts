@@ -0,0 +1,570 @@
+/**
+ * Treasury Settlement Statement
+ *
+ * Fees collected on a day or in a month, for finance staff to match against
+ * the treasury:
+ * - One line per head of account of each HimKosh challan, with HIMGRN, bank
+ *   CIN and the bank's payment date, plus collections through other gateways
+ *   (booked to the registration fee head, as on their receipts)
+ * - Lines are totalled by district, DDO, head of account and bank
+ * - A collection is flagged when the challan ledger, the payments record and
+ *   the CTP verification disagree
+ *
+ * Challans are dated by when CTP reported them; other gateways by when the
+ * payment was confirmed. Exported as CSV (one row per line) or PDF.
+ */
+
+import { jsPDF } from 'jspdf';
+import { db } from '../db';
+import { himkoshTransactions, homestayApplications, payments } from '../../shared/schema';
+import { getHimKoshConfig } from '../himkosh/config';
+import type { ReconciliationIssue } from '../himkosh/reconciliation';
+import { RECEIPTED_PAYMENT_STATUSES } from './receipts';
+import { getPaymentGateway } from './service';
+import { OFFLINE_PAYMENT_GATEWAY, getOfflineModeLabel } from './offline';
+import { eq, and, or, gte, lt, ne, inArray, isNull, isNotNull, type SQL } from 'drizzle-orm';
+
+export type StatementPeriod = 'daily' | 'monthly';
+
+export type StatementFlag =
+  | ReconciliationIssue
+  | 'not_verified' // Not yet double-verified with CTP
+  | 'payment_missing' // Challan paid but its payments row is not confirmed
+  | 'payment_mismatch'; // Payments row amount or GRN differs from the challan
+
+export const STATEMENT_FLAG_LABELS: Record<StatementFlag, string> = {
+  failed_but_charged: 'Failed but charged',
+  success_not_confirmed: 'Not confirmed by CTP',
+  grn_mismatch: 'GRN mismatch',
+  amount_mismatch: 'Amount mismatch',
+  not_verified: 'Not verified with CTP',
+  payment_missing: 'Payment record not confirmed',
+  payment_mismatch: 'Payment record differs',
+};
+
+export interface StatementWindow {
+  period: StatementPeriod;
+  date: string;
+  label: string;
+  from: Date;
+  to: Date;
+}
+
+export interface StatementLine {
+  paidAt: Date | null;
+  district: string;
+  ddo: string;
+  headOfAccount: string;
+  bank: string;
+  amount: number;
+  himgrn: string | null;
+  bankCin: string | null;
+  reference: string;
+  applicationNumber: string | null;
+  propertyName: string | null;
+  receiptNumber: string | null;
+  flags: StatementFlag[];
+  note: string | null;
+}
+
+export interface StatementGroup {
+  district: string;
+  ddo: string;
+  headOfAccount: string;
+  bank: string;
+  lines: number;
+  amount: number;
+  flagged: number;
+}
+
+export interface SettlementStatement {
+  period: StatementPeriod;
+  label: string;
+  district: string | null;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  lines: StatementLine[];
+  groups: StatementGroup[];
+  totals: {
+    collections: number;
+    amount: number;
+    flaggedCollections: number;
+  };
+}
+
+// Challans that brought money in (or that CTP says did)
+const COLLECTED_TRANSACTION_STATUSES = ['success', 'verified', 'amount_mismatch'];
+
+// Statement days run midnight to midnight IST
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const NOT_RECORDED = '-';
+
+/**
+ * Statement window for a day (YYYY-MM-DD) or month (YYYY-MM), or null if the date is invalid
+ */
+export function getStatementWindow(period: StatementPeriod, date: string): StatementWindow | null {
+  const match = period === 'daily'
+    ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+    : /^(\d{4})-(\d{2})$/.exec(date);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const day = period === 'daily' ? Number(match[3]) : 1;
+  const start = new Date(Date.UTC(year, month, day));
+  if (start.getUTCMonth() !== month || start.getUTCDate() !== day) {
+    return null;
+  }
+
+  const end = period === 'daily'
+    ? new Date(Date.UTC(year, month, day + 1))
+    : new Date(Date.UTC(year, month + 1, 1));
+  const label = period === 'daily'
+    ? start.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : start.toLocaleDateString('en-IN', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  return {
+    period,
+    date,
+    label,
+    from: new Date(start.getTime() - IST_OFFSET_MS),
+    to: new Date(end.getTime() - IST_OFFSET_MS),
+  };
+}
+
+// CTP payment dates are DDMMYYYYHHMMSS in IST
+function parseCtpDate(value: string | null): Date | null {
+  if (!value || !/^\d{8}(\d{6})?$/.test(value)) {
+    return null;
+  }
+  const [day, month, year] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 8)].map(Number);
+  const [hours, minutes, seconds] = value.length === 14
+    ? [value.slice(8, 10), value.slice(10, 12), value.slice(12, 14)].map(Number)
+    : [0, 0, 0];
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds) - IST_OFFSET_MS);
+}
+
+function formatIstDateTime(date: Date | null): string {
+  if (!date) {
+    return '';
+  }
+  return date.toLocaleString('en-IN', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone: 'Asia/Kolkata',
+  }).replace(',', '');
+}
+
+/**
+ * Where the challan ledger, the payments record and CTP verification disagree
+ */
+function findChallanFlags(
+  transaction: typeof himkoshTransactions.$inferSelect,
+  payment: typeof payments.$inferSelect | null
+): StatementFlag[] {
+  const flags: StatementFlag[] = [];
+
+  if (transaction.reconciliationIssue) {
+    flags.push(transaction.reconciliationIssue as ReconciliationIssue);
+  } else if (transaction.transactionStatus === 'amount_mismatch') {
+    flags.push('amount_mismatch');
+  }
+  if (!transaction.isDoubleVerified) {
+    flags.push('not_verified');
+  }
+
+  // The payments row is settled only for challans paid at the expected amount
+  if (transaction.transactionStatus === 'success' || transaction.transactionStatus === 'verified') {
+    if (!payment || !RECEIPTED_PAYMENT_STATUSES.includes(payment.paymentStatus || '')) {
+      flags.push('payment_missing');
+    } else if (
+      Math.round(parseFloat(payment.amount)) !== transaction.totalAmount ||
+      (payment.gatewayTransactionId && transaction.echTxnId && payment.gatewayTransactionId !== transaction.echTxnId)
+    ) {
+      flags.push('payment_mismatch');
+    }
+  }
+
+  return flags;
+}
+
+async function getChallanLines(window: StatementWindow, districtFilter?: SQL): Promise<StatementLine[]> {
+  const rows = await db
+    .select({
+      transaction: himkoshTransactions,
+      payment: payments,
+      district: homestayApplications.district,
+      applicationNumber: homestayApplications.applicationNumber,
+      propertyName: homestayApplications.propertyName,
+    })
+    .from(himkoshTransactions)
+    .leftJoin(homestayApplications, eq(himkoshTransactions.applicationId, homestayApplications.id))
+    .leftJoin(payments, and(
+      eq(payments.paymentGateway, 'himkosh'),
+      eq(payments.gatewayOrderId, himkoshTransactions.appRefNo)
+    ))
+    .where(and(
+      gte(himkoshTransactions.respondedAt, window.from),
+      lt(himkoshTransactions.respondedAt, window.to),
+      or(
+        inArray(himkoshTransactions.transactionStatus, COLLECTED_TRANSACTION_STATUSES),
+        isNotNull(himkoshTransactions.reconciliationIssue)
+      ),
+      districtFilter
+    ));
+
+  const lines: StatementLine[] = [];
+  for (const { transaction, payment, district, applicationNumber, propertyName } of rows) {
+    const flags = findChallanFlags(transaction, payment);
+    const heads: Array<[string | null, number | null]> = [
+      [transaction.head1, transaction.amount1],
+      [transaction.head2, transaction.amount2],
+      [transaction.head3, transaction.amount3],
+      [transaction.head4, transaction.amount4],
+      [transaction.head10 ? `Non-govt. (${transaction.head10})` : null, transaction.amount10],
+    ];
+    const booked = heads.filter((head): head is [string, number] => !!head[0] && !!head[1]);
+    if (booked.length === 0) {
+      booked.push([NOT_RECORDED, transaction.totalAmount]);
+    }
+
+    for (const [headOfAccount, amount] of booked) {
+      lines.push({
+        paidAt: parseCtpDate(transaction.paymentDate) || transaction.respondedAt,
+        district: district || NOT_RECORDED,
+        ddo: transaction.ddo || NOT_RECORDED,
+        headOfAccount,
+        bank: transaction.bankName || NOT_RECORDED,
+        amount,
+        himgrn: transaction.echTxnId,
+        bankCin: transaction.bankCIN,
+        reference: transaction.appRefNo,
+        applicationNumber,
+        propertyName,
+        receiptNumber: payment?.receiptNumber ?? null,
+        flags,
+        note: transaction.reconciliationNote,
+      });
+    }
+  }
+  return lines;
+}
+
+async function getGatewayLines(window: StatementWindow, districtFilter?: SQL): Promise<StatementLine[]> {
+  const rows = await db
+    .select({
+      payment: payments,
+      district: homestayApplications.district,
+      applicationNumber: homestayApplications.applicationNumber,
+      propertyName: homestayApplications.propertyName,
+    })
+    .from(payments)
+    .leftJoin(homestayApplications, eq(payments.applicationId, homestayApplications.id))
+    .where(and(
+      or(isNull(payments.paymentGateway), ne(payments.paymentGateway, 'himkosh')),
+      inArray(payments.paymentStatus, RECEIPTED_PAYMENT_STATUSES),
+      gte(payments.completedAt, window.from),
+      lt(payments.completedAt, window.to),
+      districtFilter
+    ));
+
+  const registrationHead = getHimKoshConfig().heads.registrationFee || NOT_RECORDED;
+  return rows.map(({ payment, district, applicationNumber, propertyName }) => ({
+    paidAt: payment.completedAt,
+    district: district || NOT_RECORDED,
+    ddo: NOT_RECORDED,
+    headOfAccount: registrationHead,
+    bank: payment.paymentGateway === OFFLINE_PAYMENT_GATEWAY
+      ? getOfflineModeLabel(payment.paymentMethod)
+      : payment.paymentGateway
+        ? getPaymentGateway(payment.paymentGateway)?.label || payment.paymentGateway.toUpperCase()
+        : 'Offline',
+    amount: Math.round(parseFloat(payment.amount)),
+    himgrn: null,
+    bankCin: payment.gatewayTransactionId,
+    reference: payment.gatewayOrderId || payment.id,
+    applicationNumber,
+    propertyName,
+    receiptNumber: payment.receiptNumber,
+    flags: [],
+    note: null,
+  }));
+}
+
+/**
+ * Build the statement for a window, optionally for one district
+ */
+export async function buildSettlementStatement(window: StatementWindow, district?: string): Promise<SettlementStatement> {
+  const districtFilter = district ? eq(homestayApplications.district, district) : undefined;
+  const lines = [
+    ...(await getChallanLines(window, districtFilter)),
+    ...(await getGatewayLines(window, districtFilter)),
+  ].sort((a, b) =>
+    a.district.localeCompare(b.district) ||
+    a.ddo.localeCompare(b.ddo) ||
+    a.headOfAccount.localeCompare(b.headOfAccount) ||
+    a.bank.localeCompare(b.bank) ||
+    (a.paidAt?.getTime() ?? 0) - (b.paidAt?.getTime() ?? 0)
+  );
+
+  const groups = new Map<string, StatementGroup>();
+  for (const line of lines) {
+    const key = [line.district, line.ddo, line.headOfAccount, line.bank].join('|');
+    const group = groups.get(key) || {
+      district: line.district,
+      ddo: line.ddo,
+      headOfAccount: line.headOfAccount,
+      bank: line.bank,
+      lines: 0,
+      amount: 0,
+      flagged: 0,
+    };
+    group.lines++;
+    group.amount += line.amount;
+    if (line.flags.length > 0) {
+      group.flagged++;
+    }
+    groups.set(key, group);
+  }
+
+  // A challan split across heads is one collection
+  const collections = new Set(lines.map(line => line.reference));
+  const flaggedCollections = new Set(lines.filter(line => line.flags.length > 0).map(line => line.reference));
+
+  return {
+    period: window.period,
+    label: window.label,
+    district: district || null,
+    from: window.from,
+    to: window.to,
+    generatedAt: new Date(),
+    lines,
+    groups: Array.from(groups.values()),
+    totals: {
+      collections: collections.size,
+      amount: lines.reduce((sum, line) => sum + line.amount, 0),
+      flaggedCollections: flaggedCollections.size,
+    },
+  };
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per statement line
+ */
+export function renderStatementCsv(statement: SettlementStatement): string {
+  const header = [
+    'Payment Date',
+    'District',
+    'DDO',
+    'Head of Account',
+    'Bank',
+    'Amount',
+    'HIMGRN',
+    'Bank CIN / Transaction ID',
+    'Reference',
+    'Application No.',
+    'Property',
+    'Receipt No.',
+    'Flags',
+    'Note',
+  ];
+  const rows = statement.lines.map(line => [
+    formatIstDateTime(line.paidAt),
+    line.district,
+    line.ddo,
+    line.headOfAccount,
+    line.bank,
+    line.amount,
+    line.himgrn,
+    line.bankCin,
+    line.reference,
+    line.applicationNumber,
+    line.propertyName,
+    line.receiptNumber,
+    line.flags.map(flag => STATEMENT_FLAG_LABELS[flag]).join('; '),
+    line.note,
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function formatRupees(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN')}`;
+}
+
+/**
+ * Totals by district, DDO, head and bank, then every line (A4 landscape)
+ */
+export function renderStatementPdf(statement: SettlementStatement): Buffer {
+  const doc = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const primaryGreen = [14, 116, 144];
+  const leftMargin = 12;
+  const bottomLimit = pageHeight - 15;
+  let yPosition = 18;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+  doc.text('Department of Tourism & Civil Aviation, Himachal Pradesh', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 7;
+  doc.setFontSize(15);
+  doc.setTextColor(40, 40, 40);
+  doc.text(`Treasury Settlement Statement - ${statement.label}`, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(90, 90, 90);
+  doc.text(
+    `${statement.district ? `District: ${statement.district}  |  ` : ''}Collections: ${statement.totals.collections}  |  Amount: ${formatRupees(statement.totals.amount)}  |  Flagged: ${statement.totals.flaggedCollections}  |  Generated: ${formatIstDateTime(statement.generatedAt)}`,
+    pageWidth / 2,
+    yPosition,
+    { align: 'center' }
+  );
+  yPosition += 4;
+
+  const table = (title: string, columns: Array<{ label: string; width: number; align?: 'right' }>, rows: string[][], flaggedRows: Set<number>) => {
+    const drawHeader = () => {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(8);
+      doc.setTextColor(255, 255, 255);
+      doc.setFillColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+      doc.rect(leftMargin, yPosition - 4, pageWidth - leftMargin * 2, 6, 'F');
+      let x = leftMargin + 1;
+      for (const column of columns) {
+        doc.text(column.label, column.align === 'right' ? x + column.width - 2 : x, yPosition, { align: column.align || 'left' });
+        x += column.width;
+      }
+      yPosition += 5;
+    };
+
+    yPosition += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(primaryGreen[0], primaryGreen[1], primaryGreen[2]);
+    doc.text(title, leftMargin, yPosition);
+    yPosition += 6;
+    drawHeader();
+
+    if (rows.length === 0) {
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(8);
+      doc.setTextColor(120, 120, 120);
+      doc.text('No collections in this period', leftMargin + 1, yPosition);
+      yPosition += 5;
+      return;
+    }
+
+    rows.forEach((row, index) => {
+      if (yPosition > bottomLimit) {
+        doc.addPage();
+        yPosition = 18;
+        drawHeader();
+      }
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7.5);
+      if (flaggedRows.has(index)) {
+        doc.setTextColor(185, 28, 28);
+      } else {
+        doc.setTextColor(30, 30, 30);
+      }
+      let x = leftMargin + 1;
+      row.forEach((value, column) => {
+        const { width, align } = columns[column];
+        const text = doc.splitTextToSize(value, width - 2)[0] || '';
+        doc.text(text, align === 'right' ? x + width - 2 : x, yPosition, { align: align || 'left' });
+        x += width;
+      });
+      yPosition += 4.5;
+    });
+  };
+
+  table(
+    'Totals by District, DDO, Head of Account and Bank',
+    [
+      { label: 'District', width: 50 },
+      { label: 'DDO', width: 40 },
+      { label: 'Head of Account', width: 55 },
+      { label: 'Bank', width: 40 },
+      { label: 'Lines', width: 25, align: 'right' },
+      { label: 'Flagged', width: 25, align: 'right' },
+      { label: 'Amount', width: 38, align: 'right' },
+    ],
+    statement.groups.map(group => [
+      group.district,
+      group.ddo,
+      group.headOfAccount,
+      group.bank,
+      String(group.lines),
+      String(group.flagged),
+      formatRupees(group.amount),
+    ]),
+    new Set(statement.groups.flatMap((group, index) => (group.flagged > 0 ? [index] : [])))
+  );
+
+  table(
+    'Collections',
+    [
+      { label: 'Payment Date', width: 28 },
+      { label: 'District', width: 24 },
+      { label: 'DDO', width: 22 },
+      { label: 'Head of Account', width: 30 },
+      { label: 'Bank', width: 20 },
+      { label: 'HIMGRN', width: 22 },
+      { label: 'Bank CIN / Txn ID', width: 34 },
+      { label: 'Application No.', width: 34 },
+      { label: 'Amount', width: 22, align: 'right' },
+      { label: 'Flags', width: 37 },
+    ],
+    statement.lines.map(line => [
+      formatIstDateTime(line.paidAt),
+      line.district,
+      line.ddo,
+      line.headOfAccount,
+      line.bank,
+      line.himgrn || '',
+      line.bankCin || '',
+      line.applicationNumber || line.reference,
+      formatRupees(line.amount),
+      line.flags.map(flag => STATEMENT_FLAG_LABELS[flag]).join(', '),
+    ]),
+    new Set(statement.lines.flatMap((line, index) => (line.flags.length > 0 ? [index] : [])))
+  );
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(7);
+    doc.setTextColor(120, 120, 120);
+    doc.text(
+      `HP Tourism eServices - Treasury Settlement Statement, ${statement.label}  |  Page ${page} of ${pageCount}`,
+      pageWidth / 2,
+      pageHeight - 7,
+      { align: 'center' }
+    );
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
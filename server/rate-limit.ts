@@ -0,0 +1,59 @@
+/**
+ * In-memory rate limiter for unauthenticated public endpoints
+ *
+ * Fixed window per client IP. State is per process, which is sufficient for
+ * a single app server; requests over the limit receive 429 with Retry-After.
+ * The client IP is req.ip, which relies on the 'trust proxy' hop count set in
+ * server/index.ts when the app runs behind a proxy.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+}
+
+interface RateLimitEntry {
+  count: number;
+  resetAt: number;
+}
+
+export function createRateLimiter(options: RateLimitOptions) {
+  const hits = new Map<string, RateLimitEntry>();
+
+  // Drop expired windows so the map does not grow without bound
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of Array.from(hits)) {
+      if (entry.resetAt <= now) {
+        hits.delete(key);
+      }
+    }
+  }, options.windowMs);
+  cleanup.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
+    const now = Date.now();
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+
+    res.setHeader('X-RateLimit-Limit', options.max);
+    res.setHeader('X-RateLimit-Remaining', Math.max(0, options.max - entry.count));
+
+    if (entry.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000));
+      return res.status(429).json({ message: options.message || "Too many requests. Please try again later." });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Renewal Service
+ *
+ * Lets owners renew a registration certificate without re-entering the property.
+ * A renewal is a new homestay_applications row pre-filled from the approved
+ * application; it goes through DA scrutiny and a DTDO decision but skips the
+ * site inspection (approve_renewal in shared/application-workflow.ts).
+ *
+ * When the renewal is paid, the certificate service issues a 'renewal'
+ * certificate linked to the old one and the old application is superseded.
+ */
+
+import { db } from './db';
+import { storage } from './storage';
+import { feeScheduleService, type ApplicationFeeFields } from './fee-schedule-service';
+import {
+  certificates,
+  insertHomestayApplicationSchema,
+  type Certificate,
+  type HomestayApplication,
+  type InsertHomestayApplication,
+} from '@shared/schema';
+import { TERMINAL_STATUSES, type ApplicationStatus } from '@shared/application-workflow';
+import { eq } from 'drizzle-orm';
+
+// Owners may start a renewal this many days before the certificate expires
+export const RENEWAL_WINDOW_DAYS = 90;
+
+// Property and owner details carried over from the approved application
+const CARRIED_OVER_FIELDS = [
+  'propertyName', 'category', 'locationType', 'totalRooms',
+  'district', 'districtOther', 'tehsil', 'tehsilOther', 'block', 'blockOther',
+  'gramPanchayat', 'gramPanchayatOther', 'urbanBody', 'urbanBodyOther', 'ward',
+  'address', 'pincode', 'telephone', 'fax', 'latitude', 'longitude',
+  'ownerName', 'ownerGender', 'ownerMobile', 'ownerEmail', 'ownerAadhaar', 'propertyOwnership',
+  'proposedRoomRate', 'projectType', 'propertyArea',
+  'singleBedRooms', 'singleBedRoomSize', 'singleBedRoomRate',
+  'doubleBedRooms', 'doubleBedRoomSize', 'doubleBedRoomRate',
+  'familySuites', 'familySuiteSize', 'familySuiteRate',
+  'attachedWashrooms', 'gstin', 'selectedCategory',
+  'averageRoomRate', 'highestRoomRate', 'lowestRoomRate',
+  'certificateValidityYears', 'isPangiSubDivision',
+  'distanceAirport', 'distanceRailway', 'distanceCityCenter', 'distanceShopping', 'distanceBusStand',
+  'lobbyArea', 'diningArea', 'parkingArea', 'ecoFriendlyFacilities', 'differentlyAbledFacilities',
+  'fireEquipmentDetails', 'nearestHospital', 'amenities', 'rooms', 'documents',
+] as const satisfies readonly (keyof HomestayApplication)[];
+
+type CarriedOverField = (typeof CARRIED_OVER_FIELDS)[number];
+type CarriedOverFields = Pick<HomestayApplication, CarriedOverField>;
+
+function pickCarriedOver(application: HomestayApplication): CarriedOverFields {
+  const carriedOver = {} as CarriedOverFields;
+  for (const field of CARRIED_OVER_FIELDS) {
+    copyField(carriedOver, application, field);
+  }
+  return carriedOver;
+}
+
+function copyField<K extends CarriedOverField>(target: CarriedOverFields, source: HomestayApplication, field: K): void {
+  target[field] = source[field];
+}
+
+const decimal = (value: string | null): number | undefined => (value === null ? undefined : Number(value));
+const text = (value: string | null): string | undefined => value ?? undefined;
+
+/**
+ * Carried-over row values as application form values: decimals as numbers, unset text as
+ * undefined, and enum columns checked against the form schema
+ */
+function toApplicationValues(fields: CarriedOverFields): Pick<InsertHomestayApplication, CarriedOverField> {
+  const formFields = insertHomestayApplicationSchema.shape;
+  return {
+    ...fields,
+    category: formFields.category.parse(fields.category),
+    locationType: formFields.locationType.parse(fields.locationType),
+    ownerGender: formFields.ownerGender.parse(fields.ownerGender),
+    projectType: formFields.projectType.parse(fields.projectType),
+    selectedCategory: formFields.selectedCategory.parse(fields.selectedCategory ?? undefined),
+    block: text(fields.block),
+    gramPanchayat: text(fields.gramPanchayat),
+    urbanBody: text(fields.urbanBody),
+    ward: text(fields.ward),
+    telephone: text(fields.telephone),
+    fax: text(fields.fax),
+    ownerEmail: text(fields.ownerEmail),
+    gstin: text(fields.gstin),
+    parkingArea: text(fields.parkingArea),
+    ecoFriendlyFacilities: text(fields.ecoFriendlyFacilities),
+    differentlyAbledFacilities: text(fields.differentlyAbledFacilities),
+    fireEquipmentDetails: text(fields.fireEquipmentDetails),
+    nearestHospital: text(fields.nearestHospital),
+    proposedRoomRate: decimal(fields.proposedRoomRate),
+    propertyArea: Number(fields.propertyArea),
+    singleBedRooms: fields.singleBedRooms ?? 0,
+    singleBedRoomSize: decimal(fields.singleBedRoomSize),
+    singleBedRoomRate: decimal(fields.singleBedRoomRate),
+    doubleBedRooms: fields.doubleBedRooms ?? 0,
+    doubleBedRoomSize: decimal(fields.doubleBedRoomSize),
+    doubleBedRoomRate: decimal(fields.doubleBedRoomRate),
+    familySuites: fields.familySuites ?? 0,
+    familySuiteSize: decimal(fields.familySuiteSize),
+    familySuiteRate: decimal(fields.familySuiteRate),
+    averageRoomRate: decimal(fields.averageRoomRate),
+    highestRoomRate: decimal(fields.highestRoomRate),
+    lowestRoomRate: decimal(fields.lowestRoomRate),
+    certificateValidityYears: fields.certificateValidityYears ?? 1,
+    isPangiSubDivision: fields.isPangiSubDivision ?? false,
+    distanceAirport: decimal(fields.distanceAirport),
+    distanceRailway: decimal(fields.distanceRailway),
+    distanceCityCenter: decimal(fields.distanceCityCenter),
+    distanceShopping: decimal(fields.distanceShopping),
+    distanceBusStand: decimal(fields.distanceBusStand),
+    lobbyArea: decimal(fields.lobbyArea),
+    diningArea: decimal(fields.diningArea),
+  };
+}
+
+export interface RenewalEligibility {
+  eligible: boolean;
+  reason?: string;
+  opensAt: Date;
+  // Renewal already in progress (or approved) for this certificate
+  renewalApplicationId?: string;
+}
+
+export interface RenewalFeeDetails {
+  category: string;
+  locationType: string;
+  certificateValidityYears?: number | null;
+  ownerGender?: string | null;
+  isPangiSubDivision?: boolean | null;
+}
+
+export class RenewalService {
+  /**
+   * Whether the owner can start a renewal of this certificate now
+   */
+  async getEligibility(certificate: Certificate): Promise<RenewalEligibility> {
+    const opensAt = new Date(certificate.validUpto);
+    opensAt.setDate(opensAt.getDate() - RENEWAL_WINDOW_DAYS);
+
+    if (certificate.renewalApplicationId) {
+      const renewal = await storage.getApplication(certificate.renewalApplicationId);
+      if (renewal && !TERMINAL_STATUSES.includes(renewal.status as ApplicationStatus)) {
+        return {
+          eligible: false,
+          reason: "A renewal application for this certificate is already in progress",
+          opensAt,
+          renewalApplicationId: renewal.id,
+        };
+      }
+    }
+
+    if (certificate.status !== 'active' && certificate.status !== 'expired') {
+      return { eligible: false, reason: `A ${certificate.status} certificate cannot be renewed`, opensAt };
+    }
+
+    if (new Date() < opensAt) {
+      return {
+        eligible: false,
+        reason: `Renewal opens ${RENEWAL_WINDOW_DAYS} days before the certificate expires`,
+        opensAt,
+      };
+    }
+
+    return { eligible: true, opensAt };
+  }
+
+  /**
+   * Renewal fee for a renewal application, assessed today against the certificate it renews
+   */
+  async calculateFees(renewal: HomestayApplication, details: RenewalFeeDetails = renewal): Promise<ApplicationFeeFields> {
+    const [previous] = renewal.parentApplicationId
+      ? await db
+          .select({ validUpto: certificates.validUpto })
+          .from(certificates)
+          .where(eq(certificates.applicationId, renewal.parentApplicationId))
+          .limit(1)
+      : [];
+
+    return this.feesUnderScheduleInForce(details, previous?.validUpto);
+  }
+
+  /**
+   * Renewal fee under the schedule in force today, including the late fee
+   * if the previous certificate lapsed beyond the grace period
+   */
+  private async feesUnderScheduleInForce(details: RenewalFeeDetails, previousExpiryDate?: Date | null): Promise<ApplicationFeeFields> {
+    return feeScheduleService.assessApplicationFee({
+      ...details,
+      applicationType: 'renewal',
+      previousExpiryDate,
+    });
+  }
+
+  /**
+   * Create a renewal draft pre-filled from the approved application and link it to the certificate
+   */
+  async startRenewal(certificate: Certificate, application: HomestayApplication): Promise<HomestayApplication> {
+    const values: InsertHomestayApplication = {
+      ...toApplicationValues(pickCarriedOver(application)),
+      ...(await this.feesUnderScheduleInForce(application, certificate.validUpto)),
+      userId: application.userId,
+      applicationType: 'renewal',
+      parentApplicationId: application.id,
+      status: 'draft',
+    };
+    const renewal = await storage.createApplication(values);
+
+    await db
+      .update(certificates)
+      .set({ renewalApplicationId: renewal.id, updatedAt: new Date() })
+      .where(eq(certificates.id, certificate.id));
+
+    console.log(`[renewal] Started ${renewal.applicationNumber} to renew ${certificate.certificateNumber}`);
+
+    return renewal;
+  }
+}
+
+export const renewalService = new RenewalService();
@@ -20,6 +20,8 @@ import {
   inspectionReports,
   objections,
   clarifications,
+  insertObjectionSchema,
+  type Objection,
   certificates,
   notifications,
   applicationActions,
@@ -29,6 +31,8 @@ import {
   ddoCodes,
   systemSettings,
   type SystemSetting,
+  insertFeeScheduleSchema,
+  insertDdoCodeSchema,
   lgdDistricts,
   lgdTehsils,
   lgdBlocks,
@@ -37,11 +41,79 @@ import {
 } from "@shared/schema";
 import { z } from "zod";
 import bcrypt from "bcrypt";
-import { eq, desc, ne, notInArray, and, sql } from "drizzle-orm";
-import { startScraperScheduler } from "./scraper";
+import { eq, desc, ne, inArray, notInArray, and, or, lt, sql, isNotNull, asc } from "drizzle-orm";
+import {
+  startScraperScheduler,
+  startObjectionEscalationScheduler,
+  getObjectionPolicy,
+  DEFAULT_OBJECTION_POLICY,
+  OBJECTION_POLICY_SETTING_KEY,
+  startRenewalScheduler,
+  getRenewalReminderSettings,
+  RENEWAL_REMINDER_SETTING_KEY,
+  startReconciliationScheduler,
+} from "./scraper";
 import { ObjectStorageService } from "./objectStorage";
 import himkoshRoutes from "./himkosh/routes";
+import { reconcileHimkoshTransactions } from "./himkosh/reconciliation";
+import { getHimKoshConfig } from "./himkosh/config";
+import { HIMKOSH_ROUTING_SETTING_KEY, getHimkoshRoutingSettings } from "./himkosh/challan-routing";
 import { registerDocumentRoutes } from "./document-routes";
+import { registerPaymentGatewayRoutes } from "./payments/routes";
+import {
+  PAYMENT_GATEWAY_SETTING_KEY,
+  getPaymentGatewaySettings,
+  getPaymentGateway,
+} from "./payments/service";
+import { PAYMENT_GATEWAY_IDS } from "./payments/gateway";
+import { refundService, RefundError } from "./payments/refunds";
+import { receiptService, RECEIPTED_PAYMENT_STATUSES } from "./payments/receipts";
+import { issuePaymentReceipt } from "./payments/completion";
+import {
+  offlinePaymentService,
+  OfflinePaymentError,
+  OFFLINE_PAYMENT_MODES,
+  type OfflinePaymentMode,
+} from "./payments/offline";
+import {
+  getStatementWindow,
+  buildSettlementStatement,
+  renderStatementCsv,
+  renderStatementPdf,
+} from "./payments/settlement-statement";
+import { documentService, DocumentVerificationError, type DocumentMetadata } from "./document-service";
+import {
+  uploadVerificationService,
+  UploadRejectedError,
+  getApplicationUploadPrefix,
+  getOwnerUploadPrefix,
+} from "./upload-verification";
+import { imageProcessingService } from "./image-processing";
+import {
+  certificateService,
+  verifyCertificateSignature,
+  CERTIFICATE_STATUS_ACTIONS,
+  type CertificateStatusAction,
+} from "./certificate-service";
+import { createRateLimiter } from "./rate-limit";
+import { renewalService } from "./renewal-service";
+import {
+  feeScheduleService,
+  describeFeeAssessment,
+  type ApplicationFeeDetails,
+  type ApplicationFeeFields,
+} from "./fee-schedule-service";
+import { isInPangiSubDivision } from "@shared/fee-calculator";
+import { transitionApplication } from "./workflow";
+import { WorkflowTransitionError, WORKFLOW_QUEUES, canTransition, type WorkflowAction } from "@shared/application-workflow";
+import {
+  evaluateDocumentChecklist,
+  getOutstandingDocuments,
+  getUnverifiedRequiredDocuments,
+  describeOutstandingDocument,
+  type DocumentRequirementInput,
+  type DocumentChecklistItem,
+} from "@shared/required-documents";
 
 // Extend express-session types
 declare module 'express-session' {
@@ -62,6 +134,90 @@ const ROLE_HIERARCHY: Record<string, string[]> = {
   'super_admin': ['super_admin', 'admin'], // super_admin inherits all admin permissions
 };
 
+// Objection statuses in which the applicant may (re)submit a clarification
+const OPEN_OBJECTION_STATUSES = ['pending', 'escalated'];
+
+// A submitted fee total may differ from the assessed fee by rounding only (₹)
+const FEE_MISMATCH_TOLERANCE = 1;
+
+// Authoritative fee for an application being (re)submitted; renewals include any late fee
+async function assessSubmittedFee(
+  application: HomestayApplication | undefined,
+  details: ApplicationFeeDetails
+): Promise<ApplicationFeeFields> {
+  if (application?.applicationType === 'renewal') {
+    return renewalService.calculateFees(application, details);
+  }
+  return feeScheduleService.assessApplicationFee(details);
+}
+
+// Verify the owner's uploaded ANNEXURE-II files (upload scope, size, real type, virus scan)
+// and return the metadata to record; files already recorded for the application are skipped.
+// Throws UploadRejectedError.
+async function finalizeSubmittedDocuments(
+  applicationId: string | undefined,
+  ownerId: string,
+  submitted: Array<{ documentType?: string; fileName?: string; filePath?: string }> = []
+): Promise<DocumentMetadata[]> {
+  const recordedPaths = new Set(
+    applicationId ? (await storage.getDocumentsByApplication(applicationId)).map(doc => doc.filePath) : []
+  );
+  const filesByType = new Map<string, Array<{ fileName: string; filePath: string }>>();
+  for (const doc of submitted) {
+    if (!doc.documentType || !doc.fileName || !doc.filePath || recordedPaths.has(doc.filePath)) {
+      continue;
+    }
+    recordedPaths.add(doc.filePath);
+    filesByType.set(doc.documentType, [...(filesByType.get(doc.documentType) || []), { fileName: doc.fileName, filePath: doc.filePath }]);
+  }
+
+  const verified: DocumentMetadata[] = [];
+  for (const [documentType, files] of Array.from(filesByType)) {
+    verified.push(...await uploadVerificationService.finalizeUploads(applicationId, documentType, files, ownerId));
+  }
+  return verified;
+}
+
+// Required ANNEXURE-II documents still missing (or only rejected) once the verified documents
+// being submitted are added to the application's latest-version documents
+async function findOutstandingDocuments(
+  applicationId: string | undefined,
+  details: DocumentRequirementInput,
+  submitted: DocumentMetadata[] = []
+): Promise<DocumentChecklistItem[]> {
+  const onRecord = applicationId ? await documentService.getApplicationDocuments(applicationId) : [];
+  const incoming = submitted.map(doc => ({ documentType: doc.documentType }));
+  return getOutstandingDocuments(evaluateDocumentChecklist(details, [...onRecord, ...incoming]));
+}
+
+function sendOutstandingDocumentsError(res: Response, outstanding: DocumentChecklistItem[]) {
+  return res.status(400).json({
+    message: `Required documents missing: ${outstanding.map(describeOutstandingDocument).join(", ")}`,
+    missingDocuments: outstanding.map(item => ({
+      documentType: item.documentType,
+      label: item.label,
+      status: item.status,
+      count: item.count,
+      minCount: item.minCount,
+    })),
+  });
+}
+
+// Workflow action for each site inspection outcome
+const SITE_INSPECTION_OUTCOME_ACTIONS: Record<string, WorkflowAction> = {
+  approved: 'site_inspection_passed',
+  corrections_needed: 'site_inspection_corrections',
+  rejected: 'site_inspection_failed',
+};
+
+// The DA records document decisions only while the application is under scrutiny
+const DOCUMENT_SCRUTINY_STATUSES = ['under_scrutiny'];
+
+const documentVerificationSchema = z.object({
+  status: z.enum(['pending', 'verified', 'rejected', 'needs_correction']),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
 // Get effective roles for a user (includes inherited roles)
 function getEffectiveRoles(userRole: string): string[] {
   return ROLE_HIERARCHY[userRole] || [userRole];
@@ -324,8 +480,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/upload-url", requireAuth, async (req, res) => {
     try {
       const fileType = (req.query.fileType as string) || "document";
+      if (!/^[a-z0-9-]+(\/[a-z0-9-]+)*$/i.test(fileType)) {
+        return res.status(400).json({ message: "Invalid file type" });
+      }
+
+      // Uploads for an application are issued under its own prefix, and an owner's uploads
+      // before the application exists under theirs (checked when the document is recorded)
+      const applicationId = req.query.applicationId as string | undefined;
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      let scope = user?.role === 'property_owner' ? getOwnerUploadPrefix(userId) : "";
+      if (applicationId) {
+        const application = await storage.getApplication(applicationId);
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+        const noAccess = user?.role === 'property_owner'
+          ? application.userId !== userId
+          : (user?.district && application.district !== user.district);
+        if (noAccess) {
+          return res.status(403).json({ message: "You cannot upload files to this application" });
+        }
+        scope = getApplicationUploadPrefix(applicationId);
+      }
+
       const objectStorageService = new ObjectStorageService();
-      const uploadURL = await objectStorageService.getUploadURL(fileType);
+      const uploadURL = await objectStorageService.getUploadURL(fileType, scope);
       const filePath = objectStorageService.normalizeObjectPath(uploadURL);
       res.json({ uploadUrl: uploadURL, filePath });
     } catch (error) {
@@ -400,18 +580,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fireEquipmentDetails: z.string().optional(),
         nearestHospital: z.string().optional(),
         amenities: z.any().optional(),
-        // 2025 Fee Structure - handle NaN for incomplete drafts
-        // Improved NaN handler: catches NaN whether it's a number type, null, or string "NaN"
-        baseFee: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        totalBeforeDiscounts: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        validityDiscount: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        femaleOwnerDiscount: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        pangiDiscount: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        totalDiscount: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        totalFee: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        // Legacy fields
-        perRoomFee: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
-        gstAmount: z.preprocess((val) => (val == null || (typeof val === 'number' && isNaN(val)) || val === 'NaN') ? undefined : val, z.coerce.number().optional()),
+        // No fee fields: fees are assessed by the server at submission
         // 2025 Fields
         certificateValidityYears: z.coerce.number().optional(),
         isPangiSubDivision: z.boolean().optional(),
@@ -440,6 +609,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       let application;
       if (existingApp) {
+        // Submitted applications change through their own routes (corrections, payment), never as a draft
+        if (existingApp.status !== 'draft') {
+          return res.status(400).json({
+            message: "You already have a submitted application. It can no longer be saved as a draft."
+          });
+        }
         // Update existing application instead of creating a new one
         application = await storage.updateApplication(existingApp.id, {
           ...validatedData,
@@ -482,11 +657,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to update this application" });
       }
       
-      // ONE-APPLICATION-PER-OWNER: Allow updates for non-terminal applications
-      // Terminal states: rejected, approved, withdrawn
-      const terminalStatuses = ['rejected', 'approved', 'withdrawn'];
-      if (terminalStatuses.includes(existing.status)) {
-        return res.status(400).json({ message: "Cannot update applications in terminal state (rejected/approved/withdrawn)" });
+      // Only drafts and applications sent back for corrections are editable; the
+      // fee is assessed again when they are (re)submitted
+      if (existing.status !== 'draft' && !canTransition('resubmit', existing.status, 'property_owner')) {
+        return res.status(400).json({ message: "This application can no longer be edited" });
       }
       
       // Same minimal validation as create draft
@@ -565,9 +739,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
                         (validatedData.doubleBedRooms || 0) + 
                         (validatedData.familySuites || 0);
 
+      // Fee fields are a preview until submission assesses them; never overwrite an assessed fee
+      const {
+        baseFee, totalBeforeDiscounts, validityDiscount, femaleOwnerDiscount,
+        pangiDiscount, totalDiscount, totalFee, perRoomFee, gstAmount, ...draftDetails
+      } = validatedData;
+      const feePreview = existing.status === 'draft'
+        ? { baseFee, totalBeforeDiscounts, validityDiscount, femaleOwnerDiscount, pangiDiscount, totalDiscount, totalFee, perRoomFee, gstAmount }
+        : {};
+
       // Update draft application
       const updated = await storage.updateApplication(id, {
-        ...validatedData,
+        ...draftDetails,
+        ...feePreview,
         totalRooms: totalRooms || existing.totalRooms,
       } as any);
 
@@ -605,6 +789,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ownerMobile: z.string(),
         ownerEmail: z.string().optional(),
         ownerAadhaar: z.string(),
+        propertyOwnership: z.enum(['owned', 'leased']).optional(),
         
         // Room & category details
         proposedRoomRate: z.coerce.number(),
@@ -705,6 +890,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // ONE-APPLICATION-PER-OWNER RULE: Check if user already has an active application
       const existingApp = await storage.getUserActiveApplication(userId);
       
+      // Fees are assessed here from the validated inputs; the client total is only checked against it
+      const tehsil = validatedData.tehsil ?? existingApp?.tehsil;
+      const isPangiSubDivision = isInPangiSubDivision(validatedData.district, tehsil);
+      const fees = await assessSubmittedFee(existingApp, {
+        category: validatedData.category,
+        locationType: validatedData.locationType,
+        certificateValidityYears: validatedData.certificateValidityYears ?? existingApp?.certificateValidityYears,
+        ownerGender: validatedData.ownerGender ?? existingApp?.ownerGender,
+        isPangiSubDivision,
+      });
+      if (Math.abs(Number(fees.totalFee) - validatedData.totalFee) > FEE_MISMATCH_TOLERANCE) {
+        console.warn(`[fees] Submitted total ₹${validatedData.totalFee} does not match assessed ₹${fees.totalFee} for user ${userId}`);
+        return res.status(400).json({
+          message: `The fee shown (₹${validatedData.totalFee}) does not match the applicable fee (₹${fees.totalFee}). Please review the fee summary and submit again.`,
+          expectedTotalFee: Number(fees.totalFee),
+        });
+      }
+
+      // ANNEXURE-II: every document required for these details must be on record,
+      // counting only uploads that pass verification
+      const submittedDocuments = await finalizeSubmittedDocuments(existingApp?.id, userId, validatedData.documents);
+      const outstandingDocuments = await findOutstandingDocuments(existingApp?.id, {
+        category: validatedData.category,
+        locationType: validatedData.locationType,
+        projectType: validatedData.projectType,
+        propertyOwnership: validatedData.propertyOwnership ?? existingApp?.propertyOwnership,
+      }, submittedDocuments);
+      if (outstandingDocuments.length > 0) {
+        return sendOutstandingDocumentsError(res, outstandingDocuments);
+      }
+      
       // Build payload with ONLY allowed fields (ANNEXURE-I compliant)
       const applicationData = {
         // Basic property info
@@ -723,6 +939,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ownerMobile: validatedData.ownerMobile,
         ownerEmail: validatedData.ownerEmail,
         ownerAadhaar: validatedData.ownerAadhaar,
+        propertyOwnership: validatedData.propertyOwnership,
         
         // Room & category details
         proposedRoomRate: validatedData.proposedRoomRate,
@@ -761,21 +978,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Amenities
         amenities: validatedData.amenities,
         
-        // 2025 Fee Structure (from frontend, convert to strings for DB)
-        baseFee: String(validatedData.baseFee),
-        totalBeforeDiscounts: validatedData.totalBeforeDiscounts ? String(validatedData.totalBeforeDiscounts) : undefined,
-        validityDiscount: validatedData.validityDiscount ? String(validatedData.validityDiscount) : undefined,
-        femaleOwnerDiscount: validatedData.femaleOwnerDiscount ? String(validatedData.femaleOwnerDiscount) : undefined,
-        pangiDiscount: validatedData.pangiDiscount ? String(validatedData.pangiDiscount) : undefined,
-        totalDiscount: validatedData.totalDiscount ? String(validatedData.totalDiscount) : undefined,
-        totalFee: String(validatedData.totalFee),
+        // 2025 Fee Structure (assessed above under the fee schedule in force)
+        ...fees,
         // Legacy fields
         perRoomFee: validatedData.perRoomFee ? String(validatedData.perRoomFee) : undefined,
         gstAmount: validatedData.gstAmount ? String(validatedData.gstAmount) : undefined,
         
         // 2025 Fields
         certificateValidityYears: validatedData.certificateValidityYears,
-        isPangiSubDivision: validatedData.isPangiSubDivision,
+        isPangiSubDivision,
         ownerGender: validatedData.ownerGender,
         tehsil: validatedData.tehsil,
         
@@ -784,40 +995,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         longitude: validatedData.longitude,
         
         userId,
-        status: 'submitted',
-        submittedAt: new Date(),
       };
       
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
       // ONE-APPLICATION-PER-OWNER: Update existing or create new
+      // Status change goes through the workflow (draft → submitted, or corrections → submitted)
+      // The assessed fee is recorded on the submission's application_actions row
       let application;
       if (existingApp) {
-        // Update existing application and change status to submitted
-        application = await storage.updateApplication(existingApp.id, {
-          ...applicationData,
-          status: 'submitted',
-          submittedAt: new Date(),
-        } as any);
+        application = await transitionApplication(existingApp, {
+          action: existingApp.status === 'draft' ? 'submit' : 'resubmit',
+          actor: user,
+          feedback: describeFeeAssessment(fees),
+          updates: applicationData as any,
+        });
       } else {
-        // Create new application only if none exists
-        application = await storage.createApplication(applicationData, { trusted: true });
-      }
-      
-      if (!application) {
-        return res.status(500).json({ message: "Failed to save application" });
+        // Create new application as draft, then submit it
+        const draft = await storage.createApplication(applicationData);
+        application = await transitionApplication(draft, {
+          action: 'submit',
+          actor: user,
+          feedback: describeFeeAssessment(fees),
+        });
       }
       
-      // Save documents with actual metadata if provided
-      if (validatedData.documents && validatedData.documents.length > 0) {
-        for (const doc of validatedData.documents) {
-          await storage.createDocument({
+      // Record the verified documents with the metadata read from storage
+      if (submittedDocuments.length > 0) {
+        const createdDocuments = [];
+        for (const doc of submittedDocuments) {
+          createdDocuments.push(await storage.createDocument({
             applicationId: application.id,
             documentType: doc.documentType,
             fileName: doc.fileName,
             filePath: doc.filePath,
             fileSize: doc.fileSize,
             mimeType: doc.mimeType,
-          });
+          }));
         }
+        // Thumbnails and web-size copies of the property photos
+        imageProcessingService.processInBackground(createdDocuments);
       }
       
       res.json({ application });
@@ -826,6 +1046,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Validation error:", error.errors);
         return res.status(400).json({ message: error.errors[0].message });
       }
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Application creation error:", error);
       res.status(500).json({ message: "Failed to create application" });
     }
@@ -943,7 +1169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Can only update if sent back for corrections or reverted to applicant by DA or DTDO
-      if (application.status !== 'sent_back_for_corrections' && application.status !== 'reverted_to_applicant' && application.status !== 'reverted_by_dtdo') {
+      if (!canTransition('resubmit', application.status, 'property_owner')) {
         return res.status(400).json({ message: "Application can only be updated when sent back for corrections" });
       }
       
@@ -1086,33 +1312,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = updateSchema.parse(req.body);
       
+      // Re-assess the fee from the corrected details; client fee fields are never stored
+      const {
+        baseFee, totalBeforeDiscounts, validityDiscount, femaleOwnerDiscount,
+        pangiDiscount, totalDiscount, totalFee, ...correctedData
+      } = validatedData;
+      const isPangiSubDivision = isInPangiSubDivision(
+        validatedData.district ?? application.district,
+        validatedData.tehsil ?? application.tehsil
+      );
+      const fees = await assessSubmittedFee(application, {
+        category: validatedData.category ?? application.category,
+        locationType: validatedData.locationType ?? application.locationType,
+        certificateValidityYears: validatedData.certificateValidityYears ?? application.certificateValidityYears,
+        ownerGender: validatedData.ownerGender ?? application.ownerGender,
+        isPangiSubDivision,
+      });
+      if (totalFee !== undefined && Math.abs(Number(fees.totalFee) - totalFee) > FEE_MISMATCH_TOLERANCE) {
+        console.warn(`[fees] Resubmitted total ₹${totalFee} does not match assessed ₹${fees.totalFee} for ${application.applicationNumber}`);
+        return res.status(400).json({
+          message: `The fee shown (₹${totalFee}) does not match the applicable fee (₹${fees.totalFee}). Please review the fee summary and submit again.`,
+          expectedTotalFee: Number(fees.totalFee),
+        });
+      }
+
+      // Newly uploaded files become documents once verified (see below)
+      const newDocuments = await finalizeSubmittedDocuments(application.id, userId, validatedData.documents);
+      const outstandingDocuments = await findOutstandingDocuments(application.id, {
+        category: validatedData.category ?? application.category,
+        locationType: validatedData.locationType ?? application.locationType,
+        projectType: validatedData.projectType ?? application.projectType,
+        propertyOwnership: validatedData.propertyOwnership ?? application.propertyOwnership,
+      }, newDocuments);
+      if (outstandingDocuments.length > 0) {
+        return sendOutstandingDocumentsError(res, outstandingDocuments);
+      }
+      
       // Update the application and change status back to submitted
       // NOTE: Clearing clarificationRequested and dtdoRemarks removes officer feedback
-      // from the application record. If audit trail is required, consider logging
-      // these to an application_actions table before clearing.
-      const updatedApplication = await storage.updateApplication(id, {
-        ...validatedData,
-        status: 'submitted',
-        submittedAt: new Date(),
-        clarificationRequested: null, // Clear DA feedback after resubmission
-        dtdoRemarks: null, // Clear DTDO feedback after resubmission
+      // from the application record; the workflow keeps it on the application_actions row.
+      const owner = await storage.getUser(userId);
+      if (!owner) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const updatedApplication = await transitionApplication(application, {
+        action: 'resubmit',
+        actor: owner,
+        feedback: [application.clarificationRequested || application.dtdoRemarks, describeFeeAssessment(fees)]
+          .filter(Boolean)
+          .join('\n'),
+        updates: {
+          ...correctedData,
+          ...fees,
+          isPangiSubDivision,
+          clarificationRequested: null, // Clear DA feedback after resubmission
+          dtdoRemarks: null, // Clear DTDO feedback after resubmission
+        } as Partial<HomestayApplication>,
       });
       
-      // Create document records if documents array is provided
-      if (validatedData.documents && validatedData.documents.length > 0) {
-        for (const doc of validatedData.documents) {
-          // Only create documents that have all required fields including fileSize
-          if (doc.filePath && doc.fileName && doc.fileSize && doc.mimeType && doc.documentType) {
-            await storage.createDocument({
-              applicationId: id,
-              documentType: doc.documentType,
-              fileName: doc.fileName,
-              filePath: doc.filePath,
-              fileSize: doc.fileSize,
-              mimeType: doc.mimeType,
-            });
-          }
+      // Record the verified documents with the metadata read from storage
+      if (newDocuments.length > 0) {
+        const createdDocuments = [];
+        for (const doc of newDocuments) {
+          createdDocuments.push(await storage.createDocument({
+            applicationId: id,
+            documentType: doc.documentType,
+            fileName: doc.fileName,
+            filePath: doc.filePath,
+            fileSize: doc.fileSize,
+            mimeType: doc.mimeType,
+          }));
         }
+        imageProcessingService.processInBackground(createdDocuments);
       }
       
       res.json({ application: updatedApplication });
@@ -1121,6 +1393,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Resubmit validation error:", JSON.stringify(error.errors, null, 2));
         return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
       }
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error updating application:", error);
       res.status(500).json({ message: "Failed to update application" });
     }
@@ -1156,52 +1434,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only review applications in your district" });
       }
 
-      // Validate application is in correct status for this officer role
-      if (user.role === "district_officer" && application.status !== "pending") {
-        return res.status(400).json({ message: "This application is not in pending status and cannot be reviewed by district officer" });
-      }
-      
-      if (user.role === "state_officer" && application.status !== "state_review") {
-        return res.status(400).json({ message: "This application is not in state review status and cannot be reviewed by state officer" });
-      }
-
       // Prepare update based on officer role and action
+      // The workflow validates the current status for each officer role
       const updateData: Partial<HomestayApplication> = {};
+      let workflowAction: WorkflowAction;
 
       if (user.role === "district_officer") {
-        updateData.districtOfficerId = user.id;
-        updateData.districtReviewDate = new Date();
         updateData.districtNotes = comments || null;
         
         if (action === "approve") {
           // District approval moves to state review
-          updateData.status = "state_review";
+          workflowAction = "district_approve";
           updateData.currentStage = "state";
         } else {
           // District rejection is final
-          updateData.status = "rejected";
+          workflowAction = "district_reject";
           updateData.rejectionReason = comments || "Rejected at district level";
         }
-      } else if (user.role === "state_officer") {
-        updateData.stateOfficerId = user.id;
-        updateData.stateReviewDate = new Date();
+      } else {
         updateData.stateNotes = comments || null;
         
         if (action === "approve") {
           // State approval is final approval
-          updateData.status = "approved";
-          updateData.approvedAt = new Date();
+          workflowAction = "state_approve";
           updateData.currentStage = "final";
         } else {
           // State rejection is final
-          updateData.status = "rejected";
+          workflowAction = "state_reject";
           updateData.rejectionReason = comments || "Rejected at state level";
         }
       }
 
-      const updated = await storage.updateApplication(id, updateData);
+      const updated = await transitionApplication(application, {
+        action: workflowAction,
+        actor: user,
+        feedback: comments,
+        updates: updateData,
+      });
       res.json({ application: updated });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      console.error("Review error:", error);
       res.status(500).json({ message: "Failed to review application" });
     }
   });
@@ -1227,13 +1502,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update application status
-      const updated = await storage.updateApplication(id, {
-        status: 'sent_back_for_corrections',
-        clarificationRequested: feedback,
+      const updated = await transitionApplication(application, {
+        action: 'send_back_for_corrections',
+        actor: user,
+        feedback,
+        issuesFound: Array.isArray(issuesFound) ? issuesFound : undefined,
+        updates: { clarificationRequested: feedback },
       });
 
       res.json({ application: updated, message: "Application sent back to applicant" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("Send back error:", error);
       res.status(500).json({ message: "Failed to send back application" });
     }
@@ -1256,16 +1537,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update application
-      const updated = await storage.updateApplication(id, {
-        status: 'site_inspection_scheduled',
-        currentStage: 'site_inspection',
-        siteInspectionScheduledDate: scheduledDate ? new Date(scheduledDate) : new Date(),
-        siteInspectionOfficerId: user.id,
-        siteInspectionNotes: notes,
+      const updated = await transitionApplication(application, {
+        action: 'schedule_site_inspection',
+        actor: user,
+        feedback: notes,
+        updates: {
+          currentStage: 'site_inspection',
+          siteInspectionScheduledDate: scheduledDate ? new Date(scheduledDate) : new Date(),
+          siteInspectionNotes: notes,
+        },
       });
 
       res.json({ application: updated, message: "Site inspection scheduled" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("Move to inspection error:", error);
       res.status(500).json({ message: "Failed to schedule inspection" });
     }
@@ -1287,10 +1574,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Application not found" });
       }
 
-      // Validate outcome
-      if (!['approved', 'corrections_needed', 'rejected'].includes(outcome)) {
+      // Validate outcome; a missing or unknown outcome never advances the application
+      if (typeof outcome !== 'string' || !Object.prototype.hasOwnProperty.call(SITE_INSPECTION_OUTCOME_ACTIONS, outcome)) {
         return res.status(400).json({ message: "Invalid inspection outcome" });
       }
+      const workflowAction = SITE_INSPECTION_OUTCOME_ACTIONS[outcome];
 
       // Validate that issuesFound is provided for corrections_needed or rejected outcomes
       if ((outcome === 'corrections_needed' || outcome === 'rejected') && 
@@ -1300,29 +1588,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Determine next status based on outcome
-      let newStatus;
-      let clarificationRequested = null;
-      
-      switch (outcome) {
-        case 'approved':
-          newStatus = 'payment_pending';
-          break;
-        case 'corrections_needed':
-          newStatus = 'sent_back_for_corrections';
-          clarificationRequested = findings?.issuesFound || notes || 'Site inspection found issues that need correction';
-          break;
-        case 'rejected':
-          newStatus = 'rejected';
-          break;
-        default:
-          newStatus = 'inspection_completed';
-      }
+      const clarificationRequested = outcome === 'corrections_needed'
+        ? findings?.issuesFound || notes || 'Site inspection found issues that need correction'
+        : null;
 
       // Update application with inspection results and outcome
       const updateData: any = {
-        status: newStatus,
-        siteInspectionCompletedDate: new Date(),
         siteInspectionOutcome: outcome,
         siteInspectionFindings: findings || {},
         siteInspectionNotes: notes,
@@ -1335,24 +1606,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.clarificationRequested = clarificationRequested;
       }
 
-      const updated = await storage.updateApplication(id, updateData);
+      const updated = await transitionApplication(application, {
+        action: workflowAction,
+        actor: user,
+        feedback: notes || findings?.issuesFound,
+        updates: updateData,
+      });
 
       res.json({ application: updated, message: "Inspection completed successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("Complete inspection error:", error);
       res.status(500).json({ message: "Failed to complete inspection" });
     }
   });
 
-  // Get Application Action History (disabled - table doesn't exist yet)
-  // app.get("/api/applications/:id/actions", requireRole('district_officer', 'state_officer', 'property_owner'), async (req, res) => {
-  //   try {
-  //     const actions = await storage.getApplicationActions(req.params.id);
-  //     res.json({ actions });
-  //   } catch (error) {
-  //     res.status(500).json({ message: "Failed to fetch application history" });
-  //   }
-  // });
+  // Get Application Action History (workflow transitions)
+  app.get("/api/applications/:id/actions", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const application = await storage.getApplication(req.params.id);
+      if (!user || !application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      // Owners can only see their own application history
+      if (user.role === 'property_owner' && application.userId !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const actions = await storage.getApplicationActions(req.params.id);
+      res.json({ actions });
+    } catch (error) {
+      console.error("Failed to fetch application history:", error);
+      res.status(500).json({ message: "Failed to fetch application history" });
+    }
+  });
 
   // ========================================
   // DEALING ASSISTANT (DA) ROUTES
@@ -1442,10 +1733,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(homestayApplications)
         .where(eq(homestayApplications.district, user.district));
 
-      // Filter for DA-relevant statuses: submitted, under_scrutiny, forwarded_to_dtdo, reverted_to_applicant
-      const daRelevantStatuses = ['submitted', 'under_scrutiny', 'forwarded_to_dtdo', 'reverted_to_applicant'];
+      // Filter for DA-relevant statuses (defined by the workflow)
+      const daRelevantStatuses: string[] = WORKFLOW_QUEUES.dealing_assistant;
       const relevantApplications = allApplications.filter(app => 
-        daRelevantStatuses.includes(app.status)
+        daRelevantStatuses.includes(app.status!)
       );
 
       // Enrich with owner information
@@ -1486,8 +1777,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get owner information
       const owner = await storage.getUser(application.userId);
       
-      // Get documents
-      const documents = await storage.getDocumentsByApplication(req.params.id);
+      // Current versions only: replaced documents are not verified again
+      const documents = await documentService.getApplicationDocuments(req.params.id);
 
       res.json({
         application,
@@ -1512,44 +1803,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Application not found" });
       }
 
-      if (application.status !== 'submitted') {
-        return res.status(400).json({ message: "Only submitted applications can be put under scrutiny" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      await storage.updateApplication(req.params.id, { status: 'under_scrutiny' });
+      await transitionApplication(application, { action: 'start_scrutiny', actor: user });
       
       res.json({ message: "Application is now under scrutiny" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[da] Failed to start scrutiny:", error);
       res.status(500).json({ message: "Failed to start scrutiny" });
     }
   });
 
-  // Save scrutiny progress (document verifications)
+  // Verify, reject or ask for a replacement of one document
+  app.post("/api/da/documents/:id/verification", requireRole('dealing_assistant'), async (req, res) => {
+    try {
+      const { status, notes } = documentVerificationSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const document = await documentService.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const application = await storage.getApplication(document.applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (user.district && application.district !== user.district) {
+        return res.status(403).json({ message: "You can only verify documents of applications from your district" });
+      }
+      if (!DOCUMENT_SCRUTINY_STATUSES.includes(application.status || '')) {
+        return res.status(409).json({ message: "Documents can only be verified while the application is under scrutiny" });
+      }
+
+      const updated = await documentService.setVerificationStatus(document, {
+        status,
+        notes,
+        verifiedBy: user.id,
+        userRole: user.role,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.json({ document: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof DocumentVerificationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("[da] Failed to record document verification:", error);
+      res.status(500).json({ message: "Failed to record document verification" });
+    }
+  });
+
+  // Save scrutiny progress (document verifications); only changed decisions are recorded
   app.post("/api/da/applications/:id/save-scrutiny", requireRole('dealing_assistant'), async (req, res) => {
     try {
-      const { verifications } = req.body;
-      const userId = req.session.userId!;
-      
-      if (!verifications || !Array.isArray(verifications)) {
-        return res.status(400).json({ message: "Invalid verification data" });
+      const { verifications } = z.object({
+        verifications: z.array(documentVerificationSchema.extend({ documentId: z.string() })),
+      }).parse(req.body);
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (user.district && application.district !== user.district) {
+        return res.status(403).json({ message: "You can only access applications from your district" });
+      }
+      if (!DOCUMENT_SCRUTINY_STATUSES.includes(application.status || '')) {
+        return res.status(409).json({ message: "Documents can only be verified while the application is under scrutiny" });
       }
 
-      // Update each document's verification status
+      const current = await documentService.getApplicationDocuments(application.id);
+      let saved = 0;
       for (const verification of verifications) {
-        await db.update(documents)
-          .set({
-            verificationStatus: verification.status,
-            verificationNotes: verification.notes || null,
-            isVerified: verification.status === 'verified',
-            verifiedBy: verification.status !== 'pending' ? userId : null,
-            verificationDate: verification.status !== 'pending' ? new Date() : null,
-          })
-          .where(eq(documents.id, verification.documentId));
+        const document = current.find(doc => doc.id === verification.documentId);
+        if (!document) {
+          continue; // Superseded or not part of this application
+        }
+        const notes = verification.notes?.trim() || null;
+        if (document.verificationStatus === verification.status && (document.verificationNotes || null) === notes) {
+          continue;
+        }
+        await documentService.setVerificationStatus(document, {
+          status: verification.status,
+          notes,
+          verifiedBy: user.id,
+          userRole: user.role,
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+        saved++;
       }
       
-      res.json({ message: "Scrutiny progress saved successfully" });
+      res.json({ message: "Scrutiny progress saved successfully", saved });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof DocumentVerificationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("[da] Failed to save scrutiny progress:", error);
       res.status(500).json({ message: "Failed to save scrutiny progress" });
     }
@@ -1565,16 +1935,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Application not found" });
       }
 
-      if (application.status !== 'under_scrutiny') {
-        return res.status(400).json({ message: "Only applications under scrutiny can be forwarded" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      await storage.updateApplication(req.params.id, { status: 'forwarded_to_dtdo' });
-      
-      // TODO: Add timeline entry with remarks when timeline system is implemented
+      // Every required ANNEXURE-II document must be verified before the DTDO sees the file
+      const checklist = evaluateDocumentChecklist(application, await documentService.getApplicationDocuments(application.id));
+      const unverified = getUnverifiedRequiredDocuments(checklist);
+      if (unverified.length > 0) {
+        return res.status(400).json({
+          message: `Verify every required document before forwarding. Pending: ${unverified.map(item => item.label).join(", ")}`,
+          unverifiedDocuments: unverified.map(item => item.documentType),
+        });
+      }
+
+      await transitionApplication(application, {
+        action: 'forward_to_dtdo',
+        actor: user,
+        feedback: remarks,
+      });
       
       res.json({ message: "Application forwarded to DTDO successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[da] Failed to forward to DTDO:", error);
       res.status(500).json({ message: "Failed to forward application" });
     }
@@ -1594,17 +1980,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Application not found" });
       }
 
-      if (application.status !== 'under_scrutiny') {
-        return res.status(400).json({ message: "Only applications under scrutiny can be sent back" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      await storage.updateApplication(req.params.id, { status: 'reverted_to_applicant' });
+      await transitionApplication(application, {
+        action: 'revert_to_applicant',
+        actor: user,
+        feedback: reason,
+        updates: { clarificationRequested: reason },
+      });
       
-      // TODO: Add timeline entry with reason when timeline system is implemented
       // TODO: Send notification to applicant
       
       res.json({ message: "Application sent back to applicant successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[da] Failed to send back application:", error);
       res.status(500).json({ message: "Failed to send back application" });
     }
@@ -1630,15 +2024,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(homestayApplications)
         .where(eq(homestayApplications.district, user.district));
 
-      // Filter for DTDO-relevant statuses
-      const dtdoRelevantStatuses = [
-        'forwarded_to_dtdo',
-        'dtdo_review',
-        'inspection_scheduled',
-        'inspection_under_review'
-      ];
+      // Filter for DTDO-relevant statuses (defined by the workflow)
+      const dtdoRelevantStatuses: string[] = WORKFLOW_QUEUES.district_tourism_officer;
       const relevantApplications = allApplications.filter(app => 
-        dtdoRelevantStatuses.includes(app.status)
+        dtdoRelevantStatuses.includes(app.status!)
       );
 
       // Enrich with owner and DA information
@@ -1731,22 +2120,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only process applications from your district" });
       }
 
-      // Verify application status
-      if (application.status !== 'forwarded_to_dtdo' && application.status !== 'dtdo_review') {
-        return res.status(400).json({ message: "Application is not in the correct status for DTDO review" });
-      }
-
       // Update application status to dtdo_review (intermediate state)
       // Will only move to inspection_scheduled after successful inspection scheduling
-      await storage.updateApplication(req.params.id, {
-        status: 'dtdo_review',
-        dtdoRemarks: remarks || null,
-        dtdoId: userId,
-        dtdoReviewDate: new Date(),
+      await transitionApplication(application, {
+        action: 'dtdo_accept',
+        actor: user!,
+        feedback: remarks,
+        updates: { dtdoRemarks: remarks || null },
       });
 
       res.json({ message: "Application accepted. Proceed to schedule inspection.", applicationId: req.params.id });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[dtdo] Failed to accept application:", error);
       res.status(500).json({ message: "Failed to accept application" });
     }
@@ -1775,16 +2162,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update application status to rejected
-      await storage.updateApplication(req.params.id, {
-        status: 'rejected',
-        dtdoRemarks: remarks,
-        dtdoId: userId,
-        dtdoReviewDate: new Date(),
-        rejectionReason: remarks,
+      await transitionApplication(application, {
+        action: 'dtdo_reject',
+        actor: user!,
+        feedback: remarks,
+        updates: {
+          dtdoRemarks: remarks,
+          rejectionReason: remarks,
+        },
       });
 
       res.json({ message: "Application rejected successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[dtdo] Failed to reject application:", error);
       res.status(500).json({ message: "Failed to reject application" });
     }
@@ -1813,20 +2205,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update application status to reverted_by_dtdo
-      await storage.updateApplication(req.params.id, {
-        status: 'reverted_by_dtdo',
-        dtdoRemarks: remarks,
-        dtdoId: userId,
-        dtdoReviewDate: new Date(),
+      await transitionApplication(application, {
+        action: 'dtdo_revert',
+        actor: user!,
+        feedback: remarks,
+        updates: { dtdoRemarks: remarks },
       });
 
       res.json({ message: "Application reverted to applicant successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[dtdo] Failed to revert application:", error);
       res.status(500).json({ message: "Failed to revert application" });
     }
   });
 
+  // DTDO approve renewal (no site inspection; property was inspected for the original registration)
+  app.post("/api/dtdo/applications/:id/approve-renewal", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const { remarks } = req.body;
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      // Verify application is from DTDO's district
+      if (user?.district && application.district !== user.district) {
+        return res.status(403).json({ message: "You can only process applications from your district" });
+      }
+
+      if (application.applicationType !== 'renewal') {
+        return res.status(400).json({ message: "Only renewal applications can be approved without inspection" });
+      }
+
+      await transitionApplication(application, {
+        action: 'approve_renewal',
+        actor: user!,
+        feedback: remarks,
+        updates: { dtdoRemarks: remarks || null },
+      });
+
+      res.json({ message: "Renewal approved. The applicant can now pay the renewal fee.", applicationId: req.params.id });
+    } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      console.error("[dtdo] Failed to approve renewal:", error);
+      res.status(500).json({ message: "Failed to approve renewal" });
+    }
+  });
+
   // Get available DAs for DTDO's district
   app.get("/api/dtdo/available-das", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
     try {
@@ -1873,11 +2306,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Application not found" });
       }
 
-      // Verify application status - should be in dtdo_review after acceptance
-      if (application.status !== 'dtdo_review') {
+      // Verify application status - should be in dtdo_review after acceptance (or objection_raised for re-inspection)
+      const user = await storage.getUser(userId);
+      if (!user || !canTransition('schedule_inspection', application.status, user.role)) {
         return res.status(400).json({ message: "Application must be accepted by DTDO before scheduling inspection" });
       }
 
+      // Re-inspection after objections requires every objection to be resolved first
+      if (application.status === 'objection_raised') {
+        const openObjections = await db
+          .select()
+          .from(objections)
+          .where(and(eq(objections.applicationId, applicationId), ne(objections.status, 'resolved')));
+        if (openObjections.length > 0) {
+          return res.status(400).json({ message: `${openObjections.length} objection(s) are not yet resolved` });
+        }
+      }
+
       // Create inspection order
       const newInspectionOrder = await db
         .insert(inspectionOrders)
@@ -1895,12 +2340,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .returning();
 
       // Only NOW update the application status to inspection_scheduled
-      await storage.updateApplication(applicationId, {
-        status: 'inspection_scheduled',
+      await transitionApplication(application, {
+        action: 'schedule_inspection',
+        actor: user,
+        feedback: specialInstructions,
+        updates: { siteInspectionScheduledDate: new Date(inspectionDate) },
       });
 
       res.json({ message: "Inspection scheduled successfully", inspectionOrder: newInspectionOrder[0] });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[dtdo] Failed to schedule inspection:", error);
       res.status(500).json({ message: "Failed to schedule inspection" });
     }
@@ -1991,23 +2442,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only process applications from your district" });
       }
 
-      // Verify application is in inspection_under_review status
-      if (application.status !== 'inspection_under_review') {
-        return res.status(400).json({ 
-          message: `Cannot approve inspection report. Application must be in inspection_under_review status (current: ${application.status})` 
-        });
-      }
-
       // Update application status to verified_for_payment
-      await storage.updateApplication(applicationId, {
-        status: 'verified_for_payment',
-        districtNotes: remarks || 'Inspection report approved. Property meets all requirements.',
-        districtOfficerId: userId,
-        districtReviewDate: new Date(),
+      await transitionApplication(application, {
+        action: 'approve_inspection',
+        actor: user!,
+        feedback: remarks,
+        updates: {
+          districtNotes: remarks || 'Inspection report approved. Property meets all requirements.',
+        },
       });
 
       res.json({ message: "Inspection report approved successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[dtdo] Failed to approve inspection report:", error);
       res.status(500).json({ message: "Failed to approve inspection report" });
     }
@@ -2036,24 +2485,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only process applications from your district" });
       }
 
-      // Verify application is in inspection_under_review status
-      if (application.status !== 'inspection_under_review') {
-        return res.status(400).json({ 
-          message: `Cannot reject application. Application must be in inspection_under_review status (current: ${application.status})` 
-        });
-      }
-
       // Update application status to rejected
-      await storage.updateApplication(applicationId, {
-        status: 'rejected',
-        rejectionReason: remarks,
-        districtNotes: remarks,
-        districtOfficerId: userId,
-        districtReviewDate: new Date(),
+      await transitionApplication(application, {
+        action: 'reject_inspection',
+        actor: user!,
+        feedback: remarks,
+        updates: {
+          rejectionReason: remarks,
+          districtNotes: remarks,
+        },
       });
 
       res.json({ message: "Application rejected successfully" });
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       console.error("[dtdo] Failed to reject inspection report:", error);
       res.status(500).json({ message: "Failed to reject inspection report" });
     }
@@ -2063,11 +2510,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/dtdo/inspection-report/:applicationId/raise-objections", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
     try {
       const { applicationId } = req.params;
-      const { remarks } = req.body;
-      
-      if (!remarks || remarks.trim().length === 0) {
-        return res.status(400).json({ message: "Please specify the objections" });
-      }
+
+      // Individual objections are optional; remarks become a single objection otherwise
+      const objectionItemSchema = insertObjectionSchema.pick({
+        objectionType: true,
+        objectionTitle: true,
+        objectionDescription: true,
+        severity: true,
+      });
+      const { remarks, responseDeadline, objections: requestedObjections } = z.object({
+        remarks: z.string({ required_error: "Please specify the objections" }).trim().min(1, "Please specify the objections"),
+        responseDeadline: z.preprocess(
+          (val) => (val === '' || val === null ? undefined : val),
+          z.coerce.date({ errorMap: () => ({ message: "Response deadline must be a valid date" }) })
+            .refine(date => date.getTime() > Date.now(), "Response deadline must be in the future")
+            .optional()
+        ),
+        objections: z.array(objectionItemSchema).min(1).optional(),
+      }).parse(req.body);
+      const objectionItems = requestedObjections || [{
+        objectionType: 'other' as const,
+        objectionTitle: 'Objections on inspection report',
+        objectionDescription: remarks,
+        severity: 'major' as const,
+      }];
 
       const userId = req.session.userId!;
       const user = await storage.getUser(userId);
@@ -2082,26 +2548,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only process applications from your district" });
       }
 
-      // Verify application is in inspection_under_review status
-      if (application.status !== 'inspection_under_review') {
+      if (!canTransition('raise_objections', application.status, user!.role)) {
         return res.status(400).json({ 
           message: `Cannot raise objections. Application must be in inspection_under_review status (current: ${application.status})` 
         });
       }
 
-      // Update application status to objection_raised
-      await storage.updateApplication(applicationId, {
-        status: 'objection_raised',
-        clarificationRequested: remarks,
-        districtNotes: remarks,
-        districtOfficerId: userId,
-        districtReviewDate: new Date(),
-      });
+      const [report] = await db
+        .select()
+        .from(inspectionReports)
+        .where(eq(inspectionReports.applicationId, applicationId))
+        .orderBy(desc(inspectionReports.createdAt))
+        .limit(1);
 
-      res.json({ message: "Objections raised successfully. Application will require re-inspection." });
-    } catch (error) {
-      console.error("[dtdo] Failed to raise objections:", error);
-      res.status(500).json({ message: "Failed to raise objections" });
+      const raisedDate = new Date();
+      const { responseDays } = await getObjectionPolicy();
+      const deadline = responseDeadline
+        ?? new Date(raisedDate.getTime() + responseDays * 24 * 60 * 60 * 1000);
+
+      // Objections and the status change are committed together
+      const createdObjections = await db.transaction(async (tx) => {
+        const inserted = await tx
+          .insert(objections)
+          .values(objectionItems.map(item => ({
+            ...item,
+            applicationId,
+            inspectionReportId: report?.id || null,
+            raisedBy: userId,
+            raisedDate,
+            responseDeadline: deadline,
+            status: 'pending',
+          })))
+          .returning();
+
+        // Update application status to objection_raised
+        await transitionApplication(application, {
+          action: 'raise_objections',
+          actor: user!,
+          feedback: remarks,
+          updates: {
+            clarificationRequested: remarks,
+            districtNotes: remarks,
+          },
+        }, tx);
+
+        return inserted;
+      });
+
+      await storage.createNotification({
+        userId: application.userId,
+        applicationId,
+        type: 'objection_raised',
+        title: 'Objections raised on your application',
+        message: `The District Tourism Officer has raised ${createdObjections.length} objection(s) on application ${application.applicationNumber}. Please respond by ${deadline.toLocaleDateString('en-IN')}.`,
+        channels: { inapp: true },
+      });
+
+      res.json({ 
+        message: "Objections raised successfully. Application will require re-inspection.",
+        objections: createdObjections,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      console.error("[dtdo] Failed to raise objections:", error);
+      res.status(500).json({ message: "Failed to raise objections" });
     }
   });
 
@@ -2253,6 +2768,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Inspection report already submitted for this order" });
       }
 
+      const application = await storage.getApplication(order[0].applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (!canTransition('submit_inspection_report', application.status, 'dealing_assistant')) {
+        return res.status(400).json({ 
+          message: `Cannot submit inspection report. Application must be in inspection_scheduled status (current: ${application.status})` 
+        });
+      }
+
+      // Inspection photos are recorded as documents so they get thumbnails like property photos
+      const inspectionPhotoSchema = z.array(z.object({
+        fileName: z.string().min(1),
+        fileUrl: z.string().min(1),
+        caption: z.string().optional(),
+        uploadedAt: z.string().optional(),
+      })).max(20, "Attach at most 20 inspection photos");
+      const submittedPhotos = inspectionPhotoSchema.parse(req.body.inspectionPhotos || []);
+      const verifiedPhotos = await uploadVerificationService.finalizeUploads(
+        application.id,
+        'inspection_photo',
+        submittedPhotos.map(photo => ({ fileName: photo.fileName, filePath: photo.fileUrl }))
+      );
+      const inspectionPhotos = [];
+      const photoDocuments = [];
+      for (let index = 0; index < verifiedPhotos.length; index++) {
+        const document = await documentService.uploadDocument({
+          applicationId: application.id,
+          uploadedBy: userId,
+          metadata: verifiedPhotos[index],
+        });
+        photoDocuments.push(document);
+        inspectionPhotos.push({
+          documentId: document.id,
+          fileName: document.fileName,
+          fileUrl: document.filePath,
+          caption: submittedPhotos[index].caption,
+          uploadedAt: submittedPhotos[index].uploadedAt || new Date().toISOString(),
+        });
+      }
+      imageProcessingService.processInBackground(photoDocuments);
+
       // Validate and prepare report data
       const reportData = {
         inspectionOrderId: orderId,
@@ -2283,153 +2841,1278 @@ export async function registerRoutes(app: Express): Promise<Server> {
         recommendation: req.body.recommendation || 'approve',
         detailedFindings: req.body.detailedFindings || '',
         // Additional fields
-        inspectionPhotos: req.body.inspectionPhotos || null,
+        inspectionPhotos: inspectionPhotos.length > 0 ? inspectionPhotos : null,
         reportDocumentUrl: req.body.reportDocumentUrl || null,
       };
 
-      // Insert inspection report
-      const [newReport] = await db.insert(inspectionReports).values(reportData).returning();
+      // Insert inspection report
+      const [newReport] = await db.insert(inspectionReports).values(reportData).returning();
+
+      // Update inspection order status to completed
+      await db.update(inspectionOrders)
+        .set({ status: 'completed', updatedAt: new Date() })
+        .where(eq(inspectionOrders.id, orderId));
+
+      // Update application status to inspection_under_review for DTDO to review
+      // According to PRD_2.0.md workflow: inspection_completed → inspection_under_review → DTDO decision
+      await transitionApplication(application, {
+        action: 'submit_inspection_report',
+        actor: { id: userId, role: 'dealing_assistant' },
+        feedback: reportData.detailedFindings || null,
+        updates: {
+          currentStage: 'inspection_completed',
+          siteInspectionCompletedDate: reportData.actualInspectionDate,
+        },
+      });
+
+      res.json({ report: newReport, message: "Inspection report submitted successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      console.error("[da] Failed to submit inspection report:", error);
+      res.status(500).json({ message: "Failed to submit inspection report" });
+    }
+  });
+
+  // ====================================================================
+  // OBJECTIONS & CLARIFICATIONS
+  // ====================================================================
+
+  // Get objections (with clarifications) for an application
+  // Owners see their own applications; district staff see their district
+  app.get("/api/applications/:id/objections", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const application = await storage.getApplication(req.params.id);
+      if (!user || !application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user.role === 'property_owner' && application.userId !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role !== 'property_owner' && user.district && application.district !== user.district) {
+        return res.status(403).json({ message: "You can only view applications from your district" });
+      }
+
+      const applicationObjections = await db
+        .select()
+        .from(objections)
+        .where(eq(objections.applicationId, application.id))
+        .orderBy(desc(objections.raisedDate));
+
+      const applicationClarifications = await db
+        .select()
+        .from(clarifications)
+        .where(eq(clarifications.applicationId, application.id))
+        .orderBy(desc(clarifications.submittedDate));
+
+      res.json({
+        objections: applicationObjections.map(objection => ({
+          ...objection,
+          clarifications: applicationClarifications.filter(c => c.objectionId === objection.id),
+        })),
+      });
+    } catch (error) {
+      console.error("[objections] Failed to fetch objections:", error);
+      res.status(500).json({ message: "Failed to fetch objections" });
+    }
+  });
+
+  // Owner submits a clarification (with optional supporting documents) for an objection
+  app.post("/api/applications/:id/objections/:objectionId/clarifications", requireRole('property_owner'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const clarificationSchema = z.object({
+        clarificationText: z.string().trim().min(10, "Clarification must be at least 10 characters"),
+        documents: z.array(z.object({
+          fileName: z.string(),
+          filePath: z.string(),
+          fileSize: z.number(),
+          mimeType: z.string(),
+        })).optional(),
+      });
+      const { clarificationText, documents: supportingFiles } = clarificationSchema.parse(req.body);
+
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (application.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (application.status !== 'objection_raised') {
+        return res.status(400).json({ message: "Clarifications can only be submitted while objections are open" });
+      }
+
+      const [objection] = await db
+        .select()
+        .from(objections)
+        .where(and(eq(objections.id, req.params.objectionId), eq(objections.applicationId, application.id)))
+        .limit(1);
+
+      if (!objection) {
+        return res.status(404).json({ message: "Objection not found" });
+      }
+
+      if (!OPEN_OBJECTION_STATUSES.includes(objection.status || 'pending')) {
+        return res.status(400).json({ 
+          message: objection.status === 'responded' 
+            ? "Your clarification for this objection is awaiting review" 
+            : "This objection is already closed" 
+        });
+      }
+
+      // Store supporting documents through the document service (versioned + audit logged)
+      const supportingDocuments = [];
+      const verifiedFiles = await uploadVerificationService.finalizeUploads(application.id, 'objection_clarification', supportingFiles || []);
+      for (const metadata of verifiedFiles) {
+        const document = await documentService.uploadDocument({
+          applicationId: application.id,
+          uploadedBy: userId,
+          metadata,
+        });
+        supportingDocuments.push({
+          documentId: document.id,
+          fileName: document.fileName,
+          fileUrl: document.filePath,
+          documentType: document.documentType,
+          uploadedAt: new Date().toISOString(),
+        });
+      }
+
+      const [clarification] = await db
+        .insert(clarifications)
+        .values({
+          objectionId: objection.id,
+          applicationId: application.id,
+          submittedBy: userId,
+          submittedDate: new Date(),
+          clarificationText,
+          supportingDocuments,
+        })
+        .returning();
+
+      await db
+        .update(objections)
+        .set({ status: 'responded', updatedAt: new Date() })
+        .where(eq(objections.id, objection.id));
+
+      res.json({ clarification, message: "Clarification submitted successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("[objections] Failed to submit clarification:", error);
+      res.status(500).json({ message: "Failed to submit clarification" });
+    }
+  });
+
+  // DTDO reviews a clarification: accept (resolves objection), reject, or request revision
+  app.post("/api/dtdo/clarifications/:id/review", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const { decision, notes } = req.body;
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+
+      if (!['accepted', 'rejected', 'needs_revision'].includes(decision)) {
+        return res.status(400).json({ message: "Decision must be 'accepted', 'rejected' or 'needs_revision'" });
+      }
+
+      if (decision !== 'accepted' && (!notes || notes.trim().length === 0)) {
+        return res.status(400).json({ message: "Please provide review notes for the applicant" });
+      }
+
+      const [clarification] = await db
+        .select()
+        .from(clarifications)
+        .where(eq(clarifications.id, req.params.id))
+        .limit(1);
+
+      if (!clarification) {
+        return res.status(404).json({ message: "Clarification not found" });
+      }
+
+      if (clarification.reviewStatus) {
+        return res.status(400).json({ message: "This clarification has already been reviewed" });
+      }
+
+      const application = await storage.getApplication(clarification.applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      // Verify application is from DTDO's district
+      if (user?.district && application.district !== user.district) {
+        return res.status(403).json({ message: "You can only process applications from your district" });
+      }
+
+      const now = new Date();
+      const [reviewed] = await db
+        .update(clarifications)
+        .set({
+          reviewStatus: decision,
+          reviewNotes: notes || null,
+          reviewedBy: userId,
+          reviewedDate: now,
+          updatedAt: now,
+        })
+        .where(eq(clarifications.id, clarification.id))
+        .returning();
+
+      // Accepted → objection resolved; needs revision → back to applicant; rejected → closed unresolved
+      const objectionUpdate: Partial<Objection> = { updatedAt: now };
+      if (decision === 'accepted') {
+        objectionUpdate.status = 'resolved';
+        objectionUpdate.resolutionNotes = notes || 'Clarification accepted';
+        objectionUpdate.resolvedBy = userId;
+        objectionUpdate.resolvedDate = now;
+      } else if (decision === 'needs_revision') {
+        // A fresh response window, or the overdue-objection job would escalate it before the owner can revise
+        const { responseDays } = await getObjectionPolicy();
+        objectionUpdate.status = 'pending';
+        objectionUpdate.responseDeadline = new Date(now.getTime() + responseDays * 24 * 60 * 60 * 1000);
+      } else {
+        objectionUpdate.status = 'rejected';
+        objectionUpdate.resolutionNotes = notes;
+      }
+
+      await db
+        .update(objections)
+        .set(objectionUpdate)
+        .where(eq(objections.id, clarification.objectionId));
+
+      const decisionMessages: Record<string, string> = {
+        accepted: 'Your clarification has been accepted.',
+        rejected: `Your clarification was not accepted: ${notes}`,
+        needs_revision: `Please revise your clarification by ${objectionUpdate.responseDeadline?.toLocaleDateString('en-IN')}: ${notes}`,
+      };
+      await storage.createNotification({
+        userId: application.userId,
+        applicationId: application.id,
+        type: 'clarification_reviewed',
+        title: 'Clarification reviewed',
+        message: `${decisionMessages[decision]} (Application ${application.applicationNumber})`,
+        channels: { inapp: true },
+      });
+
+      res.json({ clarification: reviewed, message: "Clarification reviewed successfully" });
+    } catch (error) {
+      console.error("[dtdo] Failed to review clarification:", error);
+      res.status(500).json({ message: "Failed to review clarification" });
+    }
+  });
+
+  // Overdue objections in the DTDO's district (escalated, or past deadline awaiting the next escalation run)
+  app.get("/api/dtdo/objections/overdue", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+
+      if (!user || !user.district) {
+        return res.status(400).json({ message: "DTDO must be assigned to a district" });
+      }
+
+      const rows = await db
+        .select({
+          objection: objections,
+          applicationNumber: homestayApplications.applicationNumber,
+          propertyName: homestayApplications.propertyName,
+          ownerName: homestayApplications.ownerName,
+          applicationStatus: homestayApplications.status,
+        })
+        .from(objections)
+        .innerJoin(homestayApplications, eq(objections.applicationId, homestayApplications.id))
+        .where(
+          and(
+            eq(homestayApplications.district, user.district),
+            or(
+              eq(objections.status, 'escalated'),
+              and(
+                eq(objections.status, 'pending'),
+                lt(objections.responseDeadline, new Date())
+              )
+            )
+          )
+        )
+        .orderBy(objections.responseDeadline);
+
+      const overdue = rows.map(row => ({
+        ...row.objection,
+        applicationNumber: row.applicationNumber,
+        propertyName: row.propertyName,
+        ownerName: row.ownerName,
+        applicationStatus: row.applicationStatus,
+      }));
+
+      res.json({ objections: overdue });
+    } catch (error) {
+      console.error("[dtdo] Failed to fetch overdue objections:", error);
+      res.status(500).json({ message: "Failed to fetch overdue objections" });
+    }
+  });
+
+  // Document Routes
+  
+  // Get documents for application
+  app.get("/api/applications/:id/documents", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user?.role === 'property_owner' ? application.userId !== userId : (user?.district && application.district !== user.district)) {
+        return res.status(403).json({ message: "You do not have access to this application" });
+      }
+
+      // Current versions, with the DA's verification status and notes
+      const documents = await documentService.getApplicationDocuments(application.id);
+      res.json({ documents });
+    } catch (error) {
+      console.error("[documents] Failed to fetch application documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // Payment Routes
+  
+  // Create payment
+  app.post("/api/payments", requireAuth, async (req, res) => {
+    try {
+      const payment = await storage.createPayment(req.body);
+      res.json({ payment });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create payment" });
+    }
+  });
+
+  // Get the registration certificate for an application
+  app.get("/api/applications/:id/certificate", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user?.role === 'property_owner' ? application.userId !== userId : (user?.district && application.district !== user.district)) {
+        return res.status(403).json({ message: "You do not have access to this certificate" });
+      }
+
+      const certificate = await certificateService.getCertificateByApplication(application.id);
+      if (!certificate) {
+        return res.status(404).json({ message: "Certificate not issued" });
+      }
+
+      const renewal = await renewalService.getEligibility(certificate);
+
+      res.json({ certificate, renewal });
+    } catch (error) {
+      console.error("[certificate] Failed to fetch certificate:", error);
+      res.status(500).json({ message: "Failed to fetch certificate" });
+    }
+  });
+
+  // Download the registration certificate PDF (issued on demand for approved applications without one)
+  app.get("/api/applications/:id/certificate/pdf", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user?.role === 'property_owner' ? application.userId !== userId : (user?.district && application.district !== user.district)) {
+        return res.status(403).json({ message: "You do not have access to this certificate" });
+      }
+
+      let certificate = await certificateService.getCertificateByApplication(application.id);
+      if (!certificate) {
+        if (application.status !== 'approved') {
+          return res.status(404).json({ message: "Certificate not issued" });
+        }
+        certificate = await certificateService.issueCertificate(application);
+      }
+
+      const pdf = await certificateService.getCertificatePdf(certificate);
+      const fileName = `HP_Homestay_Certificate_${certificate.certificateNumber.replace(/\//g, '-')}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("[certificate] Failed to download certificate:", error);
+      res.status(500).json({ message: "Failed to download certificate" });
+    }
+  });
+
+  // Payment receipts for an application (confirmed payments only)
+  app.get("/api/applications/:id/receipts", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user?.role === 'property_owner' ? application.userId !== userId : (user?.district && application.district !== user.district)) {
+        return res.status(403).json({ message: "You do not have access to these receipts" });
+      }
+
+      const applicationPayments = await storage.getPaymentsByApplication(application.id);
+      const receipts = applicationPayments
+        .filter(payment => RECEIPTED_PAYMENT_STATUSES.includes(payment.paymentStatus || ''))
+        .map(payment => ({
+          paymentId: payment.id,
+          receiptNumber: payment.receiptNumber,
+          receiptIssuedAt: payment.receiptIssuedAt,
+          amount: payment.amount,
+          paymentGateway: payment.paymentGateway,
+          gatewayTransactionId: payment.gatewayTransactionId,
+          paymentStatus: payment.paymentStatus,
+          completedAt: payment.completedAt,
+        }));
+
+      res.json({ receipts });
+    } catch (error) {
+      console.error("[receipts] Failed to fetch receipts:", error);
+      res.status(500).json({ message: "Failed to fetch receipts" });
+    }
+  });
+
+  // Download a payment's e-receipt PDF (issued on demand for confirmed payments without one)
+  app.get("/api/payments/:id/receipt/pdf", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const payment = await storage.getPaymentById(req.params.id);
+
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const application = await storage.getApplication(payment.applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user?.role === 'property_owner' ? application.userId !== userId : (user?.district && application.district !== user.district)) {
+        return res.status(403).json({ message: "You do not have access to this receipt" });
+      }
+
+      if (!RECEIPTED_PAYMENT_STATUSES.includes(payment.paymentStatus || '')) {
+        return res.status(404).json({ message: "Receipt not issued" });
+      }
+
+      const { receiptNumber, pdf } = await receiptService.getReceiptPdf(payment);
+      const fileName = `HP_Tourism_Receipt_${receiptNumber.replace(/\//g, '-')}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("[receipts] Failed to download receipt:", error);
+      res.status(500).json({ message: "Failed to download receipt" });
+    }
+  });
+
+  // Start a renewal of the application's certificate (pre-filled draft, shorter review)
+  app.post("/api/applications/:id/renew", requireRole('property_owner'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const application = await storage.getApplication(req.params.id);
+
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (application.userId !== userId) {
+        return res.status(403).json({ message: "You can only renew your own certificate" });
+      }
+
+      if (application.status !== 'approved') {
+        return res.status(400).json({ message: "Only approved applications can be renewed" });
+      }
+
+      const certificate = await certificateService.getCertificateByApplication(application.id);
+      if (!certificate) {
+        return res.status(404).json({ message: "Certificate not issued" });
+      }
+
+      const eligibility = await renewalService.getEligibility(certificate);
+      if (!eligibility.eligible) {
+        return res.status(eligibility.renewalApplicationId ? 409 : 400).json({
+          message: eligibility.reason,
+          renewalApplicationId: eligibility.renewalApplicationId,
+        });
+      }
+
+      const renewal = await renewalService.startRenewal(certificate, application);
+
+      res.json({
+        application: renewal,
+        message: "Renewal started. Review the pre-filled details and submit.",
+      });
+    } catch (error) {
+      console.error("[renewal] Failed to start renewal:", error);
+      res.status(500).json({ message: "Failed to start renewal" });
+    }
+  });
+
+  // ====================================================================
+  // CERTIFICATE SUSPENSION / REVOCATION (DTDO)
+  // ====================================================================
+
+  // List certificates issued in the DTDO's district
+  app.get("/api/dtdo/certificates", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+
+      if (!user || !user.district) {
+        return res.status(400).json({ message: "DTDO must be assigned to a district" });
+      }
+
+      const districtCertificates = await db
+        .select()
+        .from(certificates)
+        .where(eq(certificates.district, user.district))
+        .orderBy(desc(certificates.issuedDate));
+
+      res.json({ certificates: districtCertificates });
+    } catch (error) {
+      console.error("[dtdo] Failed to fetch certificates:", error);
+      res.status(500).json({ message: "Failed to fetch certificates" });
+    }
+  });
+
+  // Audit trail of suspensions, revocations and reinstatements for a certificate
+  app.get("/api/dtdo/certificates/:id/actions", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const [certificate] = await db
+        .select()
+        .from(certificates)
+        .where(eq(certificates.id, req.params.id))
+        .limit(1);
+
+      if (!certificate) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      if (user?.district && certificate.district !== user.district) {
+        return res.status(403).json({ message: "You can only access certificates from your district" });
+      }
+
+      const actions = await certificateService.getCertificateActions(certificate.id);
+      const actionsWithOfficer = await Promise.all(
+        actions.map(async (action) => {
+          const officer = await storage.getUser(action.performedBy);
+          return { ...action, officerName: officer?.fullName || 'Unknown' };
+        })
+      );
+
+      res.json({ actions: actionsWithOfficer });
+    } catch (error) {
+      console.error("[dtdo] Failed to fetch certificate actions:", error);
+      res.status(500).json({ message: "Failed to fetch certificate history" });
+    }
+  });
+
+  // Suspend, revoke or lift the suspension of a certificate
+  app.post("/api/dtdo/certificates/:id/status", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const statusChangeSchema = z.object({
+        action: z.enum(['suspend', 'revoke', 'lift_suspension']),
+        reason: z.string().trim().min(10, "Please provide a reason of at least 10 characters"),
+        documents: z.array(z.object({
+          fileName: z.string(),
+          filePath: z.string(),
+          fileSize: z.number(),
+          mimeType: z.string(),
+        })).optional(),
+      });
+      const { action, reason, documents: evidenceFiles } = statusChangeSchema.parse(req.body);
+
+      const [certificate] = await db
+        .select()
+        .from(certificates)
+        .where(eq(certificates.id, req.params.id))
+        .limit(1);
+
+      if (!certificate) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      if (user?.district && certificate.district !== user.district) {
+        return res.status(403).json({ message: "You can only process certificates from your district" });
+      }
+
+      const rule = CERTIFICATE_STATUS_ACTIONS[action as CertificateStatusAction];
+      if (!rule.from.includes(certificate.status || 'active')) {
+        return res.status(400).json({ message: `Cannot ${action.replace('_', ' ')} a certificate that is ${certificate.status}` });
+      }
+
+      // Store evidence through the document service (versioned + audit logged)
+      const evidenceDocuments = [];
+      const verifiedFiles = await uploadVerificationService.finalizeUploads(certificate.applicationId, 'certificate_action_evidence', evidenceFiles || []);
+      for (const metadata of verifiedFiles) {
+        const document = await documentService.uploadDocument({
+          applicationId: certificate.applicationId,
+          uploadedBy: userId,
+          metadata,
+        });
+        evidenceDocuments.push({
+          documentId: document.id,
+          fileName: document.fileName,
+          fileUrl: document.filePath,
+          uploadedAt: new Date().toISOString(),
+        });
+      }
+
+      const updated = await certificateService.changeStatus(certificate, action, {
+        performedBy: userId,
+        reason,
+        evidenceDocuments,
+      });
+
+      if (!updated) {
+        return res.status(409).json({ message: "Certificate status changed. Please refresh and try again." });
+      }
+
+      const ownerMessages: Record<CertificateStatusAction, { title: string; message: string }> = {
+        suspend: {
+          title: 'Registration certificate suspended',
+          message: `Your certificate ${certificate.certificateNumber} has been suspended. Reason: ${reason}`,
+        },
+        revoke: {
+          title: 'Registration certificate revoked',
+          message: `Your certificate ${certificate.certificateNumber} has been revoked. Reason: ${reason}`,
+        },
+        lift_suspension: {
+          title: 'Certificate suspension lifted',
+          message: `The suspension of your certificate ${certificate.certificateNumber} has been lifted. ${reason}`,
+        },
+      };
+
+      const application = await storage.getApplication(certificate.applicationId);
+      if (application) {
+        await storage.createNotification({
+          userId: application.userId,
+          applicationId: application.id,
+          type: `certificate_${action}`,
+          title: ownerMessages[action].title,
+          message: ownerMessages[action].message,
+          channels: { inapp: true },
+        });
+      }
+
+      res.json({ certificate: updated, message: `${rule.label} successfully` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("[dtdo] Failed to change certificate status:", error);
+      res.status(500).json({ message: "Failed to update certificate status" });
+    }
+  });
+
+  // Get payments for application
+  app.get("/api/applications/:id/payments", requireAuth, async (req, res) => {
+    try {
+      const payments = await storage.getPaymentsByApplication(req.params.id);
+      res.json({ payments });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  // Confirm payment (Officer only)
+  app.post("/api/payments/:id/confirm", requireRole("district_officer", "state_officer"), async (req, res) => {
+    try {
+      const payment = await storage.getPaymentById(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const application = await storage.getApplication(payment.applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || !canTransition("confirm_payment", application.status, user.role)) {
+        return res.status(400).json({ message: `Application is not awaiting payment (current: ${application.status})` });
+      }
+
+      // Update payment status to success
+      await storage.updatePayment(req.params.id, {
+        paymentStatus: "success",
+        completedAt: new Date(),
+      });
+      await issuePaymentReceipt(req.params.id);
+
+      // Approve the application and issue the registration certificate
+      const approved = await transitionApplication(application, {
+        action: "confirm_payment",
+        actor: user,
+      });
+      const certificate = await certificateService.issueCertificate(approved, user.id);
+
+      res.json({ 
+        message: "Payment confirmed and certificate issued",
+        certificateNumber: certificate.certificateNumber,
+        applicationId: payment.applicationId
+      });
+    } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      console.error('Payment confirmation error:', error);
+      res.status(500).json({ message: "Failed to confirm payment" });
+    }
+  });
+
+  // Get all pending payments (Officer only)
+  app.get("/api/payments/pending", requireRole("district_officer", "state_officer"), async (req, res) => {
+    try {
+      const allApplications = await storage.getAllApplications();
+      const pendingPaymentApps = allApplications.filter(a => a.status === 'payment_pending');
+      
+      const paymentsWithApps = await Promise.all(
+        pendingPaymentApps.map(async (app) => {
+          const payments = await storage.getPaymentsByApplication(app.id);
+          return {
+            application: app,
+            payment: payments.find(p => p.paymentStatus === 'pending_verification') || payments[0] || null,
+          };
+        })
+      );
+
+      res.json({ pendingPayments: paymentsWithApps.filter(p => p.payment !== null) });
+    } catch (error) {
+      console.error('Pending payments fetch error:', error);
+      res.status(500).json({ message: "Failed to fetch pending payments" });
+    }
+  });
+
+  // ====================================================================
+  // OFFLINE PAYMENTS
+  // Challan / departmental UPI proof from the owner, verified by the DA
+  // ====================================================================
+
+  const sendOfflinePaymentError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+    }
+    if (error instanceof OfflinePaymentError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    if (error instanceof WorkflowTransitionError) {
+      return res.status(error.statusCode).json(error.toJSON());
+    }
+    console.error(`[offline-payments] ${message}:`, error);
+    res.status(500).json({ message });
+  };
+
+  // Latest offline payment for an application (owner's payment page)
+  app.get("/api/applications/:id/payment", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (user?.role === 'property_owner' ? application.userId !== userId : (user?.district && application.district !== user.district)) {
+        return res.status(403).json({ message: "You do not have access to this application" });
+      }
+
+      const payment = await offlinePaymentService.getLatestForApplication(application.id);
+      res.json({ payment: payment ?? null });
+    } catch (error) {
+      sendOfflinePaymentError(res, error, "Failed to fetch payment");
+    }
+  });
+
+  // Submit challan / UTR proof for an offline payment
+  app.post("/api/applications/:id/payment", requireRole('property_owner'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const offlinePaymentSchema = z.object({
+        mode: z.enum(Object.keys(OFFLINE_PAYMENT_MODES) as [OfflinePaymentMode, ...OfflinePaymentMode[]]),
+        reference: z.string().trim()
+          .min(6, "Enter the challan number or UTR")
+          .max(50, "Challan number / UTR is too long"),
+        paidOn: z.string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, "Enter the payment date")
+          .refine((value) => new Date(value) <= new Date(), "Payment date cannot be in the future"),
+        bankName: z.string().trim().max(100).optional(),
+        documents: z.array(z.object({
+          fileName: z.string(),
+          filePath: z.string(),
+          fileSize: z.number(),
+          mimeType: z.string(),
+        })).min(1, "Upload the challan copy or payment screenshot").max(3),
+      });
+      const submission = offlinePaymentSchema.parse(req.body);
+
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (application.userId !== userId) {
+        return res.status(403).json({ message: "You can only pay for your own applications" });
+      }
+
+      // Refuse duplicates before storing the proof
+      await offlinePaymentService.assertCanSubmit(application, submission.reference);
+
+      const proofDocuments = [];
+      const verifiedFiles = await uploadVerificationService.finalizeUploads(application.id, 'payment_proof', submission.documents);
+      for (const metadata of verifiedFiles) {
+        const document = await documentService.uploadDocument({
+          applicationId: application.id,
+          uploadedBy: userId,
+          metadata,
+        });
+        proofDocuments.push({
+          documentId: document.id,
+          fileName: document.fileName,
+          fileUrl: document.filePath,
+          uploadedAt: new Date().toISOString(),
+        });
+      }
+
+      const payment = await offlinePaymentService.submitProof({
+        application,
+        mode: submission.mode,
+        reference: submission.reference,
+        paidOn: submission.paidOn,
+        bankName: submission.bankName,
+        proofDocuments,
+      });
+      res.json({ payment, message: "Payment submitted for verification" });
+    } catch (error) {
+      sendOfflinePaymentError(res, error, "Failed to submit payment");
+    }
+  });
+
+  // Offline payments in the DA's district: awaiting verification and recently reviewed
+  app.get("/api/da/offline-payments", requireRole('dealing_assistant'), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user || !user.district) {
+        return res.status(400).json({ message: "DA must be assigned to a district" });
+      }
+
+      const [pending, reviewed] = await Promise.all([
+        offlinePaymentService.listForDistrict(user.district, ['pending_verification']),
+        offlinePaymentService.listForDistrict(user.district, ['success', 'rejected']),
+      ]);
+      res.json({ pending, reviewed: reviewed.slice(0, 50) });
+    } catch (error) {
+      sendOfflinePaymentError(res, error, "Failed to fetch offline payments");
+    }
+  });
+
+  const loadDistrictOfflinePayment = async (req: Request, res: Response) => {
+    const user = await storage.getUser(req.session.userId!);
+    const payment = await storage.getPaymentById(req.params.id);
+    if (!user || !payment) {
+      res.status(404).json({ message: "Payment not found" });
+      return null;
+    }
+    const application = await storage.getApplication(payment.applicationId);
+    if (!application || (user.district && application.district !== user.district)) {
+      res.status(403).json({ message: "You can only verify payments from your district" });
+      return null;
+    }
+    return { user, payment };
+  };
+
+  // Verify an offline payment against the treasury/bank record: confirms it and approves the application
+  app.post("/api/da/offline-payments/:id/verify", requireRole('dealing_assistant'), async (req, res) => {
+    try {
+      const { reference, notes } = z.object({
+        reference: z.string().trim().min(6, "Enter the verified challan number or UTR").max(50),
+        notes: z.string().trim().max(500).optional(),
+      }).parse(req.body);
+
+      const loaded = await loadDistrictOfflinePayment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const payment = await offlinePaymentService.verifyPayment(loaded.payment.id, loaded.user, reference, notes || undefined);
+      res.json({ payment, message: "Payment verified and certificate issued" });
+    } catch (error) {
+      sendOfflinePaymentError(res, error, "Failed to verify payment");
+    }
+  });
+
+  // Reject an offline payment proof; the owner can submit again
+  app.post("/api/da/offline-payments/:id/reject", requireRole('dealing_assistant'), async (req, res) => {
+    try {
+      const { reason } = z.object({
+        reason: z.string().trim().min(10, "Please provide a reason of at least 10 characters"),
+      }).parse(req.body);
+
+      const loaded = await loadDistrictOfflinePayment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const payment = await offlinePaymentService.rejectPayment(loaded.payment.id, loaded.user, reason);
+      res.json({ payment, message: "Payment proof rejected" });
+    } catch (error) {
+      sendOfflinePaymentError(res, error, "Failed to reject payment");
+    }
+  });
+
+  // ====================================================================
+  // PAYMENT REFUNDS
+  // Raised by the DTDO, approved and executed by a state officer or admin
+  // ====================================================================
+
+  const sendRefundError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+    }
+    if (error instanceof RefundError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    if (error instanceof UploadRejectedError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error(`[refunds] ${message}:`, error);
+    res.status(500).json({ message });
+  };
+
+  // Refund requests in the DTDO's district and the payments that can still be refunded
+  app.get("/api/dtdo/refunds", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+
+      if (!user || !user.district) {
+        return res.status(400).json({ message: "DTDO must be assigned to a district" });
+      }
+
+      const [refunds, refundablePayments] = await Promise.all([
+        refundService.listRefunds({ district: user.district }),
+        refundService.listRefundablePayments(user.district),
+      ]);
+
+      res.json({ refunds, refundablePayments });
+    } catch (error) {
+      sendRefundError(res, error, "Failed to fetch refunds");
+    }
+  });
+
+  // Raise a (full or partial) refund against a payment
+  app.post("/api/dtdo/payments/:id/refunds", requireRole('district_tourism_officer', 'district_officer'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const user = await storage.getUser(userId);
+      const refundRequestSchema = z.object({
+        amount: z.coerce.number().positive("Refund amount must be greater than zero"),
+        reason: z.enum(['rejected_after_payment', 'duplicate_payment', 'category_downgrade', 'other']),
+        remarks: z.string().trim().min(10, "Please provide remarks of at least 10 characters"),
+      });
+      const { amount, reason, remarks } = refundRequestSchema.parse(req.body);
+
+      const payment = await storage.getPaymentById(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
 
-      // Update inspection order status to completed
-      await db.update(inspectionOrders)
-        .set({ status: 'completed', updatedAt: new Date() })
-        .where(eq(inspectionOrders.id, orderId));
+      const application = await storage.getApplication(payment.applicationId);
+      if (user?.district && application?.district !== user.district) {
+        return res.status(403).json({ message: "You can only raise refunds for applications from your district" });
+      }
 
-      // Update application status to inspection_under_review for DTDO to review
-      // According to PRD_2.0.md workflow: inspection_completed → inspection_under_review → DTDO decision
-      await storage.updateApplication(order[0].applicationId, {
-        status: 'inspection_under_review',
-        currentStage: 'inspection_completed',
+      const refund = await refundService.requestRefund({
+        paymentId: payment.id,
+        amount,
+        reason,
+        remarks,
+        requestedBy: userId,
       });
 
-      res.json({ report: newReport, message: "Inspection report submitted successfully" });
+      res.json({ refund, message: "Refund request submitted for approval" });
     } catch (error) {
-      console.error("[da] Failed to submit inspection report:", error);
-      res.status(500).json({ message: "Failed to submit inspection report" });
+      sendRefundError(res, error, "Failed to raise refund");
     }
   });
 
-  // Document Routes
-  
-  // Get documents for application
-  app.get("/api/applications/:id/documents", requireAuth, async (req, res) => {
+  // All refund requests, optionally filtered by status
+  app.get("/api/refunds", requireRole('state_officer', 'admin'), async (req, res) => {
     try {
-      const documents = await storage.getDocumentsByApplication(req.params.id);
-      res.json({ documents });
+      const status = typeof req.query.status === 'string' && req.query.status !== 'all' ? req.query.status : undefined;
+      res.json({ refunds: await refundService.listRefunds({ status }) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch documents" });
+      sendRefundError(res, error, "Failed to fetch refunds");
     }
   });
 
-  // Payment Routes
-  
-  // Create payment
-  app.post("/api/payments", requireAuth, async (req, res) => {
+  // Approve a refund; gateway payments are refunded through the gateway straight away
+  app.post("/api/refunds/:id/approve", requireRole('state_officer', 'admin'), async (req, res) => {
     try {
-      const payment = await storage.createPayment(req.body);
-      res.json({ payment });
+      const { notes } = z.object({ notes: z.string().trim().optional() }).parse(req.body);
+      const refund = await refundService.approveRefund(req.params.id, req.session.userId!, notes);
+
+      const messages: Record<string, string> = {
+        completed: "Refund approved and processed by the gateway",
+        processing: "Refund approved and sent to the gateway",
+        failed: `Refund approved but the gateway refund failed: ${refund.failureReason}`,
+        approved: "Refund approved. Record the treasury refund order once issued.",
+      };
+      res.json({ refund, message: messages[refund.status] });
     } catch (error) {
-      res.status(500).json({ message: "Failed to create payment" });
+      sendRefundError(res, error, "Failed to approve refund");
     }
   });
 
-  // Update payment (for gateway callback)
-  app.patch("/api/payments/:id", async (req, res) => {
+  app.post("/api/refunds/:id/reject", requireRole('state_officer', 'admin'), async (req, res) => {
     try {
-      const payment = await storage.updatePayment(req.params.id, req.body);
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      const { notes } = z.object({
+        notes: z.string().trim().min(10, "Please provide a reason of at least 10 characters"),
+      }).parse(req.body);
+
+      const refund = await refundService.rejectRefund(req.params.id, req.session.userId!, notes);
+      res.json({ refund, message: "Refund request rejected" });
+    } catch (error) {
+      sendRefundError(res, error, "Failed to reject refund");
+    }
+  });
+
+  // Record the treasury refund order (HimKosh and manual payments) with a copy of the order
+  app.post("/api/refunds/:id/treasury", requireRole('state_officer', 'admin'), async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const treasuryRefundSchema = z.object({
+        orderNumber: z.string().trim().min(1, "Treasury refund order number is required"),
+        documents: z.array(z.object({
+          fileName: z.string(),
+          filePath: z.string(),
+          fileSize: z.number(),
+          mimeType: z.string(),
+        })).min(1, "Upload a copy of the treasury refund order"),
+      });
+      const { orderNumber, documents: proofFiles } = treasuryRefundSchema.parse(req.body);
+
+      const refund = await refundService.getRefund(req.params.id);
+      if (!refund) {
+        return res.status(404).json({ message: "Refund not found" });
       }
-      
-      res.json({ payment });
+
+      // Store the order copy through the document service (versioned + audit logged)
+      const proofDocuments = [];
+      const verifiedFiles = await uploadVerificationService.finalizeUploads(refund.applicationId, 'treasury_refund_order', proofFiles);
+      for (const metadata of verifiedFiles) {
+        const document = await documentService.uploadDocument({
+          applicationId: refund.applicationId,
+          uploadedBy: userId,
+          metadata,
+        });
+        proofDocuments.push({
+          documentId: document.id,
+          fileName: document.fileName,
+          fileUrl: document.filePath,
+          uploadedAt: new Date().toISOString(),
+        });
+      }
+
+      const completed = await refundService.recordTreasuryRefund(refund.id, userId, orderNumber, proofDocuments);
+      res.json({ refund: completed, message: "Treasury refund recorded" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update payment" });
+      sendRefundError(res, error, "Failed to record treasury refund");
     }
   });
 
-  // Get payments for application
-  app.get("/api/applications/:id/payments", requireAuth, async (req, res) => {
+  // Confirm a gateway refund that was accepted but not yet credited
+  app.post("/api/refunds/:id/complete", requireRole('state_officer', 'admin'), async (req, res) => {
     try {
-      const payments = await storage.getPaymentsByApplication(req.params.id);
-      res.json({ payments });
+      const refund = await refundService.confirmGatewayRefund(req.params.id, req.session.userId!);
+      res.json({ refund, message: "Refund marked as completed" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch payments" });
+      sendRefundError(res, error, "Failed to complete refund");
     }
   });
 
-  // Confirm payment (Officer only)
-  app.post("/api/payments/:id/confirm", requireRole("district_officer", "state_officer"), async (req, res) => {
+  // Public Routes (Discovery Platform)
+
+  // Properties whose certificate is suspended, revoked or expired are not listed
+  // (validUpto is checked too so a lapsed certificate drops out before the scheduler marks it)
+  const certificateWithdrawn = () => or(
+    inArray(certificates.status, ['suspended', 'revoked', 'expired']),
+    lt(certificates.validUpto, new Date())
+  );
+
+  const isListedProperty = async (applicationId: string) => {
+    const application = await storage.getApplication(applicationId);
+    if (!application || application.status !== 'approved') {
+      return false;
+    }
+    const [withdrawn] = await db
+      .select({ id: certificates.id })
+      .from(certificates)
+      .where(and(eq(certificates.applicationId, applicationId), certificateWithdrawn()))
+      .limit(1);
+    return !withdrawn;
+  };
+  
+  // Get approved properties
+  app.get("/api/public/properties", async (req, res) => {
     try {
-      const payment = await storage.getPaymentById(req.params.id);
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
-      }
+      const approved = await storage.getApplicationsByStatus('approved');
 
-      // Update payment status to success
-      await storage.updatePayment(req.params.id, {
-        paymentStatus: "success",
-        completedAt: new Date(),
-      });
+      const withdrawn = await db
+        .select({ applicationId: certificates.applicationId })
+        .from(certificates)
+        .where(certificateWithdrawn());
+      const withdrawnIds = new Set(withdrawn.map(row => row.applicationId));
 
-      // Update application status to approved and generate certificate number
-      const application = await storage.getApplication(payment.applicationId);
-      if (!application) {
-        return res.status(404).json({ message: "Application not found" });
+      const properties = approved.filter(property => !withdrawnIds.has(property.id));
+      res.json({ properties });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch properties" });
+    }
+  });
+
+  // Property photo gallery: only processed photos, served as renditions (never the original, which keeps its EXIF)
+  app.get("/api/public/properties/:id/photos", async (req, res) => {
+    try {
+      if (!(await isListedProperty(req.params.id))) {
+        return res.status(404).json({ message: "Property not found" });
       }
 
-      const certificateNumber = `HP-HST-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 100000)).padStart(5, '0')}`;
-      
-      await storage.updateApplication(payment.applicationId, {
-        status: "approved",
-        certificateNumber,
-        certificateIssuedDate: new Date(),
-        certificateExpiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
-        approvedAt: new Date(),
-      });
+      const photos = await db
+        .select()
+        .from(documents)
+        .where(and(
+          eq(documents.applicationId, req.params.id),
+          eq(documents.documentType, 'property_photo'),
+          eq(documents.isLatestVersion, true),
+          eq(documents.isDeleted, false),
+          isNotNull(documents.renditions)
+        ))
+        .orderBy(asc(documents.uploadDate));
 
-      res.json({ 
-        message: "Payment confirmed and certificate issued",
-        certificateNumber,
-        applicationId: payment.applicationId
+      res.json({
+        photos: photos.map(photo => ({
+          id: photo.id,
+          fileName: photo.fileName,
+          width: photo.renditions?.web?.width,
+          height: photo.renditions?.web?.height,
+          thumbnailUrl: `/api/public/photos/${photo.id}/thumbnail`,
+          webUrl: `/api/public/photos/${photo.id}/web`,
+        })),
       });
     } catch (error) {
-      console.error('Payment confirmation error:', error);
-      res.status(500).json({ message: "Failed to confirm payment" });
+      console.error("[public] Failed to fetch property photos:", error);
+      res.status(500).json({ message: "Failed to fetch photos" });
     }
   });
 
-  // Get all pending payments (Officer only)
-  app.get("/api/payments/pending", requireRole("district_officer", "state_officer"), async (req, res) => {
+  app.get("/api/public/photos/:documentId/:size", async (req, res) => {
     try {
-      const allApplications = await storage.getAllApplications();
-      const pendingPaymentApps = allApplications.filter(a => a.status === 'payment_pending');
-      
-      const paymentsWithApps = await Promise.all(
-        pendingPaymentApps.map(async (app) => {
-          const payments = await storage.getPaymentsByApplication(app.id);
-          return {
-            application: app,
-            payment: payments.find(p => p.paymentStatus === 'pending_verification') || payments[0] || null,
-          };
-        })
-      );
+      const { documentId, size } = req.params;
+      if (size !== 'thumbnail' && size !== 'web') {
+        return res.status(400).json({ message: "Unknown rendition" });
+      }
 
-      res.json({ pendingPayments: paymentsWithApps.filter(p => p.payment !== null) });
+      const document = await documentService.getDocument(documentId);
+      if (!document || document.documentType !== 'property_photo' || !(await isListedProperty(document.applicationId))) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      const rendition = await imageProcessingService.getRendition(document, size);
+      if (!rendition) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      res.setHeader('Content-Type', rendition.mimeType);
+      res.setHeader('Cache-Control', 'public, max-age=86400');
+      res.send(rendition.content);
     } catch (error) {
-      console.error('Pending payments fetch error:', error);
-      res.status(500).json({ message: "Failed to fetch pending payments" });
+      console.error("[public] Failed to fetch photo:", error);
+      res.status(500).json({ message: "Failed to fetch photo" });
     }
   });
 
-  // Public Routes (Discovery Platform)
-  
-  // Get approved properties
-  app.get("/api/public/properties", async (req, res) => {
+  // Public certificate verification (QR code target). Limited per IP so it cannot be used to enumerate certificates.
+  const certificateVerifyLimiter = createRateLimiter({
+    windowMs: 15 * 60 * 1000,
+    max: 30,
+    message: "Too many verification requests. Please try again in a few minutes.",
+  });
+
+  app.get("/api/public/certificates/:number/verify", certificateVerifyLimiter, async (req, res) => {
     try {
-      const properties = await storage.getApplicationsByStatus('approved');
-      res.json({ properties });
+      const certificateNumber = req.params.number.trim().toUpperCase();
+      const signature = typeof req.query.sig === 'string' ? req.query.sig : undefined;
+
+      const certificate = await certificateService.getCertificateByNumber(certificateNumber);
+      if (!certificate) {
+        return res.status(404).json({ message: "No certificate found with this number" });
+      }
+
+      // A QR payload must carry a valid signature; manually entered numbers have none
+      const signatureStatus = signature
+        ? (verifyCertificateSignature(certificate.certificateNumber, certificate.validUpto, signature) ? 'valid' : 'invalid')
+        : 'not_provided';
+
+      const isExpired = new Date(certificate.validUpto) < new Date();
+      const status = certificate.status === 'active' && isExpired ? 'expired' : certificate.status;
+
+      // Only non-sensitive fields: no owner name, contact or address
+      res.json({
+        certificate: {
+          certificateNumber: certificate.certificateNumber,
+          propertyName: certificate.propertyName,
+          category: certificate.category,
+          district: certificate.district,
+          validFrom: certificate.validFrom,
+          validUpto: certificate.validUpto,
+          status,
+        },
+        signature: signatureStatus,
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch properties" });
+      console.error("[certificate] Failed to verify certificate:", error);
+      res.status(500).json({ message: "Failed to verify certificate" });
     }
   });
 
@@ -3711,6 +5394,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create thumbnails for photos recorded before image processing, or whose processing failed
+  app.post("/api/admin/images/process", requireRole('admin'), async (req, res) => {
+    try {
+      const processed = await imageProcessingService.processPending();
+      res.json({ processed });
+    } catch (error) {
+      console.error("[admin] Failed to process photos:", error);
+      res.status(500).json({ message: "Failed to process photos" });
+    }
+  });
+
   // ========================================
   // SYSTEM SETTINGS ROUTES (Admin/Super Admin)
   // ========================================
@@ -3723,72 +5417,380 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const [setting] = await db
         .select()
         .from(systemSettings)
-        .where(eq(systemSettings.settingKey, key))
+        .where(eq(systemSettings.settingKey, key))
+        .limit(1);
+      
+      if (!setting) {
+        return res.status(404).json({ message: "Setting not found" });
+      }
+      
+      res.json(setting);
+    } catch (error) {
+      console.error("[admin] Failed to fetch setting:", error);
+      res.status(500).json({ message: "Failed to fetch setting" });
+    }
+  });
+
+  // Update or create a system setting
+  app.put("/api/admin/settings/:key", requireRole('admin'), async (req, res) => {
+    try {
+      const { key } = req.params;
+      const { settingValue, description } = req.body;
+      const userId = req.user?.id;
+      
+      if (!settingValue) {
+        return res.status(400).json({ message: "Setting value is required" });
+      }
+      
+      // Check if setting exists
+      const [existingSetting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, key))
+        .limit(1);
+      
+      if (existingSetting) {
+        // Update existing setting
+        const [updated] = await db
+          .update(systemSettings)
+          .set({
+            settingValue,
+            description: description || existingSetting.description,
+            updatedBy: userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(systemSettings.settingKey, key))
+          .returning();
+        
+        console.log(`[admin] Updated setting: ${key}`);
+        res.json(updated);
+      } else {
+        // Create new setting
+        const [created] = await db
+          .insert(systemSettings)
+          .values({
+            settingKey: key,
+            settingValue,
+            description: description || '',
+            category: key.startsWith('payment_') ? 'payment' : 'general',
+            updatedBy: userId,
+          })
+          .returning();
+        
+        console.log(`[admin] Created setting: ${key}`);
+        res.json(created);
+      }
+    } catch (error) {
+      console.error("[admin] Failed to update setting:", error);
+      res.status(500).json({ message: "Failed to update setting" });
+    }
+  });
+
+  // Get objection deadline / auto-rejection policy (defaults when not configured)
+  app.get("/api/admin/settings/objections/policy", requireRole('admin'), async (req, res) => {
+    try {
+      const [setting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, OBJECTION_POLICY_SETTING_KEY))
+        .limit(1);
+
+      res.json({ ...(await getObjectionPolicy()), isDefault: !setting });
+    } catch (error) {
+      console.error("[admin] Failed to fetch objection policy:", error);
+      res.status(500).json({ message: "Failed to fetch objection policy" });
+    }
+  });
+
+  // Update objection policy
+  app.put("/api/admin/settings/objections/policy", requireRole('admin'), async (req, res) => {
+    try {
+      const policySchema = z.object({
+        responseDays: z.number().int().min(1).max(90),
+        autoRejectEnabled: z.boolean(),
+        autoRejectGraceDays: z.number().int().min(0).max(90),
+      });
+      const policy = policySchema.parse({ ...DEFAULT_OBJECTION_POLICY, ...req.body });
+      const userId = req.session.userId!;
+
+      const [existingSetting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, OBJECTION_POLICY_SETTING_KEY))
+        .limit(1);
+
+      if (existingSetting) {
+        await db
+          .update(systemSettings)
+          .set({
+            settingValue: policy,
+            updatedBy: userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(systemSettings.settingKey, OBJECTION_POLICY_SETTING_KEY));
+      } else {
+        await db
+          .insert(systemSettings)
+          .values({
+            settingKey: OBJECTION_POLICY_SETTING_KEY,
+            settingValue: policy,
+            description: 'Objection response window and auto-rejection of applications with unanswered objections',
+            category: 'general',
+            updatedBy: userId,
+          });
+      }
+
+      console.log(`[admin] Objection policy updated: auto-reject ${policy.autoRejectEnabled ? 'enabled' : 'disabled'}`);
+      res.json({ ...policy, isDefault: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to update objection policy:", error);
+      res.status(500).json({ message: "Failed to update objection policy" });
+    }
+  });
+
+  // Get renewal reminder offsets and notification templates
+  app.get("/api/admin/settings/renewals/reminders", requireRole('admin'), async (req, res) => {
+    try {
+      const [setting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, RENEWAL_REMINDER_SETTING_KEY))
         .limit(1);
-      
-      if (!setting) {
-        return res.status(404).json({ message: "Setting not found" });
-      }
-      
-      res.json(setting);
+
+      res.json({ ...(await getRenewalReminderSettings()), isDefault: !setting });
     } catch (error) {
-      console.error("[admin] Failed to fetch setting:", error);
-      res.status(500).json({ message: "Failed to fetch setting" });
+      console.error("[admin] Failed to fetch renewal reminder settings:", error);
+      res.status(500).json({ message: "Failed to fetch renewal reminder settings" });
     }
   });
 
-  // Update or create a system setting
-  app.put("/api/admin/settings/:key", requireRole('admin'), async (req, res) => {
+  // Update renewal reminder offsets and notification templates
+  app.put("/api/admin/settings/renewals/reminders", requireRole('admin'), async (req, res) => {
     try {
-      const { key } = req.params;
-      const { settingValue, description } = req.body;
-      const userId = req.user?.id;
-      
-      if (!settingValue) {
-        return res.status(400).json({ message: "Setting value is required" });
-      }
-      
-      // Check if setting exists
+      const settingsSchema = z.object({
+        offsetsDays: z.array(z.number().int().min(1).max(365)).max(10, "At most 10 reminder offsets are allowed"),
+        reminderTitle: z.string().trim().min(3, "Reminder title is required").max(255),
+        reminderMessage: z.string().trim().min(10, "Reminder message is required"),
+        expiredTitle: z.string().trim().min(3, "Expiry title is required").max(255),
+        expiredMessage: z.string().trim().min(10, "Expiry message is required"),
+      });
+      const parsed = settingsSchema.parse({ ...(await getRenewalReminderSettings()), ...req.body });
+      const settings = { ...parsed, offsetsDays: Array.from(new Set(parsed.offsetsDays)).sort((a, b) => b - a) };
+      const userId = req.session.userId!;
+
       const [existingSetting] = await db
         .select()
         .from(systemSettings)
-        .where(eq(systemSettings.settingKey, key))
+        .where(eq(systemSettings.settingKey, RENEWAL_REMINDER_SETTING_KEY))
         .limit(1);
-      
+
       if (existingSetting) {
-        // Update existing setting
-        const [updated] = await db
+        await db
           .update(systemSettings)
           .set({
-            settingValue,
-            description: description || existingSetting.description,
+            settingValue: settings,
             updatedBy: userId,
             updatedAt: new Date(),
           })
-          .where(eq(systemSettings.settingKey, key))
-          .returning();
-        
-        console.log(`[admin] Updated setting: ${key}`);
-        res.json(updated);
+          .where(eq(systemSettings.settingKey, RENEWAL_REMINDER_SETTING_KEY));
       } else {
-        // Create new setting
-        const [created] = await db
+        await db
           .insert(systemSettings)
           .values({
-            settingKey: key,
-            settingValue,
-            description: description || '',
-            category: key.startsWith('payment_') ? 'payment' : 'general',
+            settingKey: RENEWAL_REMINDER_SETTING_KEY,
+            settingValue: settings,
+            description: 'Days before certificate expiry at which renewal reminders are sent, and the notification templates',
+            category: 'notification',
             updatedBy: userId,
-          })
-          .returning();
-        
-        console.log(`[admin] Created setting: ${key}`);
-        res.json(created);
+          });
       }
+
+      console.log(`[admin] Renewal reminder offsets updated: ${settings.offsetsDays.join(', ') || 'none'}`);
+      res.json({ ...settings, isDefault: false });
     } catch (error) {
-      console.error("[admin] Failed to update setting:", error);
-      res.status(500).json({ message: "Failed to update setting" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to update renewal reminder settings:", error);
+      res.status(500).json({ message: "Failed to update renewal reminder settings" });
+    }
+  });
+
+  // Fee schedule in force now (used by the application form to preview fees)
+  app.get("/api/fee-schedules/current", requireAuth, async (req, res) => {
+    try {
+      const schedule = await feeScheduleService.getScheduleInForce();
+      res.json({ schedule });
+    } catch (error) {
+      console.error("[fees] Failed to fetch current fee schedule:", error);
+      res.status(500).json({ message: "Failed to fetch fee schedule" });
+    }
+  });
+
+  // List all fee schedule versions
+  app.get("/api/admin/fee-schedules", requireRole('super_admin'), async (req, res) => {
+    try {
+      const schedules = await feeScheduleService.listSchedules();
+      const current = await feeScheduleService.getScheduleInForce();
+      res.json({ schedules, currentVersion: current.version });
+    } catch (error) {
+      console.error("[admin] Failed to fetch fee schedules:", error);
+      res.status(500).json({ message: "Failed to fetch fee schedules" });
+    }
+  });
+
+  // Create a new fee schedule version, effective from a future date
+  app.post("/api/admin/fee-schedules", requireRole('super_admin'), async (req, res) => {
+    try {
+      const data = insertFeeScheduleSchema.parse(req.body);
+      if (data.effectiveFrom <= new Date()) {
+        return res.status(400).json({ message: "A new fee schedule must take effect on a future date" });
+      }
+
+      const schedule = await feeScheduleService.createSchedule(data, req.session.userId!);
+      res.status(201).json({ schedule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to create fee schedule:", error);
+      res.status(500).json({ message: "Failed to create fee schedule" });
+    }
+  });
+
+  // Edit a fee schedule that has not yet taken effect
+  app.put("/api/admin/fee-schedules/:id", requireRole('super_admin'), async (req, res) => {
+    try {
+      const schedule = await feeScheduleService.getSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+
+      const data = insertFeeScheduleSchema.parse(req.body);
+      if (data.effectiveFrom <= new Date()) {
+        return res.status(400).json({ message: "A fee schedule must take effect on a future date" });
+      }
+
+      const updated = await feeScheduleService.updateSchedule(schedule, data);
+      if (!updated) {
+        return res.status(409).json({ message: "This fee schedule is already in force and can no longer be changed" });
+      }
+
+      res.json({ schedule: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to update fee schedule:", error);
+      res.status(500).json({ message: "Failed to update fee schedule" });
+    }
+  });
+
+  // Withdraw a fee schedule that has not yet taken effect
+  app.delete("/api/admin/fee-schedules/:id", requireRole('super_admin'), async (req, res) => {
+    try {
+      const schedule = await feeScheduleService.getSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+
+      const deleted = await feeScheduleService.deleteSchedule(schedule);
+      if (!deleted) {
+        return res.status(409).json({ message: "This fee schedule is already in force and cannot be withdrawn" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[admin] Failed to withdraw fee schedule:", error);
+      res.status(500).json({ message: "Failed to withdraw fee schedule" });
+    }
+  });
+
+  // Payment reconciliation exceptions report
+  app.get("/api/admin/payments/reconciliation", requireRole('admin'), async (req, res) => {
+    try {
+      const exceptions = await db
+        .select({
+          transaction: himkoshTransactions,
+          applicationNumber: homestayApplications.applicationNumber,
+          propertyName: homestayApplications.propertyName,
+          ownerName: homestayApplications.ownerName,
+          district: homestayApplications.district,
+        })
+        .from(himkoshTransactions)
+        .leftJoin(homestayApplications, eq(himkoshTransactions.applicationId, homestayApplications.id))
+        .where(
+          or(
+            isNotNull(himkoshTransactions.reconciliationIssue),
+            eq(himkoshTransactions.transactionStatus, 'amount_mismatch')
+          )
+        )
+        .orderBy(desc(himkoshTransactions.initiatedAt));
+
+      const [{ pendingVerification }] = await db
+        .select({ pendingVerification: sql<number>`count(*)::int` })
+        .from(himkoshTransactions)
+        .where(eq(himkoshTransactions.isDoubleVerified, false));
+
+      res.json({ exceptions, pendingVerification });
+    } catch (error) {
+      console.error("[admin] Failed to fetch reconciliation exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation exceptions" });
+    }
+  });
+
+  // Run payment reconciliation now instead of waiting for the hourly job
+  app.post("/api/admin/payments/reconciliation/run", requireRole('admin'), async (req, res) => {
+    try {
+      const summary = await reconcileHimkoshTransactions();
+      res.json(summary);
+    } catch (error) {
+      console.error("[admin] Failed to run payment reconciliation:", error);
+      res.status(500).json({ message: "Failed to run payment reconciliation" });
+    }
+  });
+
+  // Treasury settlement statement (daily or monthly), as JSON or a CSV/PDF download
+  const settlementStatementQuerySchema = z.object({
+    period: z.enum(['daily', 'monthly']).default('daily'),
+    date: z.string().min(1, "Date is required"),
+    district: z.string().optional(),
+    format: z.enum(['json', 'csv', 'pdf']).default('json'),
+  });
+
+  app.get("/api/admin/payments/settlement-statement", requireRole('admin'), async (req, res) => {
+    try {
+      const query = settlementStatementQuerySchema.parse(req.query);
+      const window = getStatementWindow(query.period, query.date);
+      if (!window) {
+        return res.status(400).json({
+          message: query.period === 'daily' ? "Date must be YYYY-MM-DD" : "Month must be YYYY-MM",
+        });
+      }
+
+      const statement = await buildSettlementStatement(window, query.district || undefined);
+
+      if (query.format === 'json') {
+        return res.json(statement);
+      }
+
+      const fileName = `settlement-statement-${query.date}${query.district ? `-${query.district.toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : ''}.${query.format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      if (query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        return res.send(renderStatementCsv(statement));
+      }
+      res.setHeader('Content-Type', 'application/pdf');
+      res.send(renderStatementPdf(statement));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to build settlement statement:", error);
+      res.status(500).json({ message: "Failed to build settlement statement" });
     }
   });
 
@@ -3867,6 +5869,237 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get payment gateway settings, with each gateway's availability
+  app.get("/api/admin/settings/payment/gateways", requireRole('admin'), async (req, res) => {
+    try {
+      const [setting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, PAYMENT_GATEWAY_SETTING_KEY))
+        .limit(1);
+
+      const gateways = PAYMENT_GATEWAY_IDS.map(id => {
+        const gateway = getPaymentGateway(id)!;
+        return { id, label: gateway.label, isAvailable: gateway.isAvailable(), isMock: gateway.isMock() };
+      });
+
+      res.json({ ...(await getPaymentGatewaySettings()), gateways, isDefault: !setting });
+    } catch (error) {
+      console.error("[admin] Failed to fetch payment gateway settings:", error);
+      res.status(500).json({ message: "Failed to fetch payment gateway settings" });
+    }
+  });
+
+  // Update which payment gateways applicants can use
+  app.put("/api/admin/settings/payment/gateways", requireRole('super_admin'), async (req, res) => {
+    try {
+      const settingsSchema = z.object({
+        enabled: z.array(z.enum(PAYMENT_GATEWAY_IDS)).min(1, "Enable at least one payment gateway"),
+        defaultGateway: z.enum(PAYMENT_GATEWAY_IDS),
+      }).refine(value => value.enabled.includes(value.defaultGateway), {
+        message: "The default gateway must be enabled",
+        path: ["defaultGateway"],
+      });
+      const parsed = settingsSchema.parse({ ...(await getPaymentGatewaySettings()), ...req.body });
+      const settings = { ...parsed, enabled: Array.from(new Set(parsed.enabled)) };
+      const userId = req.session.userId!;
+
+      const [existingSetting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, PAYMENT_GATEWAY_SETTING_KEY))
+        .limit(1);
+
+      if (existingSetting) {
+        await db
+          .update(systemSettings)
+          .set({
+            settingValue: settings,
+            updatedBy: userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(systemSettings.settingKey, PAYMENT_GATEWAY_SETTING_KEY));
+      } else {
+        await db
+          .insert(systemSettings)
+          .values({
+            settingKey: PAYMENT_GATEWAY_SETTING_KEY,
+            settingValue: settings,
+            description: 'Online payment gateways offered to applicants and the default gateway',
+            category: 'payment',
+            updatedBy: userId,
+          });
+      }
+
+      console.log(`[admin] Payment gateways updated: ${settings.enabled.join(', ')} (default ${settings.defaultGateway})`);
+      res.json({ ...settings, isDefault: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to update payment gateway settings:", error);
+      res.status(500).json({ message: "Failed to update payment gateway settings" });
+    }
+  });
+
+  // ========================================
+  // HIMKOSH CHALLAN ROUTING (Admin)
+  // District DDOs and head-of-account split for treasury challans
+  // ========================================
+
+  app.get("/api/admin/ddo-codes", requireRole('admin'), async (req, res) => {
+    try {
+      const codes = await db.select().from(ddoCodes).orderBy(ddoCodes.district);
+      res.json({ ddoCodes: codes });
+    } catch (error) {
+      console.error("[admin] Failed to fetch DDO codes:", error);
+      res.status(500).json({ message: "Failed to fetch DDO codes" });
+    }
+  });
+
+  app.post("/api/admin/ddo-codes", requireRole('admin'), async (req, res) => {
+    try {
+      const data = insertDdoCodeSchema.parse(req.body);
+
+      const [existing] = await db
+        .select({ id: ddoCodes.id })
+        .from(ddoCodes)
+        .where(eq(ddoCodes.district, data.district))
+        .limit(1);
+      if (existing) {
+        return res.status(409).json({ message: `A DDO is already mapped to ${data.district}` });
+      }
+
+      const [created] = await db.insert(ddoCodes).values(data).returning();
+      console.log(`[admin] DDO ${created.ddoCode} mapped to ${created.district}`);
+      res.json({ ddoCode: created });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to create DDO code:", error);
+      res.status(500).json({ message: "Failed to create DDO code" });
+    }
+  });
+
+  app.patch("/api/admin/ddo-codes/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const data = insertDdoCodeSchema.partial().parse(req.body);
+
+      if (data.district) {
+        const [existing] = await db
+          .select({ id: ddoCodes.id })
+          .from(ddoCodes)
+          .where(and(eq(ddoCodes.district, data.district), ne(ddoCodes.id, req.params.id)))
+          .limit(1);
+        if (existing) {
+          return res.status(409).json({ message: `A DDO is already mapped to ${data.district}` });
+        }
+      }
+
+      const [updated] = await db
+        .update(ddoCodes)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(ddoCodes.id, req.params.id))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ message: "DDO code not found" });
+      }
+
+      console.log(`[admin] DDO mapping for ${updated.district} updated: ${updated.ddoCode}${updated.isActive ? '' : ' (inactive)'}`);
+      res.json({ ddoCode: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to update DDO code:", error);
+      res.status(500).json({ message: "Failed to update DDO code" });
+    }
+  });
+
+  // Current challan routing (falls back to defaults if not configured)
+  app.get("/api/admin/settings/himkosh/routing", requireRole('admin'), async (req, res) => {
+    try {
+      const [setting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, HIMKOSH_ROUTING_SETTING_KEY))
+        .limit(1);
+
+      const config = getHimKoshConfig();
+      res.json({
+        ...(await getHimkoshRoutingSettings()),
+        // Used when routing leaves the DDO or a head blank
+        credentials: { ddo: config.ddo, registrationFeeHead: config.heads.registrationFee },
+        isDefault: !setting,
+      });
+    } catch (error) {
+      console.error("[admin] Failed to fetch challan routing:", error);
+      res.status(500).json({ message: "Failed to fetch challan routing" });
+    }
+  });
+
+  // Update DDO routing and the head-of-account mapping
+  app.put("/api/admin/settings/himkosh/routing", requireRole('admin'), async (req, res) => {
+    try {
+      // CTP heads of account are at most 14 characters, e.g. 1452-00-800-01
+      const headSchema = z.string().trim().max(14, "Head of account codes are at most 14 characters");
+      const settingsSchema = z.object({
+        districtDdo: z.boolean(),
+        heads: z.object({
+          registrationFee: headSchema,
+          lateFee: headSchema,
+          processingCharge: headSchema,
+        }),
+        processingCharge: z.number().int("Processing charge must be in whole rupees").min(0),
+      });
+      const current = await getHimkoshRoutingSettings();
+      const settings = settingsSchema.parse({
+        ...current,
+        ...req.body,
+        heads: { ...current.heads, ...req.body?.heads },
+      });
+      const userId = req.session.userId!;
+
+      const [existingSetting] = await db
+        .select()
+        .from(systemSettings)
+        .where(eq(systemSettings.settingKey, HIMKOSH_ROUTING_SETTING_KEY))
+        .limit(1);
+
+      if (existingSetting) {
+        await db
+          .update(systemSettings)
+          .set({
+            settingValue: settings,
+            updatedBy: userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(systemSettings.settingKey, HIMKOSH_ROUTING_SETTING_KEY));
+      } else {
+        await db
+          .insert(systemSettings)
+          .values({
+            settingKey: HIMKOSH_ROUTING_SETTING_KEY,
+            settingValue: settings,
+            description: 'HimKosh challan DDO routing and head-of-account split',
+            category: 'payment',
+            updatedBy: userId,
+          });
+      }
+
+      console.log(`[admin] Challan routing updated: district DDO ${settings.districtDdo ? 'on' : 'off'}, processing charge ₹${settings.processingCharge}`);
+      res.json({ ...settings, isDefault: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("[admin] Failed to update challan routing:", error);
+      res.status(500).json({ message: "Failed to update challan routing" });
+    }
+  });
+
   // ========================================
   // DATABASE CONSOLE ROUTES (Admin/Super Admin)
   // ========================================
@@ -4370,6 +6603,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/himkosh", himkoshRoutes);
   console.log('[himkosh] Payment gateway routes registered');
 
+  // Gateway-agnostic payment routes (Razorpay, CCAvenue, PayU; HimKosh initiation)
+  registerPaymentGatewayRoutes(app, requireAuth);
+
   // Document Management Routes
   registerDocumentRoutes(app, requireAuth, storage);
 
@@ -4377,6 +6613,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   startScraperScheduler();
   console.log('[scraper] Production stats scraper initialized');
 
+  // Escalate overdue objections and apply the auto-rejection policy (runs on boot and hourly)
+  startObjectionEscalationScheduler();
+
+  // Send certificate renewal reminders and expire lapsed certificates (runs on boot and hourly)
+  startRenewalScheduler();
+
+  // Double-verify HimKosh transactions with CTP and flag exceptions (runs on boot and hourly)
+  startReconciliationScheduler();
+
   const httpServer = createServer(app);
   return httpServer;
 }
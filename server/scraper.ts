@@ -1,4 +1,10 @@
 import { storage } from "./storage";
+import { db } from "./db";
+import { transitionApplication } from "./workflow";
+import { reconcileHimkoshTransactions } from "./himkosh/reconciliation";
+import { objections, homestayApplications, systemSettings, certificates, type Objection, type Certificate } from "@shared/schema";
+import { WorkflowTransitionError, TERMINAL_STATUSES, type ApplicationStatus } from "@shared/application-workflow";
+import { eq, and, lt, gt, inArray } from "drizzle-orm";
 import https from "https";
 
 const PRODUCTION_PORTAL_URL = "https://eservices.himachaltourism.gov.in/";
@@ -120,3 +126,397 @@ export function stopScraperScheduler() {
     console.log('[scraper] Scheduler stopped');
   }
 }
+
+// ========================================
+// OBJECTION DEADLINE ESCALATION
+// ========================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const OBJECTION_POLICY_SETTING_KEY = 'objection_policy';
+
+export interface ObjectionPolicy {
+  responseDays: number; // Default response window when the DTDO does not set a deadline
+  autoRejectEnabled: boolean; // Reject applications whose objections stay unanswered
+  autoRejectGraceDays: number; // Days after escalation before auto-rejection
+}
+
+export const DEFAULT_OBJECTION_POLICY: ObjectionPolicy = {
+  responseDays: 15,
+  autoRejectEnabled: false,
+  autoRejectGraceDays: 7,
+};
+
+/**
+ * Read the objection policy from system settings, falling back to defaults
+ */
+export async function getObjectionPolicy(): Promise<ObjectionPolicy> {
+  const [setting] = await db
+    .select()
+    .from(systemSettings)
+    .where(eq(systemSettings.settingKey, OBJECTION_POLICY_SETTING_KEY))
+    .limit(1);
+
+  if (!setting) {
+    return DEFAULT_OBJECTION_POLICY;
+  }
+
+  return { ...DEFAULT_OBJECTION_POLICY, ...(setting.settingValue as Partial<ObjectionPolicy>) };
+}
+
+function groupByApplication(items: Objection[]): Map<string, Objection[]> {
+  const grouped = new Map<string, Objection[]>();
+  for (const item of items) {
+    const list = grouped.get(item.applicationId) || [];
+    list.push(item);
+    grouped.set(item.applicationId, list);
+  }
+  return grouped;
+}
+
+async function notifyOwnerAndOfficers(
+  application: { id: string; userId: string },
+  officerIds: string[],
+  notification: { type: string; ownerTitle: string; ownerMessage: string; officerTitle: string; officerMessage: string }
+) {
+  await storage.createNotification({
+    userId: application.userId,
+    applicationId: application.id,
+    type: notification.type,
+    title: notification.ownerTitle,
+    message: notification.ownerMessage,
+    channels: { inapp: true },
+  });
+
+  for (const officerId of Array.from(new Set(officerIds))) {
+    await storage.createNotification({
+      userId: officerId,
+      applicationId: application.id,
+      type: notification.type,
+      title: notification.officerTitle,
+      message: notification.officerMessage,
+      channels: { inapp: true },
+    });
+  }
+}
+
+/**
+ * Mark pending objections past their response deadline as escalated and,
+ * if the policy allows, reject applications whose escalated objections
+ * are still unanswered after the grace period.
+ */
+export async function escalateOverdueObjections() {
+  try {
+    const now = new Date();
+
+    // Only objections still awaiting a response; a clarification moves them to 'responded'
+    const escalated = await db
+      .update(objections)
+      .set({ status: 'escalated', updatedAt: now })
+      .where(
+        and(
+          eq(objections.status, 'pending'),
+          lt(objections.responseDeadline, now)
+        )
+      )
+      .returning();
+
+    for (const [applicationId, items] of Array.from(groupByApplication(escalated))) {
+      const application = await storage.getApplication(applicationId);
+      if (!application) continue;
+
+      await notifyOwnerAndOfficers(application, items.map(item => item.raisedBy), {
+        type: 'objection_escalated',
+        ownerTitle: 'Objection response overdue',
+        ownerMessage: `The response deadline has passed for ${items.length} objection(s) on application ${application.applicationNumber}. Please submit your clarification as soon as possible.`,
+        officerTitle: 'Objections overdue',
+        officerMessage: `The applicant has not responded to ${items.length} objection(s) on application ${application.applicationNumber} before the deadline.`,
+      });
+    }
+
+    if (escalated.length > 0) {
+      console.log(`[objections] Escalated ${escalated.length} overdue objection(s)`);
+    }
+
+    const policy = await getObjectionPolicy();
+    if (!policy.autoRejectEnabled) {
+      return;
+    }
+
+    const cutoff = new Date(now.getTime() - policy.autoRejectGraceDays * DAY_MS);
+    const expired = await db
+      .select()
+      .from(objections)
+      .where(
+        and(
+          eq(objections.status, 'escalated'),
+          lt(objections.responseDeadline, cutoff)
+        )
+      );
+
+    for (const [applicationId, items] of Array.from(groupByApplication(expired))) {
+      const application = await storage.getApplication(applicationId);
+      if (!application || application.status !== 'objection_raised') continue;
+
+      const reason = `Objections not answered within ${policy.autoRejectGraceDays} day(s) of the response deadline`;
+
+      try {
+        // Recorded against the DTDO who raised the objections
+        await transitionApplication(application, {
+          action: 'auto_reject_objections',
+          actor: { id: items[0].raisedBy, role: 'system' },
+          feedback: reason,
+          updates: { rejectionReason: reason },
+        });
+      } catch (error) {
+        if (error instanceof WorkflowTransitionError) {
+          console.warn(`[objections] Skipped auto-rejection of ${application.applicationNumber}: ${error.message}`);
+          continue;
+        }
+        throw error;
+      }
+
+      await db
+        .update(objections)
+        .set({ status: 'rejected', resolutionNotes: reason, resolvedDate: now, updatedAt: now })
+        .where(inArray(objections.id, items.map(item => item.id)));
+
+      await notifyOwnerAndOfficers(application, items.map(item => item.raisedBy), {
+        type: 'application_rejected',
+        ownerTitle: 'Application rejected',
+        ownerMessage: `Application ${application.applicationNumber} has been rejected because the raised objections were not answered in time.`,
+        officerTitle: 'Application auto-rejected',
+        officerMessage: `Application ${application.applicationNumber} was rejected automatically under the objection policy.`,
+      });
+
+      console.log(`[objections] Auto-rejected ${application.applicationNumber}`);
+    }
+  } catch (error) {
+    console.error('[objections] Error escalating overdue objections:', error);
+  }
+}
+
+let objectionInterval: NodeJS.Timeout | null = null;
+
+export function startObjectionEscalationScheduler() {
+  escalateOverdueObjections();
+
+  objectionInterval = setInterval(() => {
+    escalateOverdueObjections();
+  }, 60 * 60 * 1000);
+
+  console.log('[objections] Scheduler started - will check objection deadlines every hour');
+}
+
+export function stopObjectionEscalationScheduler() {
+  if (objectionInterval) {
+    clearInterval(objectionInterval);
+    objectionInterval = null;
+    console.log('[objections] Scheduler stopped');
+  }
+}
+
+// ========================================
+// CERTIFICATE RENEWAL REMINDERS & EXPIRY
+// ========================================
+
+export const RENEWAL_REMINDER_SETTING_KEY = 'renewal_reminders';
+
+export interface RenewalReminderSettings {
+  offsetsDays: number[]; // Days before expiry at which a reminder is sent, e.g. [90, 30, 7]
+  reminderTitle: string;
+  reminderMessage: string;
+  expiredTitle: string;
+  expiredMessage: string;
+}
+
+// Placeholders: {certificateNumber}, {propertyName}, {expiryDate}, {daysLeft}
+export const DEFAULT_RENEWAL_REMINDER_SETTINGS: RenewalReminderSettings = {
+  offsetsDays: [90, 30, 7],
+  reminderTitle: 'Certificate renewal due',
+  reminderMessage: 'Registration certificate {certificateNumber} for {propertyName} expires on {expiryDate} ({daysLeft} day(s) left). Start your renewal from the application page.',
+  expiredTitle: 'Certificate expired',
+  expiredMessage: 'Registration certificate {certificateNumber} for {propertyName} expired on {expiryDate}. The property is no longer listed publicly until the certificate is renewed.',
+};
+
+/**
+ * Read the renewal reminder settings from system settings, falling back to defaults
+ */
+export async function getRenewalReminderSettings(): Promise<RenewalReminderSettings> {
+  const [setting] = await db
+    .select()
+    .from(systemSettings)
+    .where(eq(systemSettings.settingKey, RENEWAL_REMINDER_SETTING_KEY))
+    .limit(1);
+
+  if (!setting) {
+    return DEFAULT_RENEWAL_REMINDER_SETTINGS;
+  }
+
+  return { ...DEFAULT_RENEWAL_REMINDER_SETTINGS, ...(setting.settingValue as Partial<RenewalReminderSettings>) };
+}
+
+function renderTemplate(template: string, certificate: Certificate, daysLeft: number): string {
+  const values: Record<string, string> = {
+    certificateNumber: certificate.certificateNumber,
+    propertyName: certificate.propertyName,
+    expiryDate: new Date(certificate.validUpto).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' }),
+    daysLeft: String(daysLeft),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+// A renewal that is in progress or already approved makes reminders unnecessary
+async function hasActiveRenewal(certificate: Certificate): Promise<boolean> {
+  if (!certificate.renewalApplicationId) {
+    return false;
+  }
+  const renewal = await storage.getApplication(certificate.renewalApplicationId);
+  return !!renewal && !TERMINAL_STATUSES.includes(renewal.status as ApplicationStatus);
+}
+
+/**
+ * Send renewal reminders for certificates approaching expiry and mark
+ * certificates past their validity as expired.
+ *
+ * One reminder is sent per offset; if several offsets were missed (e.g. the
+ * server was down) only the most recent one is sent.
+ */
+export async function processCertificateRenewals() {
+  try {
+    const now = new Date();
+    const settings = await getRenewalReminderSettings();
+    const offsets = Array.from(new Set(settings.offsetsDays.filter(days => days > 0))).sort((a, b) => a - b);
+
+    if (offsets.length > 0) {
+      const horizon = new Date(now.getTime() + offsets[offsets.length - 1] * DAY_MS);
+      const expiring = await db
+        .select()
+        .from(certificates)
+        .where(
+          and(
+            eq(certificates.status, 'active'),
+            gt(certificates.validUpto, now),
+            lt(certificates.validUpto, horizon)
+          )
+        );
+
+      let sent = 0;
+      for (const certificate of expiring) {
+        const daysLeft = Math.ceil((new Date(certificate.validUpto).getTime() - now.getTime()) / DAY_MS);
+        const dueOffset = offsets.find(days => days >= daysLeft);
+        if (dueOffset === undefined) continue;
+        if (certificate.lastReminderOffsetDays != null && certificate.lastReminderOffsetDays <= dueOffset) continue;
+        if (await hasActiveRenewal(certificate)) continue;
+
+        const application = await storage.getApplication(certificate.applicationId);
+        if (!application) continue;
+
+        await storage.createNotification({
+          userId: application.userId,
+          applicationId: application.id,
+          type: 'renewal_reminder',
+          title: renderTemplate(settings.reminderTitle, certificate, daysLeft),
+          message: renderTemplate(settings.reminderMessage, certificate, daysLeft),
+          channels: { inapp: true },
+        });
+
+        await db
+          .update(certificates)
+          .set({ renewalReminderSent: true, lastReminderOffsetDays: dueOffset, updatedAt: now })
+          .where(eq(certificates.id, certificate.id));
+        sent++;
+      }
+
+      if (sent > 0) {
+        console.log(`[renewals] Sent ${sent} renewal reminder(s)`);
+      }
+    }
+
+    // Suspended and revoked certificates keep their status; only active ones lapse
+    const expired = await db
+      .update(certificates)
+      .set({ status: 'expired', updatedAt: now })
+      .where(
+        and(
+          eq(certificates.status, 'active'),
+          lt(certificates.validUpto, now)
+        )
+      )
+      .returning();
+
+    for (const certificate of expired) {
+      if (await hasActiveRenewal(certificate)) continue;
+
+      const application = await storage.getApplication(certificate.applicationId);
+      if (!application) continue;
+
+      await storage.createNotification({
+        userId: application.userId,
+        applicationId: application.id,
+        type: 'certificate_expired',
+        title: renderTemplate(settings.expiredTitle, certificate, 0),
+        message: renderTemplate(settings.expiredMessage, certificate, 0),
+        channels: { inapp: true },
+      });
+    }
+
+    if (expired.length > 0) {
+      console.log(`[renewals] Marked ${expired.length} certificate(s) as expired`);
+    }
+  } catch (error) {
+    console.error('[renewals] Error processing certificate renewals:', error);
+  }
+}
+
+let renewalInterval: NodeJS.Timeout | null = null;
+
+export function startRenewalScheduler() {
+  processCertificateRenewals();
+
+  renewalInterval = setInterval(() => {
+    processCertificateRenewals();
+  }, 60 * 60 * 1000);
+
+  console.log('[renewals] Scheduler started - will check certificate expiry every hour');
+}
+
+export function stopRenewalScheduler() {
+  if (renewalInterval) {
+    clearInterval(renewalInterval);
+    renewalInterval = null;
+    console.log('[renewals] Scheduler stopped');
+  }
+}
+
+// ========================================
+// HIMKOSH PAYMENT RECONCILIATION
+// ========================================
+
+let reconciliationInterval: NodeJS.Timeout | null = null;
+
+async function runHimkoshReconciliation() {
+  try {
+    await reconcileHimkoshTransactions();
+  } catch (error) {
+    console.error('[reconciliation] Error reconciling HimKosh transactions:', error);
+  }
+}
+
+export function startReconciliationScheduler() {
+  runHimkoshReconciliation();
+
+  reconciliationInterval = setInterval(() => {
+    runHimkoshReconciliation();
+  }, 60 * 60 * 1000);
+
+  console.log('[reconciliation] Scheduler started - will verify HimKosh transactions every hour');
+}
+
+export function stopReconciliationScheduler() {
+  if (reconciliationInterval) {
+    clearInterval(reconciliationInterval);
+    reconciliationInterval = null;
+    console.log('[reconciliation] Scheduler stopped');
+  }
+}
@@ -260,6 +260,17 @@ class LocalStorageProvider implements StorageProvider {
   }
 }
 
+/**
+ * Storage key for an object path as returned by /api/upload-url
+ * ("/<bucket>/<object name>"); other paths are used as they are
+ */
+export function toStorageKey(filePath: string): string {
+  if (!filePath.startsWith('/')) {
+    return filePath;
+  }
+  return filePath.split('/').slice(2).join('/');
+}
+
 /**
  * Factory function to create the appropriate storage provider
  */
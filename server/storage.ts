@@ -123,10 +123,10 @@ export class MemStorage implements IStorage {
 
   async getUserActiveApplication(userId: string): Promise<HomestayApplication | undefined> {
     // ONE-APPLICATION-PER-OWNER: Get active application (not in terminal states)
-    // Terminal states: rejected, withdrawn
+    // Terminal states: rejected, withdrawn, superseded (an approved application replaced by its renewal)
     // NOTE: 'approved' is NOT terminal - owners modify the SAME application after certificate
     // (for add/delete rooms, corrections, change of owner)
-    const terminalStatuses = ['rejected', 'withdrawn'];
+    const terminalStatuses = ['rejected', 'withdrawn', 'superseded'];
     return Array.from(this.applications.values()).find(
       app => app.userId === userId && !terminalStatuses.includes(app.status)
     );
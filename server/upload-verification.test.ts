@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { sniffMimeType } from './upload-verification';
+
+describe('sniffMimeType', () => {
+  it('recognises PDF, JPEG, PNG and WebP by their leading bytes', () => {
+    expect(sniffMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe('image/jpeg');
+    expect(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe('image/png');
+    expect(sniffMimeType(Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 ')]))).toBe('image/webp');
+  });
+
+  it('returns null for other content', () => {
+    expect(sniffMimeType(Buffer.from('<html><script>alert(1)</script>'))).toBeNull();
+    expect(sniffMimeType(Buffer.from('MZ\x90\x00'))).toBeNull();
+  });
+
+  it('rejects RIFF containers that are not WebP', () => {
+    expect(sniffMimeType(Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WAVE')]))).toBeNull();
+  });
+
+  it('rejects files shorter than the signature', () => {
+    expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+    expect(sniffMimeType(Buffer.from('%PDF'))).toBeNull();
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8]))).toBeNull();
+    expect(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
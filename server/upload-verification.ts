@@ -0,0 +1,364 @@
+/**
+ * Upload Verification
+ *
+ * Files reach object storage through presigned URLs, so the server never sees
+ * them on the way in. Before an uploaded object is recorded as a document it
+ * is finalised here:
+ * - the object path must be one issued for that application
+ *   (`/api/upload-url?applicationId=`), or to its owner while filling in the
+ *   application form, before the application exists
+ * - the stored object is read back and its type sniffed from magic bytes; the
+ *   client's fileSize and mimeType are ignored
+ * - the type and size must be allowed for the document type
+ * - the content is scanned for malware (VIRUS_SCANNER: 'clamd', 'local', 'none')
+ *
+ * Rejected objects are deleted from storage.
+ */
+
+import * as net from 'net';
+import { storageProvider, toStorageKey } from './storage-provider';
+import type { DocumentMetadata } from './document-service';
+
+export type SniffedMimeType = 'application/pdf' | 'image/jpeg' | 'image/png' | 'image/webp';
+
+interface DocumentTypeRule {
+  mimeTypes: SniffedMimeType[];
+  maxSize: number; // bytes
+}
+
+const MB = 1024 * 1024;
+const PDF_OR_IMAGE: SniffedMimeType[] = ['application/pdf', 'image/jpeg', 'image/png'];
+
+// Mirrors what the application form accepts for each document
+export const DOCUMENT_TYPE_RULES: Record<string, DocumentTypeRule> = {
+  revenue_papers: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  affidavit_section_29: { mimeTypes: ['application/pdf'], maxSize: 10 * MB },
+  undertaking_form_c: { mimeTypes: ['application/pdf'], maxSize: 10 * MB },
+  register_for_verification: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  bill_book: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  gst_certificate: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  building_sanction_order: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  fire_noc: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  lease_deed: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  property_photo: { mimeTypes: ['image/jpeg', 'image/png', 'image/webp'], maxSize: 5 * MB },
+  inspection_photo: { mimeTypes: ['image/jpeg', 'image/png', 'image/webp'], maxSize: 10 * MB },
+  objection_clarification: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  certificate_action_evidence: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+  payment_proof: { mimeTypes: PDF_OR_IMAGE, maxSize: 5 * MB },
+  treasury_refund_order: { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB },
+};
+
+// Document types without their own rule
+const DEFAULT_DOCUMENT_RULE: DocumentTypeRule = { mimeTypes: PDF_OR_IMAGE, maxSize: 10 * MB };
+
+const MIME_TYPE_LABELS: Record<SniffedMimeType, string> = {
+  'application/pdf': 'PDF',
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+};
+
+export function getDocumentTypeRule(documentType: string): DocumentTypeRule {
+  return DOCUMENT_TYPE_RULES[documentType] || DEFAULT_DOCUMENT_RULE;
+}
+
+/**
+ * Real type of a file from its leading bytes
+ */
+export function sniffMimeType(buffer: Buffer): SniffedMimeType | null {
+  if (buffer.length >= 5 && buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.length >= 12 && buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+export class UploadRejectedError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'UploadRejectedError';
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// Virus scanning
+// ============================================================================
+
+export interface ScanResult {
+  clean: boolean;
+  signature?: string; // Malware name when infected
+}
+
+export interface VirusScanner {
+  readonly name: string;
+  scan(content: Buffer): Promise<ScanResult>;
+}
+
+/**
+ * Parse a clamd reply: "stream: OK" or "stream: <signature> FOUND"
+ */
+function parseClamdReply(reply: string): ScanResult {
+  const line = reply.replace(/\0/g, '').trim();
+  if (line.endsWith(': OK')) {
+    return { clean: true };
+  }
+  const found = line.match(/^[^:]*: (.+) FOUND$/);
+  if (found) {
+    return { clean: false, signature: found[1] };
+  }
+  throw new Error(`Unexpected clamd reply: ${line}`);
+}
+
+/**
+ * ClamAV daemon over TCP (INSTREAM)
+ */
+class ClamdScanner implements VirusScanner {
+  readonly name = 'clamd';
+  private host: string;
+  private port: number;
+  private timeoutMs: number;
+
+  constructor() {
+    this.host = process.env.CLAMAV_HOST || '127.0.0.1';
+    this.port = parseInt(process.env.CLAMAV_PORT || '3310', 10);
+    this.timeoutMs = parseInt(process.env.CLAMAV_TIMEOUT_MS || '30000', 10);
+  }
+
+  scan(content: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error(`clamd did not reply within ${this.timeoutMs}ms`));
+      });
+      socket.on('error', reject);
+      socket.on('data', (chunk) => chunks.push(chunk));
+      socket.on('end', () => {
+        try {
+          resolve(parseClamdReply(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        // Chunks are prefixed with their length; a zero length ends the stream
+        const chunkSize = 64 * 1024;
+        for (let offset = 0; offset < content.length; offset += chunkSize) {
+          const chunk = content.subarray(offset, offset + chunkSize);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length, 0);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.write(Buffer.alloc(4));
+      });
+    });
+  }
+}
+
+// EICAR anti-virus test file (https://www.eicar.org)
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Stand-in for clamd where no daemon runs (development, testing).
+ * Answers the way clamd does, but only knows the EICAR test signature.
+ */
+class LocalScanner implements VirusScanner {
+  readonly name = 'local';
+
+  async scan(content: Buffer): Promise<ScanResult> {
+    const reply = content.includes(EICAR_SIGNATURE)
+      ? 'stream: Eicar-Test-Signature FOUND'
+      : 'stream: OK';
+    return parseClamdReply(reply);
+  }
+}
+
+class NoopScanner implements VirusScanner {
+  readonly name = 'none';
+
+  async scan(): Promise<ScanResult> {
+    return { clean: true };
+  }
+}
+
+/**
+ * Factory function to create the configured virus scanner
+ */
+export function createVirusScanner(): VirusScanner {
+  const scanner = process.env.VIRUS_SCANNER || 'local';
+
+  switch (scanner.toLowerCase()) {
+    case 'clamd':
+      return new ClamdScanner();
+    case 'local':
+      return new LocalScanner();
+    case 'none':
+      return new NoopScanner();
+    default:
+      console.warn(`[uploads] Unknown virus scanner '${scanner}', defaulting to local`);
+      return new LocalScanner();
+  }
+}
+
+// ============================================================================
+// Finalisation
+// ============================================================================
+
+export interface UploadedObject {
+  fileName: string;
+  filePath: string;
+}
+
+export interface FinalizeUploadOptions {
+  applicationId?: string; // Uploads issued for the application...
+  ownerId?: string; // ...or to the owner before it existed
+  documentType: string;
+  file: UploadedObject;
+}
+
+/**
+ * Object prefix issued by /api/upload-url for an application's uploads
+ */
+export function getApplicationUploadPrefix(applicationId: string): string {
+  return `applications/${applicationId}/`;
+}
+
+/**
+ * Object prefix issued by /api/upload-url to an owner uploading without an application
+ */
+export function getOwnerUploadPrefix(userId: string): string {
+  return `owners/${userId}/`;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
+
+export class UploadVerificationService {
+  private scanner: VirusScanner;
+
+  constructor(scanner: VirusScanner = createVirusScanner()) {
+    this.scanner = scanner;
+  }
+
+  /**
+   * Replace the virus scanner (e.g. with an external scanning service)
+   */
+  setScanner(scanner: VirusScanner): void {
+    this.scanner = scanner;
+  }
+
+  /**
+   * Verify an uploaded object and return the metadata to record for it.
+   * Throws UploadRejectedError; rejected objects are deleted.
+   */
+  async finalizeUpload(options: FinalizeUploadOptions): Promise<DocumentMetadata> {
+    const { applicationId, ownerId, documentType, file } = options;
+
+    const inScope = (!!applicationId && this.belongsToApplication(file.filePath, applicationId))
+      || (!!ownerId && this.belongsToOwner(file.filePath, ownerId));
+    if (!inScope) {
+      // Not ours to delete: it may be another application's object
+      throw new UploadRejectedError(`${file.fileName} was not uploaded for this application`, 403);
+    }
+
+    const key = toStorageKey(file.filePath);
+    let content: Buffer;
+    try {
+      content = await storageProvider.getFile(key);
+    } catch (error) {
+      console.error(`[uploads] Could not read ${file.filePath}:`, error);
+      throw new UploadRejectedError(`${file.fileName} was not found in storage. Please upload it again.`);
+    }
+
+    const rule = getDocumentTypeRule(documentType);
+    const mimeType = sniffMimeType(content);
+
+    if (content.length === 0) {
+      await this.reject(key, `${file.fileName} is empty`);
+    }
+    if (content.length > rule.maxSize) {
+      await this.reject(key, `${file.fileName} is ${formatMegabytes(content.length)}; the limit is ${formatMegabytes(rule.maxSize)}`, 413);
+    }
+    if (!mimeType || !rule.mimeTypes.includes(mimeType)) {
+      const allowed = rule.mimeTypes.map(type => MIME_TYPE_LABELS[type]).join(', ');
+      await this.reject(key, `${file.fileName} is not a valid file for this document. Allowed: ${allowed}`, 415);
+    }
+
+    let scan: ScanResult;
+    try {
+      scan = await this.scanner.scan(content);
+    } catch (error) {
+      // Keep the object: the client can retry finalising it
+      console.error(`[uploads] ${this.scanner.name} scan failed for ${file.filePath}:`, error);
+      throw new UploadRejectedError('Virus scanning is unavailable. Please try again shortly.', 503);
+    }
+    if (!scan.clean) {
+      console.warn(`[uploads] ${file.filePath} (${file.fileName}) infected: ${scan.signature}`);
+      await this.reject(key, `${file.fileName} failed the virus scan and has been removed`, 422);
+    }
+
+    return {
+      fileName: file.fileName,
+      filePath: file.filePath,
+      fileSize: content.length,
+      mimeType: mimeType!,
+      documentType,
+    };
+  }
+
+  /**
+   * Finalise several uploads for one document type; all must pass
+   */
+  async finalizeUploads(
+    applicationId: string | undefined,
+    documentType: string,
+    files: UploadedObject[],
+    ownerId?: string
+  ): Promise<DocumentMetadata[]> {
+    const verified: DocumentMetadata[] = [];
+    for (const file of files) {
+      verified.push(await this.finalizeUpload({ applicationId, ownerId, documentType, file }));
+    }
+    return verified;
+  }
+
+  belongsToApplication(filePath: string, applicationId: string): boolean {
+    return this.isUnderPrefix(filePath, getApplicationUploadPrefix(applicationId));
+  }
+
+  belongsToOwner(filePath: string, userId: string): boolean {
+    return this.isUnderPrefix(filePath, getOwnerUploadPrefix(userId));
+  }
+
+  private isUnderPrefix(filePath: string, prefix: string): boolean {
+    const key = toStorageKey(filePath);
+    return !key.split('/').includes('..') && (key.startsWith(prefix) || key.includes(`/${prefix}`));
+  }
+
+  private async reject(key: string, message: string, statusCode = 400): Promise<never> {
+    try {
+      await storageProvider.deleteFile(key);
+    } catch (error) {
+      console.error(`[uploads] Failed to delete rejected object ${key}:`, error);
+    }
+    throw new UploadRejectedError(message, statusCode);
+  }
+}
+
+export const uploadVerificationService = new UploadVerificationService();
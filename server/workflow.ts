@@ -0,0 +1,95 @@
+/**
+ * Application Workflow Service
+ *
+ * Applies transitions defined in shared/application-workflow.ts to homestay applications.
+ * This is the only place that writes `homestay_applications.status` after creation.
+ *
+ * Each transition:
+ * - Validates the action against the current status and actor role
+ * - Stamps the transition's timestamp/officer columns
+ * - Updates the status only if it has not changed concurrently
+ * - Records an application_actions row (previous → new status, feedback)
+ */
+
+import { db } from './db';
+import { homestayApplications, applicationActions, type HomestayApplication } from '@shared/schema';
+import {
+  assertTransition,
+  WorkflowTransitionError,
+  type WorkflowAction,
+} from '@shared/application-workflow';
+import { eq, and } from 'drizzle-orm';
+
+export interface WorkflowActor {
+  id: string;
+  role: string;
+}
+
+export interface TransitionOptions {
+  action: WorkflowAction;
+  actor: WorkflowActor;
+  feedback?: string | null;
+  issuesFound?: string[];
+  // Additional application columns to update alongside the status change
+  updates?: Partial<HomestayApplication>;
+}
+
+// The database, or a transaction the transition should be part of
+type WorkflowExecutor = Pick<typeof db, 'update' | 'insert'>;
+
+/**
+ * Move an application to the next status via a workflow action
+ * @param executor - Pass a transaction to commit the transition with other writes
+ * @throws WorkflowTransitionError if the transition is not allowed
+ */
+export async function transitionApplication(
+  application: HomestayApplication,
+  options: TransitionOptions,
+  executor: WorkflowExecutor = db
+): Promise<HomestayApplication> {
+  const transition = assertTransition(options.action, application.status, options.actor.role);
+  const now = new Date();
+
+  const sideEffects: Partial<HomestayApplication> = {};
+  for (const field of transition.timestamps || []) {
+    sideEffects[field] = now;
+  }
+  if (transition.actorField) {
+    sideEffects[transition.actorField] = options.actor.id;
+  }
+
+  // Route-supplied values win over defaults (e.g. an explicit inspection date)
+  const [updated] = await executor
+    .update(homestayApplications)
+    .set({
+      ...sideEffects,
+      ...options.updates,
+      status: transition.to,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(homestayApplications.id, application.id),
+        eq(homestayApplications.status, application.status!)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    throw new WorkflowTransitionError('stale_status', options.action, application.status);
+  }
+
+  await executor.insert(applicationActions).values({
+    applicationId: application.id,
+    officerId: options.actor.id,
+    action: options.action,
+    previousStatus: application.status,
+    newStatus: transition.to,
+    feedback: options.feedback || null,
+    issuesFound: options.issuesFound || null,
+  });
+
+  console.log(`[workflow] ${application.applicationNumber}: ${application.status} → ${transition.to} (${options.action})`);
+
+  return updated;
+}
@@ -0,0 +1,453 @@
+/**
+ * Homestay Application Workflow
+ *
+ * Single source of truth for application statuses and the transitions between them.
+ * Every status change on `homestay_applications` must go through a named action
+ * defined here so that:
+ * - Only legal transitions are possible (from-status → to-status)
+ * - Only the permitted role can trigger each transition
+ * - Side effects (timestamps, acting officer, application_actions audit rows) are consistent
+ *
+ * Primary flow (2025 Rules, PRD 2.0):
+ * draft → submitted → under_scrutiny (DA) → forwarded_to_dtdo → dtdo_review (DTDO)
+ *   → inspection_scheduled → inspection_under_review (DA report)
+ *   → verified_for_payment → approved (payment)
+ *
+ * Renewal flow (pre-filled from the approved application, no site inspection):
+ * draft → submitted → under_scrutiny (DA) → forwarded_to_dtdo → dtdo_review (DTDO)
+ *   → verified_for_payment → approved (payment); the renewed application becomes superseded
+ *
+ * Legacy district/state officer flow is kept so that existing records remain actionable.
+ */
+
+// ============================================================================
+// States
+// ============================================================================
+
+export const APPLICATION_STATUSES = [
+  'draft',
+  'submitted',
+  'under_scrutiny',
+  'reverted_to_applicant',
+  'forwarded_to_dtdo',
+  'dtdo_review',
+  'reverted_by_dtdo',
+  'inspection_scheduled',
+  'inspection_under_review',
+  'objection_raised',
+  'verified_for_payment',
+  'payment_pending',
+  'approved',
+  'superseded',
+  'rejected',
+  'withdrawn',
+  // Legacy district/state officer flow
+  'pending',
+  'document_verification',
+  'district_review',
+  'state_review',
+  'sent_back_for_corrections',
+  'site_inspection_scheduled',
+  'inspection_completed',
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export const TERMINAL_STATUSES: ApplicationStatus[] = ['rejected', 'withdrawn', 'superseded'];
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return typeof value === 'string' && (APPLICATION_STATUSES as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+export type WorkflowRole =
+  | 'property_owner'
+  | 'dealing_assistant'
+  | 'district_tourism_officer'
+  | 'district_officer'
+  | 'state_officer'
+  | 'system'; // Server-initiated transitions (payment gateway callbacks, schedulers)
+
+const DTDO_ROLES: WorkflowRole[] = ['district_tourism_officer', 'district_officer'];
+const LEGACY_OFFICER_ROLES: WorkflowRole[] = ['district_officer', 'state_officer'];
+
+/**
+ * Statuses each officer queue must show.
+ * Every non-terminal status that an officer acts on must appear in exactly one queue,
+ * otherwise applications in that status are invisible on dashboards.
+ */
+export const WORKFLOW_QUEUES: Record<'dealing_assistant' | 'district_tourism_officer', ApplicationStatus[]> = {
+  dealing_assistant: ['submitted', 'under_scrutiny', 'forwarded_to_dtdo', 'reverted_to_applicant'],
+  district_tourism_officer: [
+    'forwarded_to_dtdo',
+    'dtdo_review',
+    'inspection_scheduled',
+    'inspection_under_review',
+    'objection_raised',
+  ],
+};
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/** Application columns stamped with the transition time */
+export type WorkflowTimestampField =
+  | 'submittedAt'
+  | 'daReviewDate'
+  | 'daForwardedDate'
+  | 'dtdoReviewDate'
+  | 'districtReviewDate'
+  | 'stateReviewDate'
+  | 'siteInspectionScheduledDate'
+  | 'siteInspectionCompletedDate'
+  | 'approvedAt';
+
+/** Application columns recording the user who performed the transition */
+export type WorkflowActorField =
+  | 'daId'
+  | 'dtdoId'
+  | 'districtOfficerId'
+  | 'stateOfficerId'
+  | 'siteInspectionOfficerId';
+
+export interface WorkflowTransition {
+  from: ApplicationStatus[];
+  to: ApplicationStatus;
+  roles: WorkflowRole[];
+  label: string;
+  timestamps?: WorkflowTimestampField[];
+  actorField?: WorkflowActorField;
+}
+
+export const WORKFLOW_TRANSITIONS = {
+  // Property owner
+  submit: {
+    from: ['draft'],
+    to: 'submitted',
+    roles: ['property_owner'],
+    label: 'Application submitted',
+    timestamps: ['submittedAt'],
+  },
+  resubmit: {
+    from: ['reverted_to_applicant', 'reverted_by_dtdo', 'sent_back_for_corrections'],
+    to: 'submitted',
+    roles: ['property_owner'],
+    label: 'Application resubmitted with corrections',
+    timestamps: ['submittedAt'],
+  },
+
+  // Dealing Assistant - scrutiny
+  start_scrutiny: {
+    from: ['submitted'],
+    to: 'under_scrutiny',
+    roles: ['dealing_assistant'],
+    label: 'Scrutiny started',
+    timestamps: ['daReviewDate'],
+    actorField: 'daId',
+  },
+  forward_to_dtdo: {
+    from: ['under_scrutiny'],
+    to: 'forwarded_to_dtdo',
+    roles: ['dealing_assistant'],
+    label: 'Forwarded to DTDO',
+    timestamps: ['daForwardedDate'],
+    actorField: 'daId',
+  },
+  revert_to_applicant: {
+    from: ['under_scrutiny'],
+    to: 'reverted_to_applicant',
+    roles: ['dealing_assistant'],
+    label: 'Sent back to applicant by DA',
+    timestamps: ['daReviewDate'],
+    actorField: 'daId',
+  },
+
+  // DTDO - application review
+  dtdo_accept: {
+    from: ['forwarded_to_dtdo', 'dtdo_review'],
+    to: 'dtdo_review',
+    roles: DTDO_ROLES,
+    label: 'Accepted by DTDO',
+    timestamps: ['dtdoReviewDate'],
+    actorField: 'dtdoId',
+  },
+  dtdo_reject: {
+    from: ['forwarded_to_dtdo', 'dtdo_review'],
+    to: 'rejected',
+    roles: DTDO_ROLES,
+    label: 'Rejected by DTDO',
+    timestamps: ['dtdoReviewDate'],
+    actorField: 'dtdoId',
+  },
+  dtdo_revert: {
+    from: ['forwarded_to_dtdo', 'dtdo_review'],
+    to: 'reverted_by_dtdo',
+    roles: DTDO_ROLES,
+    label: 'Reverted to applicant by DTDO',
+    timestamps: ['dtdoReviewDate'],
+    actorField: 'dtdoId',
+  },
+
+  approve_renewal: {
+    from: ['forwarded_to_dtdo', 'dtdo_review'],
+    to: 'verified_for_payment',
+    roles: DTDO_ROLES,
+    label: 'Renewal approved by DTDO (no inspection required)',
+    timestamps: ['dtdoReviewDate'],
+    actorField: 'dtdoId',
+  },
+
+  // Site inspection
+  schedule_inspection: {
+    from: ['dtdo_review', 'objection_raised'],
+    to: 'inspection_scheduled',
+    roles: DTDO_ROLES,
+    label: 'Inspection scheduled',
+    timestamps: ['siteInspectionScheduledDate'],
+  },
+  submit_inspection_report: {
+    from: ['inspection_scheduled'],
+    to: 'inspection_under_review',
+    roles: ['dealing_assistant'],
+    label: 'Inspection report submitted',
+    timestamps: ['siteInspectionCompletedDate'],
+    actorField: 'siteInspectionOfficerId',
+  },
+  approve_inspection: {
+    from: ['inspection_under_review'],
+    to: 'verified_for_payment',
+    roles: DTDO_ROLES,
+    label: 'Inspection report approved',
+    timestamps: ['districtReviewDate'],
+    actorField: 'districtOfficerId',
+  },
+  reject_inspection: {
+    from: ['inspection_under_review', 'objection_raised'],
+    to: 'rejected',
+    roles: DTDO_ROLES,
+    label: 'Rejected after inspection',
+    timestamps: ['districtReviewDate'],
+    actorField: 'districtOfficerId',
+  },
+  raise_objections: {
+    from: ['inspection_under_review'],
+    to: 'objection_raised',
+    roles: DTDO_ROLES,
+    label: 'Objections raised on inspection',
+    timestamps: ['districtReviewDate'],
+    actorField: 'districtOfficerId',
+  },
+  auto_reject_objections: {
+    from: ['objection_raised'],
+    to: 'rejected',
+    roles: ['system'],
+    label: 'Rejected automatically: objections not answered in time',
+    timestamps: ['districtReviewDate'],
+  },
+
+  // Payment
+  payment_received: {
+    from: ['verified_for_payment', 'payment_pending'],
+    to: 'approved',
+    roles: ['system'],
+    label: 'Payment received, certificate issued',
+    timestamps: ['approvedAt'],
+  },
+  confirm_payment: {
+    from: ['verified_for_payment', 'payment_pending'],
+    to: 'approved',
+    roles: LEGACY_OFFICER_ROLES,
+    label: 'Payment confirmed by officer, certificate issued',
+    timestamps: ['approvedAt'],
+  },
+  verify_offline_payment: {
+    from: ['verified_for_payment', 'payment_pending'],
+    to: 'approved',
+    roles: ['dealing_assistant'],
+    label: 'Offline payment verified, certificate issued',
+    timestamps: ['approvedAt'],
+  },
+
+  // Renewal
+  supersede_by_renewal: {
+    from: ['approved'],
+    to: 'superseded',
+    roles: ['system'],
+    label: 'Superseded by approved renewal',
+  },
+
+  // Legacy district/state officer flow
+  district_approve: {
+    from: ['pending', 'district_review'],
+    to: 'state_review',
+    roles: ['district_officer'],
+    label: 'Approved at district level',
+    timestamps: ['districtReviewDate'],
+    actorField: 'districtOfficerId',
+  },
+  district_reject: {
+    from: ['pending', 'district_review'],
+    to: 'rejected',
+    roles: ['district_officer'],
+    label: 'Rejected at district level',
+    timestamps: ['districtReviewDate'],
+    actorField: 'districtOfficerId',
+  },
+  state_approve: {
+    from: ['state_review'],
+    to: 'approved',
+    roles: ['state_officer'],
+    label: 'Approved at state level',
+    timestamps: ['stateReviewDate', 'approvedAt'],
+    actorField: 'stateOfficerId',
+  },
+  state_reject: {
+    from: ['state_review'],
+    to: 'rejected',
+    roles: ['state_officer'],
+    label: 'Rejected at state level',
+    timestamps: ['stateReviewDate'],
+    actorField: 'stateOfficerId',
+  },
+  send_back_for_corrections: {
+    from: ['pending', 'document_verification', 'district_review', 'state_review', 'site_inspection_scheduled', 'inspection_completed'],
+    to: 'sent_back_for_corrections',
+    roles: LEGACY_OFFICER_ROLES,
+    label: 'Sent back for corrections',
+  },
+  schedule_site_inspection: {
+    from: ['pending', 'document_verification', 'district_review', 'state_review'],
+    to: 'site_inspection_scheduled',
+    roles: LEGACY_OFFICER_ROLES,
+    label: 'Site inspection scheduled',
+    timestamps: ['siteInspectionScheduledDate'],
+    actorField: 'siteInspectionOfficerId',
+  },
+  site_inspection_passed: {
+    from: ['site_inspection_scheduled'],
+    to: 'payment_pending',
+    roles: LEGACY_OFFICER_ROLES,
+    label: 'Site inspection passed',
+    timestamps: ['siteInspectionCompletedDate'],
+  },
+  site_inspection_corrections: {
+    from: ['site_inspection_scheduled'],
+    to: 'sent_back_for_corrections',
+    roles: LEGACY_OFFICER_ROLES,
+    label: 'Site inspection found corrections needed',
+    timestamps: ['siteInspectionCompletedDate'],
+  },
+  site_inspection_failed: {
+    from: ['site_inspection_scheduled'],
+    to: 'rejected',
+    roles: LEGACY_OFFICER_ROLES,
+    label: 'Rejected after site inspection',
+    timestamps: ['siteInspectionCompletedDate'],
+  },
+} satisfies Record<string, WorkflowTransition>;
+
+export type WorkflowAction = keyof typeof WORKFLOW_TRANSITIONS;
+
+export const WORKFLOW_ACTIONS = Object.keys(WORKFLOW_TRANSITIONS) as [WorkflowAction, ...WorkflowAction[]];
+
+export function getTransition(action: WorkflowAction): WorkflowTransition {
+  return WORKFLOW_TRANSITIONS[action];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export type WorkflowErrorCode = 'invalid_transition' | 'role_not_permitted' | 'stale_status';
+
+/**
+ * Raised when a status change is not allowed by the workflow.
+ * Routes return `toJSON()` as the response body with `statusCode`.
+ */
+export class WorkflowTransitionError extends Error {
+  readonly code: WorkflowErrorCode;
+  readonly action: WorkflowAction;
+  readonly currentStatus: string | null;
+  readonly targetStatus: ApplicationStatus;
+  readonly allowedFrom: ApplicationStatus[];
+
+  constructor(code: WorkflowErrorCode, action: WorkflowAction, currentStatus: string | null, message?: string) {
+    const transition = getTransition(action);
+    super(message || WorkflowTransitionError.defaultMessage(code, transition, currentStatus));
+    this.name = 'WorkflowTransitionError';
+    this.code = code;
+    this.action = action;
+    this.currentStatus = currentStatus;
+    this.targetStatus = transition.to;
+    this.allowedFrom = transition.from;
+  }
+
+  get statusCode(): number {
+    return this.code === 'role_not_permitted' ? 403 : 409;
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      action: this.action,
+      currentStatus: this.currentStatus,
+      targetStatus: this.targetStatus,
+      allowedFrom: this.allowedFrom,
+    };
+  }
+
+  private static defaultMessage(code: WorkflowErrorCode, transition: WorkflowTransition, currentStatus: string | null): string {
+    switch (code) {
+      case 'role_not_permitted':
+        return `Your role cannot perform "${transition.label}"`;
+      case 'stale_status':
+        return `Application status changed while processing (expected ${currentStatus}). Please refresh and try again.`;
+      default:
+        return `Cannot perform "${transition.label}" on an application in ${currentStatus || 'unknown'} status (allowed: ${transition.from.join(', ')})`;
+    }
+  }
+}
+
+/**
+ * Validate that `role` may perform `action` on an application in `currentStatus`.
+ * @returns The transition definition
+ * @throws WorkflowTransitionError if the transition is illegal
+ */
+export function assertTransition(
+  action: WorkflowAction,
+  currentStatus: string | null,
+  role: string
+): WorkflowTransition {
+  const transition = getTransition(action);
+
+  if (!transition.roles.includes(role as WorkflowRole)) {
+    throw new WorkflowTransitionError('role_not_permitted', action, currentStatus);
+  }
+
+  if (!currentStatus || !transition.from.includes(currentStatus as ApplicationStatus)) {
+    throw new WorkflowTransitionError('invalid_transition', action, currentStatus);
+  }
+
+  return transition;
+}
+
+export function canTransition(action: WorkflowAction, currentStatus: string | null, role: string): boolean {
+  try {
+    assertTransition(action, currentStatus, role);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List actions available to a role for an application in the given status
+ */
+export function getAvailableActions(currentStatus: string | null, role: string): WorkflowAction[] {
+  return WORKFLOW_ACTIONS.filter(action => canTransition(action, currentStatus, role));
+}
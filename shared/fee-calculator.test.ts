@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRenewalLateFee } from './fee-calculator';
+
+describe('calculateRenewalLateFee', () => {
+  const expiry = new Date('2026-01-01T00:00:00Z');
+
+  function daysAfterExpiry(days: number): Date {
+    return new Date(expiry.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  it('charges nothing before expiry or within the 30-day grace period', () => {
+    expect(calculateRenewalLateFee(5000, expiry, daysAfterExpiry(-10))).toEqual({ lateFee: 0, lateFeeMonths: 0 });
+    expect(calculateRenewalLateFee(5000, expiry, daysAfterExpiry(30))).toEqual({ lateFee: 0, lateFeeMonths: 0 });
+  });
+
+  it('charges 10% of the base fee per started month beyond the grace period', () => {
+    expect(calculateRenewalLateFee(5000, expiry, daysAfterExpiry(31))).toEqual({ lateFee: 500, lateFeeMonths: 1 });
+    expect(calculateRenewalLateFee(5000, expiry, daysAfterExpiry(60))).toEqual({ lateFee: 500, lateFeeMonths: 1 });
+    expect(calculateRenewalLateFee(5000, expiry, daysAfterExpiry(61))).toEqual({ lateFee: 1000, lateFeeMonths: 2 });
+  });
+
+  it('caps the late fee at 50% of the base fee', () => {
+    expect(calculateRenewalLateFee(5000, expiry, daysAfterExpiry(400))).toEqual({ lateFee: 2500, lateFeeMonths: 13 });
+  });
+
+  it('accepts date strings and a custom schedule', () => {
+    const rules = { gracePeriodDays: 0, monthlyPenaltyRate: 0.05, maxPenaltyRate: 1 };
+    expect(calculateRenewalLateFee(3333, '2026-01-01', '2026-02-15', rules)).toEqual({ lateFee: 333.3, lateFeeMonths: 2 });
+  });
+});
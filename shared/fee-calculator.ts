@@ -7,6 +7,11 @@
  * - 3-year discount: 10%
  * - Female owner discount: 5%
  * - Pangi sub-division discount: 50%
+ * - Renewals: same fee as registration, plus a late fee when renewed after the
+ *   grace period following expiry (not discounted)
+ *
+ * Rates are versioned fee schedules (fee_schedules table); the figures above are
+ * the 2025 defaults used until a schedule is stored.
  */
 
 export type CategoryType = 'diamond' | 'gold' | 'silver';
@@ -18,6 +23,11 @@ export interface FeeCalculationInput {
   validityYears: 1 | 3;
   ownerGender: 'male' | 'female' | 'other';
   isPangiSubDivision: boolean;
+  
+  // Renewal - late fee is charged when the previous certificate lapsed beyond the grace period
+  applicationType?: 'new_registration' | 'renewal';
+  previousExpiryDate?: Date | string | null;
+  asOfDate?: Date | string; // Date the fee is assessed (defaults to today)
 }
 
 export interface FeeBreakdown {
@@ -31,6 +41,10 @@ export interface FeeBreakdown {
   pangiDiscount: number; // 50% for Pangi sub-division
   totalDiscount: number; // Sum of all discounts
   
+  // Late fee (renewals only)
+  lateFee: number; // Penalty for renewing after the grace period
+  lateFeeMonths: number; // Months (or part) lapsed beyond the grace period
+  
   // Final amount
   finalFee: number; // Total payable
   
@@ -40,62 +54,120 @@ export interface FeeBreakdown {
 }
 
 /**
- * 2025 Fee Matrix - Flat fees by category and location
- * GST (18%) already included in these amounts
+ * Rates for one fee schedule version
  */
-const FEE_MATRIX: Record<CategoryType, Record<LocationType, number>> = {
-  diamond: {
-    mc: 18000,  // Municipal Corporation
-    tcp: 12000, // TCP/SDA/Nagar Panchayat
-    gp: 10000   // Gram Panchayat
+export interface FeeScheduleRates {
+  // Flat annual fees by category and location, GST included
+  feeMatrix: Record<CategoryType, Record<LocationType, number>>;
+  threeYearDiscountRate: number;
+  femaleOwnerDiscountRate: number;
+  pangiDiscountRate: number;
+  lateFee: {
+    gracePeriodDays: number; // No penalty within this many days after expiry
+    monthlyPenaltyRate: number; // Share of annual base fee per month (30 days) or part beyond the grace period
+    maxPenaltyRate: number; // Cap as a share of annual base fee
+  };
+}
+
+/**
+ * 2025 Rules - default fee schedule
+ */
+export const DEFAULT_FEE_RATES: FeeScheduleRates = {
+  feeMatrix: {
+    diamond: {
+      mc: 18000,  // Municipal Corporation
+      tcp: 12000, // TCP/SDA/Nagar Panchayat
+      gp: 10000   // Gram Panchayat
+    },
+    gold: {
+      mc: 12000,
+      tcp: 8000,
+      gp: 6000
+    },
+    silver: {
+      mc: 8000,
+      tcp: 5000,
+      gp: 3000
+    }
   },
-  gold: {
-    mc: 12000,
-    tcp: 8000,
-    gp: 6000
+  threeYearDiscountRate: 0.10,
+  femaleOwnerDiscountRate: 0.05,
+  pangiDiscountRate: 0.50,
+  lateFee: {
+    gracePeriodDays: 30,
+    monthlyPenaltyRate: 0.10,
+    maxPenaltyRate: 0.50,
   },
-  silver: {
-    mc: 8000,
-    tcp: 5000,
-    gp: 3000
-  }
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Calculate homestay registration fee based on 2025 Rules
+ * Late fee for a renewal filed on `asOfDate` for a certificate that expired on `previousExpiryDate`
  */
-export function calculateHomestayFee(input: FeeCalculationInput): FeeBreakdown {
+export function calculateRenewalLateFee(
+  baseFee: number,
+  previousExpiryDate: Date | string,
+  asOfDate: Date | string = new Date(),
+  rules: FeeScheduleRates['lateFee'] = DEFAULT_FEE_RATES.lateFee
+): { lateFee: number; lateFeeMonths: number } {
+  const daysLapsed = Math.floor((new Date(asOfDate).getTime() - new Date(previousExpiryDate).getTime()) / DAY_MS);
+  const daysBeyondGrace = daysLapsed - rules.gracePeriodDays;
+  
+  if (daysBeyondGrace <= 0) {
+    return { lateFee: 0, lateFeeMonths: 0 };
+  }
+  
+  const lateFeeMonths = Math.ceil(daysBeyondGrace / 30);
+  const lateFee = Math.min(
+    baseFee * rules.monthlyPenaltyRate * lateFeeMonths,
+    baseFee * rules.maxPenaltyRate
+  );
+  
+  return { lateFee: Math.round(lateFee * 100) / 100, lateFeeMonths };
+}
+
+/**
+ * Calculate homestay registration (or renewal) fee under a fee schedule
+ * (defaults to the 2025 Rules)
+ */
+export function calculateHomestayFee(input: FeeCalculationInput, rates: FeeScheduleRates = DEFAULT_FEE_RATES): FeeBreakdown {
   // Step 1: Get base fee from matrix
-  const baseFee = FEE_MATRIX[input.category][input.locationType];
+  const baseFee = rates.feeMatrix[input.category][input.locationType];
   
   // Step 2: Calculate total for validity period
   let totalBeforeDiscounts = baseFee * input.validityYears;
   
-  // Step 3: Apply 3-year discount (10% if applicable)
+  // Step 3: Apply 3-year discount (10% under 2025 Rules)
   let validityDiscount = 0;
   if (input.validityYears === 3) {
-    validityDiscount = totalBeforeDiscounts * 0.10;
+    validityDiscount = totalBeforeDiscounts * rates.threeYearDiscountRate;
   }
   
-  // Step 4: Apply female owner discount (5% if applicable)
+  // Step 4: Apply female owner discount (5% under 2025 Rules)
   // Applied AFTER validity discount
   let femaleOwnerDiscount = 0;
   if (input.ownerGender === 'female') {
     const afterValidityDiscount = totalBeforeDiscounts - validityDiscount;
-    femaleOwnerDiscount = afterValidityDiscount * 0.05;
+    femaleOwnerDiscount = afterValidityDiscount * rates.femaleOwnerDiscountRate;
   }
   
-  // Step 5: Apply Pangi discount (50% if applicable)
+  // Step 5: Apply Pangi discount (50% under 2025 Rules)
   // Applied AFTER validity and female discounts
   let pangiDiscount = 0;
   if (input.isPangiSubDivision) {
     const afterPreviousDiscounts = totalBeforeDiscounts - validityDiscount - femaleOwnerDiscount;
-    pangiDiscount = afterPreviousDiscounts * 0.50;
+    pangiDiscount = afterPreviousDiscounts * rates.pangiDiscountRate;
   }
   
+  // Step 6: Renewal late fee (not discounted)
+  const { lateFee, lateFeeMonths } = input.applicationType === 'renewal' && input.previousExpiryDate
+    ? calculateRenewalLateFee(baseFee, input.previousExpiryDate, input.asOfDate, rates.lateFee)
+    : { lateFee: 0, lateFeeMonths: 0 };
+  
   // Calculate totals
   const totalDiscount = validityDiscount + femaleOwnerDiscount + pangiDiscount;
-  const finalFee = totalBeforeDiscounts - totalDiscount;
+  const finalFee = totalBeforeDiscounts - totalDiscount + lateFee;
   
   const savingsAmount = totalDiscount;
   const savingsPercentage = totalBeforeDiscounts > 0 
@@ -109,12 +181,21 @@ export function calculateHomestayFee(input: FeeCalculationInput): FeeBreakdown {
     femaleOwnerDiscount: Math.round(femaleOwnerDiscount * 100) / 100,
     pangiDiscount: Math.round(pangiDiscount * 100) / 100,
     totalDiscount: Math.round(totalDiscount * 100) / 100,
+    lateFee,
+    lateFeeMonths,
     finalFee: Math.round(finalFee * 100) / 100,
     savingsAmount: Math.round(savingsAmount * 100) / 100,
     savingsPercentage: Math.round(savingsPercentage * 100) / 100
   };
 }
 
+/**
+ * Pangi sub-division (Chamba district, Pangi tehsil) qualifies for the Pangi discount
+ */
+export function isInPangiSubDivision(district?: string | null, tehsil?: string | null): boolean {
+  return district === 'Chamba' && tehsil === 'Pangi';
+}
+
 /**
  * Category requirement validation
  * 2025 Update: Categories based on AVERAGE room rate (total revenue / total rooms)
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateDocumentChecklist,
+  getOutstandingDocuments,
+  getUnverifiedRequiredDocuments,
+  type ChecklistDocument,
+  type DocumentRequirementInput,
+} from './required-documents';
+
+const silverGp: DocumentRequirementInput = { category: 'silver', locationType: 'gp', projectType: 'new_rooms' };
+
+const BASE_DOCUMENTS: ChecklistDocument[] = [
+  { id: 'rev', documentType: 'revenue_papers' },
+  { id: 'aff', documentType: 'affidavit_section_29' },
+  { id: 'und', documentType: 'undertaking_form_c' },
+  { id: 'reg', documentType: 'register_for_verification' },
+  { id: 'bill', documentType: 'bill_book' },
+  { id: 'photo1', documentType: 'property_photo' },
+  { id: 'photo2', documentType: 'property_photo' },
+];
+
+function itemFor(input: DocumentRequirementInput, documents: ChecklistDocument[], documentType: string) {
+  return evaluateDocumentChecklist(input, documents).find(item => item.documentType === documentType);
+}
+
+describe('evaluateDocumentChecklist', () => {
+  it('has nothing outstanding for a complete Silver GP application', () => {
+    expect(getOutstandingDocuments(evaluateDocumentChecklist(silverGp, BASE_DOCUMENTS))).toEqual([]);
+  });
+
+  it('needs two property photos', () => {
+    const item = itemFor(silverGp, BASE_DOCUMENTS.filter(doc => doc.id !== 'photo2'), 'property_photo');
+    expect(item).toMatchObject({ status: 'missing', count: 1, required: true, minCount: 2 });
+  });
+
+  it('requires GST, sanction order and fire NOC by category and location', () => {
+    const diamondMc = { category: 'diamond', locationType: 'mc', projectType: 'new_rooms' };
+    const outstanding = getOutstandingDocuments(evaluateDocumentChecklist(diamondMc, BASE_DOCUMENTS))
+      .map(item => item.documentType);
+    expect(outstanding).toEqual(['gst_certificate', 'building_sanction_order', 'fire_noc']);
+
+    const silver = evaluateDocumentChecklist(silverGp, BASE_DOCUMENTS);
+    expect(silver.filter(item => !item.required).map(item => item.documentType))
+      .toEqual(['gst_certificate', 'building_sanction_order', 'fire_noc']);
+  });
+
+  it('requires a lease deed for leased property', () => {
+    const leased = { ...silverGp, propertyOwnership: 'leased' };
+    expect(itemFor(leased, BASE_DOCUMENTS, 'lease_deed')).toMatchObject({ required: true, status: 'missing' });
+    expect(itemFor(silverGp, BASE_DOCUMENTS, 'lease_deed')).toBeUndefined();
+  });
+
+  it('marks a document rejected when only rejected files remain', () => {
+    const documents = BASE_DOCUMENTS.map(doc =>
+      doc.documentType === 'revenue_papers' ? { ...doc, verificationStatus: 'needs_correction' } : doc
+    );
+    expect(itemFor(silverGp, documents, 'revenue_papers')).toMatchObject({
+      status: 'rejected',
+      count: 0,
+      rejectedCount: 1,
+      documentIds: ['rev'],
+    });
+  });
+
+  it('ignores superseded and deleted files', () => {
+    const documents: ChecklistDocument[] = [
+      ...BASE_DOCUMENTS.filter(doc => doc.documentType !== 'bill_book'),
+      { id: 'old', documentType: 'bill_book', isLatestVersion: false },
+      { id: 'gone', documentType: 'bill_book', isDeleted: true },
+    ];
+    expect(itemFor(silverGp, documents, 'bill_book')).toMatchObject({ status: 'missing', count: 0, documentIds: [] });
+  });
+
+  it('holds forwarding until every required file is verified', () => {
+    const verified = BASE_DOCUMENTS.map(doc => ({ ...doc, verificationStatus: 'verified' }));
+    expect(getUnverifiedRequiredDocuments(evaluateDocumentChecklist(silverGp, verified))).toEqual([]);
+
+    const onePending = verified.map(doc => (doc.id === 'photo2' ? { ...doc, verificationStatus: 'pending' } : doc));
+    expect(getUnverifiedRequiredDocuments(evaluateDocumentChecklist(silverGp, onePending)).map(item => item.documentType))
+      .toEqual(['property_photo']);
+  });
+});
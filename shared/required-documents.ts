@@ -0,0 +1,192 @@
+/**
+ * Required Documents (ANNEXURE-II)
+ *
+ * Which documents an application must carry depends on its details:
+ * - Every homestay: revenue papers, Section 29 affidavit, Form-C undertaking,
+ *   register and bill book for verification, and at least 2 property photos
+ * - Diamond/Gold: GST registration certificate (Silver is exempt from GSTIN)
+ * - MC/TCP areas: building sanction order / approved map (optional in GP areas)
+ * - Fire safety NOC: Diamond category, and new projects in MC/TCP areas
+ * - Leased property: registered lease deed
+ *
+ * Used by the application form (step validation), POST /api/applications
+ * (submission is blocked while a required document is missing), the
+ * scrutiny screens (present / missing / rejected checklist) and forwarding to
+ * the DTDO (every required document must be verified by the DA).
+ */
+
+export interface DocumentRequirementInput {
+  category: string; // 'diamond', 'gold', 'silver'
+  locationType: string; // 'mc', 'tcp', 'gp'
+  projectType: string; // 'new_rooms', 'new_project'
+  propertyOwnership?: string | null; // 'owned', 'leased'
+}
+
+export interface DocumentRequirement {
+  documentType: string;
+  label: string;
+  description: string;
+  required: boolean;
+  minCount: number; // Files needed to satisfy a required document
+  reason?: string; // Why this document applies to the application
+}
+
+export type DocumentChecklistStatus = 'present' | 'missing' | 'rejected';
+
+export interface DocumentChecklistItem extends DocumentRequirement {
+  status: DocumentChecklistStatus;
+  count: number; // Latest-version files that are not rejected
+  rejectedCount: number; // Rejected or sent back for replacement
+  verifiedCount: number;
+  documentIds: string[];
+}
+
+// Latest-version document fields the checklist reads
+export interface ChecklistDocument {
+  id?: string;
+  documentType: string;
+  verificationStatus?: string | null;
+  isLatestVersion?: boolean | null;
+  isDeleted?: boolean | null;
+}
+
+export const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  revenue_papers: 'Revenue Papers (Jamabandi & Tatima)',
+  affidavit_section_29: 'Affidavit under Section 29',
+  undertaking_form_c: 'Undertaking in Form-C',
+  register_for_verification: 'Register for Verification',
+  bill_book: 'Bill Book',
+  property_photo: 'Property Photographs',
+  gst_certificate: 'GST Registration Certificate',
+  building_sanction_order: 'Building Sanction Order / Approved Map',
+  fire_noc: 'Fire Safety NOC',
+  lease_deed: 'Lease Deed',
+  inspection_photo: 'Inspection Photograph',
+  objection_clarification: 'Objection Clarification',
+  payment_proof: 'Payment Proof',
+};
+
+const URBAN_LOCATION_TYPES = ['mc', 'tcp'];
+
+// DA outcomes that require the owner to upload a new version
+export const REPLACEMENT_VERIFICATION_STATUSES = ['rejected', 'needs_correction'];
+
+export function getDocumentTypeLabel(documentType: string): string {
+  return DOCUMENT_TYPE_LABELS[documentType] || documentType.replace(/_/g, ' ');
+}
+
+function requirement(
+  documentType: string,
+  description: string,
+  required: boolean,
+  options: { minCount?: number; reason?: string } = {}
+): DocumentRequirement {
+  return {
+    documentType,
+    label: getDocumentTypeLabel(documentType),
+    description,
+    required,
+    minCount: options.minCount ?? 1,
+    reason: options.reason,
+  };
+}
+
+/**
+ * Required and optional documents for an application, in form order
+ */
+export function getDocumentRequirements(input: DocumentRequirementInput): DocumentRequirement[] {
+  const isPremiumCategory = input.category === 'diamond' || input.category === 'gold';
+  const isUrban = URBAN_LOCATION_TYPES.includes(input.locationType);
+  const needsFireNoc = input.category === 'diamond' || (isUrban && input.projectType === 'new_project');
+
+  const requirements: DocumentRequirement[] = [
+    requirement('revenue_papers', 'Land revenue records showing ownership', true),
+    requirement('affidavit_section_29', 'Sworn statement as per homestay regulations', true),
+    requirement('undertaking_form_c', 'Signed undertaking form as per prescribed format', true),
+    requirement('register_for_verification', 'Guest register or booking register', true),
+    requirement('bill_book', 'Sample billing/invoice book', true),
+    requirement('property_photo', 'Clear photos of property exterior, rooms, and facilities', true, { minCount: 2 }),
+    requirement('gst_certificate', 'GST registration certificate for the GSTIN entered', isPremiumCategory, {
+      reason: isPremiumCategory ? 'GSTIN is mandatory for Diamond and Gold categories' : undefined,
+    }),
+    requirement('building_sanction_order', 'Sanction order or approved building map from the local body', isUrban, {
+      reason: isUrban ? 'Property is in a Municipal Corporation / TCP area' : undefined,
+    }),
+    requirement('fire_noc', 'No Objection Certificate from HP Fire Services', needsFireNoc, {
+      reason: needsFireNoc
+        ? input.category === 'diamond' ? 'Diamond category property' : 'New project in a Municipal Corporation / TCP area'
+        : undefined,
+    }),
+  ];
+
+  if (input.propertyOwnership === 'leased') {
+    requirements.push(requirement('lease_deed', 'Registered lease deed for the property', true, {
+      reason: 'Property is leased',
+    }));
+  }
+
+  return requirements;
+}
+
+export function getRequiredDocuments(input: DocumentRequirementInput): DocumentRequirement[] {
+  return getDocumentRequirements(input).filter(req => req.required);
+}
+
+/**
+ * Check an application's latest-version documents against its requirements.
+ * Rejected files (and files sent back for replacement) do not count; a document
+ * with only such files is 'rejected'.
+ */
+export function evaluateDocumentChecklist(
+  input: DocumentRequirementInput,
+  documents: ChecklistDocument[]
+): DocumentChecklistItem[] {
+  const current = documents.filter(doc => doc.isLatestVersion !== false && !doc.isDeleted);
+
+  return getDocumentRequirements(input).map(req => {
+    const ofType = current.filter(doc => doc.documentType === req.documentType);
+    const accepted = ofType.filter(doc => !REPLACEMENT_VERIFICATION_STATUSES.includes(doc.verificationStatus || ''));
+    const rejectedCount = ofType.length - accepted.length;
+
+    let status: DocumentChecklistStatus = 'present';
+    if (accepted.length < req.minCount) {
+      status = rejectedCount > 0 ? 'rejected' : 'missing';
+    }
+
+    return {
+      ...req,
+      status,
+      count: accepted.length,
+      rejectedCount,
+      verifiedCount: accepted.filter(doc => doc.verificationStatus === 'verified').length,
+      documentIds: ofType.map(doc => doc.id).filter((id): id is string => !!id),
+    };
+  });
+}
+
+/**
+ * Required documents that still block submission
+ */
+export function getOutstandingDocuments(checklist: DocumentChecklistItem[]): DocumentChecklistItem[] {
+  return checklist.filter(item => item.required && item.status !== 'present');
+}
+
+/**
+ * Required documents the DA has not yet verified in full (blocks forwarding to the DTDO)
+ */
+export function getUnverifiedRequiredDocuments(checklist: DocumentChecklistItem[]): DocumentChecklistItem[] {
+  return checklist.filter(item => item.required && (item.status !== 'present' || item.verifiedCount < item.count));
+}
+
+/**
+ * "Property Photographs (1 of 2)", "Fire Safety NOC (rejected)"
+ */
+export function describeOutstandingDocument(item: DocumentChecklistItem): string {
+  if (item.minCount > 1) {
+    return `${item.label} (${item.count} of ${item.minCount})`;
+  }
+  if (item.status === 'rejected') {
+    return `${item.label} (rejected)`;
+  }
+  return item.label;
+}
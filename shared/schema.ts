@@ -1,7 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, boolean, timestamp, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { WORKFLOW_ACTIONS } from "./application-workflow";
+import type { FeeScheduleRates } from "./fee-calculator";
 
 // Users Table
 export const users = pgTable("users", {
@@ -115,6 +117,10 @@ export const homestayApplications = pgTable("homestay_applications", {
   userId: varchar("user_id").notNull().references(() => users.id),
   applicationNumber: varchar("application_number", { length: 50 }).notNull().unique(),
   
+  // Application Type (renewals are pre-filled from the approved application they renew)
+  applicationType: varchar("application_type", { length: 30 }).default('new_registration'), // 'new_registration', 'renewal'
+  parentApplicationId: varchar("parent_application_id").references((): AnyPgColumn => homestayApplications.id), // Approved application being renewed
+  
   // Property Details (ANNEXURE-I)
   propertyName: varchar("property_name", { length: 255 }).notNull(),
   category: varchar("category", { length: 20 }).notNull(), // 'diamond', 'gold', 'silver'
@@ -233,6 +239,8 @@ export const homestayApplications = pgTable("homestay_applications", {
   femaleOwnerDiscount: decimal("female_owner_discount", { precision: 10, scale: 2 }).default('0'), // 5% for female owners
   pangiDiscount: decimal("pangi_discount", { precision: 10, scale: 2 }).default('0'), // 50% for Pangi sub-division
   totalDiscount: decimal("total_discount", { precision: 10, scale: 2 }).default('0'), // Sum of all discounts
+  lateFee: decimal("late_fee", { precision: 10, scale: 2 }).default('0'), // Renewal late fee (included in totalFee)
+  feeScheduleVersion: integer("fee_schedule_version"), // Fee schedule in force at submission (fee_schedules.version)
   totalFee: decimal("total_fee", { precision: 10, scale: 2 }), // Final payable amount
   
   // Legacy fields (keeping for backward compatibility - can be removed in future migration)
@@ -240,7 +248,7 @@ export const homestayApplications = pgTable("homestay_applications", {
   gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }),
   
   // Workflow
-  status: varchar("status", { length: 50 }).default('draft'), // 'draft', 'submitted', 'document_verification', 'clarification_requested', 'site_inspection_scheduled', 'site_inspection_complete', 'payment_pending', 'approved', 'rejected'
+  status: varchar("status", { length: 50 }).default('draft'), // ApplicationStatus - changed only via workflow transitions (shared/application-workflow.ts)
   currentStage: varchar("current_stage", { length: 50 }), // 'document_upload', 'document_verification', 'site_inspection', 'payment', 'approved'
   currentPage: integer("current_page").default(1), // Track which page of the form user is on (1-6) for draft resume
   
@@ -462,6 +470,28 @@ export type InsertHomestayApplication = z.infer<typeof insertHomestayApplication
 export type DraftHomestayApplication = z.infer<typeof draftHomestayApplicationSchema>;
 export type HomestayApplication = typeof homestayApplications.$inferSelect;
 
+// Image renditions, stored next to the original (EXIF stripped, orientation applied)
+export type ImageRenditionSize = 'thumbnail' | 'web';
+
+export interface ImageRendition {
+  filePath: string; // Storage key
+  width: number;
+  height: number;
+  fileSize: number;
+  mimeType: string;
+}
+
+// Read from the original's EXIF before it is stripped from the renditions
+export interface ImageMetadata {
+  width: number;
+  height: number;
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+}
+
 // Documents Table
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -475,6 +505,13 @@ export const documents = pgTable("documents", {
   mimeType: varchar("mime_type", { length: 100 }).notNull(),
   fileCategory: varchar("file_category", { length: 50 }).notNull().default('document'), // 'document', 'image', 'photo' - for organizing storage
   
+  // Photos (property_photo, inspection_photo): renditions and extracted EXIF, set by server/image-processing.ts
+  renditions: jsonb("renditions").$type<Partial<Record<ImageRenditionSize, ImageRendition>>>(),
+  imageMetadata: jsonb("image_metadata").$type<ImageMetadata>(),
+  imageProcessedAt: timestamp("image_processed_at"),
+  imageProcessingAttempts: integer("image_processing_attempts").notNull().default(0), // Failed attempts; processPending() gives up after a few
+  imageProcessingFailedAt: timestamp("image_processing_failed_at"),
+  
   // Versioning Support
   version: integer("version").notNull().default(1), // Document version number
   previousVersionId: varchar("previous_version_id").references((): any => documents.id), // Reference to previous version
@@ -503,7 +540,29 @@ export const documents = pgTable("documents", {
   verificationNotes: text("verification_notes"),
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, uploadDate: true, deletedAt: true });
+const imageRenditionSchema = z.object({
+  filePath: z.string(),
+  width: z.number(),
+  height: z.number(),
+  fileSize: z.number(),
+  mimeType: z.string(),
+});
+
+export const insertDocumentSchema = createInsertSchema(documents, {
+  renditions: z.object({
+    thumbnail: imageRenditionSchema.optional(),
+    web: imageRenditionSchema.optional(),
+  }).nullable().optional(),
+  imageMetadata: z.object({
+    width: z.number(),
+    height: z.number(),
+    capturedAt: z.string().optional(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    cameraMake: z.string().optional(),
+    cameraModel: z.string().optional(),
+  }).nullable().optional(),
+}).omit({ id: true, uploadDate: true, deletedAt: true });
 export const selectDocumentSchema = createSelectSchema(documents);
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
@@ -515,7 +574,7 @@ export const documentAuditLogs = pgTable("document_audit_logs", {
   applicationId: varchar("application_id").notNull().references(() => homestayApplications.id, { onDelete: 'cascade' }),
   
   // Action Details
-  action: varchar("action", { length: 50 }).notNull(), // 'upload', 'view', 'download', 'verify', 'delete'
+  action: varchar("action", { length: 50 }).notNull(), // 'upload', 'view', 'download', 'verify', 'reject', 'request_replacement', 'reset_verification', 'delete'
   actionBy: varchar("action_by").notNull().references(() => users.id), // Who performed the action
   actionAt: timestamp("action_at").defaultNow(),
   
@@ -541,10 +600,25 @@ export const payments = pgTable("payments", {
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   
   // Payment Gateway
-  paymentGateway: varchar("payment_gateway", { length: 50 }), // 'himkosh', 'razorpay', 'ccavenue', 'payu', 'upi_qr'
-  gatewayTransactionId: varchar("gateway_transaction_id", { length: 255 }).unique(),
-  paymentMethod: varchar("payment_method", { length: 50 }), // 'upi', 'netbanking', 'card', 'wallet'
-  paymentStatus: varchar("payment_status", { length: 50 }).default('pending'), // 'pending', 'success', 'failed', 'refunded'
+  paymentGateway: varchar("payment_gateway", { length: 50 }), // 'himkosh', 'razorpay', 'ccavenue', 'payu', 'offline'
+  gatewayOrderId: varchar("gateway_order_id", { length: 255 }).unique(), // Order reference sent to the gateway (HimKosh appRefNo, Razorpay order id, PayU txnid, CCAvenue order_id)
+  gatewayTransactionId: varchar("gateway_transaction_id", { length: 255 }).unique(), // Gateway's payment id (HimKosh GRN, razorpay_payment_id, mihpayid, tracking_id)
+  paymentMethod: varchar("payment_method", { length: 50 }), // 'upi', 'netbanking', 'card', 'wallet'; offline: 'challan', 'upi'
+  paymentStatus: varchar("payment_status", { length: 50 }).default('pending'), // 'pending', 'pending_verification' (offline proof awaiting DA), 'success', 'failed', 'rejected' (offline proof), 'partially_refunded', 'refunded'
+  gatewayResponse: jsonb("gateway_response"), // Last verified callback/status response
+  failureReason: text("failure_reason"),
+  
+  // Offline payments (physical challan or departmental UPI QR), verified by the DA
+  offlineReference: varchar("offline_reference", { length: 100 }), // Challan number or UTR as submitted, normalised (duplicate check)
+  proofDocuments: jsonb("proof_documents").$type<Array<{
+    documentId?: string; // documents.id when stored via DocumentService
+    fileName: string;
+    fileUrl: string;
+    uploadedAt: string;
+  }>>(),
+  verifiedBy: varchar("verified_by").references(() => users.id),
+  verifiedAt: timestamp("verified_at"),
+  verificationNotes: text("verification_notes"),
   
   // Payment Link & QR Code (2025 Rules - payment after approval)
   paymentLink: text("payment_link"),
@@ -556,15 +630,82 @@ export const payments = pgTable("payments", {
   completedAt: timestamp("completed_at"),
   
   // Receipt
-  receiptNumber: varchar("receipt_number", { length: 100 }).unique(),
+  receiptNumber: varchar("receipt_number", { length: 100 }).unique(), // e.g. HPT/RCPT/2025-26/000042 (gap-free per financial year)
   receiptUrl: text("receipt_url"),
+  receiptIssuedAt: timestamp("receipt_issued_at"),
 });
 
-export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, initiatedAt: true });
+export const insertPaymentSchema = createInsertSchema(payments, {
+  proofDocuments: z.array(z.object({
+    documentId: z.string().optional(),
+    fileName: z.string(),
+    fileUrl: z.string(),
+    uploadedAt: z.string(),
+  })).nullable().optional(),
+}).omit({ id: true, initiatedAt: true });
 export const selectPaymentSchema = createSelectSchema(payments);
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
 
+// Receipt Sequences - Last receipt number issued in each financial year (row-locked per issuance)
+export const receiptSequences = pgTable("receipt_sequences", {
+  financialYear: varchar("financial_year", { length: 7 }).primaryKey(), // e.g. '2025-26'
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type ReceiptSequence = typeof receiptSequences.$inferSelect;
+
+// Payment Refunds Table - Refunds raised against a payment (partial refunds allowed)
+export const paymentRefunds = pgTable("payment_refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id),
+  applicationId: varchar("application_id").notNull().references(() => homestayApplications.id),
+  
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: varchar("reason", { length: 50 }).notNull(), // 'rejected_after_payment', 'duplicate_payment', 'category_downgrade', 'other'
+  remarks: text("remarks").notNull(),
+  
+  // Workflow: requested → approved → (processing →) completed; or rejected / failed
+  status: varchar("status", { length: 30 }).notNull().default('requested'),
+  method: varchar("method", { length: 30 }), // 'gateway' (refund API) or 'treasury' (manual refund order)
+  
+  requestedBy: varchar("requested_by").notNull().references(() => users.id), // DTDO
+  requestedAt: timestamp("requested_at").defaultNow(),
+  reviewedBy: varchar("reviewed_by").references(() => users.id), // State officer or admin
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  
+  // Gateway refunds
+  gatewayRefundId: varchar("gateway_refund_id", { length: 255 }),
+  gatewayResponse: jsonb("gateway_response"),
+  
+  // Treasury refunds (HimKosh and manual payments)
+  treasuryOrderNumber: varchar("treasury_order_number", { length: 100 }),
+  proofDocuments: jsonb("proof_documents").$type<Array<{
+    documentId?: string; // documents.id when stored via DocumentService
+    fileName: string;
+    fileUrl: string;
+    uploadedAt: string;
+  }>>(),
+  
+  processedBy: varchar("processed_by").references(() => users.id),
+  processedAt: timestamp("processed_at"),
+  failureReason: text("failure_reason"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPaymentRefundSchema = createInsertSchema(paymentRefunds, {
+  reason: z.enum(['rejected_after_payment', 'duplicate_payment', 'category_downgrade', 'other']),
+  remarks: z.string().min(10, "Remarks must be at least 10 characters"),
+}).omit({ id: true, requestedAt: true, createdAt: true, updatedAt: true });
+
+export const selectPaymentRefundSchema = createSelectSchema(paymentRefunds);
+export type InsertPaymentRefund = z.infer<typeof insertPaymentRefundSchema>;
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+
 // Notifications Table
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -601,7 +742,7 @@ export const applicationActions = pgTable("application_actions", {
   applicationId: varchar("application_id").notNull().references(() => homestayApplications.id, { onDelete: 'cascade' }),
   officerId: varchar("officer_id").notNull().references(() => users.id),
   
-  action: varchar("action", { length: 50 }).notNull(), // 'approved', 'rejected', 'sent_back_for_corrections', 'clarification_requested', 'site_inspection_scheduled', etc.
+  action: varchar("action", { length: 50 }).notNull(), // Workflow action (see shared/application-workflow.ts), e.g. 'forward_to_dtdo', 'dtdo_accept', 'raise_objections'
   previousStatus: varchar("previous_status", { length: 50 }),
   newStatus: varchar("new_status", { length: 50 }),
   
@@ -613,7 +754,7 @@ export const applicationActions = pgTable("application_actions", {
 });
 
 export const insertApplicationActionSchema = createInsertSchema(applicationActions, {
-  action: z.enum(['approved', 'rejected', 'sent_back_for_corrections', 'clarification_requested', 'site_inspection_scheduled', 'document_verified', 'payment_verified']),
+  action: z.enum(WORKFLOW_ACTIONS),
   feedback: z.string().min(10, "Feedback must be at least 10 characters"),
 }).omit({ id: true, createdAt: true });
 
@@ -731,11 +872,15 @@ export const himkoshTransactions = pgTable("himkosh_transactions", {
   doubleVerificationDate: timestamp("double_verification_date"),
   doubleVerificationData: jsonb("double_verification_data"),
   
+  // Reconciliation (callback outcome vs. CTP verification)
+  reconciliationIssue: varchar("reconciliation_issue", { length: 50 }), // 'failed_but_charged', 'success_not_confirmed', 'grn_mismatch', 'amount_mismatch'
+  reconciliationNote: text("reconciliation_note"),
+  
   // Challan Details
   challanPrintUrl: text("challan_print_url"), // URL to print challan from CTP
   
   // Transaction Status
-  transactionStatus: varchar("transaction_status", { length: 50 }).default('initiated'), // 'initiated', 'redirected', 'success', 'failed', 'verified'
+  transactionStatus: varchar("transaction_status", { length: 50 }).default('initiated'), // 'initiated', 'redirected', 'success', 'failed', 'amount_mismatch', 'verified'
   
   // Timestamps
   initiatedAt: timestamp("initiated_at").defaultNow(),
@@ -911,6 +1056,7 @@ export const inspectionReports = pgTable("inspection_reports", {
   
   // Supporting Documents (Photos from inspection)
   inspectionPhotos: jsonb("inspection_photos").$type<Array<{
+    documentId?: string; // documents.id (inspection_photo), which holds the renditions
     fileName: string;
     fileUrl: string;
     caption?: string;
@@ -1004,7 +1150,7 @@ export const objections = pgTable("objections", {
   responseDeadline: timestamp("response_deadline"), // Deadline for applicant to respond
   
   // Status
-  status: varchar("status", { length: 50 }).default('pending'), // 'pending', 'responded', 'resolved', 'escalated'
+  status: varchar("status", { length: 50 }).default('pending'), // 'pending', 'responded', 'resolved', 'rejected', 'escalated'
   
   // Resolution
   resolutionNotes: text("resolution_notes"),
@@ -1043,6 +1189,7 @@ export const clarifications = pgTable("clarifications", {
   
   // Supporting Documents
   supportingDocuments: jsonb("supporting_documents").$type<Array<{
+    documentId?: string; // documents.id when stored via DocumentService
     fileName: string;
     fileUrl: string;
     documentType: string;
@@ -1075,7 +1222,7 @@ export const certificates = pgTable("certificates", {
   
   // Certificate Details
   certificateNumber: varchar("certificate_number", { length: 50 }).notNull().unique(), // e.g., HP/HST/2025/KLU/001
-  certificateType: varchar("certificate_type", { length: 50 }).default('homestay_registration'), // Future: renewal, amendment
+  certificateType: varchar("certificate_type", { length: 50 }).default('homestay_registration'), // 'homestay_registration', 'renewal'
   
   // Validity
   issuedDate: timestamp("issued_date").notNull(),
@@ -1108,7 +1255,9 @@ export const certificates = pgTable("certificates", {
   
   // Renewal Tracking
   renewalReminderSent: boolean("renewal_reminder_sent").default(false),
+  lastReminderOffsetDays: integer("last_reminder_offset_days"), // Smallest reminder offset (days before expiry) already sent
   renewalApplicationId: varchar("renewal_application_id").references(() => homestayApplications.id), // Link to renewal application
+  renewedFromCertificateId: varchar("renewed_from_certificate_id").references((): AnyPgColumn => certificates.id), // Certificate this one renews
   
   // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
@@ -1132,6 +1281,39 @@ export const selectCertificateSchema = createSelectSchema(certificates);
 export type InsertCertificate = z.infer<typeof insertCertificateSchema>;
 export type Certificate = typeof certificates.$inferSelect;
 
+// Certificate Actions Table - Audit trail for suspension, revocation and reinstatement
+export const certificateActions = pgTable("certificate_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  certificateId: varchar("certificate_id").notNull().references(() => certificates.id, { onDelete: 'cascade' }),
+  applicationId: varchar("application_id").notNull().references(() => homestayApplications.id, { onDelete: 'cascade' }),
+  performedBy: varchar("performed_by").notNull().references(() => users.id), // DTDO user ID
+  
+  action: varchar("action", { length: 50 }).notNull(), // 'suspend', 'revoke', 'lift_suspension'
+  previousStatus: varchar("previous_status", { length: 50 }),
+  newStatus: varchar("new_status", { length: 50 }).notNull(),
+  
+  reason: text("reason").notNull(),
+  
+  // Evidence Documents
+  evidenceDocuments: jsonb("evidence_documents").$type<Array<{
+    documentId?: string; // documents.id when stored via DocumentService
+    fileName: string;
+    fileUrl: string;
+    uploadedAt: string;
+  }>>(),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCertificateActionSchema = createInsertSchema(certificateActions, {
+  action: z.enum(['suspend', 'revoke', 'lift_suspension']),
+  reason: z.string().min(10, "Reason must be at least 10 characters"),
+}).omit({ id: true, createdAt: true });
+
+export const selectCertificateActionSchema = createSelectSchema(certificateActions);
+export type InsertCertificateAction = z.infer<typeof insertCertificateActionSchema>;
+export type CertificateAction = typeof certificateActions.$inferSelect;
+
 // System Settings Table - Stores global configuration
 export const systemSettings = pgTable("system_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1165,6 +1347,53 @@ export const selectSystemSettingSchema = createSelectSchema(systemSettings);
 export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
 export type SystemSetting = typeof systemSettings.$inferSelect;
 
+// Fee Schedules - Versioned, effective-dated fee rates (replaces compiled-in constants)
+// A schedule is in force from its effectiveFrom until the next version takes effect.
+// Schedules already in force are never edited so historic fees can be recomputed.
+export const feeSchedules = pgTable("fee_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  rates: jsonb("rates").$type<FeeScheduleRates>().notNull(),
+  notes: text("notes"), // e.g., notification reference for the policy change
+  
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const feeMatrixRowSchema = z.object({
+  mc: z.number().min(0),
+  tcp: z.number().min(0),
+  gp: z.number().min(0),
+});
+
+export const feeScheduleRatesSchema = z.object({
+  feeMatrix: z.object({
+    diamond: feeMatrixRowSchema,
+    gold: feeMatrixRowSchema,
+    silver: feeMatrixRowSchema,
+  }),
+  threeYearDiscountRate: z.number().min(0).max(1),
+  femaleOwnerDiscountRate: z.number().min(0).max(1),
+  pangiDiscountRate: z.number().min(0).max(1),
+  lateFee: z.object({
+    gracePeriodDays: z.number().int().min(0).max(365),
+    monthlyPenaltyRate: z.number().min(0).max(1),
+    maxPenaltyRate: z.number().min(0).max(10),
+  }),
+});
+
+export const insertFeeScheduleSchema = createInsertSchema(feeSchedules, {
+  effectiveFrom: z.coerce.date(),
+  rates: feeScheduleRatesSchema,
+  notes: z.string().optional().or(z.literal('')),
+}).omit({ id: true, version: true, createdBy: true, createdAt: true, updatedAt: true });
+
+export const selectFeeScheduleSchema = createSelectSchema(feeSchedules);
+export type InsertFeeSchedule = z.infer<typeof insertFeeScheduleSchema>;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+
 // ====================================================================
 // LGD Master Tables (Local Government Directory - Himachal Pradesh)
 // ====================================================================